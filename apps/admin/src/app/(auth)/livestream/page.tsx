@@ -5,6 +5,7 @@ import { StreamViewer } from "@/components/stream/stream-viewer";
 import { PlaybackControls } from "@/components/stream/playback-controls";
 import { StreamStatus } from "@/components/stream/stream-status";
 import { ChatControls } from "@/components/stream/chat-controls";
+import { StreamOutputs } from "@/components/stream/stream-outputs";
 import { useStreamState } from "@/hooks/useStreamState";
 import { useState, useEffect, useRef } from "react";
 import type { StreamState } from "@sothebais/packages/types/stream";
@@ -106,6 +107,7 @@ export default function LivestreamPage() {
             <ChatControls
               onSendMessage={sendChatMessage}
             />
+            <StreamOutputs />
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { forwardToOutputs } from '../forward';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return forwardToOutputs(`/${encodeURIComponent(params.id)}`, { method: 'PATCH', body: await request.text() });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return forwardToOutputs(`/${encodeURIComponent(params.id)}`, { method: 'DELETE' });
+}
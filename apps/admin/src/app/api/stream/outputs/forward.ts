@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+
+const STREAM_MANAGER_URL = process.env['STREAM_MANAGER_URL'] || 'http://stream-manager:4200';
+
+/**
+ * Forward an outputs request to the stream manager and pass its
+ * `{ success, data | error, details }` response through unchanged
+ */
+export async function forwardToOutputs(path: string, init: RequestInit = {}) {
+  try {
+    const response = await fetch(`${STREAM_MANAGER_URL}/outputs${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'User-Agent': 'admin-frontend'
+      },
+      cache: 'no-store'
+    });
+
+    const responseText = await response.text();
+    try {
+      return NextResponse.json(JSON.parse(responseText), { status: response.status });
+    } catch {
+      console.error('[Outputs] Failed to parse response:', { status: response.status, text: responseText });
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid response from stream manager',
+          details: `Failed to parse JSON response. Raw response: ${responseText}`
+        },
+        { status: 502 }
+      );
+    }
+  } catch (error) {
+    console.error('[Outputs] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to reach stream manager',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 502 }
+    );
+  }
+}
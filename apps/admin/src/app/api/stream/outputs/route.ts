@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { forwardToOutputs } from './forward';
+
+export async function GET() {
+  return forwardToOutputs('');
+}
+
+export async function POST(request: NextRequest) {
+  return forwardToOutputs('', { method: 'POST', body: await request.text() });
+}
@@ -3,10 +3,11 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Icon } from "@/components/ui/icon";
 import { useEffect, useState } from "react";
-import { Loader2, TrendingDown, TrendingUp, Minus, Server, Box, Activity, Cpu, HardDrive, Network } from "lucide-react";
+import { Loader2, TrendingDown, TrendingUp, Minus, Server, Box, Activity, Cpu, HardDrive, Network, Inbox } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { StatusCard } from "@/components/ui/status-card";
 import { useServiceStatus } from "@/hooks/useServiceStatus";
+import { useDeadLetterStats } from "@/hooks/useDeadLetterStats";
 import { CORE_SERVICES, ServiceGroup, Service } from "@/types";
 import { UserButton } from "@clerk/nextjs";
 import { useUser } from "@clerk/nextjs";
@@ -74,6 +75,7 @@ export function SystemMetrics() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { data: services, isLoading: servicesLoading } = useServiceStatus();
+  const { data: deadLetters, isLoading: deadLettersLoading } = useDeadLetterStats();
   const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
   const [isSystemConnected, setIsSystemConnected] = useState<boolean>(false);
 
@@ -127,6 +129,11 @@ export function SystemMetrics() {
   const runningServices = allServices.filter(([_, health]) => health.status === 'running');
   const errorServices = allServices.filter(([_, health]) => health.status === 'error');
   const systemLoad = Math.min(100, Math.round((runningServices.length / allServices.length) * 100));
+  const deadLetterDepth = !deadLetters
+    ? '-'
+    : deadLetters.quarantined > 0
+      ? `${deadLetters.depth} (${deadLetters.quarantined} quarantined)`
+      : deadLetters.depth.toString();
 
   const LoadingCard = ({ title }: { title: string }) => (
     <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6">
@@ -168,7 +175,7 @@ export function SystemMetrics() {
       <CardContent>
         <div className="space-y-6">
           {/* Service Status Overview */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <StatusCard
               title="Active Services"
               value={`${runningServices.length}/${allServices.length}`}
@@ -187,6 +194,12 @@ export function SystemMetrics() {
               icon={Activity}
               loading={servicesLoading}
             />
+            <StatusCard
+              title="Dead Letters"
+              value={deadLetterDepth}
+              icon={Inbox}
+              loading={deadLettersLoading}
+            />
           </div>
 
           {/* System Metrics */}
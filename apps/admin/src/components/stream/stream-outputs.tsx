@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useStreamOutputs } from "@/hooks/useStreamOutputs";
+import { cn } from "@/lib/utils";
+import { useState } from "react";
+import type { StreamOutputStatus } from "@sothebais/packages/types/stream";
+
+function getStatusConfig(output: StreamOutputStatus) {
+  if (!output.enabled) {
+    return { text: 'Disabled', className: 'border-slate-200 bg-slate-50 text-slate-500' };
+  }
+  switch (output.relay?.state) {
+    case 'LIVE':
+      return { text: 'Live', className: 'border-green-200 bg-green-50 text-green-700' };
+    case 'CONNECTING':
+      return { text: 'Connecting', className: 'border-yellow-200 bg-yellow-50 text-yellow-700' };
+    case 'RECONNECTING':
+      return { text: 'Reconnecting', className: 'border-red-200 bg-red-50 text-red-700' };
+    default:
+      // Enabled, waiting for the stream to start
+      return { text: 'Standby', className: 'border-slate-200 bg-slate-50 text-slate-700' };
+  }
+}
+
+export function StreamOutputs() {
+  const { outputs, error, isLoading, addOutput, setEnabled, removeOutput } = useStreamOutputs();
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+
+  const handleAdd = async () => {
+    if (!name.trim() || !url.trim()) return;
+    if (await addOutput({ name, url })) {
+      setName("");
+      setUrl("");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Outputs</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-4">
+          {error && <div className="text-sm text-red-500">Error: {error}</div>}
+
+          {!isLoading && outputs.length === 0 && (
+            <div className="text-sm text-slate-500">No outputs. Add an RTMP destination below.</div>
+          )}
+
+          {outputs.map((output) => {
+            const status = getStatusConfig(output);
+            return (
+              <div key={output.id} className="flex items-center justify-between gap-4 rounded-md border border-slate-200 p-3">
+                <div className="flex min-w-0 flex-col gap-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{output.name}</span>
+                    <span className={cn("rounded-md border px-2 py-0.5 text-xs font-medium", status.className)}>
+                      {status.text}
+                    </span>
+                  </div>
+                  <span className="truncate text-xs text-slate-500">{output.url}</span>
+                  {output.relay && (
+                    <span className="text-xs text-slate-500">
+                      {output.relay.bitrateKbps.toFixed(0)} kbps · {output.relay.restarts} restarts
+                      {output.relay.lastError && ` · ${output.relay.lastError}`}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEnabled(output.id, !output.enabled)}
+                  >
+                    {output.enabled ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => removeOutput(output.id)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-40"
+            />
+            <Input
+              placeholder="rtmps://host/app/stream-key"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <Button onClick={handleAdd}>Add</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import type { DeadLetterStats } from '@sothebais/packages/utils/dead-letter';
+
+async function fetchDeadLetterStats(): Promise<DeadLetterStats> {
+  const response = await fetch('/api/events/dead-letters/stats');
+  if (!response.ok) {
+    throw new Error('Failed to fetch dead letter stats');
+  }
+  return response.json();
+}
+
+// Events the event-handler failed to handle, waiting for a retry or in quarantine
+export function useDeadLetterStats() {
+  return useQuery({
+    queryKey: ['deadLetterStats'],
+    queryFn: fetchDeadLetterStats,
+    refetchInterval: 10000,
+    retry: 3
+  });
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { StreamOutputStatus } from '@sothebais/packages/types/stream';
+
+interface UseStreamOutputsOptions {
+  pollInterval?: number;
+}
+
+interface NewOutput {
+  name: string;
+  url: string;
+}
+
+export function useStreamOutputs({ pollInterval = 2000 }: UseStreamOutputsOptions = {}) {
+  const [outputs, setOutputs] = useState<StreamOutputStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchOutputs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/stream/outputs');
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Failed to fetch outputs');
+      setOutputs(data.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Send a change, then refresh the list; errors are surfaced through `error`
+  const mutate = useCallback(async (path: string, init: RequestInit) => {
+    try {
+      const response = await fetch(`/api/stream/outputs${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' }
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        const details = Array.isArray(data.details) ? `: ${data.details.join('; ')}` : '';
+        throw new Error(`${data.error || 'Request failed'}${details}`);
+      }
+      await fetchOutputs();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [fetchOutputs]);
+
+  const addOutput = (output: NewOutput) =>
+    mutate('', { method: 'POST', body: JSON.stringify(output) });
+
+  const setEnabled = (id: string, enabled: boolean) =>
+    mutate(`/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify({ enabled }) });
+
+  const removeOutput = (id: string) =>
+    mutate(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+  useEffect(() => {
+    fetchOutputs();
+    const interval = setInterval(fetchOutputs, pollInterval);
+    return () => clearInterval(interval);
+  }, [fetchOutputs, pollInterval]);
+
+  return { outputs, error, isLoading, addOutput, setEnabled, removeOutput };
+}
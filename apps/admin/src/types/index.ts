@@ -25,6 +25,7 @@ export interface Service extends SharedService {
 export type {
   StreamState,
   StreamMetrics,
+  StreamOutputStatus,
   SceneState
 } from '@sothebais/packages/types/stream';
 
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Redis } from 'ioredis';
+import { AuctionManager } from '../../services/auction-manager.js';
+import { BidRulesEngine } from '../../services/bid-rules.js';
+import { RedisService } from '../../services/redis.js';
+import type { ExtendedAuctionState } from '../../services/redis.js';
+import { BidNotifier } from '../../services/bid-notifications.js';
+import { TweetIngester } from '../../services/tweet-ingester.js';
+import { TwitterService } from '../../services/twitter.js';
+import { createTwitterClient } from '../../services/twitter-client.js';
+import type { TwitterStorage } from '../../services/twitter-storage.js';
+import type { IdentityService } from '../../services/identity.js';
+import { TwitterEmulator } from '../../tests/twitter-emulator.js';
+import type { MarathonConfig } from '@sothebais/packages/types/auction';
+
+// Keep bids off the real event bus and database
+vi.mock('../../services/events.js', () => ({
+  auctionEvents: { publish: vi.fn().mockResolvedValue(null) }
+}));
+vi.mock('../../services/bid-persistence.js', () => ({
+  bidPersistence: { enqueue: vi.fn().mockResolvedValue(undefined), watch: vi.fn() }
+}));
+vi.mock('../../services/twitter-storage.js', () => ({ TwitterStorage: vi.fn() }));
+vi.mock('../../services/user-preferences.js', () => ({ userPreferences: {} }));
+vi.mock('../../services/identity.js', () => ({ identityService: {} }));
+vi.mock('../../services/bid-moderation.js', () => ({ bidModerator: { review: async () => ({ allowed: true }) } }));
+vi.mock('../../services/announcements.js', () => ({ announcementService: { lotClosed: async () => {} } }));
+
+/**
+ * Runs a mention through the filtered stream, bid acceptance and the reply,
+ * with the Twitter API played by the local emulator. Needs a throwaway Redis
+ * at REDIS_TEST_URL (default redis://localhost:6379/15, flushed); skipped if
+ * it can't connect.
+ */
+const redisUrl = new URL(process.env['REDIS_TEST_URL'] || 'redis://localhost:6379/15');
+const connection = {
+  host: redisUrl.hostname,
+  port: Number(redisUrl.port || 6379),
+  ...(redisUrl.password ? { password: decodeURIComponent(redisUrl.password) } : {}),
+  db: Number(redisUrl.pathname.slice(1) || 15)
+};
+
+async function isRedisAvailable(): Promise<boolean> {
+  const probe = new Redis({ ...connection, lazyConnect: true, connectTimeout: 1000, retryStrategy: () => null });
+  probe.on('error', () => undefined);
+  try {
+    await probe.connect();
+    await probe.ping();
+    return true;
+  } catch {
+    return false;
+  } finally {
+    probe.disconnect();
+  }
+}
+
+const redisAvailable = await isRedisAvailable();
+
+const MARATHON_ID = 'twitter-e2e';
+
+const config: MarathonConfig = {
+  startDate: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+  endDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  currency: 'ETH',
+  minBid: 0.5,
+  bidIncrement: 0.1,
+  auctionDuration: 2,
+  breakDuration: 0
+};
+
+function memoryStorage(): TwitterStorage {
+  const seen = new Set<string>();
+  return {
+    hasTweet: async (id: string) => seen.has(id),
+    storeTweet: async (tweet: { id: string }) => {
+      seen.add(tweet.id);
+    },
+    getSearchCursor: async () => null,
+    setSearchCursor: async () => undefined,
+    createStreamRecord: async () => null,
+    updateStreamRecord: async () => undefined,
+    setStreamActive: async () => undefined
+  } as unknown as TwitterStorage;
+}
+
+// Users with a linked wallet by username, read from the expanded tweet author
+function memoryIdentity(linked: Set<string>): IdentityService {
+  return {
+    syncAuthor: async (twitterId: string, profile?: { username: string }) => ({
+      userId: `user-${twitterId}`,
+      twitterId,
+      walletAddress: profile && linked.has(profile.username) ? `0x${profile.username}` : null
+    }),
+    linkTweet: async () => undefined,
+    handleCommand: async () => null
+  } as unknown as IdentityService;
+}
+
+describe.skipIf(!redisAvailable)('Twitter bid flow against the emulator', () => {
+  let admin: Redis;
+  let redis: RedisService;
+  let emulator: TwitterEmulator;
+  let twitterService: TwitterService;
+  let ingester: TweetIngester;
+  const optedOut = new Set<string>();
+
+  beforeAll(async () => {
+    admin = new Redis(connection);
+    redis = new RedisService(connection);
+    await admin.flushdb();
+    optedOut.clear();
+    await redis.setMarathonConfig(config);
+
+    const state: ExtendedAuctionState = {
+      id: MARATHON_ID,
+      marathonId: MARATHON_ID,
+      dayNumber: 1,
+      sessionId: MARATHON_ID,
+      artItemId: 'day-1',
+      status: 'ACTIVE',
+      startTime: new Date(Date.now() - 60 * 1000).toISOString(),
+      endTime: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      currency: 'ETH',
+      lotOrder: 1
+    };
+    await redis.setCurrentAuction(state);
+
+    emulator = new TwitterEmulator({ username: 'SothebAIs' });
+    const baseUrl = await emulator.start();
+
+    const preferences = {
+      getForTwitterUser: async (userId: string) => ({ bidConfirmations: !optedOut.has(userId), outbidAlerts: true })
+    };
+    twitterService = new TwitterService(new BidNotifier(redis, preferences), memoryIdentity(new Set(['alice', 'bob', 'dave'])));
+
+    const credentials = { appKey: 'key', appSecret: 'secret', accessToken: 'token', accessSecret: 'token-secret' };
+    expect(await twitterService.initialize(credentials, baseUrl)).toBe(true);
+    twitterService.setActiveAuction(new AuctionManager(new BidRulesEngine(), redis), MARATHON_ID);
+
+    ingester = new TweetIngester(tweet => twitterService.processPotentialBidTweet(tweet));
+    await ingester.start({
+      streamClient: createTwitterClient('bearer-token', baseUrl),
+      searchClient: twitterService.getClient()!,
+      storage: memoryStorage(),
+      config: { type: 'FILTERED', rules: [{ value: '@SothebAIs bid', tag: 'bids' }], query: '@SothebAIs bid', isActive: true }
+    });
+  });
+
+  afterAll(async () => {
+    await ingester?.stop();
+    await twitterService?.shutdown();
+    await emulator?.stop();
+    await admin?.quit();
+    await redis?.disconnect();
+  });
+
+  it('connects to the filtered stream with the configured rules', () => {
+    expect(ingester.getStatus()).toMatchObject({ status: 'CONNECTED', mode: 'STREAM' });
+    expect(emulator.openStreams()).toBe(1);
+  });
+
+  it('accepts a bid from a mention and replies to it', async () => {
+    const mention = emulator.mention('@SothebAIs bid 1.5 ETH', 'alice');
+
+    await vi.waitFor(() => expect(emulator.repliesTo(mention.id)).toHaveLength(1), { timeout: 5000 });
+    expect(emulator.repliesTo(mention.id)[0]?.text).toBe('Bid accepted, you lead at 1.5 ETH.');
+
+    const highest = await redis.getHighestBid(MARATHON_ID, 1);
+    expect(highest).toMatchObject({ tweetId: mention.id, userId: mention.author_id, amount: 1.5 });
+  });
+
+  it('tells a rejected bidder the minimum', async () => {
+    const mention = emulator.mention('@SothebAIs bid 1.55 ETH', 'bob');
+
+    await vi.waitFor(() => expect(emulator.repliesTo(mention.id)).toHaveLength(1), { timeout: 5000 });
+    expect(emulator.repliesTo(mention.id)[0]?.text).toBe('Bid rejected: minimum is 1.6 ETH.');
+    expect((await redis.getHighestBid(MARATHON_ID, 1))?.amount).toBe(1.5);
+  });
+
+  it('lets the previous leader know they were outbid', async () => {
+    const leading = await redis.getHighestBid(MARATHON_ID, 1);
+    const mention = emulator.mention('@SothebAIs bid 2 ETH', 'carol');
+
+    await vi.waitFor(() => expect(emulator.repliesTo(leading!.tweetId)).toHaveLength(2), { timeout: 5000 });
+    expect(emulator.repliesTo(leading!.tweetId)[1]?.text).toMatch(/^You've been outbid, the leading bid is now 2 ETH/);
+    // Carol hasn't linked a wallet, so her bid is flagged and she's asked to
+    await vi.waitFor(() => expect(emulator.repliesTo(mention.id)).toHaveLength(1), { timeout: 5000 });
+    expect(emulator.repliesTo(mention.id)[0]?.text).toContain('reply "link wallet 0x…"');
+    expect((await redis.getHighestBid(MARATHON_ID, 1))?.walletLinked).toBe(false);
+  });
+
+  it('skips confirmations for users who turned them off', async () => {
+    // Doesn't match the stream rule, but gives Dave an ID to opt out with
+    optedOut.add(emulator.mention('hello', 'dave').author_id);
+    const mention = emulator.mention('@SothebAIs bid 3 ETH', 'dave');
+
+    await vi.waitFor(async () => expect((await redis.getHighestBid(MARATHON_ID, 1))?.amount).toBe(3));
+    // Carol's outbid alert still goes out
+    const carolBid = (await redis.getBidHistory(MARATHON_ID, 1)).find(bid => bid.amount === 2);
+    await vi.waitFor(() => expect(emulator.repliesTo(carolBid!.tweetId)).toHaveLength(2), { timeout: 5000 });
+    expect(emulator.repliesTo(mention.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { Redis } from 'ioredis';
+import { AuctionManager } from '../../services/auction-manager.js';
+import { BidRulesEngine } from '../../services/bid-rules.js';
+import { RedisService } from '../../services/redis.js';
+import type { ExtendedAuctionState } from '../../services/redis.js';
+import type { MarathonConfig } from '@sothebais/packages/types/auction';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+// Keep bids off the real event bus and database
+vi.mock('../../services/events.js', () => ({
+  auctionEvents: { publish: vi.fn().mockResolvedValue(null) }
+}));
+vi.mock('../../services/bid-persistence.js', () => ({
+  bidPersistence: { enqueue: vi.fn().mockResolvedValue(undefined), watch: vi.fn() }
+}));
+vi.mock('../../services/identity.js', () => ({ identityService: {} }));
+vi.mock('../../services/announcements.js', () => ({ announcementService: { lotClosed: async () => {} } }));
+
+/**
+ * Fires hundreds of bids at one lot in parallel against a real Redis.
+ * Point REDIS_TEST_URL at a throwaway instance (default redis://localhost:6379/15,
+ * whose database is flushed); the suite is skipped if it can't connect.
+ */
+const redisUrl = new URL(process.env['REDIS_TEST_URL'] || 'redis://localhost:6379/15');
+const connection = {
+  host: redisUrl.hostname,
+  port: Number(redisUrl.port || 6379),
+  ...(redisUrl.password ? { password: decodeURIComponent(redisUrl.password) } : {}),
+  db: Number(redisUrl.pathname.slice(1) || 15)
+};
+
+async function isRedisAvailable(): Promise<boolean> {
+  const probe = new Redis({ ...connection, lazyConnect: true, connectTimeout: 1000, retryStrategy: () => null });
+  probe.on('error', () => undefined);
+  try {
+    await probe.connect();
+    await probe.ping();
+    return true;
+  } catch {
+    return false;
+  } finally {
+    probe.disconnect();
+  }
+}
+
+const redisAvailable = await isRedisAvailable();
+
+const MARATHON_ID = 'concurrency-test';
+const BID_COUNT = 300;
+
+const config: MarathonConfig = {
+  startDate: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+  endDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  currency: 'ETH',
+  minBid: 0.01,
+  bidIncrement: 0.01,
+  auctionDuration: 2,
+  breakDuration: 0,
+  // Keep the lot end fixed so only bid acceptance is under test
+  softClose: { windowSeconds: 0, extensionSeconds: 0, maxExtensions: 0 }
+};
+
+function makeBid(index: number, amount: number): TwitterBid {
+  return {
+    userId: `user-${index}`,
+    tweetId: `tweet-${index}`,
+    amount,
+    currency: 'ETH',
+    timestamp: new Date(),
+    rawContent: `bid ${amount} eth`
+  };
+}
+
+describe.skipIf(!redisAvailable)('concurrent bid acceptance', () => {
+  let admin: Redis;
+  let redis: RedisService;
+  let manager: AuctionManager;
+
+  beforeAll(() => {
+    admin = new Redis(connection);
+    redis = new RedisService(connection);
+    manager = new AuctionManager(new BidRulesEngine(), redis);
+  });
+
+  beforeEach(async () => {
+    await admin.flushdb();
+    await redis.setMarathonConfig(config);
+
+    const state: ExtendedAuctionState = {
+      id: MARATHON_ID,
+      marathonId: MARATHON_ID,
+      dayNumber: 1,
+      sessionId: MARATHON_ID,
+      artItemId: 'day-1',
+      status: 'ACTIVE',
+      startTime: new Date(Date.now() - 60 * 1000).toISOString(),
+      endTime: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      currency: 'ETH',
+      lotOrder: 1
+    };
+    await redis.setCurrentAuction(state);
+  });
+
+  afterAll(async () => {
+    await admin?.quit();
+    await redis?.disconnect();
+  });
+
+  it('accepts only bids that beat the highest bid at the moment they are written', async () => {
+    // Shuffled amounts so later arrivals are often lower than earlier ones
+    const amounts = Array.from({ length: BID_COUNT }, (_, index) => (index + 1) / 100)
+      .sort(() => Math.random() - 0.5);
+
+    const results = await Promise.all(
+      amounts.map((amount, index) => manager.processBid(MARATHON_ID, makeBid(index, amount)))
+    );
+
+    const accepted = await redis.getBidHistory(MARATHON_ID, 1);
+    const acceptedCount = results.filter(result => result.accepted).length;
+
+    expect(accepted).toHaveLength(acceptedCount);
+
+    // History is ordered by amount and every step respects the increment
+    for (let i = 1; i < accepted.length; i++) {
+      expect(accepted[i]!.amount - accepted[i - 1]!.amount).toBeGreaterThanOrEqual(config.bidIncrement - 1e-9);
+    }
+
+    // The top bid always wins, and the state points at it
+    const highest = await redis.getHighestBid(MARATHON_ID, 1);
+    expect(highest?.amount).toBe(BID_COUNT / 100);
+
+    const state = await redis.getCurrentAuction(MARATHON_ID);
+    expect(state?.highestBidId).toBe(highest?.tweetId);
+  });
+
+  it('accepts exactly one of many identical bids', async () => {
+    const results = await Promise.all(
+      Array.from({ length: BID_COUNT }, (_, index) => manager.processBid(MARATHON_ID, makeBid(index, 1)))
+    );
+
+    expect(results.filter(result => result.accepted)).toHaveLength(1);
+    expect(await redis.getBidHistory(MARATHON_ID, 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AnnouncementService, AnnouncementTemplateError, validateTemplates } from '../../services/announcements.js';
+import { createTwitterClient } from '../../services/twitter-client.js';
+import type { ExtendedAuctionState, RedisService } from '../../services/redis.js';
+import { TwitterEmulator } from '../../tests/twitter-emulator.js';
+import type { AnnouncementRecord } from '@sothebais/packages/schema/redis/models';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+const stored = vi.hoisted(() => [] as Array<{ kind: string; tweetId: string; conversationId: string; threadPosition: number }>);
+
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn() }));
+vi.mock('../../services/identity.js', () => ({ identityService: {} }));
+vi.mock('../../services/twitter.js', () => ({ twitterService: {} }));
+vi.mock('../../services/prisma.js', () => ({
+  prisma: {
+    campaign: {
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        where.id === 'campaign-1'
+          ? { announcementTemplates: { results: ['SOLD: {name} to {winner} for {price} {currency}', '{bidCount} bids'] } }
+          : null
+    },
+    announcement: {
+      createMany: async ({ data }: { data: typeof stored }) => {
+        stored.push(...data);
+        return { count: data.length };
+      }
+    }
+  }
+}));
+
+// A 1x1 transparent PNG
+const IMAGE_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+function bid(userId: string, amount: number): TwitterBid {
+  return { tweetId: `tweet-${userId}-${amount}`, userId, amount, currency: 'ETH', timestamp: new Date(), rawContent: `bid ${amount} ETH` };
+}
+
+function fakeRedis(lot: ExtendedAuctionState, bids: TwitterBid[] = []): RedisService {
+  const keys = new Map<string, AnnouncementRecord | 'PENDING'>();
+  const conversations = new Map<string, AnnouncementRecord>();
+  const key = (marathonId: string, lotOrder: number, kind: string): string => `${marathonId}:${lotOrder}:${kind}`;
+
+  return {
+    getActiveSessionId: async () => lot.sessionId,
+    getActiveMarathonId: async () => null,
+    getCurrentAuction: async () => lot,
+    getSessionState: async () => ({ campaignId: 'campaign-1' }),
+    getAuctionConfig: async () => null,
+    getHighestBid: async () => bids[bids.length - 1] ?? null,
+    getBidHistory: async () => bids,
+    claimAnnouncement: async (marathonId: string, lotOrder: number, kind: string) => {
+      if (keys.has(key(marathonId, lotOrder, kind))) {
+        return false;
+      }
+      keys.set(key(marathonId, lotOrder, kind), 'PENDING');
+      return true;
+    },
+    releaseAnnouncement: async (marathonId: string, lotOrder: number, kind: string) => {
+      keys.delete(key(marathonId, lotOrder, kind));
+    },
+    setAnnouncement: async (record: AnnouncementRecord) => {
+      keys.set(key(record.marathonId, record.lotOrder, record.kind), record);
+      if (!conversations.has(record.conversationId)) {
+        conversations.set(record.conversationId, record);
+      }
+    },
+    getAnnouncement: async (marathonId: string, lotOrder: number, kind: string) => {
+      const record = keys.get(key(marathonId, lotOrder, kind));
+      return record && record !== 'PENDING' ? record : null;
+    },
+    getAnnouncementByConversation: async (conversationId: string) => conversations.get(conversationId) ?? null,
+    getAnnouncements: async () => [...keys.values()].filter((record): record is AnnouncementRecord => record !== 'PENDING')
+  } as unknown as RedisService;
+}
+
+describe('AnnouncementService', () => {
+  let emulator: TwitterEmulator;
+  let lot: ExtendedAuctionState;
+  let service: AnnouncementService | null = null;
+  let twitter: { getClient: () => ReturnType<typeof createTwitterClient> };
+
+  beforeEach(async () => {
+    stored.length = 0;
+    emulator = new TwitterEmulator({ username: 'SothebAIs' });
+    const baseUrl = await emulator.start();
+    const client = createTwitterClient({ appKey: 'key', appSecret: 'secret', accessToken: 'token', accessSecret: 'token-secret' }, baseUrl);
+    twitter = { getClient: () => client };
+
+    const startTime = new Date(Date.now() + 10 * 60 * 1000);
+    lot = {
+      id: 'lot-1',
+      marathonId: 'session-1',
+      dayNumber: 1,
+      sessionId: 'session-1',
+      artItemId: 'art-1',
+      status: 'SCHEDULED',
+      startTime: startTime.toISOString(),
+      endTime: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+      currency: 'ETH',
+      lotOrder: 1,
+      reservePrice: '0.5',
+      artItem: { name: 'Sunset #1', imageUrl: IMAGE_URL }
+    };
+  });
+
+  afterEach(async () => {
+    service?.stop();
+    service = null;
+    await emulator.stop();
+  });
+
+  it('posts the teaser with its image, then the opening and last call, once each', async () => {
+    service = new AnnouncementService(fakeRedis(lot), twitter, { getTwitterHandle: async () => null });
+
+    await service.poll();
+    const [teaser] = emulator.postedTweets();
+    expect(teaser?.text).toMatch(/^Coming up: lot 1, Sunset #1\. Bidding opens at \d\d:\d\d UTC\.$/);
+    expect(teaser?.attachments?.media_keys).toHaveLength(1);
+
+    lot.status = 'ACTIVE';
+    lot.endTime = new Date(Date.now() + 30 * 1000).toISOString();
+    await service.poll();
+    await service.poll();
+
+    const texts = emulator.postedTweets().map(tweet => tweet.text);
+    expect(texts).toHaveLength(3);
+    expect(texts[1]).toContain('"bid 0.5 ETH"');
+    expect(texts[2]).toMatch(/closes in (29|30) seconds\. Leading bid: none yet\.$/);
+    expect(stored.map(row => row.kind)).toEqual(['TEASER', 'BIDDING_OPEN', 'LAST_CALL']);
+  });
+
+  it('threads the results under the bidding post with the campaign templates', async () => {
+    const bids = [bid('1', 1), bid('2', 1.5)];
+    service = new AnnouncementService(fakeRedis(lot, bids), twitter, { getTwitterHandle: async () => 'bob' });
+    lot.status = 'ACTIVE';
+    await service.poll();
+    const [opening] = emulator.postedTweets();
+
+    lot.status = 'ENDED';
+    service.start();
+    await service.lotClosed('session-1', lot, bids[1]!);
+
+    const [, sold, summary] = emulator.postedTweets();
+    expect(emulator.repliesTo(opening!.id)).toEqual([sold]);
+    expect(sold?.text).toBe('SOLD: Sunset #1 to @bob for 1.5 ETH');
+    expect(summary?.text).toBe('2 bids');
+    expect(emulator.repliesTo(sold!.id)).toEqual([summary]);
+
+    const results = await service.findByConversation(opening!.id);
+    expect(results).toMatchObject({ kind: 'BIDDING_OPEN', lotId: 'lot-1', campaignId: 'campaign-1' });
+    expect(stored.filter(row => row.kind === 'RESULTS')).toEqual([
+      expect.objectContaining({ conversationId: opening!.id, threadPosition: 0 }),
+      expect.objectContaining({ conversationId: opening!.id, threadPosition: 1 })
+    ]);
+  });
+
+  it('keeps the claim once the tweets are out, even if recording them fails', async () => {
+    const redis = fakeRedis(lot);
+    const setAnnouncement = redis.setAnnouncement.bind(redis);
+    redis.setAnnouncement = vi.fn()
+      .mockRejectedValueOnce(new Error('Connection is closed.'))
+      .mockImplementation(setAnnouncement);
+    service = new AnnouncementService(redis, twitter, { getTwitterHandle: async () => null });
+
+    await service.poll();
+    await service.poll();
+
+    expect(emulator.postedTweets().map(tweet => tweet.text)).toEqual([expect.stringMatching(/^Coming up: lot 1/)]);
+  });
+
+  it('stays quiet when the lot closes while announcements are off', async () => {
+    service = new AnnouncementService(fakeRedis(lot), twitter, { getTwitterHandle: async () => null });
+    await service.lotClosed('session-1', lot, null);
+    expect(emulator.postedTweets()).toEqual([]);
+  });
+
+  it('rejects malformed templates', () => {
+    expect(validateTemplates({ teaser: 'Soon: {name}' })).toEqual({ teaser: 'Soon: {name}' });
+
+    const error = (() => {
+      try {
+        validateTemplates({ results: [], lastcall: 'x' });
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(AnnouncementTemplateError);
+    expect((error as AnnouncementTemplateError).issues).toEqual([
+      'results must be a non-empty list of strings',
+      'unknown template lastcall'
+    ]);
+  });
+});
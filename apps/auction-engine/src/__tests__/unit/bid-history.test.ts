@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import stateRouter from '../../routes/state.js';
+
+// A daily marathon on its third lot. Lot 1 went to its highest bidder; on
+// lot 2 the winner's payment expired and the runner-up is being asked to pay.
+const store = vi.hoisted(() => {
+  const bid = (userId: string, tweetId: string, amount: number) => ({
+    userId,
+    tweetId,
+    amount,
+    currency: 'ETH',
+    timestamp: new Date('2025-03-01T16:00:00.000Z'),
+    rawContent: `bid ${amount} eth`
+  });
+
+  const lot = (id: string, lotOrder: number, status: string) => ({
+    id,
+    sessionId: 'session-1',
+    artItemId: `art-${id}`,
+    status,
+    startTime: '2025-03-05T15:00:00.000Z',
+    endTime: '2025-03-05T16:00:00.000Z',
+    currency: 'ETH',
+    lotOrder
+  });
+
+  return {
+    marathonId: 'marathon-1',
+    current: {
+      id: 'marathon-1',
+      marathonId: 'marathon-1',
+      dayNumber: 3,
+      sessionId: 'marathon-1',
+      artItemId: 'day-3',
+      status: 'ACTIVE',
+      startTime: '2025-03-03T15:00:00.000Z',
+      endTime: '2025-03-04T15:00:00.000Z',
+      currency: 'ETH',
+      lotOrder: 3
+    },
+    // Lowest first, as the sorted sets return them
+    bids: {
+      1: [bid('alice', 't1', 1), bid('bob', 't2', 1.5), bid('alice', 't3', 2)],
+      2: [bid('carol', 't4', 2.5), bid('bob', 't5', 3)],
+      3: [bid('bob', 't6', 4)]
+    } as Record<number, ReturnType<typeof bid>[]>,
+    settlements: {
+      2: {
+        auctionId: 'marathon-1',
+        marathonId: 'marathon-1',
+        lotOrder: 2,
+        artItemId: 'day-2',
+        currency: 'ETH',
+        status: 'PAYMENT_REQUESTED',
+        candidates: [
+          { bidId: 't5', userId: 'bob', amount: '3' },
+          { bidId: 't4', userId: 'carol', amount: '2.5' }
+        ],
+        offerIndex: 1,
+        maxOffers: 3,
+        paymentWindowMinutes: 60,
+        persisted: true,
+        updatedAt: '2025-03-02T17:00:00.000Z'
+      }
+    } as Record<number, unknown>,
+    // A session whose lot orders skip 3, with its second lot cancelled and
+    // its fifth on the block
+    session: { id: 'session-1', lotIds: ['lot-a', 'lot-b', 'lot-c', 'lot-d', 'lot-e'] },
+    lots: {
+      'lot-a': lot('lot-a', 1, 'ENDED'),
+      'lot-b': lot('lot-b', 2, 'CANCELLED'),
+      'lot-c': lot('lot-c', 4, 'ENDED'),
+      'lot-e': lot('lot-e', 6, 'SCHEDULED')
+    } as Record<string, ReturnType<typeof lot>>,
+    sessionCurrent: { ...lot('lot-d', 5, 'ACTIVE'), marathonId: 'session-1', dayNumber: 5 },
+    sessionBids: {
+      1: [bid('dave', 't7', 1)],
+      4: [bid('erin', 't8', 2), bid('dave', 't9', 3)],
+      5: [bid('erin', 't10', 1)]
+    } as Record<number, ReturnType<typeof bid>[]>
+  };
+});
+
+// Just the reads the bid history service makes, over the store above
+vi.mock('../../services/redis.js', () => ({
+  RedisService: vi.fn(() => ({
+    getActiveSessionId: async () => null,
+    getActiveMarathonId: async () => store.marathonId,
+    getSessionState: async (sessionId: string) => (sessionId === store.session.id ? store.session : null),
+    getLotState: async (lotId: string) => store.lots[lotId] ?? null,
+    getCurrentAuction: async (marathonId: string) =>
+      marathonId === store.marathonId ? store.current : marathonId === store.session.id ? store.sessionCurrent : null,
+    getBidHistory: async (marathonId: string, lotOrder: number) =>
+      (marathonId === store.session.id ? store.sessionBids : store.bids)[lotOrder] ?? [],
+    getBidHistoryPage: async (_marathonId: string, lotOrder: number, offset: number, limit: number) => {
+      const bids = [...(store.bids[lotOrder] ?? [])].reverse();
+      return { bids: bids.slice(offset, offset + limit), total: bids.length };
+    },
+    getSettlement: async (marathonId: string, lotOrder: number) =>
+      marathonId === store.marathonId ? store.settlements[lotOrder] ?? null : null
+  }))
+}));
+
+describe('Bid history routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const app = express();
+    app.use('/api/state', stateRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/state`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const call = async (path: string) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  it("pages through a lot's bids, highest first", async () => {
+    expect(await call('/marathon-1/lots/1/bids?pageSize=2')).toMatchObject({
+      status: 200,
+      body: { items: [{ tweetId: 't3' }, { tweetId: 't2' }], page: 1, pageSize: 2, total: 3, totalPages: 2 }
+    });
+    expect(await call('/marathon-1/lots/1/bids?page=2&pageSize=2')).toMatchObject({
+      status: 200,
+      body: { items: [{ tweetId: 't1' }], page: 2, total: 3 }
+    });
+  });
+
+  it('falls back to the default page and caps the page size', async () => {
+    const { body } = await call('/marathon-1/lots/1/bids?page=0&pageSize=500');
+    expect(body).toMatchObject({ page: 1, pageSize: 100, totalPages: 1 });
+    expect(body.items).toHaveLength(3);
+
+    expect(await call('/marathon-1/lots/first/bids')).toEqual({ status: 400, body: { error: 'Invalid lot order' } });
+  });
+
+  it('ranks bidders by their top bids across the lots', async () => {
+    expect(await call('/marathon-1/leaderboard')).toEqual({
+      status: 200,
+      body: {
+        marathonId: 'marathon-1',
+        leaderboard: [
+          { rank: 1, userId: 'bob', totalBids: 3, lotsBidOn: 3, lotsWon: 0, highestBid: 4, totalCommitted: 8.5 },
+          { rank: 2, userId: 'carol', totalBids: 1, lotsBidOn: 1, lotsWon: 1, highestBid: 2.5, totalCommitted: 2.5 },
+          { rank: 3, userId: 'alice', totalBids: 2, lotsBidOn: 1, lotsWon: 1, highestBid: 2, totalCommitted: 2 }
+        ]
+      }
+    });
+    expect((await call('/marathon-1/leaderboard?limit=1')).body.leaderboard).toHaveLength(1);
+  });
+
+  it('lists finished lots, most recent first, with whoever they went to', async () => {
+    expect(await call('/marathon-1/results')).toMatchObject({
+      status: 200,
+      body: {
+        items: [
+          {
+            auctionId: 'marathon-1',
+            lotOrder: 2,
+            artItemId: 'day-2',
+            bidCount: 2,
+            highestBid: { tweetId: 't5', amount: 3 },
+            winner: { userId: 'carol', bidId: 't4', amount: '2.5' },
+            settlementStatus: 'PAYMENT_REQUESTED'
+          },
+          {
+            lotOrder: 1,
+            bidCount: 3,
+            winner: { userId: 'alice', bidId: 't3', amount: '2' }
+          }
+        ],
+        total: 2
+      }
+    });
+
+    const { body } = await call('/marathon-1/results?page=2&pageSize=1');
+    expect(body).toMatchObject({ page: 2, total: 2, totalPages: 2, items: [{ lotOrder: 1 }] });
+    expect(body.items[0]).not.toHaveProperty('settlementStatus');
+  });
+
+  it("follows a session's own lot orders, leaving out cancelled and upcoming lots", async () => {
+    expect(await call('/session-1/results')).toMatchObject({
+      status: 200,
+      body: {
+        items: [
+          { auctionId: 'lot-c', lotOrder: 4, artItemId: 'art-lot-c', bidCount: 2, winner: { userId: 'dave', amount: '3' } },
+          { auctionId: 'lot-a', lotOrder: 1, artItemId: 'art-lot-a', bidCount: 1, winner: { userId: 'dave', amount: '1' } }
+        ],
+        total: 2
+      }
+    });
+
+    expect((await call('/session-1/leaderboard')).body.leaderboard).toEqual([
+      { rank: 1, userId: 'dave', totalBids: 2, lotsBidOn: 2, lotsWon: 2, highestBid: 3, totalCommitted: 4 },
+      { rank: 2, userId: 'erin', totalBids: 2, lotsBidOn: 2, lotsWon: 0, highestBid: 2, totalCommitted: 3 }
+    ]);
+  });
+
+  it('has no results for a marathon without a current lot', async () => {
+    expect(await call('/marathon-2/results')).toEqual({
+      status: 200,
+      body: { items: [], page: 1, pageSize: 20, total: 0, totalPages: 0 }
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BidModerator } from '../../services/bid-moderation.js';
+import { prisma } from '../../services/prisma.js';
+import type { RedisService } from '../../services/redis.js';
+import type { ModerationList, TwitterApiTweet, TwitterBid } from '@sothebais/packages/types/twitter';
+
+interface FakeTweetRow {
+  tweetId: string;
+  isBid: boolean;
+  isProcessed: boolean;
+  metadata: Record<string, unknown>;
+}
+
+// Just enough of the tweets table, kept in memory
+const rows = vi.hoisted(() => new Map<string, FakeTweetRow>());
+
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn() }));
+vi.mock('../../services/prisma.js', () => ({
+  prisma: {
+    tweet: {
+      findUnique: vi.fn(async ({ where }: { where: { tweetId: string } }) => rows.get(where.tweetId) ?? null),
+      update: async ({ where, data }: { where: { tweetId: string }; data: Partial<FakeTweetRow> }) =>
+        Object.assign(rows.get(where.tweetId)!, data)
+    }
+  }
+}));
+
+function fakeRedis(): RedisService {
+  const lists: Record<ModerationList, Set<string>> = { DENY: new Set(), ALLOW: new Set() };
+  const counts = new Map<string, number>();
+  const fingerprints = new Map<string, string>();
+  return {
+    addToModerationList: async (list: ModerationList, account: string) => {
+      lists[list].add(account);
+    },
+    removeFromModerationList: async (list: ModerationList, account: string) => lists[list].delete(account),
+    getModerationList: async (list: ModerationList) => [...lists[list]].sort(),
+    isOnModerationList: async (list: ModerationList, accounts: string[]) => accounts.some(account => lists[list].has(account)),
+    countBid: async (userId: string) => {
+      counts.set(userId, (counts.get(userId) ?? 0) + 1);
+      return counts.get(userId)!;
+    },
+    setBidFingerprint: async (tweetId: string, fingerprint: string) => {
+      fingerprints.set(tweetId, fingerprint);
+    },
+    getBidFingerprint: async (tweetId: string) => fingerprints.get(tweetId) ?? null
+  } as unknown as RedisService;
+}
+
+let nextId = 1;
+
+function tweet(username: string, text: string, extra: Partial<TwitterApiTweet> = {}, ageDays = 365): TwitterApiTweet {
+  const id = String(nextId++);
+  rows.set(id, { tweetId: id, isBid: true, isProcessed: false, metadata: { id, text } });
+  return {
+    id,
+    text,
+    author_id: `id-${username}`,
+    created_at: new Date().toISOString(),
+    author: {
+      id: `id-${username}`,
+      username,
+      name: username,
+      createdAt: new Date(Date.now() - ageDays * 24 * 60 * 60 * 1000)
+    },
+    ...extra
+  };
+}
+
+function bid(source: TwitterApiTweet, amount: number): TwitterBid {
+  return { tweetId: source.id, userId: source.author_id, amount, currency: 'ETH', timestamp: new Date(), rawContent: source.text };
+}
+
+describe('BidModerator', () => {
+  let moderator: BidModerator;
+
+  beforeEach(() => {
+    rows.clear();
+    moderator = new BidModerator(fakeRedis(), { minAccountAgeDays: 7, maxBidsPerMinute: 2 });
+  });
+
+  it('drops retweets and quotes that repeat the quoted bid', async () => {
+    const original = tweet('alice', '@SothebAIs bid 2 ETH');
+    expect(await moderator.review(original, bid(original, 2), 'ETH')).toEqual({ allowed: true });
+
+    const retweet = tweet('bob', 'RT @alice: @SothebAIs bid 2 ETH', { referenced_tweets: [{ type: 'retweeted', id: original.id }] });
+    expect(await moderator.review(retweet, bid(retweet, 2), 'ETH')).toMatchObject({ allowed: false, reason: 'RETWEET' });
+
+    const quote = (text: string): TwitterApiTweet => tweet('bob', text, { referenced_tweets: [{ type: 'quoted', id: original.id }] });
+    const copy = quote('@SothebAIs bid 2 ETH');
+    expect(await moderator.review(copy, bid(copy, 2), 'ETH')).toMatchObject({ allowed: false, reason: 'DUPLICATE_QUOTE' });
+    const raise = quote('@SothebAIs bid 3 ETH');
+    expect(await moderator.review(raise, bid(raise, 3), 'ETH')).toEqual({ allowed: true });
+  });
+
+  it('holds back new accounts and fast bidders unless allowlisted', async () => {
+    const fresh = tweet('newbie', '@SothebAIs bid 1 ETH', {}, 2);
+    expect(await moderator.review(fresh, bid(fresh, 1), 'ETH')).toMatchObject({ allowed: false, reason: 'ACCOUNT_TOO_NEW' });
+
+    const outcomes = [];
+    for (const amount of [1, 2, 3]) {
+      const next = tweet('carol', `@SothebAIs bid ${amount} ETH`);
+      outcomes.push((await moderator.review(next, bid(next, amount), 'ETH')).allowed);
+    }
+    expect(outcomes).toEqual([true, true, false]);
+
+    expect(await moderator.addAccount('ALLOW', '@NewBie')).toBe('newbie');
+    expect(await moderator.review(fresh, bid(fresh, 1), 'ETH')).toEqual({ allowed: true, allowlisted: true });
+  });
+
+  it('drops denylisted accounts, even allowlisted ones', async () => {
+    await moderator.addAccount('DENY', '@Mallory');
+    await moderator.addAccount('ALLOW', 'mallory');
+    const spam = tweet('mallory', '@SothebAIs bid 100 ETH');
+
+    expect(await moderator.review(spam, bid(spam, 100), 'ETH')).toMatchObject({ allowed: false, reason: 'DENYLISTED' });
+    expect(await moderator.getLists()).toEqual({ deny: ['mallory'], allow: ['mallory'] });
+    expect(await moderator.removeAccount('DENY', 'MALLORY')).toBe(true);
+    expect(await moderator.review(spam, bid(spam, 100), 'ETH')).toMatchObject({ allowed: true });
+  });
+
+  it('records each decision on the tweet row', async () => {
+    const spam = tweet('newbie', '@SothebAIs bid 1 ETH', {}, 0);
+    await moderator.review(spam, bid(spam, 1), 'ETH');
+
+    await vi.waitFor(() => expect(rows.get(spam.id)).toEqual({
+      tweetId: spam.id,
+      isBid: false,
+      isProcessed: true,
+      metadata: {
+        id: spam.id,
+        text: spam.text,
+        moderation: {
+          allowed: false,
+          reason: 'ACCOUNT_TOO_NEW',
+          detail: 'Account is younger than 7 days',
+          decidedAt: expect.any(String)
+        }
+      }
+    }));
+  });
+
+  it("doesn't hold up the bid while the decision is recorded", async () => {
+    vi.mocked(prisma.tweet.findUnique).mockImplementationOnce(() => new Promise(() => undefined) as never);
+    const fan = tweet('fan', '@SothebAIs bid 1 ETH', {}, 365);
+
+    expect(await moderator.review(fan, bid(fan, 1), 'ETH')).toMatchObject({ allowed: true });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ApiResponseError } from 'twitter-api-v2';
+import type { TwitterApi } from 'twitter-api-v2';
+import { BidNotifier } from '../../services/bid-notifications.js';
+import type { RedisService } from '../../services/redis.js';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+// Keep Prisma and Redis out of the test
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn() }));
+vi.mock('../../services/user-preferences.js', () => ({
+  userPreferences: {},
+  DEFAULT_PREFERENCES: { bidConfirmations: true, outbidAlerts: true }
+}));
+
+function fakeRedis(): RedisService & { queue: string[]; parked: string[] } {
+  const claimed = new Set<string>();
+  const redis = {
+    queue: [] as string[],
+    parked: [] as string[],
+    claimNotification: async (key: string): Promise<boolean> => {
+      if (claimed.has(key)) {
+        return false;
+      }
+      claimed.add(key);
+      return true;
+    },
+    enqueueReply: async (reply: string): Promise<void> => {
+      redis.queue.unshift(reply);
+    },
+    dequeueReply: async (): Promise<string | null> => redis.queue.pop() ?? null,
+    requeueReply: async (reply: string): Promise<void> => {
+      redis.queue.push(reply);
+    },
+    parkReply: async (reply: string): Promise<void> => {
+      redis.parked.push(reply);
+    },
+    getReplyQueueDepth: async (): Promise<number> => redis.queue.length
+  };
+  return redis as unknown as RedisService & { queue: string[]; parked: string[] };
+}
+
+function bid(userId: string, tweetId: string, amount: number): TwitterBid {
+  return { userId, tweetId, amount, currency: 'ETH', timestamp: new Date(), rawContent: `bid ${amount} eth` };
+}
+
+const everything = { getForTwitterUser: async () => ({ bidConfirmations: true, outbidAlerts: true }) };
+
+describe('BidNotifier', () => {
+  let notifier: BidNotifier;
+
+  afterEach(() => {
+    notifier.stop();
+  });
+
+  it('acknowledges a bid and alerts the bidder it outbid', async () => {
+    const redis = fakeRedis();
+    notifier = new BidNotifier(redis, everything);
+
+    await notifier.notify({
+      status: 'ACCEPTED',
+      bid: bid('bob', 't2', 1.6),
+      currency: 'ETH',
+      previousHighestBid: bid('alice', 't1', 1.5)
+    });
+
+    expect(redis.queue.map(reply => JSON.parse(reply))).toEqual([
+      expect.objectContaining({ kind: 'OUTBID', tweetId: 't1', userId: 'alice', text: expect.stringContaining('now 1.6 ETH') }),
+      expect.objectContaining({ kind: 'ACCEPTED', tweetId: 't2', text: 'Bid accepted, you lead at 1.6 ETH.' })
+    ]);
+  });
+
+  it('does not alert bidders who raise their own bid', async () => {
+    const redis = fakeRedis();
+    notifier = new BidNotifier(redis, everything);
+
+    await notifier.notify({
+      status: 'ACCEPTED',
+      bid: bid('alice', 't2', 2),
+      currency: 'ETH',
+      previousHighestBid: bid('alice', 't1', 1)
+    });
+
+    expect(redis.queue).toHaveLength(1);
+  });
+
+  it('respects preferences and sends each notification once', async () => {
+    const redis = fakeRedis();
+    notifier = new BidNotifier(redis, {
+      getForTwitterUser: async userId => ({ bidConfirmations: userId !== 'carol', outbidAlerts: true })
+    });
+
+    const rejected = {
+      status: 'REJECTED' as const,
+      bid: bid('bob', 't3', 1.55),
+      currency: 'ETH',
+      reason: 'INCREMENT_TOO_SMALL' as const,
+      message: 'Bid must be at least 1.6',
+      minimumAmount: 1.6
+    };
+    await notifier.notify(rejected);
+    await notifier.notify(rejected);
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('carol', 't4', 2), currency: 'ETH' });
+
+    expect(redis.queue.map(reply => JSON.parse(reply).text)).toEqual(['Bid rejected: minimum is 1.6 ETH.']);
+  });
+
+  it('falls back to the default preferences when they cannot be looked up', async () => {
+    const redis = fakeRedis();
+    notifier = new BidNotifier(redis, {
+      getForTwitterUser: async () => {
+        throw new Error('database unavailable');
+      }
+    });
+
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('bob', 't5', 2), currency: 'ETH' });
+
+    expect(redis.queue.map(reply => JSON.parse(reply))).toEqual([expect.objectContaining({ kind: 'ACCEPTED', tweetId: 't5' })]);
+  });
+
+  it('stays within the reply rate limit', async () => {
+    const redis = fakeRedis();
+    const reply = vi.fn().mockResolvedValue({ data: { id: 'r1', text: '' } });
+    notifier = new BidNotifier(redis, everything, 1);
+
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('alice', 't1', 1), currency: 'ETH' });
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('bob', 't2', 2), currency: 'ETH' });
+    notifier.start({ v2: { reply } } as unknown as TwitterApi);
+
+    await vi.waitFor(() => expect(reply).toHaveBeenCalledTimes(1));
+    expect(reply).toHaveBeenCalledWith('Bid accepted, you lead at 1 ETH.', 't1');
+    expect(await notifier.getStatus()).toMatchObject({ queued: 1, sentInWindow: 1, repliesPerWindow: 1 });
+  });
+
+  it('pauses until the reset when Twitter reports the limit', async () => {
+    const redis = fakeRedis();
+    const reset = Math.floor(Date.now() / 1000) + 600;
+    const limited = new ApiResponseError('Too Many Requests', {
+      code: 429,
+      data: { title: 'Too Many Requests' },
+      headers: {},
+      rateLimit: { limit: 200, remaining: 0, reset },
+      request: {} as never,
+      response: {} as never
+    } as never);
+    const reply = vi.fn().mockRejectedValue(limited);
+    notifier = new BidNotifier(redis, everything);
+
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('alice', 't1', 1), currency: 'ETH' });
+    notifier.start({ v2: { reply } } as unknown as TwitterApi);
+
+    await vi.waitFor(async () => expect((await notifier.getStatus()).pausedUntil).not.toBeNull());
+    expect(reply).toHaveBeenCalledTimes(1);
+    // The reply waits in the queue for the reset
+    expect(await notifier.getStatus()).toMatchObject({ queued: 1, pausedUntil: new Date(reset * 1000).toISOString() });
+  });
+
+  it('parks replies it cannot read and goes on to the next', async () => {
+    const redis = fakeRedis();
+    const reply = vi.fn().mockResolvedValue({ data: { id: 'r1', text: '' } });
+    notifier = new BidNotifier(redis, everything);
+
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('alice', 't1', 1), currency: 'ETH' });
+    redis.queue.push('{"kind":');
+    notifier.start({ v2: { reply } } as unknown as TwitterApi);
+
+    await vi.waitFor(() => expect(reply).toHaveBeenCalledWith('Bid accepted, you lead at 1 ETH.', 't1'));
+    expect(redis.parked).toEqual(['{"kind":']);
+  });
+
+  it('keeps draining the queue when a rate-limited reply cannot be put back', async () => {
+    const redis = fakeRedis();
+    redis.requeueReply = vi.fn().mockRejectedValue(new Error('Connection is closed.'));
+    // A window that has already reset, so the next reply can go straight out
+    const limited = new ApiResponseError('Too Many Requests', {
+      code: 429,
+      data: { title: 'Too Many Requests' },
+      headers: {},
+      rateLimit: { limit: 200, remaining: 0, reset: Math.floor(Date.now() / 1000) },
+      request: {} as never,
+      response: {} as never
+    } as never);
+    const reply = vi.fn()
+      .mockRejectedValueOnce(limited)
+      .mockResolvedValue({ data: { id: 'r2', text: '' } });
+    notifier = new BidNotifier(redis, everything);
+
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('alice', 't1', 1), currency: 'ETH' });
+    await notifier.notify({ status: 'ACCEPTED', bid: bid('bob', 't2', 2), currency: 'ETH' });
+    notifier.start({ v2: { reply } } as unknown as TwitterApi);
+
+    await vi.waitFor(() => expect(reply).toHaveBeenCalledWith('Bid accepted, you lead at 2 ETH.', 't2'), { timeout: 2000 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { parseBidText, parseBidTweet } from '../../services/bid-parser.js';
+import type { BidParseRejection } from '../../services/bid-parser.js';
+
+/**
+ * Bid phrasing corpus
+ *
+ * Add new tweet phrasings here. Each row is the tweet text and either the
+ * amount it should parse to or the reason it should be rejected.
+ */
+const ACCEPTED: Array<[string, number]> = [
+  ['bid 1.25 ETH', 1.25],
+  ['Bid 1.25 eth', 1.25],
+  ['bid 1.25ETH', 1.25],
+  ['@sothebais 0.5Ξ', 0.5],
+  ['@sothebais Ξ0.5', 0.5],
+  ['@sothebais Ξ 0.5', 0.5],
+  ['1,5 eth', 1.5],
+  ['1,25 ether', 1.25],
+  ['bid 2', 2],
+  ['bid .5', 0.5],
+  ['I bid 3 ETH.', 3],
+  ['bidding 0.75 eth on this one!', 0.75],
+  ['@sothebais @lot42 bid 1 eth #day3', 1],
+  ['bid 4 eth https://t.co/abc123', 4],
+  ['my bid: 2.5 ETH 🔥', 2.5],
+  ['bid 0.000000000000000001 eth', 0.000000000000000001]
+];
+
+const REJECTED: Array<[string, BidParseRejection]> = [
+  ['gm, love this piece', 'NO_BID_INTENT'],
+  ['this is lot 2', 'NO_BID_INTENT'],
+  ['I want to bid!', 'NO_AMOUNT'],
+  ['bid 1 eth or 2 eth', 'MULTIPLE_AMOUNTS'],
+  ['bid 2 on day 3', 'MULTIPLE_AMOUNTS'],
+  ['1 ETH now, 2 ETH later', 'MULTIPLE_AMOUNTS'],
+  ['bid 1,500 eth', 'AMBIGUOUS_AMOUNT'],
+  ['bid 1.500 eth', 'AMBIGUOUS_AMOUNT'],
+  ['bid 1.000,5 eth', 'AMBIGUOUS_AMOUNT'],
+  ['bid 2k', 'AMBIGUOUS_AMOUNT'],
+  ['bid 0 eth', 'INVALID_AMOUNT'],
+  ['bid 0.0000000000000000001 eth', 'INVALID_AMOUNT'],
+  ['bid $100', 'UNSUPPORTED_CURRENCY'],
+  ['bid 100 USDC', 'UNSUPPORTED_CURRENCY'],
+  ['bid 0.1 btc', 'UNSUPPORTED_CURRENCY']
+];
+
+describe('parseBidText', () => {
+  it.each(ACCEPTED)('parses "%s" as %d', (text, amount) => {
+    expect(parseBidText(text, { defaultCurrency: 'ETH' })).toEqual({
+      ok: true,
+      amount,
+      currency: 'ETH'
+    });
+  });
+
+  it.each(REJECTED)('rejects "%s" with %s', (text, reason) => {
+    expect(parseBidText(text, { defaultCurrency: 'ETH' })).toEqual({ ok: false, reason });
+  });
+
+  it('uses the marathon currency for bare amounts', () => {
+    expect(parseBidText('bid 50', { defaultCurrency: 'usdc' })).toEqual({
+      ok: true,
+      amount: 50,
+      currency: 'USDC'
+    });
+  });
+
+  it('rejects ETH amounts when the marathon uses another currency', () => {
+    expect(parseBidText('bid 1 eth', { defaultCurrency: 'USDC' })).toEqual({
+      ok: false,
+      reason: 'UNSUPPORTED_CURRENCY'
+    });
+  });
+});
+
+describe('parseBidTweet', () => {
+  it('builds a TwitterBid from the tweet', () => {
+    const result = parseBidTweet(
+      {
+        id: '1770000000000000001',
+        text: '@sothebais bid 1.25 ETH',
+        author_id: '42',
+        created_at: '2025-03-01T12:00:00.000Z'
+      },
+      { defaultCurrency: 'ETH' }
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      bid: {
+        userId: '42',
+        tweetId: '1770000000000000001',
+        amount: 1.25,
+        currency: 'ETH',
+        timestamp: new Date('2025-03-01T12:00:00.000Z'),
+        rawContent: '@sothebais bid 1.25 ETH'
+      }
+    });
+  });
+});
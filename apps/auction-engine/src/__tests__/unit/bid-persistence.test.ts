@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BidPersistence } from '../../services/bid-persistence.js';
+import type { PersistenceJob } from '../../services/bid-persistence.js';
+import { prisma } from '../../services/prisma.js';
+import type { RedisService } from '../../services/redis.js';
+
+// The module singleton would otherwise connect to Redis
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn() }));
+vi.mock('../../services/prisma.js', () => ({
+  prisma: {
+    user: { upsert: vi.fn() },
+    tweet: { findUnique: vi.fn().mockResolvedValue(null) },
+    bid: { upsert: vi.fn().mockResolvedValue({}) }
+  }
+}));
+
+function bidJob(tweetId: string): string {
+  const job: PersistenceJob = {
+    type: 'BID',
+    auctionId: 'lot-1',
+    bid: {
+      userId: 'alice',
+      tweetId,
+      amount: 1,
+      currency: 'ETH',
+      timestamp: new Date('2025-03-02T14:00:00.000Z'),
+      rawContent: 'bid 1 eth'
+    },
+    source: 'TWITTER',
+    status: 'ACCEPTED'
+  };
+  return JSON.stringify(job);
+}
+
+// The persistence queue, kept in memory
+function fakeRedis(jobs: string[]): RedisService & { done: string[]; failed: string[]; retried: string[] } {
+  const redis = {
+    done: [] as string[],
+    failed: [] as string[],
+    retried: [] as string[],
+    restorePersistenceJobs: async () => 0,
+    claimPersistenceJob: async () => jobs.shift() ?? null,
+    completePersistenceJob: async (job: string) => {
+      redis.done.push(job);
+    },
+    failPersistenceJob: async (job: string) => {
+      redis.failed.push(job);
+    },
+    retryPersistenceJob: async (job: string) => {
+      redis.retried.push(job);
+      jobs.unshift(job);
+    }
+  };
+  return redis as unknown as RedisService & { done: string[]; failed: string[]; retried: string[] };
+}
+
+// Prisma's error classes, as far as persistence tells them apart
+function prismaError(name: string, fields: Record<string, string> = {}): Error {
+  return Object.assign(new Error(name), { name, ...fields });
+}
+
+describe('BidPersistence', () => {
+  let persistence: BidPersistence;
+
+  afterEach(() => {
+    persistence.stop();
+    vi.mocked(prisma.user.upsert).mockReset();
+  });
+
+  it('parks a job the client refuses and carries on with the next', async () => {
+    vi.mocked(prisma.user.upsert)
+      .mockRejectedValueOnce(prismaError('PrismaClientValidationError'))
+      .mockResolvedValue({ id: 'user-1' } as never);
+    const redis = fakeRedis([bidJob('tweet-1'), bidJob('tweet-2')]);
+
+    persistence = new BidPersistence(redis);
+    await persistence.start();
+
+    await vi.waitFor(() => expect(redis.done).toEqual([bidJob('tweet-2')]));
+    expect(redis.failed).toEqual([bidJob('tweet-1')]);
+    expect(redis.retried).toEqual([]);
+  });
+
+  it('holds the queue while the database is unreachable', async () => {
+    vi.mocked(prisma.user.upsert)
+      .mockRejectedValueOnce(prismaError('PrismaClientInitializationError', { errorCode: 'P1001' }))
+      .mockResolvedValue({ id: 'user-1' } as never);
+    const redis = fakeRedis([bidJob('tweet-1')]);
+
+    persistence = new BidPersistence(redis);
+    await persistence.start();
+
+    // Retried after the first backoff, in its place at the head of the queue
+    await vi.waitFor(() => expect(redis.done).toEqual([bidJob('tweet-1')]), { timeout: 3000 });
+    expect(redis.retried).toEqual([bidJob('tweet-1')]);
+    expect(redis.failed).toEqual([]);
+  });
+});
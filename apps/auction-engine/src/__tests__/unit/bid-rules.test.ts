@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { BidRulesEngine, getMinimumNextBid } from '../../services/bid-rules.js';
+import type { BidRule } from '../../services/bid-rules.js';
+import type { AuctionState } from '@sothebais/packages/schema/redis/models';
+import type { MarathonConfig } from '@sothebais/packages/types/auction';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+const config: MarathonConfig = {
+  startDate: '2025-03-01T15:00:00.000Z',
+  endDate: '2025-03-31T15:00:00.000Z',
+  currency: 'ETH',
+  minBid: 0.5,
+  bidIncrement: 0.1,
+  auctionDuration: 24,
+  breakDuration: 0
+};
+
+const state: AuctionState = {
+  id: 'marathon-1',
+  sessionId: 'marathon-1',
+  artItemId: 'day-1',
+  status: 'ACTIVE',
+  startTime: '2025-03-01T15:00:00.000Z',
+  endTime: '2025-03-02T15:00:00.000Z',
+  currency: 'ETH',
+  lotOrder: 1
+};
+
+function bid(userId: string, amount: number): TwitterBid {
+  return {
+    userId,
+    tweetId: `tweet-${userId}-${amount}`,
+    amount,
+    currency: 'ETH',
+    timestamp: new Date('2025-03-01T16:00:00.000Z'),
+    rawContent: `bid ${amount} eth`
+  };
+}
+
+describe('BidRulesEngine', () => {
+  const engine = new BidRulesEngine();
+
+  it('accepts an opening bid at the marathon minimum', () => {
+    expect(engine.evaluate({ bid: bid('alice', 0.5), config, state, highestBid: null })).toEqual({ ok: true });
+  });
+
+  it('rejects an opening bid below the marathon minimum', () => {
+    expect(engine.evaluate({ bid: bid('alice', 0.4), config, state, highestBid: null })).toMatchObject({
+      ok: false,
+      reason: 'BELOW_MIN_BID',
+      minimumAmount: 0.5
+    });
+  });
+
+  it('rejects bids below the lot reserve price', () => {
+    const result = engine.evaluate({
+      bid: bid('alice', 0.8),
+      config,
+      state: { ...state, reservePrice: '1' },
+      highestBid: null
+    });
+    expect(result).toMatchObject({ ok: false, reason: 'BELOW_RESERVE', minimumAmount: 1 });
+  });
+
+  it('applies a fixed increment', () => {
+    const highestBid = bid('alice', 1);
+    expect(engine.evaluate({ bid: bid('bob', 1.05), config, state, highestBid })).toMatchObject({
+      ok: false,
+      reason: 'INCREMENT_TOO_SMALL',
+      minimumAmount: 1.1
+    });
+    expect(engine.evaluate({ bid: bid('bob', 1.1), config, state, highestBid })).toEqual({ ok: true });
+  });
+
+  it('states amounts in rejections without floating point noise', () => {
+    const highestBid = bid('alice', 0.2);
+    expect(engine.evaluate({ bid: bid('bob', 0.25), config, state, highestBid })).toMatchObject({
+      ok: false,
+      reason: 'INCREMENT_TOO_SMALL',
+      message: 'Bid must be at least 0.3'
+    });
+  });
+
+  it('applies a percentage increment', () => {
+    const percentConfig: MarathonConfig = { ...config, bidIncrement: 10, bidIncrementType: 'PERCENTAGE' };
+    expect(getMinimumNextBid(percentConfig, state, bid('alice', 2))).toBeCloseTo(2.2);
+  });
+
+  it('picks the increment tier for the current price band', () => {
+    const tieredConfig: MarathonConfig = {
+      ...config,
+      bidIncrementTiers: [
+        { from: 0, increment: 0.05 },
+        { from: 1, increment: 0.25 },
+        { from: 10, increment: 5, type: 'PERCENTAGE' }
+      ]
+    };
+    expect(getMinimumNextBid(tieredConfig, state, bid('alice', 0.5))).toBeCloseTo(0.55);
+    expect(getMinimumNextBid(tieredConfig, state, bid('alice', 4))).toBeCloseTo(4.25);
+    expect(getMinimumNextBid(tieredConfig, state, bid('alice', 20))).toBeCloseTo(21);
+  });
+
+  it('never goes below the lot minimum increment', () => {
+    const lotState: AuctionState = { ...state, minBidIncrement: '0.5' };
+    expect(getMinimumNextBid(config, lotState, bid('alice', 1))).toBeCloseTo(1.5);
+  });
+
+  it('blocks self-outbids unless the config allows them', () => {
+    const highestBid = bid('alice', 1);
+    expect(engine.evaluate({ bid: bid('alice', 2), config, state, highestBid })).toMatchObject({
+      ok: false,
+      reason: 'SELF_OUTBID'
+    });
+    expect(
+      engine.evaluate({ bid: bid('alice', 2), config: { ...config, allowSelfOutbid: true }, state, highestBid })
+    ).toEqual({ ok: true });
+  });
+
+  it('rejects bids in another currency', () => {
+    const usdcBid = { ...bid('alice', 1), currency: 'USDC' };
+    expect(engine.evaluate({ bid: usdcBid, config, state, highestBid: null })).toMatchObject({
+      ok: false,
+      reason: 'CURRENCY_MISMATCH'
+    });
+  });
+
+  it('runs custom rules after the defaults', () => {
+    const blocklist: BidRule = {
+      name: 'blocklist',
+      check: ({ bid }) =>
+        bid.userId === 'mallory' ? { reason: 'AUCTION_NOT_ACTIVE', message: 'Blocked' } : null
+    };
+    const custom = new BidRulesEngine().use(blocklist);
+    expect(custom.evaluate({ bid: bid('mallory', 1), config, state, highestBid: null })).toMatchObject({
+      ok: false,
+      message: 'Blocked'
+    });
+  });
+});
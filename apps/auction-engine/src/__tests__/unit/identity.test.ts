@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IdentityService, parseWalletCommand } from '../../services/identity.js';
+import { MockSigner, assertMockSignerSecret } from '../../services/wallet-signer.js';
+import type { RedisService } from '../../services/redis.js';
+import type { WalletChallenge } from '@sothebais/packages/schema/redis/models';
+
+interface FakeUser {
+  id: string;
+  twitterId: string;
+  twitterHandle?: string | null;
+  name?: string;
+  walletAddress: string | null;
+}
+
+// Just enough of the users table, kept in memory
+const users = vi.hoisted(() => [] as FakeUser[]);
+
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn() }));
+vi.mock('../../services/prisma.js', () => ({
+  prisma: {
+    user: {
+      findUnique: async ({ where }: { where: Partial<FakeUser> }) =>
+        users.find(user => Object.entries(where).every(([key, value]) => user[key as keyof FakeUser] === value)) ?? null,
+      updateMany: async ({ where, data }: { where: { twitterHandle: string; NOT: { twitterId: string } }; data: Partial<FakeUser> }) => {
+        const matched = users.filter(user => user.twitterHandle === where.twitterHandle && user.twitterId !== where.NOT.twitterId);
+        matched.forEach(user => Object.assign(user, data));
+        return { count: matched.length };
+      },
+      upsert: async ({ where, update, create }: { where: { twitterId: string }; update: Partial<FakeUser>; create: Partial<FakeUser> }) => {
+        const existing = users.find(user => user.twitterId === where.twitterId);
+        if (existing) {
+          return Object.assign(existing, update);
+        }
+        const user = { id: `user-${users.length + 1}`, walletAddress: null, ...create } as FakeUser;
+        users.push(user);
+        return user;
+      }
+    }
+  }
+}));
+
+function fakeRedis(): RedisService {
+  const challenges = new Map<string, WalletChallenge>();
+  return {
+    setWalletChallenge: async (challenge: WalletChallenge) => {
+      challenges.set(challenge.twitterId, challenge);
+    },
+    getWalletChallenge: async (twitterId: string) => challenges.get(twitterId) ?? null,
+    deleteWalletChallenge: async (twitterId: string) => {
+      challenges.delete(twitterId);
+    }
+  } as unknown as RedisService;
+}
+
+const ADDRESS = '0xAbCdEf0123456789aBcDeF0123456789AbCdEf01';
+
+describe('IdentityService', () => {
+  let signer: MockSigner;
+  let identity: IdentityService;
+
+  beforeEach(() => {
+    users.length = 0;
+    signer = new MockSigner('test-secret');
+    identity = new IdentityService(fakeRedis(), signer);
+  });
+
+  it('reads wallet commands around mentions', () => {
+    expect(parseWalletCommand(`@SothebAIs link wallet ${ADDRESS}`)).toEqual({ type: 'LINK', address: ADDRESS });
+    expect(parseWalletCommand('@SothebAIs verify 0xdeadbeef')).toEqual({ type: 'VERIFY', signature: '0xdeadbeef' });
+    expect(parseWalletCommand('@SothebAIs bid 2 eth')).toBeNull();
+  });
+
+  it('keeps tweet authors in sync and hands a reused handle to its new owner', async () => {
+    await identity.syncAuthor('1', { id: '1', username: 'alice', name: 'Alice' });
+    const renamed = await identity.syncAuthor('2', { id: '2', username: 'alice', name: 'New Alice' });
+
+    expect(renamed).toEqual({ userId: 'user-2', twitterId: '2', walletAddress: null });
+    expect(users.map(user => [user.twitterId, user.twitterHandle])).toEqual([['1', null], ['2', 'alice']]);
+  });
+
+  it('links a wallet once the challenge is signed', async () => {
+    const reply = await identity.handleCommand('1', `@SothebAIs link wallet ${ADDRESS}`);
+    expect(reply).toMatch(/^Sign this message with 0xAbCd…Ef01/);
+    // The message to sign ends the reply
+    const message = reply!.slice(reply!.indexOf(': ') + 2);
+
+    expect(await identity.handleCommand('1', `verify ${signer.sign(ADDRESS, message)}`))
+      .toBe('Wallet 0xabcd…ef01 is now linked to your account.');
+    expect(await identity.getWalletAddress('1')).toBe(ADDRESS.toLowerCase());
+    // The challenge is used up
+    expect(await identity.verifyLink('1', signer.sign(ADDRESS, message)))
+      .toEqual({ linked: false, reason: 'NO_CHALLENGE' });
+  });
+
+  it('refuses bad signatures and wallets linked to someone else', async () => {
+    const challenge = await identity.requestLink('1', ADDRESS);
+    expect(await identity.verifyLink('1', new MockSigner('other').sign(ADDRESS, challenge.message)))
+      .toEqual({ linked: false, reason: 'BAD_SIGNATURE' });
+    await identity.verifyLink('1', signer.sign(ADDRESS, challenge.message));
+
+    const stolen = await identity.requestLink('2', ADDRESS);
+    expect(await identity.verifyLink('2', signer.sign(ADDRESS, stolen.message)))
+      .toEqual({ linked: false, reason: 'WALLET_IN_USE' });
+    expect(await identity.handleCommand('2', 'link wallet 0x1234')).toMatch(/^That doesn't look like a wallet address/);
+  });
+
+  it('will not run outside development with the default signer secret', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    try {
+      vi.stubEnv('MOCK_SIGNER_SECRET', 'mock-signer');
+      expect(() => assertMockSignerSecret()).toThrow('MOCK_SIGNER_SECRET');
+      vi.stubEnv('MOCK_SIGNER_SECRET', 'a-real-secret');
+      expect(() => assertMockSignerSecret()).not.toThrow();
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LotScheduler } from '../../services/lot-scheduler.js';
+import type { AuctionManager } from '../../services/auction-manager.js';
+import type { AuctionState } from '@sothebais/packages/schema/redis/models';
+
+// The singleton would otherwise connect to Redis
+vi.mock('../../services/auction-manager.js', () => ({ auctionManager: {} }));
+
+const MARATHON_ID = 'marathon-1';
+
+// Two one-hour lots with a half-hour break between them
+const LOTS: AuctionState[] = [
+  {
+    id: MARATHON_ID,
+    sessionId: MARATHON_ID,
+    artItemId: 'day-1',
+    status: 'SCHEDULED',
+    startTime: '2025-03-01T15:00:00.000Z',
+    endTime: '2025-03-01T16:00:00.000Z',
+    currency: 'ETH',
+    lotOrder: 1
+  },
+  {
+    id: MARATHON_ID,
+    sessionId: MARATHON_ID,
+    artItemId: 'day-2',
+    status: 'SCHEDULED',
+    startTime: '2025-03-01T16:30:00.000Z',
+    endTime: '2025-03-01T17:30:00.000Z',
+    currency: 'ETH',
+    lotOrder: 2
+  }
+];
+
+// The marathon's state, kept in memory; logs each transition with the time it happened
+function fakeManager(): AuctionManager & { state: AuctionState | null; log: string[] } {
+  let active = true;
+  const manager = {
+    state: { ...LOTS[0]! } as AuctionState | null,
+    log: [] as string[],
+    getActiveMarathonId: async () => (active ? MARATHON_ID : null),
+    getCurrentAuction: async () => (manager.state ? { ...manager.state } : null),
+    startDailyAuction: async () => {
+      manager.state!.status = 'ACTIVE';
+      manager.log.push(`open lot ${manager.state!.lotOrder} at ${new Date().toISOString()}`);
+    },
+    endDailyAuction: async () => {
+      const { lotOrder } = manager.state!;
+      manager.log.push(`close lot ${lotOrder} at ${new Date().toISOString()}`);
+      const next = LOTS[lotOrder];
+      if (next) {
+        manager.state = { ...next };
+      } else {
+        manager.state!.status = 'ENDED';
+        active = false;
+      }
+    }
+  };
+  return manager as unknown as AuctionManager & { state: AuctionState | null; log: string[] };
+}
+
+describe('LotScheduler', () => {
+  let manager: ReturnType<typeof fakeManager>;
+  let scheduler: LotScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T14:00:00.000Z'));
+    manager = fakeManager();
+    scheduler = new LotScheduler(manager);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('opens each lot at its start time and closes it at its end time', async () => {
+    await scheduler.schedule(MARATHON_ID);
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000 - 1);
+    expect(manager.log).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(manager.log).toEqual(['open lot 1 at 2025-03-01T15:00:00.000Z']);
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(manager.log).toEqual([
+      'open lot 1 at 2025-03-01T15:00:00.000Z',
+      'close lot 1 at 2025-03-01T16:00:00.000Z'
+    ]);
+  });
+
+  it('waits out the break before opening the next lot', async () => {
+    vi.setSystemTime(new Date('2025-03-01T15:59:00.000Z'));
+    manager.state = { ...LOTS[0]!, status: 'ACTIVE' };
+    await scheduler.schedule(MARATHON_ID);
+
+    await vi.advanceTimersByTimeAsync(30 * 60 * 1000);
+    expect(manager.log).toEqual(['close lot 1 at 2025-03-01T16:00:00.000Z']);
+    expect(manager.state).toMatchObject({ lotOrder: 2, status: 'SCHEDULED' });
+
+    await vi.advanceTimersByTimeAsync(61 * 60 * 1000);
+    expect(manager.log).toEqual([
+      'close lot 1 at 2025-03-01T16:00:00.000Z',
+      'open lot 2 at 2025-03-01T16:30:00.000Z',
+      'close lot 2 at 2025-03-01T17:30:00.000Z'
+    ]);
+    // The last lot ended the marathon, so nothing is left to wait for
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('keeps a lot open until its soft close extension runs out', async () => {
+    vi.setSystemTime(new Date('2025-03-01T15:59:00.000Z'));
+    manager.state = { ...LOTS[0]!, status: 'ACTIVE' };
+    await scheduler.schedule(MARATHON_ID);
+
+    // A late bid pushed the close out after the timer was armed
+    manager.state.extendedEndTime = '2025-03-01T16:02:00.000Z';
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(manager.log).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(manager.log).toEqual(['close lot 1 at 2025-03-01T16:02:00.000Z']);
+  });
+
+  it('catches up on the lot times that passed while it was down', async () => {
+    vi.setSystemTime(new Date('2025-03-01T16:45:00.000Z'));
+
+    await scheduler.recover();
+
+    expect(manager.log).toEqual([
+      'open lot 1 at 2025-03-01T16:45:00.000Z',
+      'close lot 1 at 2025-03-01T16:45:00.000Z',
+      'open lot 2 at 2025-03-01T16:45:00.000Z'
+    ]);
+    expect(manager.state).toMatchObject({ lotOrder: 2, status: 'ACTIVE' });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SettlementService } from '../../services/settlement.js';
+import { MockChainAdapter } from '../../services/chain.js';
+import { auctionEvents } from '../../services/events.js';
+import type { ExtendedAuctionState, RedisService } from '../../services/redis.js';
+import type { SettlementState } from '@sothebais/packages/schema/redis/models';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+// The module singleton would otherwise connect to Redis
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn() }));
+vi.mock('../../services/events.js', () => ({
+  auctionEvents: { publish: vi.fn().mockResolvedValue(null) }
+}));
+vi.mock('../../services/bid-persistence.js', () => ({
+  bidPersistence: { enqueue: vi.fn().mockResolvedValue(undefined), watch: vi.fn() },
+  settlementJob: vi.fn()
+}));
+vi.mock('../../services/identity.js', () => ({ identityService: {} }));
+
+const lot: ExtendedAuctionState = {
+  id: 'lot-1',
+  marathonId: 'session-1',
+  dayNumber: 1,
+  sessionId: 'session-1',
+  artItemId: 'art-1',
+  status: 'ENDED',
+  startTime: '2025-03-01T15:00:00.000Z',
+  endTime: '2025-03-02T15:00:00.000Z',
+  currency: 'ETH',
+  lotOrder: 1
+};
+
+function bid(userId: string, amount: number): TwitterBid {
+  return {
+    userId,
+    tweetId: `tweet-${userId}-${amount}`,
+    amount,
+    currency: 'ETH',
+    timestamp: new Date('2025-03-02T14:00:00.000Z'),
+    rawContent: `bid ${amount} eth`
+  };
+}
+
+// Just enough of RedisService for settlement, kept in memory
+function fakeRedis(bids: TwitterBid[]): RedisService {
+  const settlements = new Map<string, SettlementState>();
+  return {
+    getAuctionConfig: async () => null,
+    getBidHistory: async () => bids,
+    getSettlement: async (marathonId: string, lotOrder: number) =>
+      structuredClone(settlements.get(`${marathonId}:${lotOrder}`) ?? null),
+    setSettlement: async (settlement: SettlementState) => {
+      settlements.set(`${settlement.marathonId}:${settlement.lotOrder}`, structuredClone(settlement));
+    },
+    getOpenSettlements: async () =>
+      [...settlements.values()]
+        .filter(settlement => settlement.status !== 'SETTLED' && settlement.status !== 'UNSOLD')
+        .map(settlement => structuredClone(settlement))
+  } as unknown as RedisService;
+}
+
+// Linked wallets by Twitter user ID
+function wallets(linked: Record<string, string>): { getWalletAddress: (userId: string) => Promise<string | null> } {
+  return { getWalletAddress: async userId => linked[userId] ?? null };
+}
+
+function publishedTypes(): string[] {
+  return vi.mocked(auctionEvents.publish).mock.calls.map(([type]) => type);
+}
+
+describe('SettlementService', () => {
+  let chain: MockChainAdapter;
+
+  beforeEach(() => {
+    vi.mocked(auctionEvents.publish).mockClear();
+    vi.useRealTimers();
+    chain = new MockChainAdapter();
+  });
+
+  it('settles the lot once the winner pays', async () => {
+    const service = new SettlementService(chain, fakeRedis([bid('alice', 1), bid('bob', 2)]), wallets({ bob: '0xb0b' }));
+
+    const started = await service.begin('session-1', lot);
+    expect(started).toMatchObject({ status: 'PAYMENT_REQUESTED', offerIndex: 0 });
+    expect(started?.candidates[0]?.userId).toBe('bob');
+
+    chain.markPaid(started!.paymentId!, '0xpayment');
+    await service.poll();
+
+    const settlement = await service.getSettlement('session-1', 1);
+    expect(settlement).toMatchObject({ status: 'SETTLED', transactionHash: '0xpayment' });
+    expect(settlement?.transferTransactionHash).toMatch(/^0x/);
+    expect(publishedTypes()).toEqual(['WINNER_DETERMINED', 'PAYMENT_REQUESTED', 'PAYMENT_RECEIVED', 'LOT_SETTLED']);
+  });
+
+  it('holds the transfer until the winner links a wallet', async () => {
+    const linked: Record<string, string> = {};
+    const service = new SettlementService(chain, fakeRedis([{ ...bid('bob', 2), walletLinked: false }]), wallets(linked));
+
+    const started = await service.begin('session-1', lot);
+    expect(started?.candidates[0]).toMatchObject({ userId: 'bob', walletLinked: false });
+
+    chain.markPaid(started!.paymentId!, '0xpayment');
+    await service.poll();
+    expect(await service.getSettlement('session-1', 1)).toMatchObject({ status: 'PAID' });
+
+    linked['bob'] = '0xb0b';
+    await service.poll();
+    expect(await service.getSettlement('session-1', 1)).toMatchObject({ status: 'SETTLED' });
+  });
+
+  it('offers the lot to the runner-up when the winner does not pay in time', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-02T15:00:00.000Z'));
+
+    // Bob's two bids count once, so Alice is the runner-up
+    const service = new SettlementService(chain, fakeRedis([bid('alice', 1), bid('bob', 2), bid('bob', 3)]));
+    await service.begin('session-1', lot);
+
+    vi.setSystemTime(new Date('2025-03-02T16:01:00.000Z'));
+    await service.poll();
+
+    const settlement = await service.getSettlement('session-1', 1);
+    expect(settlement).toMatchObject({ status: 'PAYMENT_REQUESTED', offerIndex: 1 });
+    expect(settlement?.candidates[1]?.userId).toBe('alice');
+    expect(vi.mocked(auctionEvents.publish).mock.calls.find(([type]) => type === 'PAYMENT_EXPIRED')?.[1])
+      .toMatchObject({ userId: 'bob', nextBidId: 'tweet-alice-1' });
+  });
+
+  it('leaves the lot unsold when every offer expires', async () => {
+    const service = new SettlementService(chain, fakeRedis([bid('alice', 1), bid('bob', 2)]));
+    const started = await service.begin('session-1', lot);
+
+    chain.markFailed(started!.paymentId!, 'Insufficient funds');
+    await service.poll();
+    const runnerUp = await service.getSettlement('session-1', 1);
+    chain.markFailed(runnerUp!.paymentId!, 'Insufficient funds');
+    await service.poll();
+
+    expect(await service.getSettlement('session-1', 1)).toMatchObject({ status: 'UNSOLD', offerIndex: 1 });
+    expect(vi.mocked(auctionEvents.publish).mock.calls.at(-1)?.[1]).toMatchObject({ outcome: 'UNSOLD' });
+  });
+
+  it('requests payment once when a poll runs while the lot is opening', async () => {
+    const service = new SettlementService(chain, fakeRedis([bid('alice', 1), bid('bob', 2)]));
+    const requestPayment = vi.spyOn(chain, 'requestPayment');
+
+    // A scheduled poll fires between announcing the winner and asking them to pay
+    let polled: Promise<void> | undefined;
+    vi.mocked(auctionEvents.publish).mockImplementationOnce(async () => {
+      polled = service.poll();
+      return null;
+    });
+    const started = await service.begin('session-1', lot);
+    await polled;
+
+    expect(requestPayment).toHaveBeenCalledTimes(1);
+    expect(await service.getSettlement('session-1', 1)).toMatchObject({ paymentId: started?.paymentId });
+    expect(publishedTypes()).toEqual(['WINNER_DETERMINED', 'PAYMENT_REQUESTED']);
+  });
+
+  it('does nothing for a lot without bids', async () => {
+    const service = new SettlementService(chain, fakeRedis([]));
+    expect(await service.begin('session-1', lot)).toBeNull();
+    expect(publishedTypes()).toEqual([]);
+  });
+});
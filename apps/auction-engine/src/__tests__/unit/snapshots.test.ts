@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SnapshotService, SnapshotValidationError } from '../../services/snapshots.js';
+import type { RedisService } from '../../services/redis.js';
+
+// The module singleton would otherwise connect to Redis
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn(), SNAPSHOT_VERSION: 1 }));
+
+const config = {
+  startDate: '2025-03-01T15:00:00.000Z',
+  endDate: '2025-03-31T15:00:00.000Z',
+  currency: 'ETH',
+  minBid: 0.5,
+  bidIncrement: 0.1,
+  auctionDuration: 24,
+  breakDuration: 0
+};
+
+// A session started with its own bid settings
+const sessionConfig = { ...config, minBid: 1 };
+
+const currentState = {
+  id: 'marathon-1',
+  marathonId: 'marathon-1',
+  dayNumber: 1,
+  sessionId: 'marathon-1',
+  artItemId: 'day-1',
+  status: 'ACTIVE',
+  startTime: '2025-03-01T15:00:00.000Z',
+  endTime: '2025-03-02T15:00:00.000Z',
+  currency: 'ETH',
+  lotOrder: 1
+};
+
+function bid(tweetId: string, amount: number): Record<string, unknown> & { amount: number } {
+  return {
+    userId: `user-${tweetId}`,
+    tweetId,
+    amount,
+    currency: 'ETH',
+    timestamp: '2025-03-01T16:00:00.000Z',
+    rawContent: `bid ${amount} eth`
+  };
+}
+
+function fakeRedis(snapshot: unknown, live: { bids: Record<string, unknown[]>; state: unknown }): RedisService {
+  return {
+    getSnapshot: async () => JSON.stringify(snapshot),
+    getAuctionConfig: async (marathonId: string) => (marathonId === 'session-1' ? sessionConfig : config),
+    getCurrentAuction: async () => live.state,
+    getAllBids: async () => live.bids
+  } as unknown as RedisService;
+}
+
+describe('SnapshotService', () => {
+  it('loads snapshots written before versioning', async () => {
+    const service = new SnapshotService(fakeRedis(
+      { timestamp: '2025-03-01T17:00:00.000Z', config, currentState, bids: { '1': [bid('a', 1)] } },
+      { bids: {}, state: currentState }
+    ));
+
+    const snapshot = await service.load('marathon-1');
+    expect(snapshot?.version).toBe(1);
+    expect(snapshot?.bids['1']?.[0]?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('keeps which bidders had a linked wallet through a save and restore', async () => {
+    const bids = { '1': [{ ...bid('a', 1), walletLinked: false }, { ...bid('b', 2), walletLinked: true }, bid('c', 3)] };
+    const service = new SnapshotService(fakeRedis(
+      { version: 1, timestamp: '2025-03-01T17:00:00.000Z', config, currentState, bids },
+      { bids: {}, state: currentState }
+    ));
+
+    const snapshot = await service.load('marathon-1');
+    const restored = await new SnapshotService(fakeRedis(JSON.parse(JSON.stringify(snapshot)), { bids: {}, state: currentState }))
+      .load('marathon-1');
+
+    expect(restored?.bids['1']?.map(bid => bid.walletLinked)).toEqual([false, true, undefined]);
+  });
+
+  it('rejects snapshots that do not fit the current schema', async () => {
+    const service = new SnapshotService(fakeRedis(
+      { timestamp: '2025-03-01T17:00:00.000Z', config, currentState: { ...currentState, status: 'PAUSED' }, bids: {} },
+      { bids: {}, state: currentState }
+    ));
+
+    await expect(service.load('marathon-1')).rejects.toBeInstanceOf(SnapshotValidationError);
+  });
+
+  it('rejects snapshots of another marathon', async () => {
+    const service = new SnapshotService(fakeRedis(
+      { timestamp: '2025-03-01T17:00:00.000Z', config, currentState, bids: {} },
+      { bids: {}, state: currentState }
+    ));
+
+    await expect(service.load('marathon-2')).rejects.toThrow('currentState.marathonId');
+  });
+
+  it('reports what a restore would change', async () => {
+    const service = new SnapshotService(fakeRedis(
+      { version: 1, timestamp: '2025-03-01T17:00:00.000Z', config, currentState, bids: { '1': [bid('a', 1)] } },
+      { bids: { '1': [bid('a', 1), bid('b', 2)] }, state: { ...currentState, highestBidId: 'b' } }
+    ));
+
+    const snapshot = await service.load('marathon-1');
+    const diff = await service.diff('marathon-1', snapshot!);
+
+    expect(diff.config).toEqual([]);
+    expect(diff.currentState).toEqual([{ field: 'highestBidId', current: 'b', snapshot: null }]);
+    expect(diff.lots).toEqual([
+      { lotOrder: 1, bidsToAdd: [], bidsToRemove: ['b'], currentHighest: 2, snapshotHighest: 1 }
+    ]);
+  });
+
+  it("compares a session's snapshot with the session's own config", async () => {
+    const sessionState = { ...currentState, id: 'lot-a', marathonId: 'session-1', sessionId: 'session-1' };
+    const service = new SnapshotService(fakeRedis(
+      { version: 1, timestamp: '2025-03-01T17:00:00.000Z', config: sessionConfig, currentState: sessionState, bids: {} },
+      { bids: {}, state: sessionState }
+    ));
+
+    const snapshot = await service.load('session-1');
+    const diff = await service.diff('session-1', snapshot!);
+
+    expect(diff.config).toEqual([]);
+    expect(diff.currentState).toEqual([]);
+  });
+});
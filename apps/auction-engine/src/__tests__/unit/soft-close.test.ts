@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { applySoftClose } from '../../services/soft-close.js';
+import type { ExtendedAuctionState } from '../../services/redis.js';
+import type { SoftCloseConfig } from '@sothebais/packages/types/auction';
+
+const softClose: SoftCloseConfig = {
+  windowSeconds: 120,
+  extensionSeconds: 120,
+  maxExtensions: 2
+};
+
+const END_TIME = '2025-03-02T15:00:00.000Z';
+
+function lot(overrides: Partial<ExtendedAuctionState> = {}): ExtendedAuctionState {
+  return {
+    id: 'marathon-1',
+    marathonId: 'marathon-1',
+    dayNumber: 1,
+    sessionId: 'marathon-1',
+    artItemId: 'day-1',
+    status: 'ACTIVE',
+    startTime: '2025-03-01T15:00:00.000Z',
+    endTime: END_TIME,
+    currency: 'ETH',
+    lotOrder: 1,
+    ...overrides
+  };
+}
+
+// A bid accepted this many seconds before the given end time
+function secondsBefore(seconds: number, endTime: string = END_TIME): Date {
+  return new Date(new Date(endTime).getTime() - seconds * 1000);
+}
+
+describe('applySoftClose', () => {
+  it('leaves the end time alone for bids before the final window', () => {
+    const state = lot();
+
+    expect(applySoftClose(state, secondsBefore(121), softClose)).toBeNull();
+    expect(state.extendedEndTime).toBeUndefined();
+    expect(state.extensionCount).toBeUndefined();
+  });
+
+  it('extends the lot from the time of a bid inside the final window', () => {
+    const state = lot();
+
+    expect(applySoftClose(state, secondsBefore(30), softClose)).toEqual({ previousEndTime: END_TIME, maxExtensions: 2 });
+    expect(state.extendedEndTime).toBe('2025-03-02T15:01:30.000Z');
+    expect(state.extensionCount).toBe(1);
+  });
+
+  it('measures the window from the extended end time', () => {
+    const state = lot({ extendedEndTime: '2025-03-02T15:01:30.000Z', extensionCount: 1 });
+
+    expect(applySoftClose(state, secondsBefore(60, '2025-03-02T15:01:30.000Z'), softClose)).toEqual({
+      previousEndTime: '2025-03-02T15:01:30.000Z',
+      maxExtensions: 2
+    });
+    expect(state.extendedEndTime).toBe('2025-03-02T15:02:30.000Z');
+    expect(state.extensionCount).toBe(2);
+  });
+
+  it('stops extending once the lot has had its maximum extensions', () => {
+    const state = lot();
+    let endTime = END_TIME;
+
+    for (let extension = 1; extension <= softClose.maxExtensions; extension++) {
+      expect(applySoftClose(state, secondsBefore(10, endTime), softClose)).not.toBeNull();
+      endTime = state.extendedEndTime!;
+    }
+    expect(applySoftClose(state, secondsBefore(10, endTime), softClose)).toBeNull();
+    expect(state.extendedEndTime).toBe(endTime);
+    expect(state.extensionCount).toBe(2);
+  });
+
+  it('never brings the end time forward', () => {
+    const state = lot();
+
+    expect(applySoftClose(state, secondsBefore(60), { ...softClose, extensionSeconds: 30 })).toBeNull();
+    expect(state.extendedEndTime).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TweetArchiver } from '../../services/tweet-archive.js';
+import { createTwitterClient } from '../../services/twitter-client.js';
+import { TwitterEmulator } from '../../tests/twitter-emulator.js';
+
+interface FakeTweetRow {
+  tweetId: string;
+  authorId: string;
+  content: string;
+  postedAt: Date;
+  isBid: boolean;
+  isProcessed: boolean;
+  metadata: Record<string, unknown>;
+}
+
+interface TweetWhere {
+  isBid?: boolean;
+  isProcessed?: boolean;
+  postedAt?: { gte: Date; lte: Date };
+}
+
+// Just enough of the campaigns, tweets and engagement tables, kept in memory
+const db = vi.hoisted(() => ({
+  campaigns: new Map<string, { id: string; startDate: Date; endDate: Date }>(),
+  tweets: new Map<string, FakeTweetRow>(),
+  engagement: new Map<string, Record<string, unknown>>()
+}));
+
+vi.mock('../../services/twitter.js', () => ({ twitterService: {} }));
+vi.mock('../../services/twitter-storage.js', () => ({ TwitterStorage: vi.fn() }));
+vi.mock('../../services/prisma.js', () => {
+  const matching = (where: TweetWhere): FakeTweetRow[] => [...db.tweets.values()].filter(row =>
+    (where.isBid === undefined || row.isBid === where.isBid) &&
+    (where.isProcessed === undefined || row.isProcessed === where.isProcessed) &&
+    (!where.postedAt || (row.postedAt >= where.postedAt.gte && row.postedAt <= where.postedAt.lte))
+  );
+
+  return {
+    prisma: {
+      campaign: {
+        findUnique: async ({ where }: { where: { id: string } }) => db.campaigns.get(where.id) ?? null,
+        findMany: async () => [...db.campaigns.values()]
+      },
+      tweet: {
+        count: async ({ where }: { where: TweetWhere }) => matching(where).length,
+        findMany: async ({ where, distinct }: { where: TweetWhere; distinct?: ['authorId'] }) => {
+          const rows = matching(where);
+          return distinct ? [...new Set(rows.map(row => row.authorId))].map(authorId => ({ authorId })) : rows;
+        },
+        createMany: async ({ data }: { data: FakeTweetRow[] }) => {
+          const fresh = data.filter(row => !db.tweets.has(row.tweetId));
+          fresh.forEach(row => db.tweets.set(row.tweetId, row));
+          return { count: fresh.length };
+        },
+        update: async ({ where, data }: { where: { tweetId: string }; data: Partial<FakeTweetRow> }) =>
+          Object.assign(db.tweets.get(where.tweetId)!, data)
+      },
+      campaignEngagement: {
+        upsert: async ({ where, create }: { where: { campaignId: string }; create: Record<string, unknown> }) => {
+          db.engagement.set(where.campaignId, create);
+          return create;
+        }
+      }
+    }
+  };
+});
+
+const MINUTE = 60 * 1000;
+
+describe('TweetArchiver', () => {
+  let emulator: TwitterEmulator;
+  let client: ReturnType<typeof createTwitterClient>;
+
+  beforeEach(async () => {
+    db.campaigns.clear();
+    db.tweets.clear();
+    db.engagement.clear();
+    emulator = new TwitterEmulator({ username: 'SothebAIs' });
+    const baseUrl = await emulator.start();
+    client = createTwitterClient({ appKey: 'key', appSecret: 'secret', accessToken: 'token', accessSecret: 'token-secret' }, baseUrl);
+
+    // The tweets go out 20 minutes "ago", so they are old enough to search and reparse
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const now = Date.now();
+    vi.setSystemTime(now - 20 * MINUTE);
+    db.campaigns.set('campaign-1', { id: 'campaign-1', startDate: new Date(now - 60 * MINUTE), endDate: new Date(now + 60 * MINUTE) });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await emulator.stop();
+  });
+
+  it('backfills missed mentions, parses them and totals the campaign', async () => {
+    const seen = emulator.mention('@SothebAIs bid 1 ETH', 'alice');
+    const chatter = emulator.mention('@SothebAIs what a piece', 'bob');
+    const missed = emulator.mention('@SothebAIs bid 2 ETH', 'alice');
+    // Ingestion got the first one and handed it to the auction
+    db.tweets.set(seen.id, {
+      tweetId: seen.id,
+      authorId: seen.author_id,
+      content: seen.text,
+      postedAt: new Date(seen.created_at),
+      isBid: true,
+      isProcessed: true,
+      metadata: {}
+    });
+    vi.setSystemTime(Date.now() + 20 * MINUTE);
+
+    const archiver = new TweetArchiver({ getClient: () => client }, '@SothebAIs', 60);
+    const engagement = await archiver.archiveCampaign('campaign-1');
+
+    expect(engagement).toMatchObject({
+      campaignId: 'campaign-1',
+      mentions: 3,
+      uniqueAuthors: 2,
+      bidTweets: 2,
+      bidTweetRatio: 2 / 3,
+      backfilled: 2,
+      reparsed: 2
+    });
+    expect(db.tweets.get(missed.id)).toMatchObject({
+      isBid: true,
+      isProcessed: true,
+      metadata: expect.objectContaining({ archive: expect.objectContaining({ amount: 2, currency: 'ETH' }) })
+    });
+    expect(db.tweets.get(chatter.id)).toMatchObject({ isBid: false, isProcessed: true });
+
+    // A second run finds nothing new
+    expect(await archiver.archiveCampaign('campaign-1')).toMatchObject({ mentions: 3, backfilled: 0, reparsed: 0 });
+  });
+
+  it('still totals stored tweets without a Twitter client', async () => {
+    const stored = emulator.mention('@SothebAIs bid 3 ETH', 'carol');
+    db.tweets.set(stored.id, {
+      tweetId: stored.id,
+      authorId: stored.author_id,
+      content: stored.text,
+      postedAt: new Date(stored.created_at),
+      isBid: true,
+      isProcessed: false,
+      metadata: {}
+    });
+    vi.setSystemTime(Date.now() + 20 * MINUTE);
+
+    const archiver = new TweetArchiver({ getClient: () => null }, '@SothebAIs', 60);
+
+    expect(await archiver.archiveCampaign('campaign-1')).toMatchObject({ mentions: 1, bidTweets: 1, backfilled: 0, reparsed: 1 });
+    expect(await archiver.archiveCampaign('missing')).toBeNull();
+  });
+});
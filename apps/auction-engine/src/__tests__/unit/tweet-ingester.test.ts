@@ -0,0 +1,210 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ApiResponseError, ETwitterStreamEvent } from 'twitter-api-v2';
+import type { TwitterApi } from 'twitter-api-v2';
+import { TweetIngester } from '../../services/tweet-ingester.js';
+import type { TwitterStorage } from '../../services/twitter-storage.js';
+import type { TwitterApiTweet } from '@sothebais/packages/types/twitter';
+
+// Keep Prisma and Redis out of the test
+vi.mock('../../services/twitter-storage.js', () => ({ TwitterStorage: vi.fn() }));
+vi.mock('../../services/redis.js', () => ({ RedisService: vi.fn() }));
+vi.mock('../../services/user-preferences.js', () => ({ userPreferences: {} }));
+vi.mock('../../services/identity.js', () => ({ identityService: {} }));
+vi.mock('../../services/bid-moderation.js', () => ({ bidModerator: {} }));
+
+function fakeStorage(): TwitterStorage & { stored: string[]; cursor: string | null } {
+  const storage = {
+    stored: [] as string[],
+    cursor: null as string | null,
+    hasTweet: async (id: string): Promise<boolean> => storage.stored.includes(id),
+    storeTweet: async (tweet: TwitterApiTweet): Promise<void> => {
+      storage.stored.push(tweet.id);
+    },
+    getSearchCursor: async (): Promise<string | null> => storage.cursor,
+    setSearchCursor: async (sinceId: string): Promise<void> => {
+      storage.cursor = sinceId;
+    },
+    createStreamRecord: async () => null,
+    updateStreamRecord: async () => undefined,
+    setStreamActive: async () => undefined
+  };
+  return storage as unknown as TwitterStorage & { stored: string[]; cursor: string | null };
+}
+
+function tweet(id: string): { id: string; text: string; author_id: string; created_at: string } {
+  return { id, text: `bid ${id} eth`, author_id: 'alice', created_at: '2025-03-01T16:00:00.000Z' };
+}
+
+const config = { type: 'FILTERED' as const, rules: [{ value: 'bid', tag: 'bids' }], query: 'bid', isActive: true };
+
+describe('TweetIngester', () => {
+  let ingester: TweetIngester;
+
+  afterEach(async () => {
+    await ingester.stop();
+  });
+
+  it('polls search with a since_id cursor when there is no stream client', async () => {
+    const search = vi.fn()
+      .mockResolvedValueOnce({ data: { data: [tweet('2'), tweet('1')], meta: { newest_id: '2' } } })
+      .mockResolvedValue({ data: { data: [], meta: {} } });
+    const searchClient = { v2: { search } } as unknown as TwitterApi;
+    const storage = fakeStorage();
+    const handled: string[] = [];
+
+    ingester = new TweetIngester(async tweet => {
+      handled.push(tweet.id);
+    });
+    await ingester.start({ streamClient: null, searchClient, storage, config, pollIntervalMs: 10 });
+
+    await vi.waitFor(() => expect(search.mock.calls.length).toBeGreaterThanOrEqual(2));
+
+    // Oldest first, stored before processing, and the cursor moves on
+    expect(handled).toEqual(['1', '2']);
+    expect(storage.stored).toEqual(['1', '2']);
+    expect(storage.cursor).toBe('2');
+    expect(search.mock.calls[1]?.[1]).toMatchObject({ since_id: '2' });
+    expect(ingester.getStatus()).toMatchObject({ mode: 'POLLING', sinceId: '2' });
+  });
+
+  it('attaches the author profile from the expansion', async () => {
+    const users = [{ id: 'alice', username: 'alice_eth', name: 'Alice', profile_image_url: 'https://img/alice.png' }];
+    const search = vi.fn()
+      .mockResolvedValueOnce({ data: { data: [tweet('1')], includes: { users }, meta: { newest_id: '1' } } })
+      .mockResolvedValue({ data: { data: [], meta: {} } });
+    const handled: TwitterApiTweet[] = [];
+
+    ingester = new TweetIngester(async tweet => {
+      handled.push(tweet);
+    });
+    await ingester.start({
+      streamClient: null,
+      searchClient: { v2: { search } } as unknown as TwitterApi,
+      storage: fakeStorage(),
+      config,
+      pollIntervalMs: 10
+    });
+
+    await vi.waitFor(() => expect(handled).toHaveLength(1));
+    expect(search.mock.calls[0]?.[1]).toMatchObject({ expansions: ['author_id'] });
+    expect(handled[0]?.author).toEqual({
+      id: 'alice',
+      username: 'alice_eth',
+      name: 'Alice',
+      profileImageUrl: 'https://img/alice.png'
+    });
+  });
+
+  it('falls back to polling when the app may not use the filtered stream', async () => {
+    const forbidden = new ApiResponseError('Forbidden', {
+      code: 403,
+      data: { title: 'client-not-enrolled' },
+      headers: {},
+      request: {} as never,
+      response: {} as never
+    } as never);
+    const streamClient = {
+      v2: { streamRules: vi.fn().mockRejectedValue(forbidden) }
+    } as unknown as TwitterApi;
+    const search = vi.fn().mockResolvedValue({ data: { data: [], meta: {} } });
+
+    ingester = new TweetIngester(async () => undefined);
+    await ingester.start({
+      streamClient,
+      searchClient: { v2: { search } } as unknown as TwitterApi,
+      storage: fakeStorage(),
+      config,
+      pollIntervalMs: 10
+    });
+
+    expect(ingester.getStatus()).toMatchObject({ status: 'ERROR', mode: 'POLLING', failures: 1 });
+    await vi.waitFor(() => expect(search).toHaveBeenCalled());
+  });
+
+  it('pages through search results and starts from ingestion start without a cursor', async () => {
+    const search = vi.fn()
+      .mockResolvedValueOnce({ data: { data: [tweet('4'), tweet('3')], meta: { newest_id: '4', next_token: 'page-2' } } })
+      .mockResolvedValueOnce({ data: { data: [tweet('2')], meta: { newest_id: '2' } } })
+      .mockResolvedValue({ data: { data: [], meta: {} } });
+    const storage = fakeStorage();
+    const handled: string[] = [];
+
+    ingester = new TweetIngester(async tweet => {
+      handled.push(tweet.id);
+    });
+    await ingester.start({ streamClient: null, searchClient: { v2: { search } } as unknown as TwitterApi, storage, config, pollIntervalMs: 10 });
+
+    await vi.waitFor(() => expect(search.mock.calls.length).toBeGreaterThanOrEqual(3));
+
+    // Old mentions aren't replayed on a first start
+    expect(search.mock.calls[0]?.[1]).toHaveProperty('start_time');
+    expect(search.mock.calls[0]?.[1]).not.toHaveProperty('since_id');
+    expect(search.mock.calls[1]?.[1]).toMatchObject({ next_token: 'page-2' });
+    expect(handled).toEqual(['2', '3', '4']);
+    expect(search.mock.calls[2]?.[1]).toMatchObject({ since_id: '4' });
+  });
+
+  it('moves the search cursor forward with streamed tweets', async () => {
+    const stream = Object.assign(new EventEmitter(), {
+      connect: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn()
+    });
+    const streamClient = {
+      v2: {
+        streamRules: vi.fn().mockResolvedValue({ data: [{ id: 'r1', value: 'bid', tag: 'bids' }] }),
+        searchStream: vi.fn().mockReturnValue(stream)
+      }
+    } as unknown as TwitterApi;
+    const storage = fakeStorage();
+    storage.cursor = '5';
+
+    ingester = new TweetIngester(async () => undefined);
+    await ingester.start({ streamClient, searchClient: { v2: {} } as unknown as TwitterApi, storage, config });
+    expect(ingester.getStatus()).toMatchObject({ status: 'CONNECTED', mode: 'STREAM' });
+
+    stream.emit(ETwitterStreamEvent.Data, { data: tweet('12') });
+    stream.emit(ETwitterStreamEvent.Data, { data: tweet('9') });
+
+    // A later fallback to polling starts after the newest streamed tweet
+    await vi.waitFor(() => expect(storage.cursor).toBe('12'));
+    await vi.waitFor(() => expect(storage.stored).toEqual(['12', '9']));
+    expect(ingester.getStatus().sinceId).toBe('12');
+  });
+
+  it('handles streamed tweets in the order they arrive', async () => {
+    const stream = Object.assign(new EventEmitter(), {
+      connect: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn()
+    });
+    const streamClient = {
+      v2: {
+        streamRules: vi.fn().mockResolvedValue({ data: [{ id: 'r1', value: 'bid', tag: 'bids' }] }),
+        searchStream: vi.fn().mockReturnValue(stream)
+      }
+    } as unknown as TwitterApi;
+    const storage = fakeStorage();
+    const handled: string[] = [];
+    let finishFirst = (): void => undefined;
+    const first = new Promise<void>(resolve => {
+      finishFirst = resolve;
+    });
+
+    ingester = new TweetIngester(async (incoming: TwitterApiTweet) => {
+      // The first bid takes a while, e.g. waiting on the lot lock
+      if (incoming.id === '12') await first;
+      handled.push(incoming.id);
+    });
+    await ingester.start({ streamClient, searchClient: { v2: {} } as unknown as TwitterApi, storage, config });
+
+    stream.emit(ETwitterStreamEvent.Data, { data: tweet('12') });
+    stream.emit(ETwitterStreamEvent.Data, { data: tweet('13') });
+    await vi.waitFor(() => expect(storage.stored).toEqual(['12']));
+    expect(handled).toEqual([]);
+    expect(storage.cursor).toBeNull();
+
+    finishFirst();
+    await vi.waitFor(() => expect(storage.cursor).toBe('13'));
+    expect(handled).toEqual(['12', '13']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { TwitterScheduler } from '../../services/twitter-scheduler.js';
+import { createTwitterClient } from '../../services/twitter-client.js';
+import { TwitterEmulator } from '../../tests/twitter-emulator.js';
+
+const inTenMinutes = (): number => Math.floor(Date.now() / 1000) + 600;
+
+async function settled(promise: Promise<unknown>): Promise<boolean> {
+  let done = false;
+  void promise.then(() => {
+    done = true;
+  });
+  await new Promise(resolve => setTimeout(resolve, 20));
+  return done;
+}
+
+describe('TwitterScheduler', () => {
+  let emulator: TwitterEmulator | null = null;
+
+  afterEach(async () => {
+    await emulator?.stop();
+    emulator = null;
+  });
+
+  it('lets requests through until the endpoint reports its quota', async () => {
+    const scheduler = new TwitterScheduler();
+    await scheduler.acquire('GET /2/users/me');
+    expect(scheduler.getQuotas()).toEqual([]);
+  });
+
+  it('keeps a reserve for higher priorities', async () => {
+    const scheduler = new TwitterScheduler();
+    scheduler.record('POST /2/tweets', { limit: 100, remaining: 20, reset: inTenMinutes() });
+
+    const low = scheduler.run('LOW', () => scheduler.acquire('POST /2/tweets'));
+    expect(await settled(low)).toBe(false);
+
+    await scheduler.run('HIGH', () => scheduler.acquire('POST /2/tweets'));
+    await scheduler.acquire('POST /2/tweets');
+
+    expect(scheduler.getQuotas()).toEqual([
+      expect.objectContaining({ endpoint: 'POST /2/tweets', remaining: 18, waiting: { HIGH: 0, NORMAL: 0, LOW: 1 } })
+    ]);
+  });
+
+  it('releases held requests by priority once quota is back', async () => {
+    const scheduler = new TwitterScheduler();
+    const order: string[] = [];
+    scheduler.record('POST /2/tweets', { limit: 10, remaining: 0, reset: inTenMinutes() });
+
+    const waiting = (['LOW', 'NORMAL', 'HIGH'] as const).map(priority =>
+      scheduler.run(priority, () => scheduler.acquire('POST /2/tweets')).then(() => order.push(priority))
+    );
+    expect(await settled(Promise.race(waiting))).toBe(false);
+
+    scheduler.record('POST /2/tweets', { limit: 10, remaining: 10, reset: inTenMinutes() });
+    await Promise.all(waiting);
+
+    expect(order).toEqual(['HIGH', 'NORMAL', 'LOW']);
+  });
+
+  it('reads the rate limit headers of every client request', async () => {
+    emulator = new TwitterEmulator({ rateLimits: { 'GET /2/users/me': 2 } });
+    const baseUrl = await emulator.start();
+    const scheduler = new TwitterScheduler();
+    const recorded: Array<[string, number]> = [];
+    scheduler.setRecorder(async (endpoint, remaining) => {
+      recorded.push([endpoint, remaining]);
+    });
+    const client = createTwitterClient('token', baseUrl, scheduler);
+
+    await client.v2.me();
+    await client.v2.me();
+
+    expect(recorded).toEqual([['GET /2/users/me', 1], ['GET /2/users/me', 0]]);
+    // Held instead of running into a 429
+    expect(await settled(client.v2.me())).toBe(false);
+    expect(scheduler.getQuotas()[0]?.waiting.NORMAL).toBe(1);
+  });
+});
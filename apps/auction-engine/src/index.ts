@@ -1,34 +1,59 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 import { createServer } from 'http';
-import { Registry, collectDefaultMetrics } from 'prom-client';
 import { logger } from '@sothebais/packages/utils/logger';
 import { healthRouter } from './routes/health.js';
 import { metricsRouter } from './routes/metrics.js';
 import { auctionRouter } from './routes/auction.js';
 import stateRouter from './routes/state.js';
+import { snapshotRouter } from './routes/snapshots.js';
+import { twitterRouter } from './routes/twitter.js';
+import { lotScheduler } from './services/lot-scheduler.js';
+import { sessionRunner } from './services/session-runner.js';
+import { bidPersistence } from './services/bid-persistence.js';
+import { settlementService } from './services/settlement.js';
+import { announcementService } from './services/announcements.js';
+import { tweetArchiver } from './services/tweet-archive.js';
+import { snapshotService } from './services/snapshots.js';
+import { tweetIngester } from './services/tweet-ingester.js';
+import { twitterService } from './services/twitter.js';
+import { auctionManager } from './services/auction-manager.js';
+import { assertMockSignerSecret } from './services/wallet-signer.js';
 
 // const logger = createLogger('app');
+
+// Wallet links are only as safe as the signer's secret
+assertMockSignerSecret();
+
 const app = express();
 const metricsApp = express();
 const healthApp = express();
 
-// Prometheus metrics setup
-export const metricsRegistry = new Registry();
-collectDefaultMetrics({ register: metricsRegistry });
-
 // Main API setup
 app.use(express.json());
 
 // Routes
 app.use('/api/auction', auctionRouter);
 app.use('/api/state', stateRouter);
+app.use('/api/admin/snapshots', snapshotRouter);
+app.use('/api/twitter', twitterRouter);
 
 // Basic route for testing
 app.get('/', (_req: Request, res: Response) => {
   res.json({ status: 'Auction Manager API Running' });
 });
 
+/**
+ * Route bid tweets back to the session or marathon that was live before a
+ * restart; until then every bid tweet comes back as NO_AUCTION.
+ */
+async function restoreBidRouting(): Promise<void> {
+  const auctionId = (await sessionRunner.getActiveSessionId()) ?? (await auctionManager.getActiveMarathonId());
+  if (auctionId) {
+    twitterService.setActiveAuction(auctionManager, auctionId);
+  }
+}
+
 // Create servers
 const mainServer = createServer(app);
 const metricsServer = createServer(metricsApp);
@@ -45,6 +70,56 @@ const HEALTH_PORT = process.env['HEALTH_PORT'] || 4491;
 
 mainServer.listen(PORT, () => {
   logger.info(`Main API server listening on port ${PORT}`);
+
+  // Pick the lot schedule and any running session back up from Redis
+  lotScheduler.recover().catch((error) => {
+    logger.error('Failed to recover lot schedule', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  });
+  sessionRunner.recover().catch((error) => {
+    logger.error('Failed to resume auction session', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  });
+
+  // Start mirroring bids and results into PostgreSQL
+  bidPersistence.start().catch((error) => {
+    logger.error('Failed to start bid persistence', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  });
+
+  // Resume payment collection for lots that closed before a restart
+  settlementService.start();
+
+  // Periodic Redis backups of the running auction
+  snapshotService.start();
+
+  // Pull bid tweets from the filtered stream (or search, as a fallback), once
+  // they have somewhere to go
+  restoreBidRouting()
+    .catch((error) => {
+      logger.error('Failed to restore bid routing', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    })
+    .then(() => tweetIngester.startFromEnv())
+    .catch((error) => {
+      logger.error('Failed to start tweet ingestion', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+  // Tweet teasers, openings, last calls and results for each lot
+  if (process.env['TWITTER_ANNOUNCEMENTS_ENABLED'] === 'true') {
+    announcementService.start();
+  }
+
+  // Backfill missed mentions and refresh campaign engagement totals
+  if (process.env['TWITTER_ARCHIVE_ENABLED'] === 'true') {
+    tweetArchiver.start();
+  }
 });
 
 metricsServer.listen(METRICS_PORT, () => {
@@ -1,5 +1,5 @@
 import { Counter, Gauge, Histogram } from 'prom-client';
-import { metricsRegistry } from '../index.js';
+import { metricsRegistry } from './registry.js';
 
 // Auction State Metrics
 export const activeAuctionsGauge = new Gauge({
@@ -0,0 +1,5 @@
+import { Registry, collectDefaultMetrics } from 'prom-client';
+
+// Prometheus metrics setup, shared by the servers and the services that record metrics
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
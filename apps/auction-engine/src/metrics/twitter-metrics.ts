@@ -0,0 +1,47 @@
+import { Counter, Gauge } from 'prom-client';
+import { metricsRegistry } from './registry.js';
+
+// Twitter API quota, from the x-rate-limit headers of the latest response per endpoint
+export const twitterRateLimitRemaining = new Gauge({
+  name: 'auction_twitter_rate_limit_remaining',
+  help: 'Requests left in the current Twitter rate limit window',
+  labelNames: ['endpoint'],
+  registers: [metricsRegistry]
+});
+
+export const twitterRateLimitLimit = new Gauge({
+  name: 'auction_twitter_rate_limit_limit',
+  help: 'Requests allowed per Twitter rate limit window',
+  labelNames: ['endpoint'],
+  registers: [metricsRegistry]
+});
+
+export const twitterRateLimitReset = new Gauge({
+  name: 'auction_twitter_rate_limit_reset_timestamp_seconds',
+  help: 'When the current Twitter rate limit window resets',
+  labelNames: ['endpoint'],
+  registers: [metricsRegistry]
+});
+
+// Scheduler Metrics
+export const twitterRequestsWaiting = new Gauge({
+  name: 'auction_twitter_requests_waiting',
+  help: 'Twitter requests held back until quota frees up',
+  labelNames: ['priority'],
+  registers: [metricsRegistry]
+});
+
+export const twitterRequestsDelayed = new Counter({
+  name: 'auction_twitter_requests_delayed_total',
+  help: 'Twitter requests that had to wait for quota',
+  labelNames: ['endpoint', 'priority'],
+  registers: [metricsRegistry]
+});
+
+// Moderation Metrics
+export const twitterBidsBlocked = new Counter({
+  name: 'auction_twitter_bids_blocked_total',
+  help: 'Bid tweets dropped by moderation before reaching the auction',
+  labelNames: ['reason'],
+  registers: [metricsRegistry]
+});
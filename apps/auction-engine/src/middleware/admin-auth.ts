@@ -0,0 +1,35 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { logger } from '../utils/logger.js';
+
+function matches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Only let requests through that carry ADMIN_API_KEY, either as
+ * `Authorization: Bearer <key>` or in an `x-admin-key` header. Admin routes
+ * stay closed while the key isn't configured.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminKey = process.env['ADMIN_API_KEY'];
+  if (!adminKey) {
+    res.status(503).json({ status: 'error', message: 'Admin API is not configured' });
+    return;
+  }
+
+  const header = req.headers.authorization;
+  const provided = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : req.header('x-admin-key');
+
+  if (!provided || !matches(provided, adminKey)) {
+    logger.warn('Rejected admin request', { path: req.originalUrl, ip: req.ip });
+    res.status(401).json({ status: 'error', message: 'Unauthorized' });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,8 @@
+/**
+ * Mock and debug routes (paying a mock payment, signing with the mock wallet)
+ * are only registered with ENABLE_DEBUG_ENDPOINTS=true, and never when
+ * NODE_ENV is production. They also sit behind requireAdmin.
+ */
+export function debugEndpointsEnabled(): boolean {
+  return process.env['ENABLE_DEBUG_ENDPOINTS'] === 'true' && process.env['NODE_ENV'] !== 'production';
+}
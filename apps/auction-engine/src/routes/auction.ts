@@ -1,16 +1,38 @@
 import express from 'express';
-import { AuctionManager } from '../services/auction-manager.js';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/admin-auth.js';
+import { debugEndpointsEnabled } from '../middleware/debug-endpoints.js';
+import { auctionManager } from '../services/auction-manager.js';
+import { bidPersistence } from '../services/bid-persistence.js';
+import { lotScheduler } from '../services/lot-scheduler.js';
+import { mockChainAdapter } from '../services/chain.js';
+import { settlementService } from '../services/settlement.js';
+import { sessionRunner } from '../services/session-runner.js';
+import { twitterService } from '../services/twitter.js';
 import type { MarathonConfig } from '@sothebais/packages/types/auction';
 import type { TwitterBid } from '@sothebais/packages/types/twitter';
 
 export const auctionRouter = express.Router();
-const auctionManager = new AuctionManager();
+
+// Bids posted to the API. The timestamp also scores the bidder's history, so it has to be a real date.
+const apiBidSchema = z.object({
+  userId: z.string().min(1),
+  tweetId: z.string().min(1),
+  amount: z.number().positive().finite(),
+  currency: z.string().optional(),
+  timestamp: z.coerce.date(),
+  rawContent: z.string().default(''),
+  walletLinked: z.boolean().optional()
+});
 
 // Start a new auction marathon
 auctionRouter.post('/marathon/start', async (req, res) => {
   try {
     const config: MarathonConfig = req.body;
     const marathonId = await auctionManager.startAuctionMarathon(config);
+    // Route bids parsed from tweets to the new marathon
+    twitterService.setActiveAuction(auctionManager, marathonId);
+    await lotScheduler.schedule(marathonId);
     res.json({ 
       status: 'success', 
       message: 'Auction marathon started',
@@ -27,6 +49,8 @@ auctionRouter.post('/daily/start/:marathonId', async (req, res) => {
   try {
     const { marathonId } = req.params;
     await auctionManager.startDailyAuction(marathonId);
+    // Re-arm the scheduler for the lot's end time
+    await lotScheduler.schedule(marathonId);
     res.json({ status: 'success', message: 'Daily auction started' });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -39,6 +63,8 @@ auctionRouter.post('/daily/end/:marathonId', async (req, res) => {
   try {
     const { marathonId } = req.params;
     await auctionManager.endDailyAuction(marathonId);
+    // Re-arm the scheduler for the next lot's start time
+    await lotScheduler.schedule(marathonId);
     res.json({ status: 'success', message: 'Daily auction ended' });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -46,6 +72,41 @@ auctionRouter.post('/daily/end/:marathonId', async (req, res) => {
   }
 });
 
+// Start (or resume) an auction session loaded from the database
+auctionRouter.post('/session/:sessionId/start', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    // Optional bid settings for the session's lots, kept apart from the marathon config
+    const config: MarathonConfig | undefined = req.body?.config;
+    if (config) {
+      await auctionManager.setSessionConfig(sessionId, config);
+    }
+    const session = await sessionRunner.start(sessionId);
+    // Route bids parsed from tweets to the session's lots
+    twitterService.setActiveAuction(auctionManager, sessionId);
+    res.json({ status: 'success', message: 'Auction session started', session });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Get auction session state
+auctionRouter.get('/session/:sessionId', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await sessionRunner.getSessionState(sessionId);
+    if (!session) {
+      res.status(404).json({ status: 'error', message: 'Auction session not found' });
+      return;
+    }
+    res.json({ status: 'success', session });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
 // Get current auction state
 auctionRouter.get('/state/:marathonId', async (req, res) => {
   try {
@@ -62,20 +123,58 @@ auctionRouter.get('/state/:marathonId', async (req, res) => {
   }
 });
 
+// Get the countdown for the current lot
+auctionRouter.get('/timer/:marathonId', async (req, res) => {
+  try {
+    const { marathonId } = req.params;
+    const timer = await auctionManager.getAuctionTimer(marathonId);
+    if (!timer) {
+      res.status(404).json({ status: 'error', message: 'No active auction found' });
+      return;
+    }
+    res.json({ status: 'success', timer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
 // Process a bid
 auctionRouter.post('/bid/:marathonId', async (req, res) => {
   try {
     const { marathonId } = req.params;
-    const bid: TwitterBid = req.body;
-    const result = await auctionManager.processBid(marathonId, bid);
+    const parsed = apiBidSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const message = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      res.status(400).json({ status: 'error', message: `Invalid bid: ${message}` });
+      return;
+    }
+    const { currency, walletLinked, ...fields } = parsed.data;
+    const bid: TwitterBid = {
+      ...fields,
+      ...(currency !== undefined ? { currency } : {}),
+      ...(walletLinked !== undefined ? { walletLinked } : {})
+    };
+    const result = await auctionManager.processBid(marathonId, bid, 'API');
+    const bidSummary = {
+      userId: bid.userId,
+      amount: bid.amount,
+      timestamp: bid.timestamp
+    };
+    if (!result.accepted) {
+      res.json({
+        status: 'rejected',
+        message: result.message,
+        reason: result.reason,
+        minimumAmount: result.minimumAmount,
+        bid: bidSummary
+      });
+      return;
+    }
     res.json({ 
-      status: result ? 'accepted' : 'rejected',
-      message: result ? 'Bid was accepted as the new highest bid' : 'Bid was rejected',
-      bid: {
-        userId: bid.userId,
-        amount: bid.amount,
-        timestamp: bid.timestamp
-      }
+      status: 'accepted',
+      message: 'Bid was accepted as the new highest bid',
+      bid: bidSummary
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -85,4 +184,62 @@ auctionRouter.post('/bid/:marathonId', async (req, res) => {
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-}); 
\ No newline at end of file
+}); 
+
+// Database write-behind queue depth
+auctionRouter.get('/persistence', async (_req, res) => {
+  try {
+    const depth = await bidPersistence.getQueueDepth();
+    res.json({ status: 'success', ...depth });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Re-queue everything Redis holds for a marathon or session for the database
+auctionRouter.post('/persistence/resync/:marathonId', async (req, res) => {
+  try {
+    const { marathonId } = req.params;
+    const queued = await bidPersistence.resync(marathonId);
+    res.json({ status: 'success', message: 'Re-sync queued', queued });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Settlement progress for a closed lot
+auctionRouter.get('/settlement/:marathonId/:lotOrder', async (req, res) => {
+  try {
+    const { marathonId, lotOrder } = req.params;
+    const settlement = await settlementService.getSettlement(marathonId, Number(lotOrder));
+    if (!settlement) {
+      res.status(404).json({ status: 'error', message: 'No settlement for this lot' });
+      return;
+    }
+    res.json({ status: 'success', settlement });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Complete a payment on the mock chain (local development only)
+if (debugEndpointsEnabled()) {
+  auctionRouter.post('/settlement/mock/:paymentId/pay', requireAdmin, async (req: express.Request<{ paymentId: string }>, res) => {
+    try {
+      const { paymentId } = req.params;
+      if (!mockChainAdapter.markPaid(paymentId, req.body?.transactionHash)) {
+        res.status(404).json({ status: 'error', message: 'No pending payment with this ID' });
+        return;
+      }
+      // Pick the payment up now rather than on the next poll
+      await settlementService.poll();
+      res.json({ status: 'success', message: 'Payment marked as paid' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ status: 'error', message });
+    }
+  });
+}
@@ -1,5 +1,5 @@
 import express from 'express';
-import { metricsRegistry } from '../index.js';
+import { metricsRegistry } from '../metrics/registry.js';
 
 export const metricsRouter = express.Router();
 
@@ -0,0 +1,76 @@
+import express from 'express';
+import { requireAdmin } from '../middleware/admin-auth.js';
+import { snapshotService, SnapshotValidationError } from '../services/snapshots.js';
+
+export const snapshotRouter = express.Router();
+
+snapshotRouter.use(requireAdmin);
+
+// List snapshots for a marathon or session, newest first
+snapshotRouter.get('/:marathonId', async (req, res) => {
+  try {
+    const snapshots = await snapshotService.list(req.params.marathonId);
+    res.json({ status: 'success', snapshots });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Take a snapshot now
+snapshotRouter.post('/:marathonId', async (req, res) => {
+  try {
+    const timestamp = await snapshotService.create(req.params.marathonId);
+    res.json({ status: 'success', message: 'Snapshot created', timestamp });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Download a snapshot as stored
+snapshotRouter.get('/:marathonId/:timestamp', async (req, res) => {
+  try {
+    const { marathonId, timestamp } = req.params;
+    const snapshot = await snapshotService.getRaw(marathonId, timestamp);
+    if (!snapshot) {
+      res.status(404).json({ status: 'error', message: 'Snapshot not found' });
+      return;
+    }
+
+    const filename = `${marathonId}-${timestamp.replace(/[:.]/g, '-')}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.type('application/json').send(snapshot);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Restore a snapshot. With `?dryRun=true` only reports what would change.
+snapshotRouter.post('/:marathonId/:timestamp/restore', async (req, res) => {
+  try {
+    const { marathonId, timestamp } = req.params;
+    const snapshot = await snapshotService.load(marathonId, timestamp);
+    if (!snapshot) {
+      res.status(404).json({ status: 'error', message: 'Snapshot not found' });
+      return;
+    }
+
+    const diff = await snapshotService.diff(marathonId, snapshot);
+    if (req.query['dryRun'] === 'true') {
+      res.json({ status: 'success', message: 'Dry run, nothing restored', diff });
+      return;
+    }
+
+    await snapshotService.restore(marathonId, snapshot);
+    res.json({ status: 'success', message: 'Snapshot restored', diff });
+  } catch (error) {
+    if (error instanceof SnapshotValidationError) {
+      res.status(422).json({ status: 'error', message: error.message, issues: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
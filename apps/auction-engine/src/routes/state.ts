@@ -1,39 +1,41 @@
 import express from 'express';
-import { RedisService } from '../services/redis.js';
+import type { Request } from 'express';
+import { bidHistory } from '../services/bid-history.js';
 import { logger } from '@sothebais/packages/utils/logger';
-import type { TwitterBid } from '@sothebais/packages/types/twitter';
 
 const router = express.Router();
-const redis = new RedisService();
 
-interface BidsByDay {
-  [day: string]: TwitterBid[];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function parsePositiveInt(value: unknown, fallback: number, max: number = Number.MAX_SAFE_INTEGER): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+}
+
+function getPagination(req: Request): { page: number; pageSize: number } {
+  return {
+    page: parsePositiveInt(req.query['page'], 1),
+    pageSize: parsePositiveInt(req.query['pageSize'], DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  };
 }
 
+// Summary of recent bids for a marathon or session (the active one if not given)
 router.get('/bids', async (req, res) => {
   try {
-    // Get the current marathon ID or use a default one
-    const marathonId = req.query['marathonId'] as string || 'current';
-    const bidsData = await redis.getAllBids(marathonId);
-    
-    // Calculate total bids
-    const totalBids = Object.values(bidsData).reduce((total, dayBids) => {
-      return total + (Array.isArray(dayBids) ? dayBids.length : 0);
-    }, 0);
-    
-    // Get unique bidders
-    const allBids = Object.values(bidsData).flat();
-    const uniqueBidders = [...new Set(allBids.map(bid => bid.userId))].length;
-    
-    // Get last 10 bids
-    const lastBids = [...allBids]
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .slice(0, 10);
-    
+    const marathonId = (req.query['marathonId'] as string | undefined) || await bidHistory.getActiveMarathonId();
+    if (!marathonId) {
+      res.status(404).json({ error: 'No active auction' });
+      return;
+    }
+
+    const { bids, totalBids, uniqueBidders } = await bidHistory.getRecentBids(marathonId, 10);
+
     res.json({
+      marathonId,
       totalBids,
       uniqueBidders,
-      lastBids
+      lastBids: bids
     });
   } catch (error) {
     logger.error('Failed to get bid state', {
@@ -43,4 +45,69 @@ router.get('/bids', async (req, res) => {
   }
 });
 
-export default router; 
\ No newline at end of file
+// Bids placed by a user across all auctions, newest first
+router.get('/users/:userId/bids', async (req, res) => {
+  try {
+    const { page, pageSize } = getPagination(req);
+    res.json(await bidHistory.getUserBids(req.params.userId, page, pageSize));
+  } catch (error) {
+    logger.error('Failed to get user bids', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.params.userId
+    });
+    res.status(500).json({ error: 'Failed to get user bids' });
+  }
+});
+
+// Bids on one lot, highest first
+router.get('/:marathonId/lots/:lotOrder/bids', async (req, res) => {
+  try {
+    const { marathonId } = req.params;
+    const lotOrder = parsePositiveInt(req.params.lotOrder, 0);
+    if (!lotOrder) {
+      res.status(400).json({ error: 'Invalid lot order' });
+      return;
+    }
+
+    const { page, pageSize } = getPagination(req);
+    res.json(await bidHistory.getLotBids(marathonId, lotOrder, page, pageSize));
+  } catch (error) {
+    logger.error('Failed to get lot bids', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      marathonId: req.params.marathonId,
+      lotOrder: req.params.lotOrder
+    });
+    res.status(500).json({ error: 'Failed to get lot bids' });
+  }
+});
+
+// Top bidders across a marathon or session
+router.get('/:marathonId/leaderboard', async (req, res) => {
+  try {
+    const limit = parsePositiveInt(req.query['limit'], 10, MAX_PAGE_SIZE);
+    const leaderboard = await bidHistory.getLeaderboard(req.params.marathonId, limit);
+    res.json({ marathonId: req.params.marathonId, leaderboard });
+  } catch (error) {
+    logger.error('Failed to get leaderboard', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      marathonId: req.params.marathonId
+    });
+    res.status(500).json({ error: 'Failed to get leaderboard' });
+  }
+});
+
+// Finished lots and who won them, most recent first
+router.get('/:marathonId/results', async (req, res) => {
+  try {
+    const { page, pageSize } = getPagination(req);
+    res.json(await bidHistory.getLotResults(req.params.marathonId, page, pageSize));
+  } catch (error) {
+    logger.error('Failed to get lot results', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      marathonId: req.params.marathonId
+    });
+    res.status(500).json({ error: 'Failed to get lot results' });
+  }
+});
+
+export default router;
@@ -0,0 +1,209 @@
+import express from 'express';
+import { requireAdmin } from '../middleware/admin-auth.js';
+import { debugEndpointsEnabled } from '../middleware/debug-endpoints.js';
+import { announcementService, AnnouncementTemplateError } from '../services/announcements.js';
+import { bidModerator } from '../services/bid-moderation.js';
+import { bidNotifier } from '../services/bid-notifications.js';
+import { identityService } from '../services/identity.js';
+import { tweetArchiver } from '../services/tweet-archive.js';
+import { tweetIngester } from '../services/tweet-ingester.js';
+import { twitterScheduler } from '../services/twitter-scheduler.js';
+import { mockSigner } from '../services/wallet-signer.js';
+import type { ModerationList } from '@sothebais/packages/types/twitter';
+
+export const twitterRouter = express.Router();
+
+// Where tweets are coming from and whether the stream is up
+twitterRouter.get('/ingest', (_req, res) => {
+  res.json({ status: 'success', ingest: tweetIngester.getStatus() });
+});
+
+// Push the configured rules to the filtered stream
+twitterRouter.post('/ingest/rules/sync', requireAdmin, async (_req, res) => {
+  try {
+    const rules = await tweetIngester.syncRules();
+    res.json({ status: 'success', message: 'Stream rules synced', rules });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Bid replies waiting to go out under the rate limit
+twitterRouter.get('/notifications', async (_req, res) => {
+  try {
+    res.json({ status: 'success', notifications: await bidNotifier.getStatus() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Quota left per endpoint and requests waiting for it
+twitterRouter.get('/rate-limits', (_req, res) => {
+  res.json({ status: 'success', endpoints: twitterScheduler.getQuotas() });
+});
+
+// The user and linked wallet behind a Twitter account
+twitterRouter.get('/identity/:twitterId', requireAdmin, async (req: express.Request<{ twitterId: string }>, res) => {
+  try {
+    const { twitterId } = req.params;
+    const identity = await identityService.getIdentity(twitterId);
+    if (!identity) {
+      res.status(404).json({ status: 'error', message: 'No user for this Twitter account' });
+      return;
+    }
+    res.json({ status: 'success', identity });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Sign a wallet link challenge with the mock signer (local development only)
+if (debugEndpointsEnabled()) {
+  twitterRouter.post('/identity/mock/sign', requireAdmin, (req, res) => {
+    const { address, message } = req.body ?? {};
+    if (typeof address !== 'string' || typeof message !== 'string') {
+      res.status(400).json({ status: 'error', message: 'address and message are required' });
+      return;
+    }
+    res.json({ status: 'success', signature: mockSigner.sign(address, message) });
+  });
+}
+
+// Announcements posted for a marathon or session's lots
+twitterRouter.get('/announcements/:marathonId', async (req, res) => {
+  try {
+    const announcements = await announcementService.getAnnouncements(req.params.marathonId);
+    res.json({ status: 'success', announcements });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// The announcement a reply's conversation belongs to
+twitterRouter.get('/announcements/conversations/:conversationId', async (req, res) => {
+  try {
+    const announcement = await announcementService.findByConversation(req.params.conversationId);
+    if (!announcement) {
+      res.status(404).json({ status: 'error', message: 'No announcement for this conversation' });
+      return;
+    }
+    res.json({ status: 'success', announcement });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Announcement texts for a campaign, defaults included
+twitterRouter.get('/announcements/templates/:campaignId', requireAdmin, async (req: express.Request<{ campaignId: string }>, res) => {
+  try {
+    res.json({ status: 'success', templates: await announcementService.getTemplates(req.params.campaignId) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Replace a campaign's announcement texts; keys left out use the defaults
+twitterRouter.put('/announcements/templates/:campaignId', requireAdmin, async (req: express.Request<{ campaignId: string }>, res) => {
+  try {
+    const templates = await announcementService.setTemplates(req.params.campaignId, req.body);
+    res.json({ status: 'success', message: 'Announcement templates updated', templates });
+  } catch (error) {
+    if (error instanceof AnnouncementTemplateError) {
+      res.status(422).json({ status: 'error', message: error.message, issues: error.issues });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Mentions, unique authors and bid-tweet ratio per campaign, as of the last archive run
+twitterRouter.get('/engagement', async (_req, res) => {
+  try {
+    res.json({ status: 'success', engagement: await tweetArchiver.listEngagement() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+twitterRouter.get('/engagement/:campaignId', async (req, res) => {
+  try {
+    const engagement = await tweetArchiver.getEngagement(req.params.campaignId);
+    if (!engagement) {
+      res.status(404).json({ status: 'error', message: 'No engagement recorded for this campaign' });
+      return;
+    }
+    res.json({ status: 'success', engagement });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Backfill, reparse and total a campaign's tweets now instead of waiting for the next run
+twitterRouter.post('/engagement/:campaignId/refresh', requireAdmin, async (req: express.Request<{ campaignId: string }>, res) => {
+  try {
+    const engagement = await tweetArchiver.archiveCampaign(req.params.campaignId);
+    if (!engagement) {
+      res.status(404).json({ status: 'error', message: 'Campaign not found' });
+      return;
+    }
+    res.json({ status: 'success', message: 'Campaign tweets archived', engagement });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+const MODERATION_LISTS: Record<string, ModerationList> = { deny: 'DENY', allow: 'ALLOW' };
+
+// Accounts whose bids are always dropped, or spared the account age and rate checks
+twitterRouter.get('/moderation', requireAdmin, async (_req, res) => {
+  try {
+    res.json({ status: 'success', lists: await bidModerator.getLists() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+// Add a Twitter user ID or handle to the deny or allow list
+twitterRouter.put('/moderation/:list/:account', requireAdmin, async (req: express.Request<{ list: string; account: string }>, res) => {
+  const list = MODERATION_LISTS[req.params.list];
+  if (!list) {
+    res.status(404).json({ status: 'error', message: 'Unknown moderation list' });
+    return;
+  }
+  try {
+    const account = await bidModerator.addAccount(list, req.params.account);
+    res.json({ status: 'success', message: `${account} added to the ${req.params.list} list`, account });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
+
+twitterRouter.delete('/moderation/:list/:account', requireAdmin, async (req: express.Request<{ list: string; account: string }>, res) => {
+  const list = MODERATION_LISTS[req.params.list];
+  if (!list) {
+    res.status(404).json({ status: 'error', message: 'Unknown moderation list' });
+    return;
+  }
+  try {
+    if (!(await bidModerator.removeAccount(list, req.params.account))) {
+      res.status(404).json({ status: 'error', message: 'Account is not on this list' });
+      return;
+    }
+    res.json({ status: 'success', message: 'Account removed' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    res.status(500).json({ status: 'error', message });
+  }
+});
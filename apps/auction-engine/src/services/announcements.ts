@@ -0,0 +1,466 @@
+import type { EUploadMimeType, TwitterApi } from 'twitter-api-v2';
+import { prisma } from './prisma.js';
+import { RedisService } from './redis.js';
+import type { ExtendedAuctionState } from './redis.js';
+import { formatAmount } from './bid-rules.js';
+import { identityService } from './identity.js';
+import type { IdentityService } from './identity.js';
+import { twitterService } from './twitter.js';
+import type { TwitterService } from './twitter.js';
+import type { AnnouncementRecord } from '@sothebais/packages/schema/redis/models';
+import type { AnnouncementKind, AnnouncementTemplates, TwitterBid } from '@sothebais/packages/types/twitter';
+import { logger } from '../utils/logger.js';
+
+const POLL_INTERVAL_MS = 10 * 1000;
+const DEFAULT_TEASER_LEAD_MINUTES = 30;
+const DEFAULT_LAST_CALL_SECONDS = 60;
+// Long enough to outlive any lot and its settlement
+const RECORD_TTL_SECONDS = 30 * 24 * 60 * 60;
+const TEMPLATE_CACHE_TTL_MS = 60 * 1000;
+const MAX_TWEET_LENGTH = 280;
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export const DEFAULT_ANNOUNCEMENT_TEMPLATES: AnnouncementTemplates = {
+  teaser: 'Coming up: lot {lotOrder}, {name}. Bidding opens at {startTime} UTC.',
+  biddingOpen: 'Bidding is open on lot {lotOrder}, {name}! Reply to this tweet with your bid, e.g. "bid {minimumBid} {currency}". Closes at {endTime} UTC.',
+  lastCall: 'Last call for lot {lotOrder}, {name}: bidding closes in {secondsLeft} seconds. Leading bid: {leadingBid}.',
+  results: [
+    'Lot {lotOrder}, {name}, is sold to {winner} for {price} {currency}!',
+    '{bidCount} bids from {bidderCount} bidders. Thank you all for bidding.'
+  ],
+  unsold: ['Lot {lotOrder}, {name}, closed without a bid.']
+};
+
+export class AnnouncementTemplateError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid announcement templates: ${issues.join('; ')}`);
+    this.name = 'AnnouncementTemplateError';
+  }
+}
+
+/**
+ * Check template overrides, e.g. from the admin API. Only the given keys are
+ * overridden; the rest fall back to the defaults.
+ */
+export function validateTemplates(input: unknown): Partial<AnnouncementTemplates> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new AnnouncementTemplateError(['templates must be an object']);
+  }
+
+  const issues: string[] = [];
+  const templates: Partial<AnnouncementTemplates> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (key === 'teaser' || key === 'biddingOpen' || key === 'lastCall') {
+      if (typeof value === 'string' && value.trim()) {
+        templates[key] = value;
+      } else {
+        issues.push(`${key} must be a non-empty string`);
+      }
+    } else if (key === 'results' || key === 'unsold') {
+      if (Array.isArray(value) && value.length > 0 && value.every(text => typeof text === 'string' && text.trim())) {
+        templates[key] = value;
+      } else {
+        issues.push(`${key} must be a non-empty list of strings`);
+      }
+    } else {
+      issues.push(`unknown template ${key}`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new AnnouncementTemplateError(issues);
+  }
+  return templates;
+}
+
+/**
+ * Fill in `{placeholders}`; unknown ones are left as they are
+ */
+export function renderTemplate(template: string, values: Record<string, string | number>): string {
+  const text = template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    values[key] !== undefined ? String(values[key]) : placeholder
+  );
+  return text.length > MAX_TWEET_LENGTH ? `${text.slice(0, MAX_TWEET_LENGTH - 1)}…` : text;
+}
+
+function formatTime(isoDate: string): string {
+  return new Date(isoDate).toISOString().slice(11, 16);
+}
+
+/**
+ * Announcement Service
+ *
+ * Tweets a lot through its lifecycle: a teaser with the artwork's image
+ * before it opens (TWITTER_TEASER_LEAD_MINUTES), "bidding is open" once it
+ * does, a last call shortly before it closes (TWITTER_LAST_CALL_SECONDS) and a
+ * results thread under the bidding post once it has. Teasers, openings and
+ * last calls are picked up by polling the current lot; results are posted
+ * when the auction manager closes it, since the next lot replaces it right away.
+ *
+ * Texts come from the campaign's `announcementTemplates`, over the defaults.
+ * Every post is claimed in Redis first so it goes out once, and recorded with
+ * its conversation ID so replies can be matched back to the lot.
+ */
+export class AnnouncementService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private templateCache = new Map<string, { templates: AnnouncementTemplates; expiresAt: number }>();
+  private teaserLeadMs: number;
+  private lastCallMs: number;
+
+  constructor(
+    private redis: RedisService = new RedisService(),
+    private twitter: Pick<TwitterService, 'getClient'> = twitterService,
+    private identity: Pick<IdentityService, 'getTwitterHandle'> = identityService,
+    teaserLeadMinutes: number = Number(process.env['TWITTER_TEASER_LEAD_MINUTES']) || DEFAULT_TEASER_LEAD_MINUTES,
+    lastCallSeconds: number = Number(process.env['TWITTER_LAST_CALL_SECONDS']) || DEFAULT_LAST_CALL_SECONDS
+  ) {
+    this.teaserLeadMs = teaserLeadMinutes * 60 * 1000;
+    this.lastCallMs = lastCallSeconds * 1000;
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, POLL_INTERVAL_MS);
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Post whatever the current lots of the active session and marathon are due
+   */
+  async poll(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const ids = [await this.redis.getActiveSessionId(), await this.redis.getActiveMarathonId()];
+      for (const marathonId of new Set(ids.filter((id): id is string => id !== null))) {
+        const lot = await this.redis.getCurrentAuction(marathonId);
+        if (lot) {
+          await this.announceDue(marathonId, lot);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to check for due announcements', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Post the results thread for a lot that just closed. Never throws, so
+   * closing a lot doesn't depend on Twitter.
+   */
+  async lotClosed(marathonId: string, lot: ExtendedAuctionState, winningBid: TwitterBid | null): Promise<void> {
+    if (!this.isRunning()) {
+      return;
+    }
+    await this.announce('RESULTS', marathonId, lot, winningBid);
+  }
+
+  async getTemplates(campaignId: string | null): Promise<AnnouncementTemplates> {
+    if (!campaignId) {
+      return DEFAULT_ANNOUNCEMENT_TEMPLATES;
+    }
+
+    const cached = this.templateCache.get(campaignId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.templates;
+    }
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { announcementTemplates: true }
+    });
+
+    let overrides: Partial<AnnouncementTemplates> = {};
+    if (campaign?.announcementTemplates) {
+      try {
+        overrides = validateTemplates(campaign.announcementTemplates);
+      } catch (error) {
+        logger.warn('Ignoring invalid campaign announcement templates', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          campaignId
+        });
+      }
+    }
+
+    const templates = { ...DEFAULT_ANNOUNCEMENT_TEMPLATES, ...overrides };
+    this.templateCache.set(campaignId, { templates, expiresAt: Date.now() + TEMPLATE_CACHE_TTL_MS });
+    return templates;
+  }
+
+  /**
+   * Replace a campaign's template overrides
+   */
+  async setTemplates(campaignId: string, input: unknown): Promise<AnnouncementTemplates> {
+    const overrides = validateTemplates(input);
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: { announcementTemplates: overrides }
+    });
+    this.templateCache.delete(campaignId);
+    return this.getTemplates(campaignId);
+  }
+
+  async getAnnouncements(marathonId: string): Promise<AnnouncementRecord[]> {
+    return this.redis.getAnnouncements(marathonId);
+  }
+
+  /**
+   * The announcement a reply belongs to, by the reply's conversation ID
+   */
+  async findByConversation(conversationId: string): Promise<AnnouncementRecord | null> {
+    return this.redis.getAnnouncementByConversation(conversationId);
+  }
+
+  private async announceDue(marathonId: string, lot: ExtendedAuctionState): Promise<void> {
+    const now = Date.now();
+
+    if (lot.status === 'SCHEDULED') {
+      if (new Date(lot.startTime).getTime() - now <= this.teaserLeadMs) {
+        await this.announce('TEASER', marathonId, lot);
+      }
+      return;
+    }
+
+    if (lot.status === 'ACTIVE') {
+      await this.announce('BIDDING_OPEN', marathonId, lot);
+      const endAt = new Date(lot.extendedEndTime || lot.endTime).getTime();
+      if (endAt - now <= this.lastCallMs) {
+        await this.announce('LAST_CALL', marathonId, lot);
+      }
+    }
+  }
+
+  private async announce(
+    kind: AnnouncementKind,
+    marathonId: string,
+    lot: ExtendedAuctionState,
+    winningBid: TwitterBid | null = null
+  ): Promise<void> {
+    const client = this.twitter.getClient();
+    if (!client) {
+      return;
+    }
+
+    if (!(await this.redis.claimAnnouncement(marathonId, lot.lotOrder, kind, RECORD_TTL_SECONDS))) {
+      return;
+    }
+
+    let posted = false;
+    try {
+      const session = await this.redis.getSessionState(lot.sessionId);
+      const campaignId = session?.campaignId ?? null;
+      const templates = await this.getTemplates(campaignId);
+      const texts = await this.texts(kind, templates, marathonId, lot, winningBid);
+
+      // Results go under the bidding post, so the whole lot is one conversation
+      const opening = kind === 'RESULTS'
+        ? await this.redis.getAnnouncement(marathonId, lot.lotOrder, 'BIDDING_OPEN')
+        : null;
+      const mediaId = kind === 'TEASER' && lot.artItem?.imageUrl
+        ? await this.uploadImage(client, lot.artItem.imageUrl)
+        : null;
+
+      const tweetIds = await this.postThread(client, texts, opening?.tweetIds[0] ?? null, mediaId);
+      posted = true;
+      const record: AnnouncementRecord = {
+        kind,
+        marathonId,
+        lotId: lot.id,
+        lotOrder: lot.lotOrder,
+        ...(campaignId ? { campaignId } : {}),
+        tweetIds,
+        conversationId: opening?.conversationId ?? tweetIds[0]!,
+        postedAt: new Date().toISOString()
+      };
+      await this.redis.setAnnouncement(record, RECORD_TTL_SECONDS);
+      await this.persist(record, texts, lot.id !== marathonId);
+
+      logger.info('Posted auction announcement', { kind, marathonId, lotOrder: lot.lotOrder, tweetId: tweetIds[0] });
+    } catch (error) {
+      if (posted) {
+        // The tweets are out, so the claim stays and the next poll doesn't post them again
+        logger.error('Posted auction announcement, but failed to record it', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          kind,
+          marathonId,
+          lotOrder: lot.lotOrder
+        });
+        return;
+      }
+
+      // Nothing went out, so the next poll may try again
+      await this.redis.releaseAnnouncement(marathonId, lot.lotOrder, kind);
+      logger.error('Failed to post auction announcement', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        kind,
+        marathonId,
+        lotOrder: lot.lotOrder
+      });
+    }
+  }
+
+  private async texts(
+    kind: AnnouncementKind,
+    templates: AnnouncementTemplates,
+    marathonId: string,
+    lot: ExtendedAuctionState,
+    winningBid: TwitterBid | null
+  ): Promise<string[]> {
+    const config = await this.redis.getAuctionConfig(marathonId);
+    const values: Record<string, string | number> = {
+      lotOrder: lot.lotOrder,
+      name: lot.artItem?.name ?? `Lot ${lot.lotOrder}`,
+      currency: lot.currency,
+      startTime: formatTime(lot.startTime),
+      endTime: formatTime(lot.extendedEndTime || lot.endTime),
+      minimumBid: formatAmount(Number(lot.reservePrice ?? config?.minBid ?? 0))
+    };
+
+    switch (kind) {
+      case 'TEASER':
+        return [renderTemplate(templates.teaser, values)];
+
+      case 'BIDDING_OPEN':
+        return [renderTemplate(templates.biddingOpen, values)];
+
+      case 'LAST_CALL': {
+        const leading = await this.redis.getHighestBid(marathonId, lot.lotOrder);
+        const endAt = new Date(lot.extendedEndTime || lot.endTime).getTime();
+        return [renderTemplate(templates.lastCall, {
+          ...values,
+          secondsLeft: Math.max(Math.round((endAt - Date.now()) / 1000), 0),
+          leadingBid: leading ? `${formatAmount(leading.amount)} ${lot.currency}` : 'none yet'
+        })];
+      }
+
+      case 'RESULTS': {
+        if (!winningBid) {
+          return templates.unsold.map(template => renderTemplate(template, values));
+        }
+        const bids = await this.redis.getBidHistory(marathonId, lot.lotOrder);
+        const handle = await this.identity.getTwitterHandle(winningBid.userId).catch(() => null);
+        const results = {
+          ...values,
+          winner: handle ? `@${handle}` : 'the winning bidder',
+          price: formatAmount(winningBid.amount),
+          bidCount: bids.length,
+          bidderCount: new Set(bids.map(bid => bid.userId)).size
+        };
+        return templates.results.map(template => renderTemplate(template, results));
+      }
+    }
+  }
+
+  /**
+   * Post the texts as a thread, each replying to the one before. Returns the
+   * IDs of the tweets that went out; only the first failing throws.
+   */
+  private async postThread(
+    client: TwitterApi,
+    texts: string[],
+    replyTo: string | null,
+    mediaId: string | null
+  ): Promise<string[]> {
+    const tweetIds: string[] = [];
+    let parentId = replyTo;
+
+    for (const [index, text] of texts.entries()) {
+      try {
+        const posted = await client.v2.tweet(text, {
+          ...(parentId ? { reply: { in_reply_to_tweet_id: parentId } } : {}),
+          ...(mediaId && index === 0 ? { media: { media_ids: [mediaId] as [string] } } : {})
+        });
+        tweetIds.push(posted.data.id);
+        parentId = posted.data.id;
+      } catch (error) {
+        if (tweetIds.length === 0) {
+          throw error;
+        }
+        logger.error('Announcement thread cut short', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          posted: tweetIds.length,
+          total: texts.length
+        });
+        break;
+      }
+    }
+
+    return tweetIds;
+  }
+
+  /**
+   * Upload the artwork for a teaser. A teaser without its image is better
+   * than none, so failures only log.
+   */
+  private async uploadImage(client: TwitterApi, url: string): Promise<string | null> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Image request failed with status ${response.status}`);
+      }
+      const mediaType = (response.headers.get('content-type') ?? '').split(';')[0]!.trim();
+      if (!IMAGE_TYPES.includes(mediaType)) {
+        throw new Error(`Unsupported image type: ${mediaType || 'unknown'}`);
+      }
+      const image = Buffer.from(await response.arrayBuffer());
+      return await client.v2.uploadMedia(image, { media_type: mediaType as `${EUploadMimeType}` });
+    } catch (error) {
+      logger.warn('Posting teaser without the artwork image', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        url
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Keep each posted tweet in the database for reporting. Redis has what
+   * posting needs, so failures only log.
+   */
+  private async persist(record: AnnouncementRecord, texts: string[], hasAuctionRow: boolean): Promise<void> {
+    try {
+      await prisma.announcement.createMany({
+        data: record.tweetIds.map((tweetId, index) => ({
+          kind: record.kind,
+          tweetId,
+          conversationId: record.conversationId,
+          threadPosition: index,
+          content: texts[index] ?? '',
+          lotOrder: record.lotOrder,
+          auctionId: hasAuctionRow ? record.lotId : null,
+          campaignId: record.campaignId ?? null
+        })),
+        skipDuplicates: true
+      });
+    } catch (error) {
+      logger.warn('Failed to store announcement', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        kind: record.kind,
+        tweetId: record.tweetIds[0]
+      });
+    }
+  }
+}
+
+// Export a singleton instance
+export const announcementService = new AnnouncementService();
@@ -1,36 +1,120 @@
 import { RedisService } from './redis.js';
-import type { AuctionState } from '@sothebais/packages/schema/redis/models';
-import type { MarathonConfig, AuctionStatus } from '@sothebais/packages/types/auction';
+import type { ExtendedAuctionState, SessionLotState } from './redis.js';
+import { auctionEvents } from './events.js';
+import { BidRulesEngine } from './bid-rules.js';
+import { bidPersistence } from './bid-persistence.js';
+import type { PersistenceJob } from './bid-persistence.js';
+import { settlementService } from './settlement.js';
+import { announcementService } from './announcements.js';
+import type { BidRuleViolation } from './bid-rules.js';
+import { applySoftClose, DEFAULT_SOFT_CLOSE } from './soft-close.js';
+import type { AuctionState, AuctionTimer } from '@sothebais/packages/schema/redis/models';
+import type {
+  MarathonConfig,
+  AuctionStatus,
+  BidRejectionReason,
+  BidSource
+} from '@sothebais/packages/types/auction';
+import type {
+  AuctionExtendedEvent,
+  BidAcceptedEvent,
+  BidRejectedEvent,
+  LotEndEvent,
+  LotStartEvent
+} from '@sothebais/packages/types/events';
 import type { TwitterBid } from '@sothebais/packages/types/twitter';
 import { logger } from '@sothebais/packages/utils/logger';
 
+// Attempts before giving up on a bid that keeps losing races to other bids
+const MAX_BID_ATTEMPTS = 100;
+
+/**
+ * Result of running a bid through the auction
+ */
+export type BidProcessingResult =
+  | { accepted: true; previousHighestBid?: TwitterBid }
+  | { accepted: false; reason: BidRejectionReason; message: string; minimumAmount?: number };
+
 export class AuctionManager {
   private redis: RedisService;
+  private bidRules: BidRulesEngine;
   private currentMarathonId: string | null = null;
 
-  constructor() {
-    this.redis = new RedisService();
+  constructor(bidRules: BidRulesEngine = new BidRulesEngine(), redis: RedisService = new RedisService()) {
+    this.redis = redis;
+    this.bidRules = bidRules;
   }
 
   async getCurrentAuction(marathonId: string): Promise<AuctionState | null> {
     return this.redis.getCurrentAuction(marathonId);
   }
 
+  async getMarathonConfig(): Promise<MarathonConfig | null> {
+    return this.redis.getMarathonConfig();
+  }
+
+  async getAuctionConfig(marathonId: string): Promise<MarathonConfig | null> {
+    return this.redis.getAuctionConfig(marathonId);
+  }
+
+  /**
+   * Countdown for the current lot, taking soft close extensions into account
+   */
+  async getAuctionTimer(marathonId: string): Promise<AuctionTimer | null> {
+    const state = await this.redis.getCurrentAuction(marathonId);
+    if (!state) {
+      return null;
+    }
+
+    const now = new Date();
+    const endTime = state.extendedEndTime || state.endTime;
+    const extensionCount = state.extensionCount || 0;
+
+    return {
+      auctionId: state.id,
+      startTime: state.startTime,
+      endTime,
+      currentTime: now.toISOString(),
+      timeRemaining: Math.max(0, Math.floor((new Date(endTime).getTime() - now.getTime()) / 1000)),
+      isExtended: extensionCount > 0,
+      extensionCount
+    };
+  }
+
+  async setMarathonConfig(config: MarathonConfig): Promise<void> {
+    await this.redis.setMarathonConfig(config);
+  }
+
+  async setSessionConfig(sessionId: string, config: MarathonConfig): Promise<void> {
+    await this.redis.setSessionConfig(sessionId, config);
+  }
+
+  async getActiveMarathonId(): Promise<string | null> {
+    return this.redis.getActiveMarathonId();
+  }
+
   async startAuctionMarathon(config: MarathonConfig): Promise<string> {
     const marathonId = `marathon-${Date.now()}`;
     
     try {
+      if (Number.isNaN(new Date(config.startDate).getTime()) || Number.isNaN(new Date(config.endDate).getTime())) {
+        throw new Error('Marathon config requires valid startDate and endDate');
+      }
+
       // Store marathon configuration
       await this.redis.setMarathonConfig(config);
       
       // Set as current marathon
       this.currentMarathonId = marathonId;
+      await this.redis.setActiveMarathonId(marathonId);
       
       logger.info('Started auction marathon', { marathonId, config });
       
-      // Start day 1 auction
-      const startTime = this.getAuctionStartTime(config);
-      const endTime = this.getAuctionEndTime(config);
+      // Schedule day 1 auction
+      const window = this.getLotWindow(config, 1);
+      if (!window) {
+        throw new Error('Marathon end date leaves no room for a single auction');
+      }
       
       const initialState = {
         id: marathonId,
@@ -39,14 +123,20 @@ export class AuctionManager {
         sessionId: marathonId, // Using marathon ID as session ID for now
         artItemId: 'day-1', // Placeholder
         status: 'SCHEDULED' as AuctionStatus, // Use a valid status from the type
-        startTime: startTime.toISOString(),
-        endTime: endTime.toISOString(),
+        startTime: window.startTime.toISOString(),
+        endTime: window.endTime.toISOString(),
         currency: config.currency,
         lotOrder: 1
       };
       
       await this.redis.setCurrentAuction(initialState);
       
+      logger.info('Scheduled first auction', {
+        marathonId,
+        startTime: initialState.startTime,
+        endTime: initialState.endTime
+      });
+      
       return marathonId;
     } catch (error) {
       logger.error('Failed to start auction marathon', {
@@ -59,6 +149,27 @@ export class AuctionManager {
   }
 
   async startDailyAuction(marathonId: string): Promise<void> {
+    await this.openCurrentLot(marathonId);
+  }
+
+  /**
+   * Make a lot the current auction for a marathon or session, ready to be opened
+   */
+  async queueLot(marathonId: string, lot: SessionLotState): Promise<void> {
+    await this.redis.setCurrentAuction({
+      ...lot,
+      marathonId,
+      dayNumber: lot.lotOrder,
+      status: 'SCHEDULED'
+    });
+
+    logger.info('Queued lot', { marathonId, lotId: lot.id, lotOrder: lot.lotOrder });
+  }
+
+  /**
+   * Open bidding on the current lot
+   */
+  async openCurrentLot(marathonId: string): Promise<ExtendedAuctionState> {
     try {
       const state = await this.redis.getCurrentAuction(marathonId);
       
@@ -70,9 +181,23 @@ export class AuctionManager {
       state.status = 'ACTIVE';
       await this.redis.setCurrentAuction(state);
       
-      logger.info('Started daily auction', { marathonId, lotOrder: state.lotOrder });
+      logger.info('Opened lot', { marathonId, lotId: state.id, lotOrder: state.lotOrder });
+
+      await auctionEvents.publish<LotStartEvent>('LOT_START', {
+        lotId: state.id,
+        sessionId: state.sessionId,
+        artItemId: state.artItemId,
+        ...(state.artItem ? { artItem: state.artItem } : {}),
+        startTime: state.startTime,
+        endTime: state.extendedEndTime || state.endTime,
+        ...(state.reservePrice ? { reservePrice: state.reservePrice } : {}),
+        currency: state.currency,
+        lotOrder: state.lotOrder
+      });
+
+      return state;
     } catch (error) {
-      logger.error('Failed to start daily auction', {
+      logger.error('Failed to open lot', {
         error: error instanceof Error ? error.message : 'Unknown error',
         marathonId
       });
@@ -80,53 +205,19 @@ export class AuctionManager {
     }
   }
 
-  async processBid(marathonId: string, bid: TwitterBid): Promise<boolean> {
+  async processBid(marathonId: string, bid: TwitterBid, source: BidSource = 'TWITTER'): Promise<BidProcessingResult> {
     try {
-      const state = await this.redis.getCurrentAuction(marathonId);
-      
-      if (!state) {
-        logger.warn('No active auction found for bid', { marathonId, bidUserId: bid.userId });
-        return false;
-      }
-      
-      if (state.status !== 'ACTIVE') {
-        logger.warn('Auction not active for bid', { 
-          marathonId, 
-          status: state.status,
-          bidUserId: bid.userId 
-        });
-        return false;
-      }
-      
-      const highestBid = await this.redis.getHighestBid(marathonId, state.lotOrder);
-      const currentBidAmount = highestBid?.amount || 0;
-      const currentBidUserId = highestBid?.userId || '';
-      
-      if (!this.isValidBid(bid, currentBidAmount, currentBidUserId)) {
-        logger.warn('Invalid bid rejected', { 
-          marathonId, 
-          bidUserId: bid.userId,
-          bidAmount: bid.amount,
-          currentBidAmount
-        });
-        return false;
+      // A bid accepted between our read and the atomic write means the rules
+      // have to be checked again against the new highest bid
+      for (let attempt = 1; attempt <= MAX_BID_ATTEMPTS; attempt++) {
+        const result = await this.attemptBid(marathonId, bid, source);
+        if (result !== 'CONFLICT') {
+          return result;
+        }
+        logger.debug('Bid raced another bid, retrying', { marathonId, bidId: bid.tweetId, attempt });
       }
-      
-      // Store the highest bid ID in the auction state
-      state.highestBidId = bid.tweetId;
-      await this.redis.setCurrentAuction(state);
-      
-      // Store bid in history
-      await this.redis.addBid(marathonId, state.lotOrder, bid);
-      
-      logger.info('Processed new bid', { 
-        marathonId, 
-        lotOrder: state.lotOrder,
-        bidUserId: bid.userId,
-        bidAmount: bid.amount
-      });
-      
-      return true;
+
+      throw new Error(`Bid ${bid.tweetId} still conflicting after ${MAX_BID_ATTEMPTS} attempts`);
     } catch (error) {
       logger.error('Failed to process bid', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -137,47 +228,182 @@ export class AuctionManager {
     }
   }
 
+  /**
+   * Validate a bid against the current lot and try to accept it atomically
+   */
+  private async attemptBid(
+    marathonId: string,
+    bid: TwitterBid,
+    source: BidSource
+  ): Promise<BidProcessingResult | 'CONFLICT'> {
+    const state = await this.redis.getCurrentAuction(marathonId);
+    
+    if (!state) {
+      logger.warn('No active auction found for bid', { marathonId, bidUserId: bid.userId });
+      return { accepted: false, reason: 'NO_ACTIVE_AUCTION', message: 'There is no auction running' };
+    }
+    
+    if (state.status !== 'ACTIVE') {
+      logger.warn('Auction not active for bid', { 
+        marathonId, 
+        status: state.status,
+        bidUserId: bid.userId 
+      });
+      return this.rejectBid(marathonId, state, bid, source, {
+        reason: 'AUCTION_NOT_ACTIVE',
+        message: 'Bidding is not open for this lot'
+      });
+    }
+    
+    const acceptedAt = new Date();
+    const effectiveEndTime = state.extendedEndTime || state.endTime;
+    if (acceptedAt.getTime() > new Date(effectiveEndTime).getTime()) {
+      logger.warn('Bid received after auction close', {
+        marathonId,
+        bidUserId: bid.userId,
+        endTime: effectiveEndTime
+      });
+      return this.rejectBid(marathonId, state, bid, source, {
+        reason: 'AUCTION_CLOSED',
+        message: 'Bidding has closed for this lot'
+      });
+    }
+
+    const config = await this.redis.getAuctionConfig(marathonId);
+    if (!config) {
+      throw new Error('Marathon config not found');
+    }
+
+    const highestBid = await this.redis.getHighestBid(marathonId, state.lotOrder);
+    const evaluation = this.bidRules.evaluate({ bid, config, state, highestBid });
+    
+    if (!evaluation.ok) {
+      logger.warn('Invalid bid rejected', { 
+        marathonId, 
+        bidUserId: bid.userId,
+        bidAmount: bid.amount,
+        currentBidAmount: highestBid?.amount || 0,
+        reason: evaluation.reason
+      });
+      return this.rejectBid(marathonId, state, bid, source, evaluation);
+    }
+    
+    // Store the highest bid ID in the auction state
+    state.highestBidId = bid.tweetId;
+
+    // Push the close out if the bid landed in the final window
+    const extension = applySoftClose(state, acceptedAt, config.softClose || DEFAULT_SOFT_CLOSE);
+
+    // Store the bid and the updated state, unless the lot moved on meanwhile
+    const outcome = await this.redis.acceptBid(marathonId, state, bid, highestBid?.amount ?? null);
+    if (outcome === 'CONFLICT') {
+      return 'CONFLICT';
+    }
+    if (outcome === 'NO_AUCTION') {
+      return { accepted: false, reason: 'NO_ACTIVE_AUCTION', message: 'There is no auction running' };
+    }
+    if (outcome === 'NOT_ACTIVE') {
+      return this.rejectBid(marathonId, state, bid, source, {
+        reason: 'AUCTION_CLOSED',
+        message: 'Bidding has closed for this lot'
+      });
+    }
+
+    await this.persist(marathonId, state, {
+      type: 'BID',
+      auctionId: state.id,
+      bid,
+      source,
+      status: 'ACCEPTED'
+    });
+
+    await auctionEvents.publish<BidAcceptedEvent>('BID_ACCEPTED', {
+      bidId: bid.tweetId,
+      auctionId: state.id,
+      userId: bid.userId,
+      amount: bid.amount.toString(),
+      currency: state.currency,
+      timestamp: acceptedAt.toISOString(),
+      isHighestBid: true
+    });
+
+    if (extension) {
+      logger.info('Auction extended by late bid', {
+        marathonId,
+        lotOrder: state.lotOrder,
+        previousEndTime: extension.previousEndTime,
+        newEndTime: state.extendedEndTime,
+        extensionCount: state.extensionCount
+      });
+
+      await auctionEvents.publish<AuctionExtendedEvent>('AUCTION_EXTENDED', {
+        auctionId: state.id,
+        lotOrder: state.lotOrder,
+        previousEndTime: extension.previousEndTime,
+        newEndTime: state.extendedEndTime!,
+        extensionCount: state.extensionCount!,
+        maxExtensions: extension.maxExtensions,
+        triggeringBidId: bid.tweetId,
+        timestamp: acceptedAt.toISOString()
+      });
+    }
+    
+    logger.info('Processed new bid', { 
+      marathonId, 
+      lotOrder: state.lotOrder,
+      bidUserId: bid.userId,
+      bidAmount: bid.amount
+    });
+    
+    return { accepted: true, ...(highestBid ? { previousHighestBid: highestBid } : {}) };
+  }
+
+  /**
+   * Tell listeners why a bid was turned down and build the result for the caller
+   */
+  private async rejectBid(
+    marathonId: string,
+    state: ExtendedAuctionState,
+    bid: TwitterBid,
+    source: BidSource,
+    violation: BidRuleViolation
+  ): Promise<BidProcessingResult> {
+    await this.persist(marathonId, state, {
+      type: 'BID',
+      auctionId: state.id,
+      bid,
+      source,
+      status: 'REJECTED',
+      rejectionReason: violation.reason
+    });
+
+    await auctionEvents.publish<BidRejectedEvent>('BID_REJECTED', {
+      bidId: bid.tweetId,
+      auctionId: state.id,
+      userId: bid.userId,
+      amount: bid.amount.toString(),
+      currency: bid.currency || state.currency,
+      timestamp: new Date().toISOString(),
+      reason: violation.message,
+      reasonCode: violation.reason,
+      ...(violation.minimumAmount !== undefined ? { minimumAmount: violation.minimumAmount.toString() } : {})
+    });
+
+    return {
+      accepted: false,
+      reason: violation.reason,
+      message: violation.message,
+      ...(violation.minimumAmount !== undefined ? { minimumAmount: violation.minimumAmount } : {})
+    };
+  }
+
   async endDailyAuction(marathonId: string): Promise<void> {
     try {
-      const state = await this.redis.getCurrentAuction(marathonId);
-      
+      const state = await this.closeCurrentLot(marathonId);
       if (!state) {
-        throw new Error(`No auction found for marathon ID: ${marathonId}`);
-      }
-      
-      if (state.status !== 'ACTIVE') {
-        logger.warn('Attempting to end auction that is not active', { 
-          marathonId, 
-          status: state.status
-        });
         return;
       }
       
-      // Update state to ENDED
-      state.status = 'ENDED';
-      await this.redis.setCurrentAuction(state);
-      
-      logger.info('Ending daily auction', { marathonId, lotOrder: state.lotOrder });
-      
-      // Process winner
-      const highestBid = await this.redis.getHighestBid(marathonId, state.lotOrder);
-      if (highestBid) {
-        logger.info('Auction ended with winning bid', { 
-          marathonId,
-          lotOrder: state.lotOrder,
-          winningUserId: highestBid.userId,
-          winningAmount: highestBid.amount
-        });
-        
-        // Here you would process the winning bid (e.g., trigger NFT minting)
-        // await this.processWinner(highestBid, marathonId, state.lotOrder);
-      } else {
-        logger.info('Auction ended with no bids', { 
-          marathonId, 
-          lotOrder: state.lotOrder
-        });
-      }
-      
       // Set up next day's auction
       const config = await this.redis.getMarathonConfig();
       if (!config) {
@@ -185,8 +411,21 @@ export class AuctionManager {
       }
       
       const nextLotOrder = state.lotOrder + 1;
-      const startTime = this.getAuctionStartTime(config);
-      const endTime = this.getAuctionEndTime(config);
+      const window = this.getLotWindow(config, nextLotOrder);
+      
+      // The marathon is over once the next lot would close after endDate
+      if (!window) {
+        await this.redis.clearActiveMarathonId();
+        if (this.currentMarathonId === marathonId) {
+          this.currentMarathonId = null;
+        }
+        logger.info('Auction marathon completed', {
+          marathonId,
+          lastLotOrder: state.lotOrder,
+          endDate: config.endDate
+        });
+        return;
+      }
       
       const newState = {
         id: marathonId,
@@ -195,8 +434,8 @@ export class AuctionManager {
         sessionId: marathonId,
         artItemId: `day-${nextLotOrder}`, // Placeholder
         status: 'SCHEDULED' as AuctionStatus,
-        startTime: startTime.toISOString(),
-        endTime: endTime.toISOString(),
+        startTime: window.startTime.toISOString(),
+        endTime: window.endTime.toISOString(),
         currency: config.currency,
         lotOrder: nextLotOrder
       };
@@ -216,74 +455,128 @@ export class AuctionManager {
     }
   }
 
-  private async getCurrentAuctionState(): Promise<AuctionState | null> {
-    if (!this.currentMarathonId) {
+  /**
+   * Close bidding on the current lot and announce the result. Returns the
+   * ended lot, or null if it wasn't active.
+   */
+  async closeCurrentLot(marathonId: string): Promise<ExtendedAuctionState | null> {
+    const state = await this.redis.getCurrentAuction(marathonId);
+    
+    if (!state) {
+      throw new Error(`No auction found for marathon ID: ${marathonId}`);
+    }
+    
+    if (state.status !== 'ACTIVE') {
+      logger.warn('Attempting to end auction that is not active', { 
+        marathonId, 
+        status: state.status
+      });
       return null;
     }
     
-    return this.redis.getCurrentAuction(this.currentMarathonId);
-  }
-
-  private isValidBid(bid: TwitterBid, currentBidAmount: number, currentBidUserId: string): boolean {
-    // Check if bid is higher than current bid
-    if (currentBidAmount > 0) {
-      const minIncrement = currentBidAmount * 0.1;
-      const minValidBid = currentBidAmount + minIncrement;
-      
-      if (bid.amount < minValidBid) {
-        logger.debug('Bid too low', { 
-          currentBid: currentBidAmount,
-          requiredBid: minValidBid,
-          actualBid: bid.amount
-        });
-        return false;
-      }
-      
-      // Check if same user is trying to outbid themselves
-      if (bid.userId === currentBidUserId) {
-        logger.debug('User attempting to outbid themselves', { 
-          userId: bid.userId
-        });
-        // This might be allowed, depending on your rules
-        // return false;
-      }
+    // Update state to ENDED
+    state.status = 'ENDED';
+    await this.redis.setCurrentAuction(state);
+    
+    logger.info('Closing lot', { marathonId, lotId: state.id, lotOrder: state.lotOrder });
+    
+    // Process winner
+    const highestBid = await this.redis.getHighestBid(marathonId, state.lotOrder);
+    if (highestBid) {
+      logger.info('Auction ended with winning bid', { 
+        marathonId,
+        lotOrder: state.lotOrder,
+        winningUserId: highestBid.userId,
+        winningAmount: highestBid.amount
+      });
     } else {
-      // For first bid, check if it meets minimum starting bid
-      const minStartingBid = 0.1; // ETH
-      if (bid.amount < minStartingBid) {
-        logger.debug('Starting bid too low', { 
-          minStartingBid,
-          actualBid: bid.amount
+      logger.info('Auction ended with no bids', { 
+        marathonId, 
+        lotOrder: state.lotOrder
+      });
+    }
+
+    await this.persist(marathonId, state, {
+      type: 'LOT_RESULT',
+      auctionId: state.id,
+      ...(highestBid ? { winningBidId: highestBid.tweetId } : {})
+    });
+
+    await auctionEvents.publish<LotEndEvent>('LOT_END', {
+      lotId: state.id,
+      sessionId: state.sessionId,
+      artItemId: state.artItemId,
+      endTime: new Date().toISOString(),
+      ...(highestBid ? {
+        finalPrice: highestBid.amount.toString(),
+        winnerId: highestBid.userId,
+        winningBidId: highestBid.tweetId
+      } : {}),
+      currency: state.currency,
+      lotOrder: state.lotOrder
+    });
+
+    // Payment and delivery carry on in the background; once the settlement
+    // record exists, the settlement poller retries any step that fails
+    if (highestBid) {
+      await settlementService.begin(marathonId, state).catch((error) => {
+        logger.error('Failed to start settlement', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          marathonId,
+          lotId: state.id
         });
-        return false;
-      }
+      });
     }
+
+    // The results thread goes out in the background; lotClosed never throws
+    void announcementService.lotClosed(marathonId, state, highestBid);
     
-    return true;
+    return state;
   }
 
-  private getAuctionStartTime(config: MarathonConfig): Date {
-    const now = new Date();
-    // Ensure we have a starting date
-    const startDate = config.startDate ? new Date(config.startDate) : now;
-    
-    // Set auction start time based on current time plus a small offset
-    const startTime = new Date(startDate);
-    startTime.setHours(now.getHours());
-    startTime.setMinutes(now.getMinutes() + 5); // Start 5 minutes from now
-    startTime.setSeconds(0);
+  private async getCurrentAuctionState(): Promise<AuctionState | null> {
+    if (!this.currentMarathonId) {
+      return null;
+    }
     
-    return startTime;
+    return this.redis.getCurrentAuction(this.currentMarathonId);
   }
 
-  private getAuctionEndTime(config: MarathonConfig): Date {
-    // Get the start time and add the auction duration
-    const startTime = this.getAuctionStartTime(config);
-    const endTime = new Date(startTime);
-    
-    // Add the auction duration (in hours)
-    endTime.setHours(endTime.getHours() + (config.auctionDuration || 24));
-    
-    return endTime;
+  /**
+   * Queue a write to the database for lots that have a row in it. Lots loaded
+   * from an auction session carry their own Auction ID; the placeholder lots
+   * of a daily marathon reuse the marathon ID and only live in Redis.
+   */
+  private async persist(marathonId: string, state: ExtendedAuctionState, job: PersistenceJob): Promise<void> {
+    if (state.id === marathonId) {
+      return;
+    }
+    bidPersistence.watch(marathonId);
+    await bidPersistence.enqueue(job);
+  }
+
+  /**
+   * Compute the bidding window for a lot from the marathon config. Lot N opens
+   * (N - 1) * (auctionDuration + breakDuration) hours after startDate and runs
+   * for auctionDuration hours. Returns null once a lot would close after endDate.
+   */
+  private getLotWindow(config: MarathonConfig, lotOrder: number): { startTime: Date; endTime: Date } | null {
+    const hourMs = 60 * 60 * 1000;
+    const auctionDuration = config.auctionDuration || 24;
+    const breakDuration = config.breakDuration || 0;
+
+    const startTime = new Date(
+      new Date(config.startDate).getTime() + (lotOrder - 1) * (auctionDuration + breakDuration) * hourMs
+    );
+    const endTime = new Date(startTime.getTime() + auctionDuration * hourMs);
+
+    if (endTime.getTime() > new Date(config.endDate).getTime()) {
+      return null;
+    }
+
+    return { startTime, endTime };
   }
-} 
\ No newline at end of file
+}
+
+// Export a singleton instance
+export const auctionManager = new AuctionManager();
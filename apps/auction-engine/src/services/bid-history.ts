@@ -0,0 +1,247 @@
+import { RedisService } from './redis.js';
+import type { ExtendedAuctionState, SessionLotState, UserBidRecord } from './redis.js';
+import type { AuctionSessionState, AuctionState, SettlementState, SettlementStatus } from '@sothebais/packages/schema/redis/models';
+import type { LotArtwork } from '@sothebais/packages/types/auction';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  totalBids: number;
+  lotsBidOn: number;
+  lotsWon: number;
+  highestBid: number;
+  totalCommitted: number; // Sum of the bidder's top bid on each lot
+}
+
+export interface LotResult {
+  auctionId: string;
+  lotOrder: number;
+  artItemId: string;
+  artItem?: LotArtwork;
+  currency: string;
+  endTime?: string; // Unknown for past lots of a daily marathon
+  bidCount: number;
+  highestBid: TwitterBid | null;
+  // Whoever the lot went (or is going) to; a runner-up once the winner's payment expired
+  winner: { userId: string; bidId: string; amount: string } | null;
+  settlementStatus?: SettlementStatus;
+}
+
+interface LotSummary {
+  auctionId: string;
+  lotOrder: number;
+  artItemId: string;
+  artItem?: LotArtwork;
+  currency: string;
+  endTime?: string;
+  finished: boolean;
+}
+
+function isFinished(lot: AuctionState): boolean {
+  return lot.status === 'ENDED' || lot.status === 'SETTLED';
+}
+
+function toPage<T>(items: T[], total: number, page: number, pageSize: number): Page<T> {
+  return { items, page, pageSize, total, totalPages: Math.ceil(total / pageSize) };
+}
+
+/**
+ * Bid History
+ *
+ * Read-only views over the bids and lots held in Redis for the admin
+ * dashboard and stream overlays.
+ */
+export class BidHistoryService {
+  constructor(private redis: RedisService = new RedisService()) {}
+
+  /**
+   * The marathon or session bids are currently going to, if any
+   */
+  async getActiveMarathonId(): Promise<string | null> {
+    return (await this.redis.getActiveSessionId()) ?? this.redis.getActiveMarathonId();
+  }
+
+  async getLotBids(marathonId: string, lotOrder: number, page: number, pageSize: number): Promise<Page<TwitterBid>> {
+    const { bids, total } = await this.redis.getBidHistoryPage(marathonId, lotOrder, (page - 1) * pageSize, pageSize);
+    return toPage(bids, total, page, pageSize);
+  }
+
+  async getUserBids(userId: string, page: number, pageSize: number): Promise<Page<UserBidRecord>> {
+    const { bids, total } = await this.redis.getUserBidsPage(userId, (page - 1) * pageSize, pageSize);
+    return toPage(bids, total, page, pageSize);
+  }
+
+  /**
+   * Most recent bids across every lot of a marathon or session
+   */
+  async getRecentBids(marathonId: string, limit: number): Promise<{ bids: TwitterBid[]; totalBids: number; uniqueBidders: number }> {
+    const allBids = Object.values(await this.redis.getAllBids(marathonId)).flat();
+
+    return {
+      bids: [...allBids]
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, limit),
+      totalBids: allBids.length,
+      uniqueBidders: new Set(allBids.map(bid => bid.userId)).size
+    };
+  }
+
+  /**
+   * Bidders ranked by how much they've put on the line across the marathon
+   */
+  async getLeaderboard(marathonId: string, limit: number): Promise<LeaderboardEntry[]> {
+    const lots = await this.getLots(marathonId);
+    const entries = new Map<string, Omit<LeaderboardEntry, 'rank'>>();
+
+    for (const lot of lots) {
+      const bids = await this.redis.getBidHistory(marathonId, lot.lotOrder);
+      const topBids = new Map<string, number>();
+
+      for (const bid of bids) {
+        const entry = entries.get(bid.userId) ?? {
+          userId: bid.userId,
+          totalBids: 0,
+          lotsBidOn: 0,
+          lotsWon: 0,
+          highestBid: 0,
+          totalCommitted: 0
+        };
+        entry.totalBids++;
+        entry.highestBid = Math.max(entry.highestBid, bid.amount);
+        entries.set(bid.userId, entry);
+        topBids.set(bid.userId, Math.max(topBids.get(bid.userId) ?? 0, bid.amount));
+      }
+
+      for (const [userId, amount] of topBids) {
+        const entry = entries.get(userId)!;
+        entry.lotsBidOn++;
+        entry.totalCommitted += amount;
+      }
+
+      const winner = lot.finished
+        ? this.getWinner(await this.redis.getSettlement(marathonId, lot.lotOrder), bids)
+        : null;
+      if (winner) {
+        entries.get(winner.userId)!.lotsWon++;
+      }
+    }
+
+    return [...entries.values()]
+      .sort((a, b) => b.totalCommitted - a.totalCommitted || b.lotsWon - a.lotsWon || b.totalBids - a.totalBids)
+      .slice(0, limit)
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+  }
+
+  /**
+   * Finished lots, most recent first, with their winners
+   */
+  async getLotResults(marathonId: string, page: number, pageSize: number): Promise<Page<LotResult>> {
+    const finished = (await this.getLots(marathonId)).filter(lot => lot.finished).reverse();
+    const results: LotResult[] = [];
+
+    for (const lot of finished.slice((page - 1) * pageSize, page * pageSize)) {
+      const bids = await this.redis.getBidHistory(marathonId, lot.lotOrder);
+      const settlement = await this.redis.getSettlement(marathonId, lot.lotOrder);
+
+      results.push({
+        auctionId: lot.auctionId,
+        lotOrder: lot.lotOrder,
+        artItemId: lot.artItemId,
+        ...(lot.artItem ? { artItem: lot.artItem } : {}),
+        currency: lot.currency,
+        ...(lot.endTime ? { endTime: lot.endTime } : {}),
+        bidCount: bids.length,
+        highestBid: bids[bids.length - 1] ?? null,
+        winner: this.getWinner(settlement, bids),
+        ...(settlement ? { settlementStatus: settlement.status } : {})
+      });
+    }
+
+    return toPage(results, finished.length, page, pageSize);
+  }
+
+  private getWinner(settlement: SettlementState | null, bids: TwitterBid[]): LotResult['winner'] {
+    if (settlement) {
+      const candidate = settlement.candidates[settlement.offerIndex];
+      return settlement.status === 'UNSOLD' || !candidate
+        ? null
+        : { userId: candidate.userId, bidId: candidate.bidId, amount: candidate.amount };
+    }
+
+    const highestBid = bids[bids.length - 1];
+    return highestBid
+      ? { userId: highestBid.userId, bidId: highestBid.tweetId, amount: highestBid.amount.toString() }
+      : null;
+  }
+
+  /**
+   * Every lot that has been up for bidding. A session's lots keep their own
+   * state and order, which can skip numbers or include cancelled lots; the
+   * placeholder lots of a daily marathon only exist as bid sets once the
+   * current auction has moved past them.
+   */
+  private async getLots(marathonId: string): Promise<LotSummary[]> {
+    const current = await this.redis.getCurrentAuction(marathonId);
+    const session = await this.redis.getSessionState(marathonId);
+    if (session) {
+      return this.getSessionLots(session, current);
+    }
+    if (!current) {
+      return [];
+    }
+
+    const lots: LotSummary[] = [];
+    for (let lotOrder = 1; lotOrder <= current.lotOrder; lotOrder++) {
+      const isCurrent = lotOrder === current.lotOrder;
+      lots.push({
+        auctionId: isCurrent ? current.id : marathonId,
+        lotOrder,
+        artItemId: isCurrent ? current.artItemId : `day-${lotOrder}`,
+        ...(isCurrent && current.artItem ? { artItem: current.artItem } : {}),
+        currency: current.currency,
+        ...(isCurrent ? { endTime: current.extendedEndTime || current.endTime } : {}),
+        finished: !isCurrent || isFinished(current)
+      });
+    }
+
+    return lots;
+  }
+
+  private async getSessionLots(session: AuctionSessionState, current: ExtendedAuctionState | null): Promise<LotSummary[]> {
+    const lots: LotSummary[] = [];
+
+    for (const lotId of session.lotIds) {
+      const lot: ExtendedAuctionState | SessionLotState | null = current?.id === lotId
+        ? current
+        : await this.redis.getLotState(lotId);
+      // Lots still waiting for their turn, or cancelled before it, had no bidding
+      if (!lot || (lot !== current && !isFinished(lot)) || lot.status === 'CANCELLED') {
+        continue;
+      }
+
+      lots.push({
+        auctionId: lot.id,
+        lotOrder: lot.lotOrder,
+        artItemId: lot.artItemId,
+        ...(lot.artItem ? { artItem: lot.artItem } : {}),
+        currency: lot.currency,
+        endTime: lot.extendedEndTime || lot.endTime,
+        finished: isFinished(lot)
+      });
+    }
+
+    return lots.sort((a, b) => a.lotOrder - b.lotOrder);
+  }
+}
+
+// Export a singleton instance
+export const bidHistory = new BidHistoryService();
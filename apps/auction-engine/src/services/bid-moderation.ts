@@ -0,0 +1,184 @@
+import { prisma } from './prisma.js';
+import { RedisService } from './redis.js';
+import { twitterBidsBlocked } from '../metrics/twitter-metrics.js';
+import type {
+  ModerationDecision,
+  ModerationList,
+  ModerationReason,
+  TwitterApiTweet,
+  TwitterBid
+} from '@sothebais/packages/types/twitter';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_MIN_ACCOUNT_AGE_DAYS = 7;
+const DEFAULT_MAX_BIDS_PER_MINUTE = 5;
+const RATE_WINDOW_SECONDS = 60;
+// Quotes of a bid come within hours, not days
+const FINGERPRINT_TTL_SECONDS = 24 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BidModeratorOptions {
+  minAccountAgeDays: number;
+  maxBidsPerMinute: number;
+}
+
+export interface ModerationLists {
+  deny: string[];
+  allow: string[];
+}
+
+/**
+ * How an account is written on the lists: a numeric user ID, or a handle
+ * without the @ in lowercase
+ */
+export function normalizeAccount(account: string): string {
+  return account.trim().replace(/^@/, '').toLowerCase();
+}
+
+function blocked(reason: ModerationReason, detail: string): ModerationDecision {
+  return { allowed: false, reason, detail };
+}
+
+/**
+ * Bid Moderator
+ *
+ * Screens bid tweets before they reach the auction. In order:
+ * - retweets are dropped; the bid belongs to the original tweet
+ * - denylisted accounts are dropped
+ * - quote tweets repeating the bid they quote are dropped
+ * - allowlisted accounts skip the remaining checks
+ * - accounts younger than TWITTER_MIN_ACCOUNT_AGE_DAYS are dropped
+ * - bids past TWITTER_MAX_BIDS_PER_MINUTE per user are dropped
+ *
+ * Dropped bids get no reply, so there is nothing to gain from retrying. Every
+ * decision is written to the tweet's row: `isBid` stays set only for bids let
+ * through, `isProcessed` is set, and `metadata.moderation` holds the decision.
+ */
+export class BidModerator {
+  private options: BidModeratorOptions;
+
+  constructor(
+    private redis: RedisService = new RedisService(),
+    options: Partial<BidModeratorOptions> = {}
+  ) {
+    this.options = {
+      minAccountAgeDays: options.minAccountAgeDays
+        ?? (Number(process.env['TWITTER_MIN_ACCOUNT_AGE_DAYS']) || DEFAULT_MIN_ACCOUNT_AGE_DAYS),
+      maxBidsPerMinute: options.maxBidsPerMinute
+        ?? (Number(process.env['TWITTER_MAX_BIDS_PER_MINUTE']) || DEFAULT_MAX_BIDS_PER_MINUTE)
+    };
+  }
+
+  /**
+   * Decide whether a parsed bid may go to the auction, and record why
+   */
+  async review(tweet: TwitterApiTweet, bid: TwitterBid, currency: string): Promise<ModerationDecision> {
+    const fingerprint = `${bid.amount}:${(bid.currency || currency).toUpperCase()}`;
+    const decision = await this.decide(tweet, fingerprint);
+
+    if (decision.allowed) {
+      await this.redis.setBidFingerprint(tweet.id, fingerprint, FINGERPRINT_TTL_SECONDS);
+    } else {
+      twitterBidsBlocked.inc({ reason: decision.reason });
+      logger.info('Bid tweet blocked by moderation', {
+        tweetId: tweet.id,
+        authorId: tweet.author_id,
+        reason: decision.reason,
+        detail: decision.detail
+      });
+    }
+
+    void this.record(tweet.id, decision);
+    return decision;
+  }
+
+  async getLists(): Promise<ModerationLists> {
+    const [deny, allow] = await Promise.all([
+      this.redis.getModerationList('DENY'),
+      this.redis.getModerationList('ALLOW')
+    ]);
+    return { deny, allow };
+  }
+
+  async addAccount(list: ModerationList, account: string): Promise<string> {
+    const entry = normalizeAccount(account);
+    await this.redis.addToModerationList(list, entry);
+    logger.info('Account added to moderation list', { list, account: entry });
+    return entry;
+  }
+
+  async removeAccount(list: ModerationList, account: string): Promise<boolean> {
+    const entry = normalizeAccount(account);
+    const removed = await this.redis.removeFromModerationList(list, entry);
+    if (removed) {
+      logger.info('Account removed from moderation list', { list, account: entry });
+    }
+    return removed;
+  }
+
+  private async decide(tweet: TwitterApiTweet, fingerprint: string): Promise<ModerationDecision> {
+    const references: Array<{ type: string; id: string }> = tweet['referenced_tweets'] ?? [];
+
+    if (references.some(ref => ref.type === 'retweeted') || /^RT @\w+:/.test(tweet.text)) {
+      return blocked('RETWEET', 'Retweets are not bids');
+    }
+
+    const accounts = [tweet.author_id, ...(tweet.author ? [tweet.author.username.toLowerCase()] : [])];
+    if (await this.redis.isOnModerationList('DENY', accounts)) {
+      return blocked('DENYLISTED', 'Account is on the denylist');
+    }
+
+    const quoted = references.find(ref => ref.type === 'quoted');
+    if (quoted && (await this.redis.getBidFingerprint(quoted.id)) === fingerprint) {
+      return blocked('DUPLICATE_QUOTE', `Repeats the bid in quoted tweet ${quoted.id}`);
+    }
+
+    if (await this.redis.isOnModerationList('ALLOW', accounts)) {
+      return { allowed: true, allowlisted: true };
+    }
+
+    // Accounts whose age we weren't told are given the benefit of the doubt
+    const createdAt = tweet.author?.createdAt;
+    if (createdAt && Date.now() - new Date(createdAt).getTime() < this.options.minAccountAgeDays * DAY_MS) {
+      return blocked('ACCOUNT_TOO_NEW', `Account is younger than ${this.options.minAccountAgeDays} days`);
+    }
+
+    const count = await this.redis.countBid(tweet.author_id, RATE_WINDOW_SECONDS);
+    if (count > this.options.maxBidsPerMinute) {
+      return blocked('RATE_LIMITED', `More than ${this.options.maxBidsPerMinute} bids in a minute`);
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Note the decision on the stored tweet. The audit trail is best effort and
+   * review doesn't wait for it, so bidding doesn't wait on the database; this
+   * never throws.
+   */
+  private async record(tweetId: string, decision: ModerationDecision): Promise<void> {
+    try {
+      const row = await prisma.tweet.findUnique({ where: { tweetId }, select: { metadata: true } });
+      if (!row) {
+        return;
+      }
+      const metadata = row.metadata && typeof row.metadata === 'object' && !Array.isArray(row.metadata) ? row.metadata : {};
+      await prisma.tweet.update({
+        where: { tweetId },
+        data: {
+          isBid: decision.allowed,
+          isProcessed: true,
+          metadata: { ...metadata, moderation: { ...decision, decidedAt: new Date().toISOString() } }
+        }
+      });
+    } catch (error) {
+      logger.warn('Failed to record moderation decision', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tweetId
+      });
+    }
+  }
+}
+
+// Export a singleton instance
+export const bidModerator = new BidModerator();
@@ -0,0 +1,290 @@
+import { ApiResponseError } from 'twitter-api-v2';
+import type { TwitterApi } from 'twitter-api-v2';
+import { formatAmount } from './bid-rules.js';
+import { RedisService } from './redis.js';
+import { twitterScheduler } from './twitter-scheduler.js';
+import { DEFAULT_PREFERENCES, userPreferences } from './user-preferences.js';
+import type { NotificationPreferences, UserPreferences } from './user-preferences.js';
+import type { BidTweetOutcome } from './twitter.js';
+import { logger } from '../utils/logger.js';
+
+export type BidNotificationKind = 'ACCEPTED' | 'REJECTED' | 'OUTBID';
+
+/**
+ * A reply waiting in the queue
+ */
+export interface QueuedReply {
+  kind: BidNotificationKind;
+  tweetId: string; // Tweet being replied to
+  userId: string; // Twitter user being notified
+  text: string;
+  queuedAt: string;
+}
+
+export interface NotifierStatus {
+  running: boolean;
+  queued: number;
+  sentInWindow: number;
+  repliesPerWindow: number;
+  pausedUntil: string | null;
+}
+
+// Twitter counts posts in 15 minute windows
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+const DEFAULT_REPLIES_PER_WINDOW = 50;
+const IDLE_POLL_MS = 1000;
+// How long a sent notification is remembered for de-duplication
+const DEDUPE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function sentence(message: string): string {
+  return message.charAt(0).toLowerCase() + message.slice(1);
+}
+
+/**
+ * Reply texts for each notification
+ */
+export const replyTemplates = {
+  accepted: (amount: number, currency: string, walletLinked?: boolean): string =>
+    walletLinked === false
+      ? `Bid accepted, you lead at ${formatAmount(amount)} ${currency}. To pay if you win, reply "link wallet 0x…" with your wallet address.`
+      : `Bid accepted, you lead at ${formatAmount(amount)} ${currency}.`,
+  rejected: (message: string, currency: string, minimumAmount?: number): string =>
+    minimumAmount !== undefined
+      ? `Bid rejected: minimum is ${formatAmount(minimumAmount)} ${currency}.`
+      : `Bid rejected: ${sentence(message)}.`,
+  outbid: (amount: number, currency: string): string =>
+    `You've been outbid, the leading bid is now ${formatAmount(amount)} ${currency}. Reply with a higher bid to take the lead.`
+};
+
+/**
+ * Bid Notifier
+ *
+ * Replies to bid tweets with the outcome, and replies to the previous
+ * leader's bid tweet when they are outbid. Each notification is checked
+ * against the user's preferences and claimed in Redis so it goes out at most
+ * once, then queued. A worker drains the queue within the post rate limit
+ * (TWITTER_REPLIES_PER_15_MIN), and waits for the reset when Twitter answers
+ * 429 anyway.
+ */
+export class BidNotifier {
+  private client: TwitterApi | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private sentAt: number[] = [];
+  private pausedUntil = 0;
+  private repliesPerWindow: number;
+
+  constructor(
+    private redis: RedisService = new RedisService(),
+    private preferences: Pick<UserPreferences, 'getForTwitterUser'> = userPreferences,
+    repliesPerWindow: number = Number(process.env['TWITTER_REPLIES_PER_15_MIN']) || DEFAULT_REPLIES_PER_WINDOW
+  ) {
+    this.repliesPerWindow = repliesPerWindow;
+  }
+
+  /**
+   * Start sending queued replies with the given client
+   */
+  start(client: TwitterApi): void {
+    this.stop();
+    this.client = client;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.client = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue the replies a processed bid tweet calls for. Never throws, so
+   * notification problems can't affect bidding.
+   */
+  async notify(outcome: BidTweetOutcome): Promise<void> {
+    try {
+      if (outcome.status === 'ACCEPTED') {
+        const { bid, currency, previousHighestBid: previous } = outcome;
+        await this.queue({
+          kind: 'ACCEPTED',
+          tweetId: bid.tweetId,
+          userId: bid.userId,
+          text: replyTemplates.accepted(bid.amount, currency, bid.walletLinked)
+        });
+
+        if (previous && previous.userId !== bid.userId) {
+          await this.queue({
+            kind: 'OUTBID',
+            tweetId: previous.tweetId,
+            userId: previous.userId,
+            text: replyTemplates.outbid(bid.amount, currency)
+          });
+        }
+      } else if (outcome.status === 'REJECTED') {
+        const { bid, currency, message, minimumAmount } = outcome;
+        await this.queue({
+          kind: 'REJECTED',
+          tweetId: bid.tweetId,
+          userId: bid.userId,
+          text: replyTemplates.rejected(message, currency, minimumAmount)
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to queue bid notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        status: outcome.status
+      });
+    }
+  }
+
+  async getStatus(): Promise<NotifierStatus> {
+    this.pruneWindow();
+    return {
+      running: this.client !== null,
+      queued: await this.redis.getReplyQueueDepth(),
+      sentInWindow: this.sentAt.length,
+      repliesPerWindow: this.repliesPerWindow,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null
+    };
+  }
+
+  private async queue(reply: Omit<QueuedReply, 'queuedAt'>): Promise<void> {
+    const preference: keyof NotificationPreferences = reply.kind === 'OUTBID' ? 'outbidAlerts' : 'bidConfirmations';
+    const preferences = await this.lookupPreferences(reply.userId);
+    if (!preferences[preference]) {
+      logger.debug('User opted out of bid notification', { kind: reply.kind, userId: reply.userId });
+      return;
+    }
+
+    if (!(await this.redis.claimNotification(`${reply.kind}:${reply.tweetId}`, DEDUPE_TTL_SECONDS))) {
+      logger.debug('Bid notification already sent', { kind: reply.kind, tweetId: reply.tweetId });
+      return;
+    }
+
+    await this.redis.enqueueReply(JSON.stringify({ ...reply, queuedAt: new Date().toISOString() }));
+  }
+
+  /**
+   * The user's preferences, or the defaults if they can't be looked up, so a
+   * database problem doesn't cost bidders their notifications
+   */
+  private async lookupPreferences(userId: string): Promise<NotificationPreferences> {
+    try {
+      return await this.preferences.getForTwitterUser(userId);
+    } catch (error) {
+      logger.warn('Failed to look up notification preferences, using the defaults', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+      return DEFAULT_PREFERENCES;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.client) {
+      return;
+    }
+    this.timer = setTimeout(() => void this.drain(), delayMs);
+  }
+
+  /**
+   * Send the next reply if the rate limit allows, then schedule the next turn.
+   * The next turn is scheduled whatever happens, so one bad turn can't stop
+   * the queue.
+   */
+  private async drain(): Promise<void> {
+    this.timer = null;
+    let delayMs = 0;
+    try {
+      const wait = this.waitTime();
+      if (wait > 0) {
+        delayMs = wait;
+        return;
+      }
+
+      const raw = await this.redis.dequeueReply();
+      if (!raw) {
+        delayMs = IDLE_POLL_MS;
+        return;
+      }
+      await this.send(raw);
+    } catch (error) {
+      logger.error('Failed to process bid reply queue', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      delayMs = IDLE_POLL_MS;
+    } finally {
+      this.schedule(delayMs);
+    }
+  }
+
+  private async send(raw: string): Promise<void> {
+    let reply: QueuedReply;
+    try {
+      reply = JSON.parse(raw) as QueuedReply;
+    } catch {
+      logger.error('Parking unreadable bid reply', { raw });
+      await this.redis.parkReply(raw);
+      return;
+    }
+
+    const client = this.client;
+    if (!client) {
+      await this.redis.requeueReply(raw);
+      return;
+    }
+
+    try {
+      this.sentAt.push(Date.now());
+      // Replies go ahead of background work when quota is short
+      const posted = await twitterScheduler.run('HIGH', () => client.v2.reply(reply.text, reply.tweetId));
+      logger.info('Sent bid notification', { kind: reply.kind, tweetId: reply.tweetId, replyId: posted.data.id });
+    } catch (error) {
+      if (error instanceof ApiResponseError && error.rateLimitError) {
+        // Wait for the window Twitter reports, then try the same reply again
+        const reset = error.rateLimit?.reset;
+        this.pausedUntil = reset ? reset * 1000 : Date.now() + RATE_LIMIT_WINDOW_MS;
+        await this.redis.requeueReply(raw);
+        logger.warn('Twitter rate limit hit, pausing bid replies', {
+          until: new Date(this.pausedUntil).toISOString()
+        });
+        return;
+      }
+
+      // Deleted tweets, duplicates and the like won't succeed on a retry
+      logger.error('Failed to send bid notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: error instanceof ApiResponseError ? error.code : undefined,
+        kind: reply.kind,
+        tweetId: reply.tweetId
+      });
+    }
+  }
+
+  /**
+   * Milliseconds until another reply may be sent
+   */
+  private waitTime(): number {
+    const now = Date.now();
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now;
+    }
+
+    this.pruneWindow();
+    if (this.sentAt.length < this.repliesPerWindow) {
+      return 0;
+    }
+    return this.sentAt[0]! + RATE_LIMIT_WINDOW_MS - now;
+  }
+
+  private pruneWindow(): void {
+    const windowStart = Date.now() - RATE_LIMIT_WINDOW_MS;
+    while (this.sentAt.length > 0 && this.sentAt[0]! <= windowStart) {
+      this.sentAt.shift();
+    }
+  }
+}
+
+// Export a singleton instance
+export const bidNotifier = new BidNotifier();
@@ -0,0 +1,196 @@
+import type { TwitterApiTweet, TwitterBid } from '@sothebais/packages/types/twitter';
+
+/**
+ * Bid Parser
+ *
+ * Turns the free text of a tweet into a bid amount. Supported phrasings include:
+ * - "bid 1.25 ETH"
+ * - "@sothebais 0.5Ξ" / "Ξ0.5"
+ * - "1,5 eth" (decimal comma)
+ * - "bid 2" (currency taken from the marathon config)
+ *
+ * Anything that could be read more than one way is rejected with a reason code
+ * rather than guessed at, since a misread bid is worse than a missed one.
+ */
+
+/**
+ * Reasons a tweet is not turned into a bid
+ */
+export type BidParseRejection =
+  | 'NO_BID_INTENT'          // No "bid" keyword and no amount with an explicit currency
+  | 'NO_AMOUNT'              // "bid" keyword present but no amount found
+  | 'MULTIPLE_AMOUNTS'       // More than one amount in the tweet
+  | 'AMBIGUOUS_AMOUNT'       // Amount could be read more than one way (e.g. "1,500")
+  | 'INVALID_AMOUNT'         // Zero, negative or too precise to be a real bid
+  | 'UNSUPPORTED_CURRENCY';  // Amount given in a currency the auction doesn't accept
+
+export type BidParseResult =
+  | { ok: true; amount: number; currency: string }
+  | { ok: false; reason: BidParseRejection };
+
+export type BidTweetParseResult =
+  | { ok: true; bid: TwitterBid }
+  | { ok: false; reason: BidParseRejection };
+
+export interface BidParserOptions {
+  defaultCurrency: string; // MarathonConfig.currency
+  maxDecimals?: number;    // Defaults to 18 (wei precision)
+}
+
+// Symbols and words that all mean ether (compared lower-cased, so Ξ becomes ξ)
+const ETH_ALIASES = ['eth', 'ether', 'ξ'];
+
+// Currencies we recognise well enough to refuse
+const FOREIGN_CURRENCIES = ['usd', 'usdc', 'usdt', 'dai', 'btc', 'sol', 'matic', 'weth', '$'];
+
+const BID_KEYWORD = /\bbid(?:ding|s)?\b/i;
+
+// An amount token: optional leading currency symbol, the number, optional trailing word.
+// Lookarounds keep us from matching digits inside words like "web3" or inside a longer
+// number, while still allowing sentence punctuation right after the amount ("bid 2.").
+const AMOUNT_PATTERN = /(?<![\w$Ξ]|\d[.,])([$Ξ])?\s?(\d+(?:[.,]\d+)*|[.,]\d+)(?:(\s?)(Ξ|\$|[a-z]+))?(?!\w|[.,]\d)/giu;
+
+interface AmountToken {
+  raw: string;
+  prefix?: string;
+  suffix?: string;
+  suffixAttached: boolean; // "2k" as opposed to "2 eth"
+}
+
+/**
+ * Remove the parts of a tweet that carry digits but never amounts
+ */
+function stripNoise(text: string): string {
+  return text
+    .replace(/https?:\/\/\S+/gi, ' ')  // URLs
+    .replace(/@\w+/g, ' ')             // Mentions, e.g. @lot42
+    .replace(/#\w+/g, ' ')             // Hashtags, e.g. #day3
+    .replace(/\b0x[0-9a-f]+\b/gi, ' '); // Addresses and hashes
+}
+
+function findAmountTokens(text: string): AmountToken[] {
+  const tokens: AmountToken[] = [];
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const [, prefix, raw, spacing, suffix] = match;
+    if (!raw) continue;
+    tokens.push({
+      raw,
+      ...(prefix ? { prefix } : {}),
+      ...(suffix ? { suffix } : {}),
+      suffixAttached: Boolean(suffix) && !spacing
+    });
+  }
+  return tokens;
+}
+
+function normalizeCurrency(symbol: string | undefined): string | null {
+  if (!symbol) return null;
+  const lower = symbol.toLowerCase();
+  if (ETH_ALIASES.includes(lower)) return 'ETH';
+  if (FOREIGN_CURRENCIES.includes(lower)) return lower === '$' ? 'USD' : lower.toUpperCase();
+  return null;
+}
+
+/**
+ * Convert a raw numeric token into a number, treating a lone comma as a
+ * decimal separator. Returns 'AMBIGUOUS' when the separator could be read either way.
+ */
+function parseNumber(raw: string): number | 'AMBIGUOUS' | null {
+  const separators = raw.match(/[.,]/g) || [];
+
+  if (separators.length === 0) {
+    return Number(raw);
+  }
+
+  // "1.000,5" or "1,000.5" - mixed or repeated separators are never safe to guess
+  if (separators.length > 1) {
+    return 'AMBIGUOUS';
+  }
+
+  const [whole = '', fraction = ''] = raw.split(/[.,]/);
+
+  // "1,500" and "1.500" read as fifteen hundred in some locales and one-and-a-half in others
+  if (fraction.length === 3 && whole.length > 0) {
+    return 'AMBIGUOUS';
+  }
+
+  const value = Number(`${whole || '0'}.${fraction}`);
+  return Number.isFinite(value) ? value : null;
+}
+
+function decimalPlaces(raw: string): number {
+  const parts = raw.split(/[.,]/);
+  return parts.length > 1 ? (parts[parts.length - 1] || '').length : 0;
+}
+
+/**
+ * Parse the text of a tweet into a bid amount and currency
+ */
+export function parseBidText(text: string, options: BidParserOptions): BidParseResult {
+  const maxDecimals = options.maxDecimals ?? 18;
+  const defaultCurrency = options.defaultCurrency.toUpperCase();
+  const hasKeyword = BID_KEYWORD.test(text);
+
+  const tokens = findAmountTokens(stripNoise(text));
+
+  if (tokens.length === 0) {
+    return { ok: false, reason: hasKeyword ? 'NO_AMOUNT' : 'NO_BID_INTENT' };
+  }
+
+  // A bare currency-less number only counts as a bid when the tweet says "bid"
+  const explicitCurrencies = tokens.map(token =>
+    normalizeCurrency(token.prefix) ?? normalizeCurrency(token.suffix)
+  );
+  if (!hasKeyword && explicitCurrencies.every(currency => currency === null)) {
+    return { ok: false, reason: 'NO_BID_INTENT' };
+  }
+
+  if (tokens.length > 1) {
+    return { ok: false, reason: 'MULTIPLE_AMOUNTS' };
+  }
+
+  const token = tokens[0]!;
+  const currency = explicitCurrencies[0] ?? defaultCurrency;
+
+  // "2k" or "2x" - a unit we don't understand glued to the number
+  if (token.suffixAttached && explicitCurrencies[0] === null) {
+    return { ok: false, reason: 'AMBIGUOUS_AMOUNT' };
+  }
+
+  if (currency !== defaultCurrency) {
+    return { ok: false, reason: 'UNSUPPORTED_CURRENCY' };
+  }
+
+  const amount = parseNumber(token.raw);
+  if (amount === 'AMBIGUOUS') {
+    return { ok: false, reason: 'AMBIGUOUS_AMOUNT' };
+  }
+
+  if (amount === null || amount <= 0 || decimalPlaces(token.raw) > maxDecimals) {
+    return { ok: false, reason: 'INVALID_AMOUNT' };
+  }
+
+  return { ok: true, amount, currency };
+}
+
+/**
+ * Parse a tweet from the Twitter API into a TwitterBid
+ */
+export function parseBidTweet(tweet: TwitterApiTweet, options: BidParserOptions): BidTweetParseResult {
+  const result = parseBidText(tweet.text, options);
+  if (!result.ok) {
+    return result;
+  }
+
+  return {
+    ok: true,
+    bid: {
+      userId: tweet.author_id,
+      tweetId: tweet.id,
+      amount: result.amount,
+      currency: result.currency,
+      timestamp: tweet.created_at ? new Date(tweet.created_at) : new Date(),
+      rawContent: tweet.text
+    }
+  };
+}
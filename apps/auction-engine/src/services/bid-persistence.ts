@@ -0,0 +1,393 @@
+import { prisma } from './prisma.js';
+import { RedisService } from './redis.js';
+import { logger } from '../utils/logger.js';
+import type { SettlementState, SettlementStatus } from '@sothebais/packages/schema/redis/models';
+import type { BidRejectionReason, BidSource } from '@sothebais/packages/types/auction';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+/**
+ * Jobs waiting to be written to PostgreSQL
+ */
+export type PersistenceJob =
+  | {
+      type: 'BID';
+      auctionId: string;
+      bid: TwitterBid;
+      source: BidSource;
+      status: 'ACCEPTED' | 'REJECTED';
+      rejectionReason?: BidRejectionReason;
+    }
+  | {
+      type: 'LOT_RESULT';
+      auctionId: string;
+      winningBidId?: string; // Tweet ID of the highest bid
+    }
+  | {
+      type: 'SETTLEMENT';
+      auctionId: string;
+      settlementStatus: SettlementStatus;
+      winningBidId?: string; // Tweet ID of the bid currently offered the lot
+      bids: Array<{ bidId: string; status: 'WINNING' | 'PAID' | 'EXPIRED' }>;
+      paymentDeadline?: string;
+      transactionHash?: string; // Payment transaction
+      transferTransactionHash?: string;
+    };
+
+/**
+ * Database update for a settlement record. The job carries the whole outcome
+ * so far rather than the latest transition, which keeps replays harmless.
+ */
+export function settlementJob(settlement: SettlementState): PersistenceJob {
+  const bids: Array<{ bidId: string; status: 'WINNING' | 'PAID' | 'EXPIRED' }> = settlement.candidates
+    .slice(0, settlement.offerIndex)
+    .map(candidate => ({ bidId: candidate.bidId, status: 'EXPIRED' }));
+
+  const current = settlement.candidates[settlement.offerIndex];
+  if (current) {
+    const status = settlement.status === 'PAID' || settlement.status === 'SETTLED'
+      ? 'PAID'
+      : settlement.status === 'EXPIRED' || settlement.status === 'UNSOLD'
+        ? 'EXPIRED'
+        : 'WINNING';
+    bids.push({ bidId: current.bidId, status });
+  }
+
+  return {
+    type: 'SETTLEMENT',
+    auctionId: settlement.auctionId,
+    settlementStatus: settlement.status,
+    ...(current && settlement.status !== 'UNSOLD' ? { winningBidId: current.bidId } : {}),
+    bids,
+    ...(settlement.paymentDeadline ? { paymentDeadline: settlement.paymentDeadline } : {}),
+    ...(settlement.transactionHash ? { transactionHash: settlement.transactionHash } : {}),
+    ...(settlement.transferTransactionHash ? { transferTransactionHash: settlement.transferTransactionHash } : {})
+  };
+}
+
+/**
+ * Whether the database couldn't be reached or the client couldn't start
+ * (P1xxx codes), as opposed to a job the database or client refused
+ */
+function isConnectionError(error: unknown): boolean {
+  const { name, code, errorCode } = (error ?? {}) as { name?: string; code?: unknown; errorCode?: unknown };
+  return name === 'PrismaClientInitializationError' ||
+    [code, errorCode].some(value => typeof value === 'string' && value.startsWith('P1'));
+}
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+
+/**
+ * Bid Persistence
+ *
+ * Write-behind mirror of the auction into PostgreSQL. The bid path only pushes
+ * a job onto a Redis list; a single worker drains the list in order, so a slow
+ * or unavailable database never holds up bidding. While the database is down
+ * jobs stay queued and the worker backs off; once it's reachable again the
+ * queue is replayed and the lots are re-synced from Redis. Writes are keyed by
+ * the bid's tweet ID, so replaying a job is harmless.
+ */
+export class BidPersistence {
+  private redis: RedisService;
+  private timer: NodeJS.Timeout | null = null;
+  private backoffMs = POLL_INTERVAL_MS;
+  private databaseDown = false;
+  private resyncTargets = new Set<string>();
+
+  constructor(redis: RedisService = new RedisService()) {
+    this.redis = redis;
+  }
+
+  /**
+   * Start the worker, first returning any jobs a previous process was
+   * halfway through to the queue
+   */
+  async start(): Promise<void> {
+    const restored = await this.redis.restorePersistenceJobs();
+    if (restored > 0) {
+      logger.info('Restored unfinished persistence jobs', { restored });
+    }
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a job. Failures are logged rather than thrown so that persistence
+   * problems never reject a bid; `resync` can fill any gap later.
+   */
+  async enqueue(job: PersistenceJob): Promise<void> {
+    try {
+      await this.redis.enqueuePersistenceJob(JSON.stringify(job));
+    } catch (error) {
+      logger.error('Failed to queue persistence job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: job.type,
+        auctionId: job.auctionId
+      });
+    }
+  }
+
+  /**
+   * Remember a marathon or session to re-sync once the database is back
+   */
+  watch(marathonId: string): void {
+    this.resyncTargets.add(marathonId);
+  }
+
+  async getQueueDepth(): Promise<{ queued: number; failed: number }> {
+    return this.redis.getPersistenceQueueDepth();
+  }
+
+  /**
+   * Queue every accepted bid, finished lot result and settlement held in Redis
+   * for a marathon or session. Rejected bids only live in the queue, so they
+   * can't be recovered this way.
+   */
+  async resync(marathonId: string): Promise<number> {
+    const lots = await this.getLots(marathonId);
+    let queued = 0;
+
+    for (const lot of lots) {
+      const bids = await this.redis.getBidHistory(marathonId, lot.lotOrder);
+      for (const bid of bids) {
+        await this.enqueue({
+          type: 'BID',
+          auctionId: lot.auctionId,
+          bid,
+          source: 'TWITTER',
+          status: 'ACCEPTED'
+        });
+        queued++;
+      }
+
+      if (lot.ended) {
+        const highestBid = bids[bids.length - 1];
+        await this.enqueue({
+          type: 'LOT_RESULT',
+          auctionId: lot.auctionId,
+          ...(highestBid ? { winningBidId: highestBid.tweetId } : {})
+        });
+        queued++;
+
+        const settlement = await this.redis.getSettlement(marathonId, lot.lotOrder);
+        if (settlement) {
+          await this.enqueue(settlementJob(settlement));
+          queued++;
+        }
+      }
+    }
+
+    logger.info('Queued re-sync from Redis', { marathonId, lots: lots.length, jobs: queued });
+    return queued;
+  }
+
+  private async getLots(marathonId: string): Promise<Array<{ auctionId: string; lotOrder: number; ended: boolean }>> {
+    const session = await this.redis.getSessionState(marathonId);
+    if (session) {
+      const lots = [];
+      for (const lotId of session.lotIds) {
+        const lot = await this.redis.getLotState(lotId);
+        if (lot) {
+          lots.push({ auctionId: lot.id, lotOrder: lot.lotOrder, ended: lot.status === 'ENDED' });
+        }
+      }
+      return lots;
+    }
+
+    const current = await this.redis.getCurrentAuction(marathonId);
+    return current
+      ? [{ auctionId: current.id, lotOrder: current.lotOrder, ended: current.status === 'ENDED' }]
+      : [];
+  }
+
+  private schedule(delayMs: number): void {
+    this.stop();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.drain();
+    }, delayMs);
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      for (;;) {
+        const raw = await this.redis.claimPersistenceJob();
+        if (!raw) {
+          break;
+        }
+
+        const outcome = await this.process(raw);
+        if (outcome === 'RETRY') {
+          await this.redis.retryPersistenceJob(raw);
+          this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS);
+          this.schedule(this.backoffMs);
+          return;
+        }
+
+        if (outcome === 'FAILED') {
+          await this.redis.failPersistenceJob(raw);
+        } else {
+          await this.redis.completePersistenceJob(raw);
+        }
+
+        if (this.databaseDown) {
+          await this.onDatabaseRestored();
+        }
+      }
+    } catch (error) {
+      logger.error('Persistence worker failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    this.backoffMs = POLL_INTERVAL_MS;
+    this.schedule(POLL_INTERVAL_MS);
+  }
+
+  private async onDatabaseRestored(): Promise<void> {
+    this.databaseDown = false;
+    this.backoffMs = POLL_INTERVAL_MS;
+    logger.info('Database reachable again, re-syncing auctions from Redis', {
+      marathons: [...this.resyncTargets]
+    });
+
+    for (const marathonId of this.resyncTargets) {
+      await this.resync(marathonId);
+    }
+  }
+
+  /**
+   * Write one job. Connection problems are retried; anything else (missing
+   * lot, bad data, a query the client won't build) is parked on the failed list.
+   */
+  private async process(raw: string): Promise<'DONE' | 'RETRY' | 'FAILED'> {
+    let job: PersistenceJob;
+    try {
+      job = JSON.parse(raw);
+    } catch {
+      logger.error('Dropping unreadable persistence job', { raw });
+      return 'FAILED';
+    }
+
+    try {
+      if (job.type === 'BID') {
+        await this.writeBid(job);
+      } else if (job.type === 'LOT_RESULT') {
+        await this.writeLotResult(job);
+      } else {
+        await this.writeSettlement(job);
+      }
+      return 'DONE';
+    } catch (error) {
+      const code = (error as { code?: string } | null)?.code;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Retrying a job that fails for any other reason would hold up every job behind it
+      if (!isConnectionError(error)) {
+        logger.error('Database rejected persistence job', { code, message, type: job.type, auctionId: job.auctionId });
+        return 'FAILED';
+      }
+
+      if (!this.databaseDown) {
+        logger.error('Database unavailable, holding persistence jobs in Redis', { code, message });
+      }
+      this.databaseDown = true;
+      return 'RETRY';
+    }
+  }
+
+  private async writeBid(job: Extract<PersistenceJob, { type: 'BID' }>): Promise<void> {
+    const { bid } = job;
+
+    const user = await prisma.user.upsert({
+      where: { twitterId: bid.userId },
+      update: {},
+      create: { twitterId: bid.userId }
+    });
+
+    const tweet = await prisma.tweet.findUnique({ where: { tweetId: bid.tweetId } });
+
+    const data = {
+      amount: bid.amount.toString(),
+      currency: bid.currency || 'ETH',
+      rejectionReason: job.rejectionReason ?? null,
+      walletLinked: bid.walletLinked ?? false,
+      createdAt: new Date(bid.timestamp),
+      userId: user.id,
+      auctionId: job.auctionId,
+      tweetId: tweet?.id ?? null
+    };
+
+    // Status and source are only set on create: a replay from `resync` must
+    // not downgrade a winning bid or relabel where it came from
+    await prisma.bid.upsert({
+      where: { externalId: bid.tweetId },
+      update: data,
+      create: { ...data, status: job.status, source: job.source, externalId: bid.tweetId }
+    });
+  }
+
+  private async writeLotResult(job: Extract<PersistenceJob, { type: 'LOT_RESULT' }>): Promise<void> {
+    const winningBid = job.winningBidId
+      ? await prisma.bid.findUnique({ where: { externalId: job.winningBidId } })
+      : null;
+
+    // Only moves a lot that settlement hasn't touched yet, so a replay can't
+    // undo a runner-up offer or a finished sale
+    await prisma.$transaction([
+      ...(winningBid
+        ? [prisma.bid.updateMany({ where: { id: winningBid.id, status: 'ACCEPTED' }, data: { status: 'WINNING' } })]
+        : []),
+      prisma.auction.updateMany({
+        where: { id: job.auctionId, settlementStatus: null, status: { in: ['SCHEDULED', 'ACTIVE', 'ENDED'] } },
+        data: {
+          status: 'ENDED',
+          winningBidId: winningBid?.id ?? null
+        }
+      })
+    ]);
+  }
+
+  private async writeSettlement(job: Extract<PersistenceJob, { type: 'SETTLEMENT' }>): Promise<void> {
+    const bids = await prisma.bid.findMany({
+      where: { externalId: { in: job.bids.map(bid => bid.bidId) } }
+    });
+    const bidIds = new Map<string, string>(bids.map((bid: { id: string; externalId: string }) => [bid.externalId, bid.id]));
+
+    const winningBidId = job.winningBidId ? bidIds.get(job.winningBidId) ?? null : null;
+
+    await prisma.$transaction([
+      ...job.bids.flatMap(bid => {
+        const id = bidIds.get(bid.bidId);
+        return id
+          ? [prisma.bid.update({
+              where: { id },
+              data: {
+                status: bid.status,
+                ...(bid.status === 'PAID' && job.transactionHash ? { transactionHash: job.transactionHash } : {})
+              }
+            })]
+          : [];
+      }),
+      prisma.auction.update({
+        where: { id: job.auctionId },
+        data: {
+          status: job.settlementStatus === 'SETTLED' ? 'SETTLED' : 'ENDED',
+          settlementStatus: job.settlementStatus,
+          paymentDeadline: job.paymentDeadline ? new Date(job.paymentDeadline) : null,
+          transferTransactionHash: job.transferTransactionHash ?? null,
+          winningBidId
+        }
+      })
+    ]);
+  }
+}
+
+// Export a singleton instance
+export const bidPersistence = new BidPersistence();
@@ -0,0 +1,202 @@
+import type { AuctionState } from '@sothebais/packages/schema/redis/models';
+import type { BidIncrementTier, BidIncrementType, BidRejectionReason, MarathonConfig } from '@sothebais/packages/types/auction';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+
+/**
+ * Bid Rules Engine
+ *
+ * Runs a bid through an ordered list of rules. The first rule that objects
+ * decides the rejection, so bidders always get the most basic problem first
+ * (e.g. "below the minimum bid" before "increment too small").
+ *
+ * Lot-level settings on the auction state (`reservePrice`, `minBidIncrement`)
+ * take precedence over the marathon-wide config.
+ */
+
+/**
+ * Everything a rule needs to judge a bid
+ */
+export interface BidRuleContext {
+  bid: TwitterBid;
+  config: MarathonConfig;
+  state: AuctionState;
+  highestBid: TwitterBid | null;
+}
+
+export interface BidRuleViolation {
+  reason: BidRejectionReason;
+  message: string;
+  minimumAmount?: number; // Lowest amount that would have passed this rule
+}
+
+export interface BidRule {
+  name: string;
+  check(context: BidRuleContext): BidRuleViolation | null;
+}
+
+export type BidEvaluation =
+  | { ok: true }
+  | ({ ok: false } & BidRuleViolation);
+
+// Amounts are compared with a little slack so 0.1 + 0.2 still meets a 0.3 minimum
+const EPSILON = 1e-12;
+
+// Sums like 1.5 + 0.1 shouldn't show their floating point noise
+export function formatAmount(amount: number): string {
+  return String(Number(amount.toFixed(8)));
+}
+
+function parseDecimal(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function applyIncrement(current: number, increment: number, type: BidIncrementType = 'FIXED'): number {
+  return type === 'PERCENTAGE' ? current * (increment / 100) : increment;
+}
+
+function selectTier(tiers: BidIncrementTier[], current: number): BidIncrementTier | null {
+  let selected: BidIncrementTier | null = null;
+  for (const tier of tiers) {
+    if (tier.from <= current && (!selected || tier.from > selected.from)) {
+      selected = tier;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Smallest raise allowed over the current highest bid
+ */
+export function getRequiredIncrement(config: MarathonConfig, state: AuctionState, current: number): number {
+  const tier = config.bidIncrementTiers?.length ? selectTier(config.bidIncrementTiers, current) : null;
+  const increment = tier
+    ? applyIncrement(current, tier.increment, tier.type)
+    : applyIncrement(current, config.bidIncrement || 0, config.bidIncrementType);
+
+  // The lot can ask for more than the marathon default, never less
+  const lotMinimum = parseDecimal(state.minBidIncrement) ?? 0;
+  return Math.max(increment, lotMinimum);
+}
+
+/**
+ * Lowest amount the next bid must reach
+ */
+export function getMinimumNextBid(config: MarathonConfig, state: AuctionState, highestBid: TwitterBid | null): number {
+  if (!highestBid) {
+    return config.minBid || 0;
+  }
+  return highestBid.amount + getRequiredIncrement(config, state, highestBid.amount);
+}
+
+export const currencyRule: BidRule = {
+  name: 'currency',
+  check: ({ bid, state }) => {
+    if (bid.currency && bid.currency.toUpperCase() !== state.currency.toUpperCase()) {
+      return {
+        reason: 'CURRENCY_MISMATCH',
+        message: `Bids for this lot must be in ${state.currency}`
+      };
+    }
+    return null;
+  }
+};
+
+export const minBidRule: BidRule = {
+  name: 'min-bid',
+  check: ({ bid, config, highestBid }) => {
+    const minBid = config.minBid || 0;
+    if (!highestBid && bid.amount + EPSILON < minBid) {
+      return {
+        reason: 'BELOW_MIN_BID',
+        message: `Opening bid must be at least ${formatAmount(minBid)}`,
+        minimumAmount: minBid
+      };
+    }
+    return null;
+  }
+};
+
+export const reservePriceRule: BidRule = {
+  name: 'reserve-price',
+  check: ({ bid, state }) => {
+    const reservePrice = parseDecimal(state.reservePrice);
+    if (reservePrice !== null && bid.amount + EPSILON < reservePrice) {
+      return {
+        reason: 'BELOW_RESERVE',
+        message: `Bid does not meet the reserve price of ${formatAmount(reservePrice)}`,
+        minimumAmount: reservePrice
+      };
+    }
+    return null;
+  }
+};
+
+export const selfOutbidRule: BidRule = {
+  name: 'self-outbid',
+  check: ({ bid, config, highestBid }) => {
+    if (highestBid && highestBid.userId === bid.userId && !config.allowSelfOutbid) {
+      return {
+        reason: 'SELF_OUTBID',
+        message: 'You already hold the highest bid'
+      };
+    }
+    return null;
+  }
+};
+
+export const incrementRule: BidRule = {
+  name: 'increment',
+  check: ({ bid, config, state, highestBid }) => {
+    if (!highestBid) {
+      return null;
+    }
+
+    const minimumAmount = getMinimumNextBid(config, state, highestBid);
+    // A zero increment still has to beat the current bid
+    if (bid.amount <= highestBid.amount || bid.amount + EPSILON < minimumAmount) {
+      return {
+        reason: 'INCREMENT_TOO_SMALL',
+        message: `Bid must be at least ${formatAmount(minimumAmount)}`,
+        minimumAmount
+      };
+    }
+    return null;
+  }
+};
+
+export const DEFAULT_BID_RULES: BidRule[] = [
+  currencyRule,
+  minBidRule,
+  reservePriceRule,
+  selfOutbidRule,
+  incrementRule
+];
+
+export class BidRulesEngine {
+  private rules: BidRule[];
+
+  constructor(rules: BidRule[] = DEFAULT_BID_RULES) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Add a rule to run after the existing ones
+   */
+  use(rule: BidRule): this {
+    this.rules.push(rule);
+    return this;
+  }
+
+  evaluate(context: BidRuleContext): BidEvaluation {
+    for (const rule of this.rules) {
+      const violation = rule.check(context);
+      if (violation) {
+        return { ok: false, ...violation };
+      }
+    }
+
+    return { ok: true };
+  }
+}
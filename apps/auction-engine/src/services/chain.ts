@@ -0,0 +1,129 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+
+export interface PaymentRequest {
+  auctionId: string;
+  bidId: string; // Tweet ID of the bid being paid for
+  userId: string;
+  amount: string; // Decimal string
+  currency: string;
+  expiresAt: Date;
+}
+
+export type PaymentStatus =
+  | { status: 'PENDING' }
+  | { status: 'PAID'; transactionHash: string }
+  | { status: 'FAILED'; reason: string };
+
+export interface ItemTransfer {
+  auctionId: string;
+  artItemId: string;
+  userId: string;
+  walletAddress: string; // The winner's linked wallet
+}
+
+/**
+ * Chain Adapter
+ *
+ * Everything settlement needs from the blockchain: ask a bidder to pay, check
+ * whether they have, and hand the item over once they did.
+ */
+export interface ChainAdapter {
+  requestPayment(request: PaymentRequest): Promise<{ paymentId: string }>;
+  getPaymentStatus(paymentId: string): Promise<PaymentStatus>;
+  transferItem(transfer: ItemTransfer): Promise<{ transactionHash: string }>;
+}
+
+interface MockPayment {
+  request: PaymentRequest;
+  status: PaymentStatus;
+}
+
+function mockTransactionHash(): string {
+  return `0x${randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Mock Chain Adapter
+ *
+ * Keeps payments in memory for local development and tests. Payments stay
+ * pending until `markPaid` is called (see POST /api/auction/settlement/mock,
+ * registered with ENABLE_DEBUG_ENDPOINTS=true outside production), or, when
+ * `autoPayAfterMs` is set, until that much time has passed.
+ */
+export class MockChainAdapter implements ChainAdapter {
+  private payments = new Map<string, MockPayment>();
+  private createdAt = new Map<string, number>();
+
+  constructor(private autoPayAfterMs: number | null = null) {}
+
+  async requestPayment(request: PaymentRequest): Promise<{ paymentId: string }> {
+    const paymentId = randomUUID();
+    this.payments.set(paymentId, { request, status: { status: 'PENDING' } });
+    this.createdAt.set(paymentId, Date.now());
+
+    logger.info('Mock payment requested', {
+      paymentId,
+      auctionId: request.auctionId,
+      userId: request.userId,
+      amount: request.amount,
+      currency: request.currency
+    });
+
+    return { paymentId };
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      // Forgotten across a restart; treat it as unpaid so the deadline decides
+      return { status: 'PENDING' };
+    }
+
+    const createdAt = this.createdAt.get(paymentId) ?? Date.now();
+    if (
+      payment.status.status === 'PENDING' &&
+      this.autoPayAfterMs !== null &&
+      Date.now() - createdAt >= this.autoPayAfterMs
+    ) {
+      this.markPaid(paymentId);
+    }
+
+    return this.payments.get(paymentId)!.status;
+  }
+
+  async transferItem(transfer: ItemTransfer): Promise<{ transactionHash: string }> {
+    const transactionHash = mockTransactionHash();
+    logger.info('Mock item transfer', { ...transfer, transactionHash });
+    return { transactionHash };
+  }
+
+  /**
+   * Settle a pending payment. Returns false for unknown or already settled payments.
+   */
+  markPaid(paymentId: string, transactionHash: string = mockTransactionHash()): boolean {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status.status !== 'PENDING') {
+      return false;
+    }
+    payment.status = { status: 'PAID', transactionHash };
+    return true;
+  }
+
+  markFailed(paymentId: string, reason: string): boolean {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status.status !== 'PENDING') {
+      return false;
+    }
+    payment.status = { status: 'FAILED', reason };
+    return true;
+  }
+}
+
+const autoPaySeconds = Number(process.env['MOCK_CHAIN_AUTO_PAY_SECONDS']);
+
+// Export a singleton instance
+export const mockChainAdapter = new MockChainAdapter(
+  Number.isFinite(autoPaySeconds) && autoPaySeconds > 0 ? autoPaySeconds * 1000 : null
+);
+export const chainAdapter: ChainAdapter = mockChainAdapter;
@@ -0,0 +1,74 @@
+import { EventClient } from '@sothebais/packages/utils/events';
+import type { Event, EventTypeKey } from '@sothebais/packages/types/events';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Auction Event Publisher
+ *
+ * Wraps the shared EventClient for the auction engine. The client connects on
+ * first publish, and a failed publish is logged rather than thrown so that an
+ * event bus outage never blocks bid processing.
+ *
+ * Events go out in streams mode, so bid and lot events wait in Redis for
+ * consumers that are restarting instead of being dropped.
+ */
+export class AuctionEventPublisher {
+  private client: EventClient;
+  private connecting: Promise<void> | null = null;
+
+  constructor(redisUrl: string) {
+    this.client = new EventClient({
+      redisUrl,
+      serviceName: 'AUCTION_ENGINE',
+      mode: 'streams'
+    });
+  }
+
+  private async ensureConnected(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.client.connect().catch((error) => {
+        // Allow the next publish to retry the connection
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Publish an event, returning its ID or null if publishing failed
+   */
+  async publish<T extends Event>(eventType: EventTypeKey, data: T['data']): Promise<string | null> {
+    try {
+      await this.ensureConnected();
+      return await this.client.publish<T>(eventType, data);
+    } catch (error) {
+      logger.error('Failed to publish auction event', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventType
+      });
+      return null;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connecting) {
+      await this.client.disconnect();
+      this.connecting = null;
+    }
+  }
+}
+
+function getRedisUrl(): string {
+  if (process.env['REDIS_URL']) {
+    return process.env['REDIS_URL'];
+  }
+
+  const password = process.env['REDIS_PASSWORD'] || 'default_password';
+  const host = process.env['REDIS_HOST'] || 'redis';
+  const port = process.env['REDIS_PORT'] || '6379';
+  return `redis://:${password}@${host}:${port}`;
+}
+
+// Export a singleton instance
+export const auctionEvents = new AuctionEventPublisher(getRedisUrl());
@@ -0,0 +1,235 @@
+import { randomBytes } from 'crypto';
+import { prisma } from './prisma.js';
+import { RedisService } from './redis.js';
+import { walletSignatureVerifier } from './wallet-signer.js';
+import type { WalletSignatureVerifier } from './wallet-signer.js';
+import type { WalletChallenge } from '@sothebais/packages/schema/redis/models';
+import type { TwitterUserProfile } from '@sothebais/packages/types/twitter';
+import { logger } from '../utils/logger.js';
+
+// How long a bidder has to sign the challenge
+const CHALLENGE_TTL_SECONDS = 15 * 60;
+const CACHE_TTL_MS = 60 * 1000;
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * The platform user behind a Twitter account
+ */
+export interface LinkedIdentity {
+  userId: string;
+  twitterId: string;
+  walletAddress: string | null;
+}
+
+export type WalletCommand =
+  | { type: 'LINK'; address: string }
+  | { type: 'VERIFY'; signature: string };
+
+export type WalletLinkResult =
+  | { linked: true; address: string }
+  | { linked: false; reason: 'NO_CHALLENGE' | 'BAD_SIGNATURE' | 'WALLET_IN_USE' };
+
+/**
+ * Read a wallet command from a tweet or DM:
+ *   link wallet 0xADDRESS
+ *   verify 0xSIGNATURE
+ * Mentions around the command are ignored.
+ */
+export function parseWalletCommand(text: string): WalletCommand | null {
+  const link = /\blink\s+wallet\s+(0x[0-9a-f]+)\b/i.exec(text);
+  if (link?.[1]) {
+    return { type: 'LINK', address: link[1] };
+  }
+  const verify = /\bverify\s+(0x[0-9a-f]+)\b/i.exec(text);
+  if (verify?.[1]) {
+    return { type: 'VERIFY', signature: verify[1] };
+  }
+  return null;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * Reply texts for wallet commands
+ */
+export const walletReplies = {
+  invalidAddress: (): string => `That doesn't look like a wallet address. Reply "link wallet 0x…" with a 40 digit hex address.`,
+  challenge: (challenge: WalletChallenge): string =>
+    `Sign this message with ${shortAddress(challenge.address)} and reply "verify <signature>" within 15 minutes: ${challenge.message}`,
+  linked: (address: string): string => `Wallet ${shortAddress(address)} is now linked to your account.`,
+  noChallenge: (): string => `No wallet link in progress. Reply "link wallet 0x…" to start one.`,
+  badSignature: (): string => `That signature doesn't match the wallet. Sign the exact message from the challenge and try again.`,
+  walletInUse: (): string => `That wallet is already linked to another account.`
+};
+
+/**
+ * Identity Service
+ *
+ * Ties Twitter accounts to User rows. Tweet authors are created or updated
+ * from their profile as their tweets come in, and tweets are linked to the
+ * user. A bidder links a wallet in two steps: "link wallet 0x…" gets a
+ * challenge message back, and "verify 0x…" with the wallet's signature of it
+ * sets User.walletAddress. Settlement needs that address to hand lots over, so
+ * bids from accounts without one are flagged.
+ */
+export class IdentityService {
+  private cache = new Map<string, { identity: LinkedIdentity; expiresAt: number }>();
+
+  constructor(
+    private redis: RedisService = new RedisService(),
+    private verifier: WalletSignatureVerifier = walletSignatureVerifier
+  ) {}
+
+  /**
+   * Create or update the user behind a tweet author. Profile details are only
+   * written when the tweet came with them (the author_id expansion).
+   */
+  async syncAuthor(twitterId: string, profile?: TwitterUserProfile): Promise<LinkedIdentity> {
+    const cached = this.cache.get(twitterId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.identity;
+    }
+
+    const details = profile
+      ? {
+          twitterHandle: profile.username,
+          name: profile.name,
+          ...(profile.profileImageUrl ? { avatarUrl: profile.profileImageUrl } : {})
+        }
+      : {};
+
+    if (profile) {
+      // Handles get reused after renames; the latest owner keeps it
+      await prisma.user.updateMany({
+        where: { twitterHandle: profile.username, NOT: { twitterId } },
+        data: { twitterHandle: null }
+      });
+    }
+
+    const user = await prisma.user.upsert({
+      where: { twitterId },
+      update: details,
+      create: { twitterId, ...details },
+      select: { id: true, walletAddress: true }
+    });
+
+    return this.remember({ userId: user.id, twitterId, walletAddress: user.walletAddress });
+  }
+
+  /**
+   * Point a stored tweet at the user who wrote it
+   */
+  async linkTweet(tweetId: string, userId: string): Promise<void> {
+    await prisma.tweet.updateMany({ where: { tweetId, userId: null }, data: { userId } });
+  }
+
+  async getIdentity(twitterId: string): Promise<LinkedIdentity | null> {
+    const user = await prisma.user.findUnique({
+      where: { twitterId },
+      select: { id: true, walletAddress: true }
+    });
+    return user ? { userId: user.id, twitterId, walletAddress: user.walletAddress } : null;
+  }
+
+  async getTwitterHandle(twitterId: string): Promise<string | null> {
+    const user = await prisma.user.findUnique({ where: { twitterId }, select: { twitterHandle: true } });
+    return user?.twitterHandle ?? null;
+  }
+
+  async getWalletAddress(twitterId: string): Promise<string | null> {
+    return (await this.getIdentity(twitterId))?.walletAddress ?? null;
+  }
+
+  /**
+   * Run a wallet command from a Twitter user. Returns the reply to send, or
+   * null if the text isn't a wallet command.
+   */
+  async handleCommand(twitterId: string, text: string): Promise<string | null> {
+    const command = parseWalletCommand(text);
+    if (!command) {
+      return null;
+    }
+
+    if (command.type === 'LINK') {
+      if (!ADDRESS_PATTERN.test(command.address)) {
+        return walletReplies.invalidAddress();
+      }
+      return walletReplies.challenge(await this.requestLink(twitterId, command.address));
+    }
+
+    const result = await this.verifyLink(twitterId, command.signature);
+    if (result.linked) {
+      return walletReplies.linked(result.address);
+    }
+    switch (result.reason) {
+      case 'NO_CHALLENGE':
+        return walletReplies.noChallenge();
+      case 'BAD_SIGNATURE':
+        return walletReplies.badSignature();
+      case 'WALLET_IN_USE':
+        return walletReplies.walletInUse();
+    }
+  }
+
+  /**
+   * Start linking a wallet. Replaces any challenge the user already had open.
+   */
+  async requestLink(twitterId: string, address: string): Promise<WalletChallenge> {
+    const nonce = randomBytes(8).toString('hex');
+    const challenge: WalletChallenge = {
+      twitterId,
+      address,
+      message: `Link ${address} to Twitter account ${twitterId}, nonce ${nonce}`,
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_SECONDS * 1000).toISOString()
+    };
+    await this.redis.setWalletChallenge(challenge, CHALLENGE_TTL_SECONDS);
+
+    logger.info('Wallet link requested', { twitterId, address });
+    return challenge;
+  }
+
+  /**
+   * Finish linking a wallet with the signature of the open challenge
+   */
+  async verifyLink(twitterId: string, signature: string): Promise<WalletLinkResult> {
+    const challenge = await this.redis.getWalletChallenge(twitterId);
+    if (!challenge) {
+      return { linked: false, reason: 'NO_CHALLENGE' };
+    }
+
+    if (!(await this.verifier.verify(challenge.address, challenge.message, signature))) {
+      logger.info('Wallet link signature rejected', { twitterId, address: challenge.address });
+      return { linked: false, reason: 'BAD_SIGNATURE' };
+    }
+
+    // Addresses are stored lowercase so the unique index catches every spelling
+    const address = challenge.address.toLowerCase();
+    const owner = await prisma.user.findUnique({ where: { walletAddress: address }, select: { twitterId: true } });
+    if (owner && owner.twitterId !== twitterId) {
+      return { linked: false, reason: 'WALLET_IN_USE' };
+    }
+
+    const user = await prisma.user.upsert({
+      where: { twitterId },
+      update: { walletAddress: address },
+      create: { twitterId, walletAddress: address },
+      select: { id: true }
+    });
+    await this.redis.deleteWalletChallenge(twitterId);
+    this.remember({ userId: user.id, twitterId, walletAddress: address });
+
+    logger.info('Wallet linked', { twitterId, address });
+    return { linked: true, address };
+  }
+
+  private remember(identity: LinkedIdentity): LinkedIdentity {
+    this.cache.set(identity.twitterId, { identity, expiresAt: Date.now() + CACHE_TTL_MS });
+    return identity;
+  }
+}
+
+// Export a singleton instance
+export const identityService = new IdentityService();
@@ -0,0 +1,154 @@
+import { auctionManager } from './auction-manager.js';
+import type { AuctionManager } from './auction-manager.js';
+import { logger } from '../utils/logger.js';
+
+// setTimeout can't wait longer than ~24.8 days, and a shorter cap means a
+// drifting clock or an extended end time gets picked up within the hour.
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Lot Scheduler
+ *
+ * Moves each lot of the active marathon SCHEDULED → ACTIVE → ENDED at the
+ * times stored on the auction state. The state in Redis is the only schedule,
+ * so after a restart `recover()` re-arms the timer from wherever the marathon
+ * left off, and a lot whose time passed while we were down is caught up
+ * immediately.
+ */
+export class LotScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private marathonId: string | null = null;
+  private running = false;
+
+  constructor(private manager: AuctionManager) {}
+
+  /**
+   * Resume the active marathon after a restart
+   */
+  async recover(): Promise<void> {
+    const marathonId = await this.manager.getActiveMarathonId();
+    if (!marathonId) {
+      logger.info('No active marathon to schedule');
+      return;
+    }
+
+    logger.info('Recovering lot schedule', { marathonId });
+    await this.schedule(marathonId);
+  }
+
+  /**
+   * Start (or restart) scheduling lots for a marathon
+   */
+  async schedule(marathonId: string): Promise<void> {
+    this.clearTimer();
+    this.marathonId = marathonId;
+    await this.tick();
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.marathonId = null;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private arm(dueAt: number): void {
+    this.clearTimer();
+    const delay = Math.min(Math.max(dueAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delay);
+  }
+
+  /**
+   * Apply any transition that is due, then arm the timer for the next one
+   */
+  private async tick(): Promise<void> {
+    const marathonId = this.marathonId;
+    if (!marathonId || this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const nextDueAt = await this.advance(marathonId);
+
+      // The marathon may have been rescheduled or stopped while we were busy
+      if (this.marathonId !== marathonId) {
+        return;
+      }
+
+      if (nextDueAt === null) {
+        logger.info('Lot schedule finished', { marathonId });
+        this.marathonId = null;
+        return;
+      }
+
+      this.arm(nextDueAt);
+    } catch (error) {
+      logger.error('Lot scheduler tick failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        marathonId
+      });
+      // Try again shortly rather than leaving the lot stuck
+      this.arm(Date.now() + 30 * 1000);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Run every transition that is already due and return when the next one is,
+   * or null when the marathon has nothing left to schedule.
+   */
+  private async advance(marathonId: string): Promise<number | null> {
+    for (;;) {
+      const state = await this.manager.getCurrentAuction(marathonId);
+      if (!state) {
+        return null;
+      }
+
+      const now = Date.now();
+
+      if (state.status === 'SCHEDULED') {
+        const startAt = new Date(state.startTime).getTime();
+        if (startAt > now) {
+          return startAt;
+        }
+
+        logger.info('Opening scheduled lot', { marathonId, lotOrder: state.lotOrder });
+        await this.manager.startDailyAuction(marathonId);
+        continue;
+      }
+
+      if (state.status === 'ACTIVE') {
+        // Soft close may have pushed the end out since we last looked
+        const endAt = new Date(state.extendedEndTime || state.endTime).getTime();
+        if (endAt > now) {
+          return endAt;
+        }
+
+        logger.info('Closing lot', { marathonId, lotOrder: state.lotOrder });
+        await this.manager.endDailyAuction(marathonId);
+
+        // Ending the last lot clears the active marathon
+        if (!(await this.manager.getActiveMarathonId())) {
+          return null;
+        }
+        continue;
+      }
+
+      // ENDED, SETTLED or CANCELLED with no next lot queued up
+      return null;
+    }
+  }
+}
+
+// Export a singleton instance
+export const lotScheduler = new LotScheduler(auctionManager);
@@ -0,0 +1,4 @@
+import { PrismaClient } from '@prisma/client';
+
+// Shared database client for the auction engine services
+export const prisma = new PrismaClient();
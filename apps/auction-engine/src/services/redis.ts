@@ -4,13 +4,20 @@ import * as IoRedis from 'ioredis';
 const Redis = IoRedis.default || IoRedis;
 
 import { EventEmitter } from 'events';
-import type { AuctionState } from '@sothebais/packages/schema/redis/models';
-import type { MarathonConfig, AuctionStatus } from '@sothebais/packages/types/auction';
-import type { TwitterBid } from '@sothebais/packages/types/twitter';
+import type {
+  AnnouncementRecord,
+  AuctionSessionState,
+  AuctionState,
+  SettlementState,
+  WalletChallenge
+} from '@sothebais/packages/schema/redis/models';
+import { auctionKey } from '@sothebais/packages/schema/redis/keys';
+import type { MarathonConfig, AuctionStatus, LotArtwork } from '@sothebais/packages/types/auction';
+import type { AnnouncementKind, ModerationList, TwitterBid } from '@sothebais/packages/types/twitter';
 
 // Interface to extend AuctionState with the properties we need
 interface ExtendedAuctionState extends Omit<AuctionState, 'id'> {
-  id: string; // This is the marathonId
+  id: string; // Lot ID for session lots, otherwise the marathonId
   marathonId: string;
   dayNumber: number;
   sessionId: string;
@@ -21,27 +28,110 @@ interface ExtendedAuctionState extends Omit<AuctionState, 'id'> {
   currency: string;
   lotOrder: number;
   highestBidId?: string;
+  extensionCount?: number; // Soft close extensions applied so far
+  artItem?: LotArtwork;
 }
 
+// A lot loaded from the database, kept with its artwork for the stream
+interface SessionLotState extends AuctionState {
+  artItem?: LotArtwork;
+}
+
+// A bid in a user's history, with the lot it was placed on
+interface UserBidRecord extends TwitterBid {
+  marathonId: string;
+  auctionId: string;
+  lotOrder: number;
+}
+
+export type { ExtendedAuctionState, SessionLotState, UserBidRecord };
+
+// Overrides for the REDIS_* environment settings
+export interface RedisConnectionOptions {
+  host: string;
+  port: number;
+  password?: string;
+  db?: number;
+}
+
+/**
+ * Outcome of the atomic bid acceptance script
+ * - ACCEPTED: bid stored and the lot state updated
+ * - CONFLICT: the highest bid or lot changed since the caller read them
+ * - NOT_ACTIVE / NO_AUCTION: the lot closed or disappeared in the meantime
+ */
+export type AcceptBidOutcome = 'ACCEPTED' | 'CONFLICT' | 'NOT_ACTIVE' | 'NO_AUCTION';
+
+// Accepts a bid only if the lot is still active and its highest bid is still
+// the one the caller validated against, then stores the bid (scored by amount),
+// adds it to the bidder's history and updates the lot state, all in one step.
+//
+// KEYS[1] current auction state, KEYS[2] lot bid set, KEYS[3] user bid history
+// ARGV[1] bid JSON, ARGV[2] bid amount, ARGV[3] expected highest amount ('' for no bids),
+// ARGV[4] lot order, ARGV[5] bid ID, ARGV[6] new extendedEndTime ('' for none),
+// ARGV[7] new extensionCount, ARGV[8] user history entry JSON, ARGV[9] bid time in ms
+const ACCEPT_BID_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then
+  return 'NO_AUCTION'
+end
+
+local state = cjson.decode(raw)
+if state.status ~= 'ACTIVE' then
+  return 'NOT_ACTIVE'
+end
+if tostring(state.lotOrder) ~= ARGV[4] then
+  return 'CONFLICT'
+end
+
+local top = redis.call('ZREVRANGE', KEYS[2], 0, 0, 'WITHSCORES')
+if ARGV[3] == '' then
+  if #top > 0 then
+    return 'CONFLICT'
+  end
+elseif #top == 0 or tonumber(top[2]) ~= tonumber(ARGV[3]) then
+  return 'CONFLICT'
+end
+
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+redis.call('ZADD', KEYS[3], ARGV[9], ARGV[8])
+state.highestBidId = ARGV[5]
+if ARGV[6] ~= '' then
+  state.extendedEndTime = ARGV[6]
+  state.extensionCount = tonumber(ARGV[7])
+end
+redis.call('SET', KEYS[1], cjson.encode(state))
+return 'ACCEPTED'
+`;
+
+// Bump when the snapshot layout changes
+export const SNAPSHOT_VERSION = 1;
+
 export class RedisService {
   private client: any; // Using any to avoid type issues
 
-  constructor() {
+  constructor(options?: RedisConnectionOptions) {
     const redisPassword = process.env['REDIS_PASSWORD'] || 'default_password';
     const redisHost = process.env['REDIS_HOST'] || 'redis';
     const redisPort = process.env['REDIS_PORT'] || '6379';
     
     // @ts-ignore - Ignore type error for Redis construction
     this.client = new Redis({
-      host: redisHost,
-      port: parseInt(redisPort),
-      password: redisPassword,
+      host: options?.host ?? redisHost,
+      port: options?.port ?? parseInt(redisPort),
+      password: options ? options.password : redisPassword,
+      db: options?.db ?? 0,
       retryStrategy: (times: number) => {
         const delay = Math.min(times * 50, 2000);
         return delay;
       }
     });
 
+    this.client.defineCommand('acceptBid', {
+      numberOfKeys: 3,
+      lua: ACCEPT_BID_SCRIPT
+    });
+
     // Log connection events
     this.client.on('connect', () => {
       console.log('Connected to Redis');
@@ -119,6 +209,69 @@ export class RedisService {
     return config ? JSON.parse(config) : null;
   }
 
+  // Bid settings a session was started with, used for its lots in place of the marathon config
+  async setSessionConfig(sessionId: string, config: MarathonConfig): Promise<void> {
+    await this.client.set(`auction:session:${sessionId}:config`, JSON.stringify(config));
+  }
+
+  async getSessionConfig(sessionId: string): Promise<MarathonConfig | null> {
+    const config = await this.client.get(`auction:session:${sessionId}:config`);
+    return config ? JSON.parse(config) : null;
+  }
+
+  /**
+   * The config for the lots of a marathon or session: the session's own
+   * settings if it was started with any, otherwise the marathon config
+   */
+  async getAuctionConfig(marathonId: string): Promise<MarathonConfig | null> {
+    return (await this.getSessionConfig(marathonId)) ?? this.getMarathonConfig();
+  }
+
+  // Active Marathon
+  async setActiveMarathonId(marathonId: string): Promise<void> {
+    await this.client.set('auction:marathon:active', marathonId);
+  }
+
+  async getActiveMarathonId(): Promise<string | null> {
+    return this.client.get('auction:marathon:active');
+  }
+
+  async clearActiveMarathonId(): Promise<void> {
+    await this.client.del('auction:marathon:active');
+  }
+
+  // Auction Sessions
+  async setSessionState(session: AuctionSessionState): Promise<void> {
+    await this.client.set(`auction:session:${session.id}`, JSON.stringify(session));
+  }
+
+  async getSessionState(sessionId: string): Promise<AuctionSessionState | null> {
+    const session = await this.client.get(`auction:session:${sessionId}`);
+    return session ? JSON.parse(session) : null;
+  }
+
+  async setActiveSessionId(sessionId: string): Promise<void> {
+    await this.client.set('auction:session:active', sessionId);
+  }
+
+  async getActiveSessionId(): Promise<string | null> {
+    return this.client.get('auction:session:active');
+  }
+
+  async clearActiveSessionId(): Promise<void> {
+    await this.client.del('auction:session:active');
+  }
+
+  // Individual lots loaded from the database
+  async setLotState(lot: SessionLotState): Promise<void> {
+    await this.client.set(auctionKey(lot.id), JSON.stringify(lot));
+  }
+
+  async getLotState(lotId: string): Promise<SessionLotState | null> {
+    const lot = await this.client.get(auctionKey(lotId));
+    return lot ? JSON.parse(lot) : null;
+  }
+
   // Current Auction State
   async setCurrentAuction(state: ExtendedAuctionState): Promise<void> {
     await this.client.set(`auction:${state.marathonId}:current`, JSON.stringify(state));
@@ -130,9 +283,44 @@ export class RedisService {
   }
 
   // Bid Management
+  // Lot bid sets are scored by amount, so the last member is always the highest bid
+
+  /**
+   * Atomically accept a bid validated against `expectedHighestAmount` (null
+   * when the lot had no bids). `state` carries the highestBidId and any soft
+   * close extension to write alongside the bid.
+   */
+  async acceptBid(
+    marathonId: string,
+    state: ExtendedAuctionState,
+    bid: TwitterBid,
+    expectedHighestAmount: number | null
+  ): Promise<AcceptBidOutcome> {
+    // Checked here because the script can't undo the lot ZADD if the history ZADD fails
+    const bidTime = new Date(bid.timestamp).getTime();
+    if (!Number.isFinite(bid.amount) || !Number.isFinite(bidTime)) {
+      throw new Error(`Bid ${bid.tweetId} needs a finite amount and a valid timestamp`);
+    }
+
+    return this.client.acceptBid(
+      `auction:${marathonId}:current`,
+      `auction:${marathonId}:day:${state.lotOrder}:bids`,
+      `users:${bid.userId}:bids`,
+      JSON.stringify(bid),
+      bid.amount.toString(),
+      expectedHighestAmount === null ? '' : expectedHighestAmount.toString(),
+      state.lotOrder.toString(),
+      bid.tweetId,
+      state.extendedEndTime || '',
+      (state.extensionCount || 0).toString(),
+      JSON.stringify(this.toUserBidRecord(marathonId, state, bid)),
+      bidTime.toString()
+    );
+  }
+
   async addBid(marathonId: string, dayNumber: number, bid: TwitterBid): Promise<void> {
     const key = `auction:${marathonId}:day:${dayNumber}:bids`;
-    await this.client.zadd(key, bid.timestamp.getTime(), JSON.stringify(bid));
+    await this.client.zadd(key, bid.amount, JSON.stringify(bid));
   }
 
   async getHighestBid(marathonId: string, dayNumber: number): Promise<TwitterBid | null> {
@@ -147,40 +335,275 @@ export class RedisService {
     return bids.map((bid: string) => JSON.parse(bid));
   }
 
+  /**
+   * One page of a lot's bids, highest first
+   */
+  async getBidHistoryPage(
+    marathonId: string,
+    dayNumber: number,
+    offset: number,
+    limit: number
+  ): Promise<{ bids: TwitterBid[]; total: number }> {
+    const key = `auction:${marathonId}:day:${dayNumber}:bids`;
+    const [bids, total] = await Promise.all([
+      this.client.zrevrange(key, offset, offset + limit - 1),
+      this.client.zcard(key)
+    ]);
+    return { bids: bids.map((bid: string) => JSON.parse(bid)), total };
+  }
+
+  // Write-behind queue for the database. Jobs are claimed onto a processing
+  // list so a crash mid-write leaves them to be picked up again.
+  async enqueuePersistenceJob(job: string): Promise<void> {
+    await this.client.lpush('persistence:queue', job);
+  }
+
+  async claimPersistenceJob(): Promise<string | null> {
+    return this.client.rpoplpush('persistence:queue', 'persistence:processing');
+  }
+
+  async completePersistenceJob(job: string): Promise<void> {
+    await this.client.lrem('persistence:processing', 1, job);
+  }
+
+  async retryPersistenceJob(job: string): Promise<void> {
+    // Back on the consuming end so ordering is preserved
+    await this.client.multi()
+      .lrem('persistence:processing', 1, job)
+      .rpush('persistence:queue', job)
+      .exec();
+  }
+
+  async failPersistenceJob(job: string): Promise<void> {
+    await this.client.multi()
+      .lrem('persistence:processing', 1, job)
+      .lpush('persistence:failed', job)
+      .exec();
+  }
+
+  async restorePersistenceJobs(): Promise<number> {
+    // Newest claimed job first, each onto the consuming end, so the oldest ends up next in line
+    let restored = 0;
+    while (await this.client.lmove('persistence:processing', 'persistence:queue', 'LEFT', 'RIGHT')) {
+      restored++;
+    }
+    return restored;
+  }
+
+  async getPersistenceQueueDepth(): Promise<{ queued: number; failed: number }> {
+    const [queued, failed] = await Promise.all([
+      this.client.llen('persistence:queue'),
+      this.client.llen('persistence:failed')
+    ]);
+    return { queued, failed };
+  }
+
+  // Bid replies waiting for the Twitter rate limit. Each notification is
+  // claimed once so a reprocessed tweet doesn't get a second reply.
+  async claimNotification(key: string, ttlSeconds: number): Promise<boolean> {
+    return (await this.client.set(`twitter:notified:${key}`, '1', 'EX', ttlSeconds, 'NX')) === 'OK';
+  }
+
+  async enqueueReply(reply: string): Promise<void> {
+    await this.client.lpush('twitter:replies:queue', reply);
+  }
+
+  async dequeueReply(): Promise<string | null> {
+    return this.client.rpop('twitter:replies:queue');
+  }
+
+  async requeueReply(reply: string): Promise<void> {
+    // Back on the consuming end so it goes out first
+    await this.client.rpush('twitter:replies:queue', reply);
+  }
+
+  async parkReply(reply: string): Promise<void> {
+    // Kept aside for a look rather than dropped
+    await this.client.lpush('twitter:replies:failed', reply);
+  }
+
+  async getReplyQueueDepth(): Promise<number> {
+    return this.client.llen('twitter:replies:queue');
+  }
+
+  // Wallet link challenges, one open challenge per Twitter user. Redis
+  // expiry does away with stale ones.
+  async setWalletChallenge(challenge: WalletChallenge, ttlSeconds: number): Promise<void> {
+    await this.client.set(`identity:challenge:${challenge.twitterId}`, JSON.stringify(challenge), 'EX', ttlSeconds);
+  }
+
+  async getWalletChallenge(twitterId: string): Promise<WalletChallenge | null> {
+    const challenge = await this.client.get(`identity:challenge:${twitterId}`);
+    return challenge ? JSON.parse(challenge) : null;
+  }
+
+  async deleteWalletChallenge(twitterId: string): Promise<void> {
+    await this.client.del(`identity:challenge:${twitterId}`);
+  }
+
+  // Announcements, one per lot and kind. A placeholder claims the slot before
+  // posting so two ticks can't announce the same thing twice.
+  async claimAnnouncement(marathonId: string, lotOrder: number, kind: AnnouncementKind, ttlSeconds: number): Promise<boolean> {
+    const key = `announcement:${marathonId}:${lotOrder}:${kind}`;
+    return (await this.client.set(key, 'PENDING', 'EX', ttlSeconds, 'NX')) === 'OK';
+  }
+
+  async releaseAnnouncement(marathonId: string, lotOrder: number, kind: AnnouncementKind): Promise<void> {
+    await this.client.del(`announcement:${marathonId}:${lotOrder}:${kind}`);
+  }
+
+  async setAnnouncement(record: AnnouncementRecord, ttlSeconds: number): Promise<void> {
+    const value = JSON.stringify(record);
+    await this.client.multi()
+      .set(`announcement:${record.marathonId}:${record.lotOrder}:${record.kind}`, value, 'EX', ttlSeconds)
+      // The post that started a conversation keeps it, e.g. a results thread under bidding open
+      .set(`announcement:conversation:${record.conversationId}`, value, 'EX', ttlSeconds, 'NX')
+      .rpush(`announcements:${record.marathonId}`, value)
+      .expire(`announcements:${record.marathonId}`, ttlSeconds)
+      .exec();
+  }
+
+  async getAnnouncement(marathonId: string, lotOrder: number, kind: AnnouncementKind): Promise<AnnouncementRecord | null> {
+    const record = await this.client.get(`announcement:${marathonId}:${lotOrder}:${kind}`);
+    return record && record !== 'PENDING' ? JSON.parse(record) : null;
+  }
+
+  async getAnnouncementByConversation(conversationId: string): Promise<AnnouncementRecord | null> {
+    const record = await this.client.get(`announcement:conversation:${conversationId}`);
+    return record ? JSON.parse(record) : null;
+  }
+
+  async getAnnouncements(marathonId: string): Promise<AnnouncementRecord[]> {
+    const records = await this.client.lrange(`announcements:${marathonId}`, 0, -1);
+    return records.map((record: string) => JSON.parse(record));
+  }
+
+  // Moderation. The deny and allow lists hold Twitter user IDs and lowercase
+  // handles; bids are counted per user in fixed windows.
+  async addToModerationList(list: ModerationList, account: string): Promise<void> {
+    await this.client.sadd(`moderation:${list.toLowerCase()}list`, account);
+  }
+
+  async removeFromModerationList(list: ModerationList, account: string): Promise<boolean> {
+    return (await this.client.srem(`moderation:${list.toLowerCase()}list`, account)) === 1;
+  }
+
+  async getModerationList(list: ModerationList): Promise<string[]> {
+    return (await this.client.smembers(`moderation:${list.toLowerCase()}list`)).sort();
+  }
+
+  async isOnModerationList(list: ModerationList, accounts: string[]): Promise<boolean> {
+    for (const account of accounts) {
+      if (await this.client.sismember(`moderation:${list.toLowerCase()}list`, account)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async countBid(userId: string, windowSeconds: number): Promise<number> {
+    const key = `moderation:bids:${userId}:${Math.floor(Date.now() / 1000 / windowSeconds)}`;
+    const results = await this.client.multi().incr(key).expire(key, windowSeconds * 2).exec();
+    return Number(results[0][1]);
+  }
+
+  // Amount and currency of recent bid tweets, for spotting quotes that repeat them
+  async setBidFingerprint(tweetId: string, fingerprint: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(`moderation:bid:${tweetId}`, fingerprint, 'EX', ttlSeconds);
+  }
+
+  async getBidFingerprint(tweetId: string): Promise<string | null> {
+    return this.client.get(`moderation:bid:${tweetId}`);
+  }
+
+  // Settlement
+  // Records are keyed by lot order so the placeholder lots of a daily marathon,
+  // which all share the marathon ID, don't overwrite each other. Unfinished
+  // ones are also listed in a set so a restarted process can pick them up.
+  async setSettlement(settlement: SettlementState): Promise<void> {
+    const member = `${settlement.marathonId}:${settlement.lotOrder}`;
+    const finished = settlement.status === 'SETTLED' || settlement.status === 'UNSOLD';
+    const multi = this.client.multi().set(`settlement:${member}`, JSON.stringify(settlement));
+    if (finished) {
+      multi.srem('settlement:open', member);
+    } else {
+      multi.sadd('settlement:open', member);
+    }
+    await multi.exec();
+  }
+
+  async getSettlement(marathonId: string, lotOrder: number): Promise<SettlementState | null> {
+    const settlement = await this.client.get(`settlement:${marathonId}:${lotOrder}`);
+    return settlement ? JSON.parse(settlement) : null;
+  }
+
+  async getOpenSettlements(): Promise<SettlementState[]> {
+    const members: string[] = await this.client.smembers('settlement:open');
+    if (members.length === 0) {
+      return [];
+    }
+    const values: Array<string | null> = await this.client.mget(members.map(member => `settlement:${member}`));
+    return values.filter((value): value is string => value !== null).map(value => JSON.parse(value));
+  }
+
   // User Bid History
-  async addUserBid(userId: string, bid: TwitterBid): Promise<void> {
-    const key = `users:${userId}:bids`;
-    await this.client.zadd(key, bid.timestamp.getTime(), JSON.stringify(bid));
+  // Accepted bids are added by `acceptBid`; scored by time so pages come out newest first.
+  // Timestamps are Dates when fresh but ISO strings once read back from Redis.
+  async addUserBid(marathonId: string, state: ExtendedAuctionState, bid: TwitterBid): Promise<void> {
+    const key = `users:${bid.userId}:bids`;
+    await this.client.zadd(
+      key,
+      new Date(bid.timestamp).getTime(),
+      JSON.stringify(this.toUserBidRecord(marathonId, state, bid))
+    );
   }
 
-  async getUserBids(userId: string): Promise<TwitterBid[]> {
+  async getUserBids(userId: string): Promise<UserBidRecord[]> {
     const key = `users:${userId}:bids`;
     const bids = await this.client.zrange(key, 0, -1);
     return bids.map((bid: string) => JSON.parse(bid));
   }
 
+  async getUserBidsPage(userId: string, offset: number, limit: number): Promise<{ bids: UserBidRecord[]; total: number }> {
+    const key = `users:${userId}:bids`;
+    const [bids, total] = await Promise.all([
+      this.client.zrevrange(key, offset, offset + limit - 1),
+      this.client.zcard(key)
+    ]);
+    return { bids: bids.map((bid: string) => JSON.parse(bid)), total };
+  }
+
+  private toUserBidRecord(marathonId: string, state: ExtendedAuctionState, bid: TwitterBid): UserBidRecord {
+    return { ...bid, marathonId, auctionId: state.id, lotOrder: state.lotOrder };
+  }
+
   // Backup Methods
-  async createSnapshot(marathonId: string): Promise<void> {
+  // Each marathon keeps a sorted set of its snapshot timestamps (scored by
+  // time) so listing and pruning never have to scan the keyspace.
+  async createSnapshot(marathonId: string): Promise<string> {
     const timestamp = new Date().toISOString();
-    const snapshotKey = `backup:${marathonId}:${timestamp}`;
     
     // Get all relevant data
     const [config, currentState, bids] = await Promise.all([
-      this.getMarathonConfig(),
+      this.getAuctionConfig(marathonId),
       this.getCurrentAuction(marathonId),
       this.getAllBids(marathonId)
     ]);
 
     // Store snapshot
-    await this.client.set(snapshotKey, JSON.stringify({
-      timestamp,
-      config,
-      currentState,
-      bids
-    }));
-
-    // Keep only last 24 snapshots
-    await this.pruneSnapshots(marathonId);
+    await this.client.multi()
+      .set(`backup:${marathonId}:${timestamp}`, JSON.stringify({
+        version: SNAPSHOT_VERSION,
+        timestamp,
+        marathonId,
+        config,
+        currentState,
+        bids
+      }))
+      .zadd(`backup:${marathonId}:index`, new Date(timestamp).getTime(), timestamp)
+      .exec();
+
+    return timestamp;
   }
 
   async getAllBids(marathonId: string): Promise<{[key: string]: TwitterBid[]}> {
@@ -194,63 +617,75 @@ export class RedisService {
     return bids;
   }
 
-  private async pruneSnapshots(marathonId: string, keepLast: number = 24): Promise<void> {
-    const pattern = `backup:${marathonId}:*`;
-    const keys = await this.client.keys(pattern);
-    
-    if (keys.length > keepLast) {
-      const toDelete = keys
-        .sort()
-        .slice(0, keys.length - keepLast);
-      
-      if (toDelete.length > 0) {
-        await this.client.del(...toDelete);
-      }
-    }
+  /**
+   * Snapshot timestamps for a marathon, newest first
+   */
+  async listSnapshots(marathonId: string): Promise<string[]> {
+    return this.client.zrevrange(`backup:${marathonId}:index`, 0, -1);
   }
 
-  async restoreFromSnapshot(marathonId: string, timestamp?: string): Promise<boolean> {
-    try {
-      const snapshotKey = timestamp 
-        ? `backup:${marathonId}:${timestamp}`
-        : await this.getLatestSnapshotKey(marathonId);
+  /**
+   * Raw snapshot JSON, or the newest one when no timestamp is given
+   */
+  async getSnapshot(marathonId: string, timestamp?: string): Promise<string | null> {
+    const key = timestamp ?? (await this.listSnapshots(marathonId))[0];
+    return key ? this.client.get(`backup:${marathonId}:${key}`) : null;
+  }
 
-      if (!snapshotKey) {
-        throw new Error('No snapshot found');
-      }
+  async pruneSnapshots(marathonId: string, keepLast: number = 24): Promise<void> {
+    const indexKey = `backup:${marathonId}:index`;
+    // Everything but the newest `keepLast` entries, oldest first
+    const toDelete: string[] = await this.client.zrange(indexKey, 0, -(keepLast + 1));
 
-      const snapshot = await this.client.get(snapshotKey);
-      if (!snapshot) {
-        throw new Error('Snapshot data not found');
-      }
-
-      const data = JSON.parse(snapshot);
-      
-      // Restore data
-      await Promise.all([
-        data.config && this.setMarathonConfig(data.config),
-        data.currentState && this.setCurrentAuction(data.currentState),
-        this.restoreBids(marathonId, data.bids)
-      ]);
-
-      return true;
-    } catch (error) {
-      console.error('Restore failed:', error);
-      return false;
+    if (toDelete.length > 0) {
+      await this.client.multi()
+        .del(...toDelete.map(timestamp => `backup:${marathonId}:${timestamp}`))
+        .zrem(indexKey, ...toDelete)
+        .exec();
     }
   }
 
-  private async getLatestSnapshotKey(marathonId: string): Promise<string | null> {
-    const pattern = `backup:${marathonId}:*`;
-    const keys = await this.client.keys(pattern);
-    return keys.sort().pop() || null;
-  }
+  /**
+   * Replace a marathon's or session's config, current state and lot bids with a snapshot
+   * that has already been validated. User bid histories are left alone.
+   */
+  async restoreFromSnapshot(
+    marathonId: string,
+    snapshot: {
+      config: MarathonConfig | null;
+      currentState: ExtendedAuctionState | null;
+      bids: {[key: string]: TwitterBid[]};
+    }
+  ): Promise<void> {
+    // Lots bid on since the snapshot was taken go back to having no bids
+    const current = await this.getCurrentAuction(marathonId);
+    const session = await this.getSessionState(marathonId);
+    const multi = this.client.multi();
+    for (let day = 1; day <= (current?.dayNumber ?? 0); day++) {
+      if (!snapshot.bids[day.toString()]) {
+        multi.del(`auction:${marathonId}:day:${day}:bids`);
+      }
+    }
 
-  private async restoreBids(marathonId: string, bids: {[key: string]: TwitterBid[]}): Promise<void> {
-    for (const [day, dayBids] of Object.entries(bids)) {
+    if (snapshot.config) {
+      // A session's snapshot holds its own settings, which mustn't replace the marathon config
+      multi.set(session ? `auction:session:${marathonId}:config` : 'auction:config', JSON.stringify(snapshot.config));
+    }
+    if (snapshot.currentState) {
+      multi.set(`auction:${marathonId}:current`, JSON.stringify(snapshot.currentState));
+    }
+    for (const [day, dayBids] of Object.entries(snapshot.bids)) {
+      const key = `auction:${marathonId}:day:${day}:bids`;
+      multi.del(key);
       for (const bid of dayBids) {
-        await this.addBid(marathonId, parseInt(day), bid);
+        multi.zadd(key, bid.amount, JSON.stringify(bid));
       }
     }
+
+    await multi.exec();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.client.quit();
   }
 }
\ No newline at end of file
@@ -0,0 +1,480 @@
+import { auctionManager } from './auction-manager.js';
+import type { AuctionManager } from './auction-manager.js';
+import { auctionEvents } from './events.js';
+import { prisma } from './prisma.js';
+import { RedisService } from './redis.js';
+import type { SessionLotState } from './redis.js';
+import { logger } from '../utils/logger.js';
+import type { AuctionSessionState } from '@sothebais/packages/schema/redis/models';
+import type {
+  SessionEndEvent,
+  SessionStageChangeEvent,
+  SessionStartEvent
+} from '@sothebais/packages/types/events';
+
+// Same cap as the lot scheduler: re-check at least hourly
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Auction Session Runner
+ *
+ * Runs a day's AuctionSession from the database: PRE_AUCTION → AUCTION →
+ * POST_AUCTION → COMPLETED, putting each lot on the block in `lotOrder`
+ * during the AUCTION stage. Lots use their own start/end times, wait for the
+ * previous lot (including soft close extensions) and are cancelled if the
+ * auction window closes before they get their turn.
+ *
+ * Like the lot scheduler, all progress lives in Redis (the session state plus
+ * the current auction) so a restart picks up where the session left off.
+ * The session ID doubles as the marathon ID for bids and the current lot.
+ */
+export class SessionRunner {
+  private redis: RedisService;
+  private timer: NodeJS.Timeout | null = null;
+  private sessionId: string | null = null;
+  private running = false;
+
+  constructor(private manager: AuctionManager) {
+    this.redis = new RedisService();
+  }
+
+  async getSessionState(sessionId: string): Promise<AuctionSessionState | null> {
+    return this.redis.getSessionState(sessionId);
+  }
+
+  async getActiveSessionId(): Promise<string | null> {
+    return this.redis.getActiveSessionId();
+  }
+
+  /**
+   * Load a session and its lots from the database and start running it.
+   * A session that is already in progress in Redis is resumed instead.
+   */
+  async start(sessionId: string): Promise<AuctionSessionState> {
+    // Bid rules come from the session's own config, or the marathon config
+    const config = await this.manager.getAuctionConfig(sessionId);
+    if (!config) {
+      throw new Error('Marathon config not found');
+    }
+
+    let session = await this.redis.getSessionState(sessionId);
+    if (!session || session.status === 'COMPLETED' || session.status === 'CANCELLED') {
+      session = await this.loadSession(sessionId);
+    }
+
+    await this.redis.setActiveSessionId(sessionId);
+    await this.schedule(sessionId);
+    return session;
+  }
+
+  /**
+   * Resume the active session after a restart
+   */
+  async recover(): Promise<void> {
+    const sessionId = await this.redis.getActiveSessionId();
+    if (!sessionId) {
+      logger.info('No active auction session to resume');
+      return;
+    }
+
+    logger.info('Resuming auction session', { sessionId });
+    await this.schedule(sessionId);
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.sessionId = null;
+  }
+
+  /**
+   * Copy the session and its ordered lots from PostgreSQL into Redis
+   */
+  private async loadSession(sessionId: string): Promise<AuctionSessionState> {
+    const record = await prisma.auctionSession.findUnique({
+      where: { id: sessionId },
+      include: {
+        lots: {
+          where: { status: { not: 'CANCELLED' } },
+          orderBy: { lotOrder: 'asc' },
+          include: { artItem: true }
+        }
+      }
+    });
+
+    if (!record) {
+      throw new Error(`Auction session not found: ${sessionId}`);
+    }
+
+    if (record.lots.length === 0) {
+      throw new Error(`Auction session ${sessionId} has no lots`);
+    }
+
+    for (const lot of record.lots) {
+      const lotState: SessionLotState = {
+        id: lot.id,
+        sessionId,
+        artItemId: lot.artItemId,
+        status: 'SCHEDULED',
+        startTime: lot.startTime.toISOString(),
+        endTime: lot.endTime.toISOString(),
+        currency: lot.currency,
+        lotOrder: lot.lotOrder,
+        ...(lot.reservePrice ? { reservePrice: lot.reservePrice.toString() } : {}),
+        ...(lot.minBidIncrement ? { minBidIncrement: lot.minBidIncrement.toString() } : {}),
+        artItem: {
+          name: lot.artItem.name,
+          imageUrl: lot.artItem.imageUrl,
+          ...(lot.artItem.animationUrl ? { animationUrl: lot.artItem.animationUrl } : {}),
+          ...(lot.artItem.description ? { description: lot.artItem.description } : {})
+        }
+      };
+      await this.redis.setLotState(lotState);
+    }
+
+    const session: AuctionSessionState = {
+      id: record.id,
+      campaignId: record.campaignId,
+      sessionDate: record.sessionDate.toISOString(),
+      preAuctionStartTime: record.preAuctionStartTime.toISOString(),
+      preAuctionEndTime: record.preAuctionEndTime.toISOString(),
+      auctionStartTime: record.auctionStartTime.toISOString(),
+      auctionEndTime: record.auctionEndTime.toISOString(),
+      postAuctionStartTime: record.postAuctionStartTime.toISOString(),
+      postAuctionEndTime: record.postAuctionEndTime.toISOString(),
+      status: 'SCHEDULED',
+      ...(record.streamKey ? { streamKey: record.streamKey } : {}),
+      lotIds: record.lots.map((lot: { id: string }) => lot.id),
+      currentLotIndex: 0
+    };
+
+    await this.redis.setSessionState(session);
+
+    logger.info('Loaded auction session', {
+      sessionId,
+      campaignId: session.campaignId,
+      lotCount: session.lotIds.length
+    });
+
+    return session;
+  }
+
+  private async schedule(sessionId: string): Promise<void> {
+    this.clearTimer();
+    this.sessionId = sessionId;
+    await this.tick();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private arm(dueAt: number): void {
+    this.clearTimer();
+    const delay = Math.min(Math.max(dueAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    const sessionId = this.sessionId;
+    if (!sessionId || this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const nextDueAt = await this.advance(sessionId);
+
+      if (this.sessionId !== sessionId) {
+        return;
+      }
+
+      if (nextDueAt === null) {
+        this.sessionId = null;
+        return;
+      }
+
+      this.arm(nextDueAt);
+    } catch (error) {
+      logger.error('Auction session tick failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        sessionId
+      });
+      this.arm(Date.now() + 30 * 1000);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Run every stage and lot transition that is already due and return when
+   * the next one is, or null once the session has finished.
+   */
+  private async advance(sessionId: string): Promise<number | null> {
+    for (;;) {
+      const session = await this.redis.getSessionState(sessionId);
+      if (!session) {
+        return null;
+      }
+
+      const now = Date.now();
+
+      switch (session.status) {
+        case 'SCHEDULED': {
+          const dueAt = new Date(session.preAuctionStartTime).getTime();
+          if (dueAt > now) {
+            return dueAt;
+          }
+
+          await this.setStatus(session, 'PRE_AUCTION');
+          await this.setDatabaseStatus('auctionSession', session.id, 'ACTIVE');
+          await auctionEvents.publish<SessionStartEvent>('SESSION_START', {
+            sessionId: session.id,
+            campaignId: session.campaignId,
+            sessionDate: session.sessionDate,
+            preAuctionStartTime: session.preAuctionStartTime,
+            preAuctionEndTime: session.preAuctionEndTime,
+            auctionStartTime: session.auctionStartTime,
+            auctionEndTime: session.auctionEndTime,
+            postAuctionStartTime: session.postAuctionStartTime,
+            postAuctionEndTime: session.postAuctionEndTime,
+            ...(session.streamKey ? { streamKey: session.streamKey } : {})
+          });
+          await this.publishStage(session, 'SESSION_PRE_AUCTION', 'PRE_AUCTION');
+          continue;
+        }
+
+        case 'PRE_AUCTION': {
+          const dueAt = new Date(session.auctionStartTime).getTime();
+          if (dueAt > now) {
+            return dueAt;
+          }
+
+          await this.setStatus(session, 'AUCTION');
+          await this.publishStage(session, 'SESSION_AUCTION', 'AUCTION');
+          continue;
+        }
+
+        case 'AUCTION': {
+          const dueAt = await this.advanceLots(session, now);
+          if (dueAt === 'CHANGED') {
+            continue;
+          }
+          return dueAt;
+        }
+
+        case 'POST_AUCTION': {
+          const dueAt = new Date(session.postAuctionEndTime).getTime();
+          if (dueAt > now) {
+            return dueAt;
+          }
+
+          await this.setStatus(session, 'COMPLETED');
+          await this.setDatabaseStatus('auctionSession', session.id, 'COMPLETED');
+          await this.redis.clearActiveSessionId();
+          await this.publishSessionEnd(session);
+          logger.info('Auction session completed', { sessionId });
+          return null;
+        }
+
+        default:
+          return null;
+      }
+    }
+  }
+
+  /**
+   * Move the lots of a session in its AUCTION stage along. Returns 'CHANGED'
+   * if something happened and the state should be re-read.
+   */
+  private async advanceLots(session: AuctionSessionState, now: number): Promise<number | 'CHANGED'> {
+    const auctionEndAt = new Date(session.auctionEndTime).getTime();
+    const current = session.currentLotId
+      ? await this.redis.getCurrentAuction(session.id)
+      : null;
+    const onTheBlock = current && current.id === session.currentLotId ? current : null;
+
+    if (onTheBlock?.status === 'ACTIVE') {
+      const endAt = new Date(onTheBlock.extendedEndTime || onTheBlock.endTime).getTime();
+      if (endAt > now) {
+        return endAt;
+      }
+
+      await this.manager.closeCurrentLot(session.id);
+      return 'CHANGED';
+    }
+
+    if (onTheBlock?.status === 'SCHEDULED' && now < auctionEndAt) {
+      const startAt = new Date(onTheBlock.startTime).getTime();
+      if (startAt > now) {
+        return startAt;
+      }
+
+      await this.manager.openCurrentLot(session.id);
+      await this.setDatabaseStatus('auction', onTheBlock.id, 'ACTIVE');
+      return 'CHANGED';
+    }
+
+    if (onTheBlock?.status === 'ENDED') {
+      // Keep the stored lot in step with how it finished
+      const lot = await this.redis.getLotState(onTheBlock.id);
+      if (lot) {
+        await this.redis.setLotState({
+          ...lot,
+          status: 'ENDED',
+          ...(onTheBlock.highestBidId ? { highestBidId: onTheBlock.highestBidId } : {}),
+          ...(onTheBlock.extendedEndTime ? { extendedEndTime: onTheBlock.extendedEndTime } : {})
+        });
+      }
+
+      delete session.currentLotId;
+      session.currentLotIndex += 1;
+      await this.redis.setSessionState(session);
+      return 'CHANGED';
+    }
+
+    // Nothing on the block: put the next lot up while the window is open
+    const nextLotId = session.lotIds[session.currentLotIndex];
+    if (nextLotId && now < auctionEndAt) {
+      const lot = await this.redis.getLotState(nextLotId);
+      if (!lot) {
+        throw new Error(`Lot ${nextLotId} missing from Redis`);
+      }
+
+      await this.manager.queueLot(session.id, lot);
+      session.currentLotId = lot.id;
+      await this.redis.setSessionState(session);
+      return 'CHANGED';
+    }
+
+    // Window closed: anything that never got its turn is cancelled
+    if (session.currentLotIndex < session.lotIds.length) {
+      await this.cancelRemainingLots(session);
+      return 'CHANGED';
+    }
+
+    const postStartAt = new Date(session.postAuctionStartTime).getTime();
+    if (postStartAt > now) {
+      return postStartAt;
+    }
+
+    await this.setStatus(session, 'POST_AUCTION');
+    await this.publishStage(session, 'SESSION_POST_AUCTION', 'POST_AUCTION');
+    return 'CHANGED';
+  }
+
+  private async cancelRemainingLots(session: AuctionSessionState): Promise<void> {
+    const remaining = session.lotIds.slice(session.currentLotIndex);
+
+    // Take a lot that was waiting to open off the block
+    const current = await this.redis.getCurrentAuction(session.id);
+    if (current?.status === 'SCHEDULED') {
+      await this.redis.setCurrentAuction({ ...current, status: 'CANCELLED' });
+    }
+
+    for (const lotId of remaining) {
+      const lot = await this.redis.getLotState(lotId);
+      if (lot) {
+        await this.redis.setLotState({ ...lot, status: 'CANCELLED' });
+      }
+      await this.setDatabaseStatus('auction', lotId, 'CANCELLED');
+    }
+
+    logger.warn('Auction window closed before all lots ran', {
+      sessionId: session.id,
+      cancelledLots: remaining
+    });
+
+    delete session.currentLotId;
+    session.currentLotIndex = session.lotIds.length;
+    await this.redis.setSessionState(session);
+  }
+
+  private async setStatus(session: AuctionSessionState, status: AuctionSessionState['status']): Promise<void> {
+    session.status = status;
+    await this.redis.setSessionState(session);
+    logger.info('Auction session stage changed', { sessionId: session.id, status });
+  }
+
+  /**
+   * Mirror status changes to the database. Redis stays the source of truth
+   * while the session runs, so a database failure is logged, not thrown.
+   */
+  private async setDatabaseStatus(model: 'auctionSession' | 'auction', id: string, status: string): Promise<void> {
+    try {
+      if (model === 'auctionSession') {
+        await prisma.auctionSession.update({ where: { id }, data: { status } });
+      } else {
+        await prisma.auction.update({ where: { id }, data: { status } });
+      }
+    } catch (error) {
+      logger.warn('Failed to update status in database', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        model,
+        id,
+        status
+      });
+    }
+  }
+
+  private async publishStage(
+    session: AuctionSessionState,
+    eventType: 'SESSION_PRE_AUCTION' | 'SESSION_AUCTION' | 'SESSION_POST_AUCTION',
+    stage: SessionStageChangeEvent['data']['stage']
+  ): Promise<void> {
+    const windows = {
+      PRE_AUCTION: [session.preAuctionStartTime, session.preAuctionEndTime],
+      AUCTION: [session.auctionStartTime, session.auctionEndTime],
+      POST_AUCTION: [session.postAuctionStartTime, session.postAuctionEndTime]
+    } as const;
+    const [startTime, endTime] = windows[stage];
+
+    await auctionEvents.publish<SessionStageChangeEvent>(eventType, {
+      sessionId: session.id,
+      campaignId: session.campaignId,
+      stage,
+      startTime,
+      endTime
+    });
+  }
+
+  private async publishSessionEnd(session: AuctionSessionState): Promise<void> {
+    let completedLots = 0;
+    let totalBids = 0;
+    let totalValue = 0;
+    let currency = 'ETH';
+
+    for (const lotId of session.lotIds) {
+      const lot = await this.redis.getLotState(lotId);
+      if (!lot) continue;
+
+      currency = lot.currency;
+      const bids = await this.redis.getBidHistory(session.id, lot.lotOrder);
+      totalBids += bids.length;
+
+      if (lot.status === 'ENDED') {
+        completedLots += 1;
+        const highestBid = await this.redis.getHighestBid(session.id, lot.lotOrder);
+        totalValue += highestBid?.amount || 0;
+      }
+    }
+
+    await auctionEvents.publish<SessionEndEvent>('SESSION_END', {
+      sessionId: session.id,
+      campaignId: session.campaignId,
+      totalLots: session.lotIds.length,
+      completedLots,
+      totalBids,
+      totalValue: totalValue.toString(),
+      currency
+    });
+  }
+}
+
+// Export a singleton instance
+export const sessionRunner = new SessionRunner(auctionManager);
@@ -0,0 +1,433 @@
+import { RedisService } from './redis.js';
+import type { ExtendedAuctionState } from './redis.js';
+import { auctionEvents } from './events.js';
+import { bidPersistence, settlementJob } from './bid-persistence.js';
+import { chainAdapter } from './chain.js';
+import type { ChainAdapter } from './chain.js';
+import { identityService } from './identity.js';
+import type { IdentityService } from './identity.js';
+import type { SettlementCandidate, SettlementState } from '@sothebais/packages/schema/redis/models';
+import type { SettlementConfig } from '@sothebais/packages/types/auction';
+import type {
+  LotSettledEvent,
+  PaymentExpiredEvent,
+  PaymentReceivedEvent,
+  PaymentRequestedEvent,
+  WinnerDeterminedEvent
+} from '@sothebais/packages/types/events';
+import { logger } from '../utils/logger.js';
+
+// Used when the marathon config doesn't specify settlement settings
+export const DEFAULT_SETTLEMENT: SettlementConfig = {
+  paymentWindowMinutes: 60,
+  maxOffers: 3
+};
+
+const POLL_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Settlement Service
+ *
+ * Takes a closed lot from "highest bid" to "item delivered":
+ *
+ *   WINNER_DETERMINED → PAYMENT_REQUESTED → PAID → SETTLED
+ *                              ↓
+ *                           EXPIRED → WINNER_DETERMINED (runner-up) … → UNSOLD
+ *
+ * Each bidder gets `paymentWindowMinutes` to pay. If they don't, the lot is
+ * offered to the next highest bidder, up to `maxOffers` bidders in total.
+ * Records live in Redis and are written before anything is announced, so a
+ * restart resumes every open settlement where it stopped. Every transition
+ * publishes an event and is mirrored into the Auction and Bid rows.
+ */
+export class SettlementService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // begin() and poll() take turns, so only one of them ever advances a settlement
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private chain: ChainAdapter = chainAdapter,
+    private redis: RedisService = new RedisService(),
+    private identity: Pick<IdentityService, 'getWalletAddress'> = identityService
+  ) {}
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, POLL_INTERVAL_MS);
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getSettlement(marathonId: string, lotOrder: number): Promise<SettlementState | null> {
+    return this.redis.getSettlement(marathonId, lotOrder);
+  }
+
+  /**
+   * Open settlement for a lot that just closed. Does nothing if the lot had no
+   * bids or is already being settled.
+   */
+  async begin(marathonId: string, lot: ExtendedAuctionState): Promise<SettlementState | null> {
+    return this.exclusive(() => this.open(marathonId, lot));
+  }
+
+  private async open(marathonId: string, lot: ExtendedAuctionState): Promise<SettlementState | null> {
+    const existing = await this.redis.getSettlement(marathonId, lot.lotOrder);
+    if (existing) {
+      return existing;
+    }
+
+    const config = await this.redis.getAuctionConfig(marathonId);
+    const { paymentWindowMinutes, maxOffers } = config?.settlement ?? DEFAULT_SETTLEMENT;
+
+    const bids = await this.redis.getBidHistory(marathonId, lot.lotOrder);
+    const candidates = this.rankCandidates(bids.map(bid => ({
+      bidId: bid.tweetId,
+      userId: bid.userId,
+      amount: bid.amount.toString(),
+      ...(bid.walletLinked !== undefined ? { walletLinked: bid.walletLinked } : {})
+    })));
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const settlement: SettlementState = {
+      auctionId: lot.id,
+      marathonId,
+      lotOrder: lot.lotOrder,
+      artItemId: lot.artItemId,
+      currency: lot.currency,
+      status: 'WINNER_DETERMINED',
+      candidates,
+      offerIndex: 0,
+      maxOffers: Math.max(1, maxOffers),
+      paymentWindowMinutes,
+      // Placeholder lots of a daily marathon reuse the marathon ID and have no row
+      persisted: lot.id !== marathonId,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.save(settlement);
+    await this.announceWinner(settlement);
+    await this.requestPayment(settlement);
+
+    return settlement;
+  }
+
+  /**
+   * Advance every open settlement one step
+   */
+  async poll(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.exclusive(() => this.advanceAll());
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async advanceAll(): Promise<void> {
+    try {
+      const settlements = await this.redis.getOpenSettlements();
+      for (const settlement of settlements) {
+        try {
+          await this.advance(settlement);
+        } catch (error) {
+          logger.error('Failed to advance settlement', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            auctionId: settlement.auctionId,
+            status: settlement.status
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to load open settlements', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Run a task once every task queued before it has finished
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async advance(settlement: SettlementState): Promise<void> {
+    switch (settlement.status) {
+      case 'WINNER_DETERMINED':
+        // Payment request failed last time round
+        await this.requestPayment(settlement);
+        return;
+
+      case 'PAYMENT_REQUESTED': {
+        const payment = await this.chain.getPaymentStatus(settlement.paymentId!);
+        if (payment.status === 'PAID') {
+          await this.markPaid(settlement, payment.transactionHash);
+          await this.transfer(settlement);
+        } else if (payment.status === 'FAILED' || Date.now() >= new Date(settlement.paymentDeadline!).getTime()) {
+          await this.expire(settlement);
+        }
+        return;
+      }
+
+      case 'PAID':
+        // Transfer failed last time round
+        await this.transfer(settlement);
+        return;
+
+      case 'EXPIRED':
+        await this.offerNext(settlement);
+        return;
+
+      default:
+        return;
+    }
+  }
+
+  private async requestPayment(settlement: SettlementState): Promise<void> {
+    const candidate = this.currentCandidate(settlement);
+    const expiresAt = new Date(Date.now() + settlement.paymentWindowMinutes * 60 * 1000);
+
+    const { paymentId } = await this.chain.requestPayment({
+      auctionId: settlement.auctionId,
+      bidId: candidate.bidId,
+      userId: candidate.userId,
+      amount: candidate.amount,
+      currency: settlement.currency,
+      expiresAt
+    });
+
+    settlement.status = 'PAYMENT_REQUESTED';
+    settlement.paymentId = paymentId;
+    settlement.paymentDeadline = expiresAt.toISOString();
+    await this.save(settlement);
+
+    logger.info('Payment requested from winning bidder', {
+      auctionId: settlement.auctionId,
+      userId: candidate.userId,
+      paymentId,
+      expiresAt: settlement.paymentDeadline
+    });
+
+    await auctionEvents.publish<PaymentRequestedEvent>('PAYMENT_REQUESTED', {
+      auctionId: settlement.auctionId,
+      bidId: candidate.bidId,
+      userId: candidate.userId,
+      amount: candidate.amount,
+      currency: settlement.currency,
+      paymentId,
+      expiresAt: settlement.paymentDeadline,
+      offerNumber: settlement.offerIndex + 1,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private async markPaid(settlement: SettlementState, transactionHash: string): Promise<void> {
+    const candidate = this.currentCandidate(settlement);
+
+    settlement.status = 'PAID';
+    settlement.transactionHash = transactionHash;
+    await this.save(settlement);
+
+    logger.info('Payment received', {
+      auctionId: settlement.auctionId,
+      userId: candidate.userId,
+      transactionHash
+    });
+
+    await auctionEvents.publish<PaymentReceivedEvent>('PAYMENT_RECEIVED', {
+      auctionId: settlement.auctionId,
+      bidId: candidate.bidId,
+      userId: candidate.userId,
+      amount: candidate.amount,
+      currency: settlement.currency,
+      paymentId: settlement.paymentId!,
+      transactionHash,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private async transfer(settlement: SettlementState): Promise<void> {
+    const candidate = this.currentCandidate(settlement);
+
+    // Looked up now rather than at bid time: winners can link a wallet after bidding
+    const walletAddress = await this.identity.getWalletAddress(candidate.userId);
+    if (!walletAddress) {
+      // Stays PAID and is tried again on the next poll
+      logger.warn('Holding transfer until the winning bidder links a wallet', {
+        auctionId: settlement.auctionId,
+        userId: candidate.userId
+      });
+      return;
+    }
+
+    const { transactionHash } = await this.chain.transferItem({
+      auctionId: settlement.auctionId,
+      artItemId: settlement.artItemId,
+      userId: candidate.userId,
+      walletAddress
+    });
+
+    settlement.status = 'SETTLED';
+    settlement.transferTransactionHash = transactionHash;
+    await this.save(settlement);
+
+    logger.info('Lot settled', {
+      auctionId: settlement.auctionId,
+      userId: candidate.userId,
+      amount: candidate.amount
+    });
+
+    await auctionEvents.publish<LotSettledEvent>('LOT_SETTLED', {
+      auctionId: settlement.auctionId,
+      outcome: 'SOLD',
+      bidId: candidate.bidId,
+      userId: candidate.userId,
+      amount: candidate.amount,
+      currency: settlement.currency,
+      transactionHash,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private async expire(settlement: SettlementState): Promise<void> {
+    const candidate = this.currentCandidate(settlement);
+    const next = this.nextCandidate(settlement);
+
+    settlement.status = 'EXPIRED';
+    await this.save(settlement);
+
+    logger.info('Payment window expired', {
+      auctionId: settlement.auctionId,
+      userId: candidate.userId,
+      paymentId: settlement.paymentId,
+      nextUserId: next?.userId
+    });
+
+    await auctionEvents.publish<PaymentExpiredEvent>('PAYMENT_EXPIRED', {
+      auctionId: settlement.auctionId,
+      bidId: candidate.bidId,
+      userId: candidate.userId,
+      paymentId: settlement.paymentId!,
+      ...(next ? { nextBidId: next.bidId } : {}),
+      timestamp: new Date().toISOString()
+    });
+
+    await this.offerNext(settlement);
+  }
+
+  /**
+   * Offer an expired lot to the runner-up, or give up once the offers run out
+   */
+  private async offerNext(settlement: SettlementState): Promise<void> {
+    const next = this.nextCandidate(settlement);
+
+    if (!next) {
+      settlement.status = 'UNSOLD';
+      await this.save(settlement);
+
+      logger.info('Lot went unsold after all offers expired', {
+        auctionId: settlement.auctionId,
+        offers: settlement.offerIndex + 1
+      });
+
+      await auctionEvents.publish<LotSettledEvent>('LOT_SETTLED', {
+        auctionId: settlement.auctionId,
+        outcome: 'UNSOLD',
+        currency: settlement.currency,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    settlement.offerIndex++;
+    settlement.status = 'WINNER_DETERMINED';
+    delete settlement.paymentId;
+    delete settlement.paymentDeadline;
+    await this.save(settlement);
+
+    await this.announceWinner(settlement);
+    await this.requestPayment(settlement);
+  }
+
+  private async announceWinner(settlement: SettlementState): Promise<void> {
+    const candidate = this.currentCandidate(settlement);
+
+    await auctionEvents.publish<WinnerDeterminedEvent>('WINNER_DETERMINED', {
+      auctionId: settlement.auctionId,
+      bidId: candidate.bidId,
+      userId: candidate.userId,
+      amount: candidate.amount,
+      currency: settlement.currency,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Store the record in Redis, then queue the matching database update
+   */
+  private async save(settlement: SettlementState): Promise<void> {
+    settlement.updatedAt = new Date().toISOString();
+    await this.redis.setSettlement(settlement);
+
+    if (settlement.persisted) {
+      bidPersistence.watch(settlement.marathonId);
+      await bidPersistence.enqueue(settlementJob(settlement));
+    }
+  }
+
+  private currentCandidate(settlement: SettlementState): SettlementCandidate {
+    const candidate = settlement.candidates[settlement.offerIndex];
+    if (!candidate) {
+      throw new Error(`Settlement for ${settlement.auctionId} has no candidate at offer ${settlement.offerIndex + 1}`);
+    }
+    return candidate;
+  }
+
+  private nextCandidate(settlement: SettlementState): SettlementCandidate | null {
+    const nextIndex = settlement.offerIndex + 1;
+    if (nextIndex >= settlement.maxOffers) {
+      return null;
+    }
+    return settlement.candidates[nextIndex] ?? null;
+  }
+
+  /**
+   * Highest bid per bidder, best first. A bidder who didn't pay for the lot
+   * shouldn't get offered it again at a lower price.
+   */
+  private rankCandidates(bids: SettlementCandidate[]): SettlementCandidate[] {
+    const seen = new Set<string>();
+    const ranked: SettlementCandidate[] = [];
+
+    // Bid history is ordered by amount, lowest first
+    for (const bid of [...bids].reverse()) {
+      if (!seen.has(bid.userId)) {
+        seen.add(bid.userId);
+        ranked.push(bid);
+      }
+    }
+
+    return ranked;
+  }
+}
+
+// Export a singleton instance
+export const settlementService = new SettlementService();
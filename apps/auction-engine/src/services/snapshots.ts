@@ -0,0 +1,268 @@
+import { z } from 'zod';
+import { RedisService, SNAPSHOT_VERSION } from './redis.js';
+import type { ExtendedAuctionState } from './redis.js';
+import type { MarathonConfig } from '@sothebais/packages/types/auction';
+import type { TwitterBid } from '@sothebais/packages/types/twitter';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+const DEFAULT_RETENTION = 24;
+
+const bidSchema = z.object({
+  userId: z.string(),
+  tweetId: z.string(),
+  amount: z.number().positive(),
+  currency: z.string().optional(),
+  timestamp: z.coerce.date(),
+  rawContent: z.string(),
+  walletLinked: z.boolean().optional()
+});
+
+const marathonConfigSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  currency: z.string(),
+  minBid: z.number().nonnegative(),
+  bidIncrement: z.number().nonnegative(),
+  bidIncrementType: z.enum(['FIXED', 'PERCENTAGE']).optional(),
+  bidIncrementTiers: z.array(z.object({
+    from: z.number(),
+    increment: z.number(),
+    type: z.enum(['FIXED', 'PERCENTAGE']).optional()
+  })).optional(),
+  allowSelfOutbid: z.boolean().optional(),
+  auctionDuration: z.number().positive(),
+  breakDuration: z.number().nonnegative(),
+  softClose: z.object({
+    windowSeconds: z.number().nonnegative(),
+    extensionSeconds: z.number().nonnegative(),
+    maxExtensions: z.number().int().nonnegative()
+  }).optional(),
+  settlement: z.object({
+    paymentWindowMinutes: z.number().positive(),
+    maxOffers: z.number().int().positive()
+  }).optional()
+});
+
+// Lot artwork and soft close bookkeeping are carried through as they are
+const auctionStateSchema = z.object({
+  id: z.string(),
+  marathonId: z.string(),
+  dayNumber: z.number().int().positive(),
+  sessionId: z.string(),
+  artItemId: z.string(),
+  status: z.enum(['SCHEDULED', 'ACTIVE', 'ENDED', 'SETTLED', 'CANCELLED']),
+  startTime: z.string(),
+  endTime: z.string(),
+  currency: z.string(),
+  lotOrder: z.number().int().positive(),
+  highestBidId: z.string().optional(),
+  extendedEndTime: z.string().optional()
+}).passthrough();
+
+const snapshotSchema = z.object({
+  // Snapshots written before versioning have the version 1 layout
+  version: z.literal(SNAPSHOT_VERSION).default(SNAPSHOT_VERSION),
+  timestamp: z.string(),
+  config: marathonConfigSchema.nullable(),
+  currentState: auctionStateSchema.nullable(),
+  bids: z.record(z.string().regex(/^\d+$/, 'Lot keys must be lot numbers'), z.array(bidSchema))
+});
+
+export interface AuctionSnapshot {
+  version: number;
+  timestamp: string;
+  config: MarathonConfig | null;
+  currentState: ExtendedAuctionState | null;
+  bids: { [lotOrder: string]: TwitterBid[] };
+}
+
+export interface FieldChange {
+  field: string;
+  current: unknown;
+  snapshot: unknown;
+}
+
+export interface LotBidChange {
+  lotOrder: number;
+  bidsToAdd: string[]; // Tweet IDs only in the snapshot
+  bidsToRemove: string[]; // Tweet IDs only in Redis now
+  currentHighest: number | null;
+  snapshotHighest: number | null;
+}
+
+export interface RestoreDiff {
+  timestamp: string;
+  config: FieldChange[];
+  currentState: FieldChange[];
+  lots: LotBidChange[];
+}
+
+export class SnapshotValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Snapshot does not match the current schema: ${issues.join('; ')}`);
+    this.name = 'SnapshotValidationError';
+  }
+}
+
+function diffFields(current: object | null, snapshot: object | null): FieldChange[] {
+  const currentFields = (current ?? {}) as Record<string, unknown>;
+  const snapshotFields = (snapshot ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(currentFields), ...Object.keys(snapshotFields)]);
+
+  return [...fields]
+    .filter(field => JSON.stringify(currentFields[field]) !== JSON.stringify(snapshotFields[field]))
+    .map(field => ({ field, current: currentFields[field] ?? null, snapshot: snapshotFields[field] ?? null }));
+}
+
+/**
+ * Snapshot Service
+ *
+ * Periodic backups of each running marathon or session, plus the checks
+ * around restoring one: snapshots are validated against the current schema
+ * before anything is written, and a dry run reports what a restore would change.
+ */
+export class SnapshotService {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private redis: RedisService = new RedisService(),
+    private retention: number = Number(process.env['SNAPSHOT_RETENTION']) || DEFAULT_RETENTION
+  ) {}
+
+  /**
+   * Snapshot the active marathon and session every `intervalMinutes`
+   */
+  start(intervalMinutes: number = Number(process.env['SNAPSHOT_INTERVAL_MINUTES']) || DEFAULT_INTERVAL_MINUTES): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      void this.snapshotActive();
+    }, intervalMinutes * 60 * 1000);
+
+    logger.info('Scheduled auction snapshots', { intervalMinutes, retention: this.retention });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async create(marathonId: string): Promise<string> {
+    const timestamp = await this.redis.createSnapshot(marathonId);
+    await this.redis.pruneSnapshots(marathonId, this.retention);
+    logger.info('Created auction snapshot', { marathonId, timestamp });
+    return timestamp;
+  }
+
+  async list(marathonId: string): Promise<string[]> {
+    return this.redis.listSnapshots(marathonId);
+  }
+
+  /**
+   * The stored snapshot as-is, for download
+   */
+  async getRaw(marathonId: string, timestamp: string): Promise<string | null> {
+    return this.redis.getSnapshot(marathonId, timestamp);
+  }
+
+  /**
+   * Load and validate a snapshot (the newest if no timestamp is given).
+   * Returns null if it doesn't exist; throws SnapshotValidationError if it
+   * doesn't fit the current schema.
+   */
+  async load(marathonId: string, timestamp?: string): Promise<AuctionSnapshot | null> {
+    const raw = await this.redis.getSnapshot(marathonId, timestamp);
+    if (!raw) {
+      return null;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new SnapshotValidationError(['Snapshot is not valid JSON']);
+    }
+
+    const result = snapshotSchema.safeParse(data);
+    if (!result.success) {
+      throw new SnapshotValidationError(
+        result.error.issues.map(issue => `${issue.path.join('.') || 'snapshot'}: ${issue.message}`)
+      );
+    }
+
+    if (result.data.currentState && result.data.currentState.marathonId !== marathonId) {
+      throw new SnapshotValidationError([`currentState.marathonId: expected ${marathonId}`]);
+    }
+
+    return result.data as AuctionSnapshot;
+  }
+
+  /**
+   * What restoring a snapshot would change, without changing anything
+   */
+  async diff(marathonId: string, snapshot: AuctionSnapshot): Promise<RestoreDiff> {
+    const [config, currentState, bids] = await Promise.all([
+      this.redis.getAuctionConfig(marathonId),
+      this.redis.getCurrentAuction(marathonId),
+      this.redis.getAllBids(marathonId)
+    ]);
+
+    const lotOrders = new Set([...Object.keys(bids), ...Object.keys(snapshot.bids)]);
+    const lots: LotBidChange[] = [];
+
+    for (const lotOrder of [...lotOrders].sort((a, b) => Number(a) - Number(b))) {
+      const currentBids = bids[lotOrder] ?? [];
+      const snapshotBids = snapshot.bids[lotOrder] ?? [];
+      const currentIds = new Set(currentBids.map(bid => bid.tweetId));
+      const snapshotIds = new Set(snapshotBids.map(bid => bid.tweetId));
+
+      const bidsToAdd = [...snapshotIds].filter(id => !currentIds.has(id));
+      const bidsToRemove = [...currentIds].filter(id => !snapshotIds.has(id));
+      if (bidsToAdd.length === 0 && bidsToRemove.length === 0) {
+        continue;
+      }
+
+      lots.push({
+        lotOrder: Number(lotOrder),
+        bidsToAdd,
+        bidsToRemove,
+        currentHighest: currentBids[currentBids.length - 1]?.amount ?? null,
+        snapshotHighest: snapshotBids[snapshotBids.length - 1]?.amount ?? null
+      });
+    }
+
+    return {
+      timestamp: snapshot.timestamp,
+      // A snapshot without a config or state leaves the current one in place
+      config: snapshot.config ? diffFields(config, snapshot.config) : [],
+      currentState: snapshot.currentState ? diffFields(currentState, snapshot.currentState) : [],
+      lots
+    };
+  }
+
+  async restore(marathonId: string, snapshot: AuctionSnapshot): Promise<void> {
+    await this.redis.restoreFromSnapshot(marathonId, snapshot);
+    logger.info('Restored auction snapshot', { marathonId, timestamp: snapshot.timestamp });
+  }
+
+  private async snapshotActive(): Promise<void> {
+    const ids = [await this.redis.getActiveMarathonId(), await this.redis.getActiveSessionId()]
+      .filter((id): id is string => id !== null);
+
+    for (const marathonId of ids) {
+      try {
+        await this.create(marathonId);
+      } catch (error) {
+        logger.error('Scheduled snapshot failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          marathonId
+        });
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const snapshotService = new SnapshotService();
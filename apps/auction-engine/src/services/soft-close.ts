@@ -0,0 +1,49 @@
+import type { ExtendedAuctionState } from './redis.js';
+import type { SoftCloseConfig } from '@sothebais/packages/types/auction';
+
+// Used when the marathon config doesn't specify soft close settings
+export const DEFAULT_SOFT_CLOSE: SoftCloseConfig = {
+  windowSeconds: 120,
+  extensionSeconds: 120,
+  maxExtensions: 10
+};
+
+/**
+ * Details of a soft close extension, for the AUCTION_EXTENDED event
+ */
+export interface SoftCloseExtension {
+  previousEndTime: string;
+  maxExtensions: number;
+}
+
+/**
+ * Extend the lot end time when a bid is accepted inside the soft close
+ * window. Mutates the state and returns details of the extension, or null
+ * if the bid didn't trigger one.
+ */
+export function applySoftClose(
+  state: ExtendedAuctionState,
+  acceptedAt: Date,
+  softClose: SoftCloseConfig
+): SoftCloseExtension | null {
+  const extensionCount = state.extensionCount || 0;
+  if (extensionCount >= softClose.maxExtensions) {
+    return null;
+  }
+
+  const previousEndTime = state.extendedEndTime || state.endTime;
+  const remainingMs = new Date(previousEndTime).getTime() - acceptedAt.getTime();
+  if (remainingMs > softClose.windowSeconds * 1000) {
+    return null;
+  }
+
+  const newEndTime = new Date(acceptedAt.getTime() + softClose.extensionSeconds * 1000);
+  if (newEndTime.getTime() <= new Date(previousEndTime).getTime()) {
+    return null;
+  }
+
+  state.extendedEndTime = newEndTime.toISOString();
+  state.extensionCount = extensionCount + 1;
+
+  return { previousEndTime, maxExtensions: softClose.maxExtensions };
+}
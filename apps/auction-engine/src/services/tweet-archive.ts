@@ -0,0 +1,276 @@
+import { prisma } from './prisma.js';
+import { parseBidText } from './bid-parser.js';
+import { loadStreamConfig, toApiTweet, TWEET_FIELDS, USER_FIELDS } from './tweet-ingester.js';
+import { twitterScheduler } from './twitter-scheduler.js';
+import { twitterService } from './twitter.js';
+import type { TwitterService } from './twitter.js';
+import type { CampaignEngagement } from '@sothebais/packages/types/twitter';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+// Recent search only reaches back seven days
+const SEARCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000 - 60 * 1000;
+// Twitter wants end_time at least 10 seconds before the request
+const END_TIME_MARGIN_MS = 30 * 1000;
+// Younger rows may still be on their way through bid processing
+const REPARSE_GRACE_MS = 10 * 60 * 1000;
+const MAX_SEARCH_PAGES = 20;
+const REPARSE_BATCH_SIZE = 500;
+// Same as ingestion: the currency only matters for the bid itself
+const DEFAULT_CURRENCY = 'ETH';
+
+interface CampaignWindow {
+  id: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Tweet Archiver
+ *
+ * Reconciles the tweets table with Twitter for each running or recently
+ * ended campaign, every TWITTER_ARCHIVE_INTERVAL_MINUTES:
+ * - backfills mentions ingestion missed (downtime, stream drops) by searching
+ *   the campaign's time range, as far as recent search reaches
+ * - parses stored tweets nothing has processed yet, recording whether they
+ *   hold a bid. Backfilled bids are archived only; they were never placed.
+ * - totals the campaign's mentions, unique authors and bid-tweet ratio into
+ *   CampaignEngagement for the admin app
+ */
+export class TweetArchiver {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private intervalMs: number;
+
+  constructor(
+    private twitter: Pick<TwitterService, 'getClient'> = twitterService,
+    private query: string | undefined = loadStreamConfig().query,
+    intervalMinutes: number = Number(process.env['TWITTER_ARCHIVE_INTERVAL_MINUTES']) || DEFAULT_INTERVAL_MINUTES
+  ) {
+    this.intervalMs = intervalMinutes * 60 * 1000;
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    void this.runOnce();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Archive every campaign whose range overlaps what recent search can reach
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const campaigns: CampaignWindow[] = await prisma.campaign.findMany({
+        where: {
+          status: { notIn: ['DRAFT', 'CANCELLED'] },
+          startDate: { lte: now },
+          endDate: { gte: new Date(now.getTime() - SEARCH_WINDOW_MS) }
+        },
+        select: { id: true, startDate: true, endDate: true }
+      });
+
+      for (const campaign of campaigns) {
+        await this.archive(campaign);
+      }
+    } catch (error) {
+      logger.error('Tweet archive run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Archive one campaign now. Returns null for an unknown campaign.
+   */
+  async archiveCampaign(campaignId: string): Promise<CampaignEngagement | null> {
+    const campaign: CampaignWindow | null = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { id: true, startDate: true, endDate: true }
+    });
+    return campaign ? this.archive(campaign) : null;
+  }
+
+  async getEngagement(campaignId: string): Promise<CampaignEngagement | null> {
+    const row = await prisma.campaignEngagement.findUnique({ where: { campaignId } });
+    return row ? toEngagement(row) : null;
+  }
+
+  async listEngagement(): Promise<CampaignEngagement[]> {
+    const rows = await prisma.campaignEngagement.findMany({ orderBy: { windowStart: 'desc' } });
+    return rows.map(toEngagement);
+  }
+
+  private async archive(campaign: CampaignWindow): Promise<CampaignEngagement> {
+    const now = Date.now();
+    const windowStart = new Date(campaign.startDate);
+    const windowEnd = new Date(Math.min(new Date(campaign.endDate).getTime(), now));
+
+    let backfilled = 0;
+    const searchStart = new Date(Math.max(windowStart.getTime(), now - SEARCH_WINDOW_MS));
+    const searchEnd = new Date(Math.min(windowEnd.getTime(), now - END_TIME_MARGIN_MS));
+    if (searchStart < searchEnd) {
+      try {
+        backfilled = await this.backfill(searchStart, searchEnd);
+      } catch (error) {
+        // The totals are still worth refreshing from what we have
+        logger.error('Tweet backfill failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          campaignId: campaign.id
+        });
+      }
+    }
+
+    const reparsed = await this.reparse(windowStart, new Date(Math.min(windowEnd.getTime(), now - REPARSE_GRACE_MS)));
+
+    const where = { postedAt: { gte: windowStart, lte: windowEnd } };
+    const [mentions, bidTweets, authors] = await Promise.all([
+      prisma.tweet.count({ where }),
+      prisma.tweet.count({ where: { ...where, isBid: true } }),
+      prisma.tweet.findMany({ where, distinct: ['authorId'], select: { authorId: true } })
+    ]);
+
+    const totals = {
+      windowStart,
+      windowEnd,
+      mentions,
+      uniqueAuthors: authors.length,
+      bidTweets,
+      bidTweetRatio: mentions > 0 ? bidTweets / mentions : 0,
+      backfilled,
+      reparsed,
+      lastRunAt: new Date()
+    };
+    const row = await prisma.campaignEngagement.upsert({
+      where: { campaignId: campaign.id },
+      create: { campaignId: campaign.id, ...totals },
+      update: totals
+    });
+
+    logger.info('Campaign tweets archived', { campaignId: campaign.id, mentions, backfilled, reparsed });
+    return toEngagement(row);
+  }
+
+  /**
+   * Store the tweets Twitter has for the range that we don't. Returns how
+   * many were new.
+   */
+  private async backfill(start: Date, end: Date): Promise<number> {
+    const client = this.twitter.getClient();
+    if (!client || !this.query) {
+      return 0;
+    }
+
+    let stored = 0;
+    let nextToken: string | undefined;
+    for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+      const result = await twitterScheduler.run('LOW', () => client.v2.search(this.query!, {
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        max_results: 100,
+        'tweet.fields': TWEET_FIELDS,
+        expansions: ['author_id'],
+        'user.fields': USER_FIELDS,
+        ...(nextToken ? { next_token: nextToken } : {})
+      }));
+
+      const tweets = (result.data.data ?? []).map(tweet => toApiTweet(tweet, result.data.includes?.users));
+      if (tweets.length > 0) {
+        const { count } = await prisma.tweet.createMany({
+          data: tweets.map(tweet => ({
+            tweetId: tweet.id,
+            authorId: tweet.author_id,
+            content: tweet.text,
+            postedAt: new Date(tweet.created_at),
+            isBid: parseBidText(tweet.text, { defaultCurrency: DEFAULT_CURRENCY }).ok,
+            isProcessed: false,
+            metadata: tweet
+          })),
+          skipDuplicates: true
+        });
+        stored += count;
+      }
+
+      nextToken = result.data.meta?.next_token;
+      if (!nextToken) {
+        break;
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Parse the range's unprocessed tweets and note the outcome on each row
+   */
+  private async reparse(start: Date, end: Date): Promise<number> {
+    if (start >= end) {
+      return 0;
+    }
+
+    const rows: Array<{ tweetId: string; content: string; metadata: unknown }> = await prisma.tweet.findMany({
+      where: { isProcessed: false, postedAt: { gte: start, lte: end } },
+      select: { tweetId: true, content: true, metadata: true },
+      orderBy: { postedAt: 'asc' },
+      take: REPARSE_BATCH_SIZE
+    });
+
+    const reparsedAt = new Date().toISOString();
+    for (const row of rows) {
+      const result = parseBidText(row.content, { defaultCurrency: DEFAULT_CURRENCY });
+      const metadata = row.metadata && typeof row.metadata === 'object' && !Array.isArray(row.metadata) ? row.metadata : {};
+      await prisma.tweet.update({
+        where: { tweetId: row.tweetId },
+        data: {
+          isBid: result.ok,
+          isProcessed: true,
+          metadata: {
+            ...metadata,
+            archive: result.ok
+              ? { reparsedAt, amount: result.amount, currency: result.currency }
+              : { reparsedAt, reason: result.reason }
+          }
+        }
+      });
+    }
+    return rows.length;
+  }
+}
+
+function toEngagement(row: CampaignEngagement): CampaignEngagement {
+  return {
+    campaignId: row.campaignId,
+    windowStart: row.windowStart,
+    windowEnd: row.windowEnd,
+    mentions: row.mentions,
+    uniqueAuthors: row.uniqueAuthors,
+    bidTweets: row.bidTweets,
+    bidTweetRatio: row.bidTweetRatio,
+    backfilled: row.backfilled,
+    reparsed: row.reparsed,
+    lastRunAt: row.lastRunAt
+  };
+}
+
+// Export a singleton instance
+export const tweetArchiver = new TweetArchiver();
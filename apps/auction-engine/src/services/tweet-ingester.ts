@@ -0,0 +1,555 @@
+import { ApiResponseError, ETwitterStreamEvent } from 'twitter-api-v2';
+import type { TweetStream, TweetV2, TweetV2SingleStreamResult, TwitterApi, UserV2 } from 'twitter-api-v2';
+import { logger } from '../utils/logger.js';
+import { parseBidText } from './bid-parser.js';
+import { twitterService } from './twitter.js';
+import { createTwitterClient } from './twitter-client.js';
+import { twitterScheduler } from './twitter-scheduler.js';
+import { TwitterStorage } from './twitter-storage.js';
+import type {
+  TwitterApiTweet,
+  TwitterStreamConfig,
+  TwitterStreamRule,
+  TwitterStreamStatus,
+  TwitterUserProfile
+} from '@sothebais/packages/types/twitter';
+
+export const TWEET_FIELDS: Array<'author_id' | 'created_at' | 'conversation_id' | 'referenced_tweets'> = [
+  'author_id',
+  'created_at',
+  'conversation_id',
+  'referenced_tweets'
+];
+
+// Author profiles come along so bidders' users can be kept up to date
+export const USER_FIELDS: Array<'username' | 'name' | 'profile_image_url' | 'verified' | 'created_at'> = [
+  'username',
+  'name',
+  'profile_image_url',
+  'verified',
+  'created_at'
+];
+
+const INITIAL_BACKOFF_MS = 1000;
+const RATE_LIMIT_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Consecutive stream failures before switching to search polling
+const MAX_STREAM_FAILURES = 5;
+// How often to try the stream again while polling
+const STREAM_RETRY_MS = 15 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+// Search pages fetched per poll; older tweets are left to the archiver's backfill
+const MAX_POLL_PAGES = 10;
+
+export type IngestMode = 'STREAM' | 'POLLING';
+
+export interface TweetIngesterOptions {
+  // App-only (bearer token) client for the filtered stream; polling only without one
+  streamClient: TwitterApi | null;
+  searchClient: TwitterApi;
+  storage: TwitterStorage;
+  config: TwitterStreamConfig;
+  pollIntervalMs?: number;
+}
+
+export interface IngestStatus {
+  status: TwitterStreamStatus;
+  mode: IngestMode | null;
+  rules: TwitterStreamRule[];
+  sinceId: string | null;
+  lastTweetAt: string | null;
+  failures: number;
+}
+
+/**
+ * Build the stream config from the environment. TWITTER_STREAM_RULES takes a
+ * JSON array of `{ value, tag }` rules; otherwise TWITTER_SEARCH_QUERY becomes
+ * the only rule.
+ */
+export function loadStreamConfig(): TwitterStreamConfig {
+  const rawRules = process.env['TWITTER_STREAM_RULES'];
+  let rules: TwitterStreamRule[] = [];
+
+  if (rawRules) {
+    try {
+      rules = (JSON.parse(rawRules) as TwitterStreamRule[]).filter(rule => typeof rule.value === 'string');
+    } catch (error) {
+      logger.error('Ignoring unreadable TWITTER_STREAM_RULES', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  const query = process.env['TWITTER_SEARCH_QUERY'];
+  if (rules.length === 0 && query) {
+    rules = [{ value: query, tag: 'bids' }];
+  }
+
+  return {
+    type: 'FILTERED',
+    rules,
+    // Polling asks for any of the rules at once
+    query: query || rules.map(rule => `(${rule.value})`).join(' OR '),
+    isActive: rules.length > 0
+  };
+}
+
+// Tweet IDs are snowflakes, too large for a number but ordered by time
+function isNewerId(id: string, than: string): boolean {
+  return BigInt(id) > BigInt(than);
+}
+
+function toUserProfile(user: UserV2): TwitterUserProfile {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    ...(user.profile_image_url ? { profileImageUrl: user.profile_image_url } : {}),
+    ...(user.verified !== undefined ? { verified: user.verified } : {}),
+    ...(user.created_at ? { createdAt: new Date(user.created_at) } : {})
+  };
+}
+
+export function toApiTweet(tweet: TweetV2, users: UserV2[] = []): TwitterApiTweet {
+  const author = users.find(user => user.id === tweet.author_id);
+  return {
+    ...tweet,
+    author_id: tweet.author_id ?? '',
+    created_at: tweet.created_at ?? new Date().toISOString(),
+    ...(author ? { author: toUserProfile(author) } : {})
+  };
+}
+
+/**
+ * Tweet Ingester
+ *
+ * Long-running intake for bid tweets. Keeps the filtered stream's rules in
+ * line with the config, consumes the stream, and stores every tweet before
+ * handing it to bid processing. Dropped connections are retried with
+ * exponential backoff; if the stream keeps failing (or the app isn't allowed
+ * to use it) the ingester polls recent search instead, and tries the stream
+ * again every so often.
+ *
+ * Polling picks up from a `since_id` cursor kept in Redis, which streamed
+ * tweets move forward too, so falling back doesn't replay what the stream
+ * already delivered. Without a cursor, polling starts from when ingestion did.
+ */
+export class TweetIngester {
+  private options: TweetIngesterOptions | null = null;
+  private stream: TweetStream<TweetV2SingleStreamResult> | null = null;
+  private status: TwitterStreamStatus = 'DISCONNECTED';
+  private mode: IngestMode | null = null;
+  private failures = 0;
+  private backoffMs = INITIAL_BACKOFF_MS;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private streamRetryTimer: NodeJS.Timeout | null = null;
+  private streamRecordId: string | null = null;
+  private sinceId: string | null = null;
+  private startedAt: string | null = null;
+  private lastTweetAt: string | null = null;
+  private stopped = true;
+  // Streamed tweets, handled one at a time in the order they arrived
+  private streamQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private handleTweet: (tweet: TwitterApiTweet) => Promise<unknown> =
+      tweet => twitterService.processPotentialBidTweet(tweet)
+  ) {}
+
+  async start(options: TweetIngesterOptions): Promise<void> {
+    await this.stop();
+    this.options = options;
+    this.stopped = false;
+
+    if (!options.config.isActive || !options.config.rules?.length) {
+      logger.warn('No Twitter stream rules configured, tweet ingestion disabled');
+      return;
+    }
+
+    this.sinceId = await options.storage.getSearchCursor();
+    this.startedAt = new Date().toISOString();
+    this.streamRecordId = await options.storage.createStreamRecord(
+      options.config.type,
+      JSON.stringify(options.config.rules)
+    );
+
+    if (options.streamClient) {
+      await this.startStream();
+    } else {
+      logger.info('No app-only Twitter client, ingesting tweets by search polling');
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Connect with the credentials in the environment. Needs the user-context
+   * TWITTER_* keys; TWITTER_BEARER_TOKEN additionally enables the filtered stream.
+   */
+  async startFromEnv(): Promise<void> {
+    const appKey = process.env['TWITTER_API_KEY'];
+    const appSecret = process.env['TWITTER_API_SECRET'];
+    const accessToken = process.env['TWITTER_ACCESS_TOKEN'];
+    const accessSecret = process.env['TWITTER_ACCESS_TOKEN_SECRET'];
+    if (!appKey || !appSecret || !accessToken || !accessSecret) {
+      logger.warn('Twitter credentials not configured, tweet ingestion disabled');
+      return;
+    }
+
+    // Keep the quota Twitter reports alongside the other Twitter state in Redis
+    const storage = TwitterStorage.initialize(process.env['REDIS_URL'] || 'redis://redis:6379');
+    twitterScheduler.setRecorder((endpoint, remaining, reset) => storage.updateRateLimit(endpoint, remaining, reset));
+
+    const connected = await twitterService.initialize({ appKey, appSecret, accessToken, accessSecret });
+    const searchClient = twitterService.getClient();
+    if (!connected || !searchClient) {
+      return;
+    }
+
+    const bearerToken = process.env['TWITTER_BEARER_TOKEN'];
+    const pollIntervalSeconds = Number(process.env['TWITTER_POLL_INTERVAL_SECONDS']);
+
+    await this.start({
+      streamClient: bearerToken ? createTwitterClient(bearerToken) : null,
+      searchClient,
+      storage,
+      config: loadStreamConfig(),
+      ...(pollIntervalSeconds > 0 ? { pollIntervalMs: pollIntervalSeconds * 1000 } : {})
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.clearTimers();
+    this.closeStream();
+    if (this.options && this.streamRecordId) {
+      await this.options.storage.updateStreamRecord(this.streamRecordId, { isActive: false });
+    }
+    await this.options?.storage.setStreamActive(false);
+    this.mode = null;
+    this.setStatus('DISCONNECTED');
+  }
+
+  getStatus(): IngestStatus {
+    return {
+      status: this.status,
+      mode: this.mode,
+      rules: this.options?.config.rules ?? [],
+      sinceId: this.sinceId,
+      lastTweetAt: this.lastTweetAt,
+      failures: this.failures
+    };
+  }
+
+  /**
+   * Make the stream's rules match the config: add missing ones, delete any
+   * the config no longer has
+   */
+  async syncRules(): Promise<TwitterStreamRule[]> {
+    const client = this.options?.streamClient;
+    if (!client) {
+      throw new Error('Filtered stream is not available without an app-only client');
+    }
+
+    const wanted = this.options!.config.rules ?? [];
+    const existing = (await client.v2.streamRules()).data ?? [];
+    const key = (rule: TwitterStreamRule): string => `${rule.value}\u0000${rule.tag ?? ''}`;
+
+    const wantedKeys = new Set(wanted.map(key));
+    const existingKeys = new Set(existing.map(key));
+    const toDelete = existing.filter(rule => !wantedKeys.has(key(rule))).map(rule => rule.id);
+    const toAdd = wanted
+      .filter(rule => !existingKeys.has(key(rule)))
+      .map(rule => (rule.tag ? { value: rule.value, tag: rule.tag } : { value: rule.value }));
+
+    if (toDelete.length > 0) {
+      await client.v2.updateStreamRules({ delete: { ids: toDelete } });
+    }
+    if (toAdd.length > 0) {
+      await client.v2.updateStreamRules({ add: toAdd });
+    }
+
+    logger.info('Synced filtered stream rules', { added: toAdd.length, deleted: toDelete.length });
+    return ((await client.v2.streamRules()).data ?? []).map(rule => ({
+      id: rule.id,
+      value: rule.value,
+      ...(rule.tag ? { tag: rule.tag } : {})
+    }));
+  }
+
+  private async startStream(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    this.mode = 'STREAM';
+    this.setStatus(this.failures > 0 ? 'RECONNECTING' : 'DISCONNECTED');
+
+    try {
+      await this.syncRules();
+
+      const stream = this.options!.streamClient!.v2.searchStream({
+        autoConnect: false,
+        'tweet.fields': TWEET_FIELDS,
+        expansions: ['author_id'],
+        'user.fields': USER_FIELDS
+      });
+      stream.on(ETwitterStreamEvent.Data, (event: TweetV2SingleStreamResult) => {
+        const tweet = toApiTweet(event.data, event.includes?.users);
+        // The cursor only moves past a tweet once every tweet before it is handled
+        this.streamQueue = this.streamQueue
+          .then(async () => {
+            await this.ingest(tweet);
+            await this.advanceCursor(tweet.id);
+          })
+          .catch((error) => {
+            logger.error('Failed to ingest streamed tweet', {
+              error: error instanceof Error ? error.message : 'Unknown error',
+              tweetId: tweet.id
+            });
+          });
+      });
+      stream.on(ETwitterStreamEvent.ConnectionLost, () => this.onStreamDropped('Connection lost'));
+      stream.on(ETwitterStreamEvent.ConnectionClosed, () => this.onStreamDropped('Connection closed'));
+      stream.on(ETwitterStreamEvent.ConnectionError, (error: Error) => {
+        logger.warn('Twitter stream connection error', { error: error.message });
+      });
+
+      this.stream = stream;
+      // Reconnects are ours so the backoff and status stay in one place
+      await stream.connect({ autoReconnect: false });
+
+      this.failures = 0;
+      this.backoffMs = INITIAL_BACKOFF_MS;
+      this.stopPolling();
+      this.setStatus('CONNECTED');
+      logger.info('Connected to Twitter filtered stream');
+    } catch (error) {
+      this.closeStream();
+      this.onStreamFailed(error);
+    }
+  }
+
+  private onStreamDropped(reason: string): void {
+    if (this.stopped || !this.stream) {
+      return;
+    }
+    logger.warn('Twitter stream dropped', { reason });
+    this.closeStream();
+    this.scheduleReconnect();
+  }
+
+  private onStreamFailed(error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const code = error instanceof ApiResponseError ? error.code : undefined;
+    this.failures++;
+
+    // Not enrolled for streaming or bad credentials won't fix themselves
+    const forbidden = code === 401 || code === 403;
+    if (error instanceof ApiResponseError && error.rateLimitError) {
+      this.backoffMs = Math.max(this.backoffMs, RATE_LIMIT_BACKOFF_MS);
+    }
+
+    logger.error('Twitter stream unavailable', { error: message, code, failures: this.failures });
+
+    if (forbidden || this.failures >= MAX_STREAM_FAILURES) {
+      this.setStatus('ERROR');
+      this.fallBackToPolling();
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.setStatus('RECONNECTING');
+    const delay = this.backoffMs;
+    this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS);
+
+    logger.info('Reconnecting to Twitter stream', { delayMs: delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.startStream();
+    }, delay);
+  }
+
+  private fallBackToPolling(): void {
+    logger.warn('Falling back to search polling', { retryStreamInMs: STREAM_RETRY_MS });
+    this.startPolling();
+
+    this.streamRetryTimer = setTimeout(() => {
+      this.streamRetryTimer = null;
+      this.failures = 0;
+      this.backoffMs = INITIAL_BACKOFF_MS;
+      void this.startStream();
+    }, STREAM_RETRY_MS);
+  }
+
+  private startPolling(): void {
+    if (this.stopped || this.pollTimer) {
+      return;
+    }
+    this.mode = 'POLLING';
+    void this.options?.storage.setStreamActive(this.isIngesting());
+
+    const interval = this.options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const poll = async (): Promise<void> => {
+      await this.poll();
+      if (!this.stopped && this.pollTimer) {
+        this.pollTimer = setTimeout(() => void poll(), interval);
+      }
+    };
+    this.pollTimer = setTimeout(() => void poll(), 0);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Fetch tweets newer than the cursor, oldest first
+   */
+  private async poll(): Promise<void> {
+    const { searchClient, config } = this.options!;
+    try {
+      const tweets: TwitterApiTweet[] = [];
+      let newestId: string | undefined;
+      let nextToken: string | undefined;
+
+      // Pages come newest first
+      for (let page = 0; page < MAX_POLL_PAGES; page++) {
+        // Polling can wait when quota is short; tweets are picked up from the cursor later
+        const result = await twitterScheduler.run('LOW', () => searchClient.v2.search(config.query!, {
+          max_results: 100,
+          'tweet.fields': TWEET_FIELDS,
+          expansions: ['author_id'],
+          'user.fields': USER_FIELDS,
+          ...(this.sinceId ? { since_id: this.sinceId } : this.startedAt ? { start_time: this.startedAt } : {}),
+          ...(nextToken ? { next_token: nextToken } : {})
+        }));
+
+        newestId ??= result.data.meta?.newest_id;
+        tweets.push(...(result.data.data ?? []).map(tweet => toApiTweet(tweet, result.data.includes?.users)));
+
+        nextToken = result.data.meta?.next_token;
+        if (!nextToken) {
+          break;
+        }
+      }
+
+      if (nextToken) {
+        logger.warn('More new tweets than one poll fetches, skipping the oldest', { fetched: tweets.length });
+      }
+
+      for (const tweet of tweets.reverse()) {
+        await this.ingest(tweet);
+      }
+
+      if (newestId) {
+        await this.advanceCursor(newestId);
+      }
+    } catch (error) {
+      logger.error('Tweet search poll failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: error instanceof ApiResponseError ? error.code : undefined
+      });
+    }
+  }
+
+  /**
+   * Move the search cursor up to a tweet we have handled
+   */
+  private async advanceCursor(tweetId: string): Promise<void> {
+    if (this.sinceId && !isNewerId(tweetId, this.sinceId)) {
+      return;
+    }
+    this.sinceId = tweetId;
+    try {
+      await this.options!.storage.setSearchCursor(tweetId);
+    } catch (error) {
+      logger.error('Failed to save the tweet search cursor', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Store a tweet, then run it through bid processing. Tweets already seen
+   * (a reconnect or overlapping poll) are skipped.
+   */
+  private async ingest(tweet: TwitterApiTweet): Promise<void> {
+    const storage = this.options!.storage;
+    if (await storage.hasTweet(tweet.id)) {
+      return;
+    }
+
+    this.lastTweetAt = new Date().toISOString();
+    if (this.streamRecordId) {
+      void storage.updateStreamRecord(this.streamRecordId, { lastActive: new Date() });
+    }
+
+    // The currency only matters for the bid itself; any amount counts here
+    const isBid = parseBidText(tweet.text, { defaultCurrency: 'ETH' }).ok;
+    try {
+      await storage.storeTweet(tweet, isBid);
+    } catch {
+      // Logged by storeTweet; a database outage shouldn't cost us the bid
+    }
+
+    try {
+      await this.handleTweet(tweet);
+    } catch (error) {
+      logger.error('Failed to process ingested tweet', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tweetId: tweet.id
+      });
+    }
+  }
+
+  private isIngesting(): boolean {
+    return this.status === 'CONNECTED' || this.mode === 'POLLING';
+  }
+
+  private setStatus(status: TwitterStreamStatus): void {
+    if (this.status === status) {
+      return;
+    }
+    this.status = status;
+    void this.options?.storage.setStreamActive(this.isIngesting());
+    if (this.options && this.streamRecordId) {
+      void this.options.storage.updateStreamRecord(this.streamRecordId, {
+        isActive: this.isIngesting(),
+        metadata: { status, mode: this.mode, failures: this.failures }
+      });
+    }
+  }
+
+  private closeStream(): void {
+    const stream = this.stream;
+    this.stream = null;
+    if (stream) {
+      stream.removeAllListeners();
+      stream.close();
+    }
+  }
+
+  private clearTimers(): void {
+    this.stopPolling();
+    for (const timer of [this.reconnectTimer, this.streamRetryTimer]) {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+    this.reconnectTimer = null;
+    this.streamRetryTimer = null;
+  }
+}
+
+// Export a singleton instance
+export const tweetIngester = new TweetIngester();
@@ -0,0 +1,46 @@
+import http from 'http';
+import { TwitterApi } from 'twitter-api-v2';
+import type { IClientSettings, ITwitterApiClientPlugin, TwitterApiTokens } from 'twitter-api-v2';
+import { twitterScheduler } from './twitter-scheduler.js';
+import type { TwitterScheduler } from './twitter-scheduler.js';
+
+// Where twitter-api-v2 sends every request
+const TWITTER_API_ORIGIN = 'https://api.x.com/';
+
+/**
+ * Rewrites request URLs from the real API to another base URL. The library
+ * has no setting for this, so requests are redirected just before they are built.
+ */
+function baseUrlPlugin(baseUrl: string): ITwitterApiClientPlugin {
+  const target = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  const rewrite = ({ params }: { params: { url: string } }): void => {
+    if (params.url.startsWith(TWITTER_API_ORIGIN)) {
+      params.url = target + params.url.slice(TWITTER_API_ORIGIN.length);
+    }
+  };
+
+  return {
+    onBeforeRequestConfig: rewrite,
+    onBeforeStreamRequestConfig: rewrite
+  };
+}
+
+/**
+ * Create a Twitter API client. Its requests go through the scheduler, which
+ * tracks rate limits. With a base URL (TWITTER_API_BASE_URL by default)
+ * requests go there instead of api.x.com, e.g. to the local emulator in
+ * `src/tests/twitter-emulator.ts`.
+ */
+export function createTwitterClient(
+  tokens: TwitterApiTokens | string,
+  baseUrl: string | undefined = process.env['TWITTER_API_BASE_URL'],
+  scheduler: TwitterScheduler = twitterScheduler
+): TwitterApi {
+  const settings: Partial<IClientSettings> = {
+    plugins: [...(baseUrl ? [baseUrlPlugin(baseUrl)] : []), scheduler.plugin()],
+    // Requests are made with `https.request`; an http agent lets them reach a plain http emulator
+    ...(baseUrl?.startsWith('http:') ? { httpAgent: new http.Agent() } : {})
+  };
+
+  return typeof tokens === 'string' ? new TwitterApi(tokens, settings) : new TwitterApi(tokens, settings);
+}
@@ -0,0 +1,266 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ITwitterApiClientPlugin, TwitterRateLimit } from 'twitter-api-v2';
+import { logger } from '../utils/logger.js';
+import {
+  twitterRateLimitLimit,
+  twitterRateLimitRemaining,
+  twitterRateLimitReset,
+  twitterRequestsDelayed,
+  twitterRequestsWaiting
+} from '../metrics/twitter-metrics.js';
+
+export type TwitterPriority = 'HIGH' | 'NORMAL' | 'LOW';
+
+const PRIORITIES: TwitterPriority[] = ['HIGH', 'NORMAL', 'LOW'];
+
+// Share of an endpoint's window each priority has to leave untouched, so
+// background work can't use up the quota bid replies need
+const RESERVED_SHARE: Record<TwitterPriority, number> = {
+  HIGH: 0,
+  NORMAL: 0.1,
+  LOW: 0.25
+};
+
+// Used when a window has passed without a response telling us the next one
+const DEFAULT_WINDOW_MS = 15 * 60 * 1000;
+// Twitter's reset times are in whole seconds
+const RESET_SLACK_MS = 1000;
+
+/**
+ * Quota of one endpoint as last reported by Twitter
+ */
+export interface EndpointQuota {
+  endpoint: string;
+  limit: number;
+  remaining: number;
+  reset: string;
+  updatedAt: string;
+  waiting: Record<TwitterPriority, number>;
+}
+
+export type RateLimitRecorder = (endpoint: string, remaining: number, reset: number) => Promise<void>;
+
+interface Waiter {
+  priority: TwitterPriority;
+  resolve: () => void;
+}
+
+interface EndpointState {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  updatedAt: number;
+  waiting: Waiter[];
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Rate limit key for a request, e.g. `GET /2/users/:id/tweets`
+ */
+export function endpointKey(method: string, url: URL): string {
+  // Numeric IDs after the API version segment
+  const path = url.pathname
+    .split('/')
+    .map((segment, index) => (index > 1 && /^\d+$/.test(segment) ? ':id' : segment))
+    .join('/');
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * Twitter Scheduler
+ *
+ * Every Twitter client is created with this scheduler as a plugin, so every
+ * request passes through it. It records the x-rate-limit headers of each
+ * response per endpoint and, once an endpoint's quota runs low, holds
+ * requests until the window resets. Requests run at NORMAL priority unless
+ * wrapped in `run()`: LOW work (search polling, timelines) stops while a
+ * quarter of the window is left, NORMAL work while a tenth is, and HIGH work
+ * (bid replies) may use the whole window and is let through first when it
+ * resets.
+ *
+ * The filtered stream connection is a single long-lived request and isn't held.
+ */
+export class TwitterScheduler {
+  private endpoints = new Map<string, EndpointState>();
+  private priority = new AsyncLocalStorage<TwitterPriority>();
+  private recorder: RateLimitRecorder | null = null;
+
+  /**
+   * Also store every rate limit update, e.g. with TwitterStorage.updateRateLimit
+   */
+  setRecorder(recorder: RateLimitRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Make the Twitter calls inside `fn` at the given priority
+   */
+  run<T>(priority: TwitterPriority, fn: () => Promise<T>): Promise<T> {
+    return this.priority.run(priority, fn);
+  }
+
+  plugin(): ITwitterApiClientPlugin {
+    return {
+      // Before the request is signed, so a held request doesn't go out with a stale signature
+      onBeforeRequestConfig: async ({ url, params }) => {
+        await this.acquire(endpointKey(params.method, url));
+      },
+      onAfterRequest: ({ url, params, response }) => {
+        if (response.rateLimit) {
+          this.record(endpointKey(params.method, url), response.rateLimit);
+        }
+      },
+      onResponseError: ({ url, params, error }) => {
+        if (error.rateLimit) {
+          this.record(endpointKey(params.method, url), error.rateLimit);
+        }
+      }
+    };
+  }
+
+  /**
+   * Wait until the endpoint has quota for a request at the current priority
+   */
+  async acquire(endpoint: string): Promise<void> {
+    const priority = this.priority.getStore() ?? 'NORMAL';
+    const state = this.endpoints.get(endpoint);
+    if (!state) {
+      // Nothing known until the first response
+      return;
+    }
+
+    this.refresh(state);
+    const queuedAhead = state.waiting.some(waiter => PRIORITIES.indexOf(waiter.priority) <= PRIORITIES.indexOf(priority));
+    if (!queuedAhead && this.allows(state, priority)) {
+      state.remaining--;
+      return;
+    }
+
+    twitterRequestsDelayed.inc({ endpoint, priority });
+    logger.info('Holding Twitter request until quota frees up', {
+      endpoint,
+      priority,
+      remaining: state.remaining,
+      reset: new Date(state.resetAt).toISOString()
+    });
+
+    await new Promise<void>(resolve => {
+      // Behind everything of the same or higher priority
+      const index = state.waiting.findIndex(waiter => PRIORITIES.indexOf(waiter.priority) > PRIORITIES.indexOf(priority));
+      state.waiting.splice(index === -1 ? state.waiting.length : index, 0, { priority, resolve });
+      this.updateWaitingGauge();
+      this.scheduleRelease(state);
+    });
+  }
+
+  /**
+   * Take in the rate limit Twitter reported for an endpoint
+   */
+  record(endpoint: string, rateLimit: TwitterRateLimit): void {
+    const existing = this.endpoints.get(endpoint);
+    const state: EndpointState = existing ?? { limit: 0, remaining: 0, resetAt: 0, updatedAt: 0, waiting: [], timer: null };
+    state.limit = rateLimit.limit;
+    state.remaining = rateLimit.remaining;
+    state.resetAt = rateLimit.reset * 1000;
+    state.updatedAt = Date.now();
+    this.endpoints.set(endpoint, state);
+
+    twitterRateLimitLimit.set({ endpoint }, rateLimit.limit);
+    twitterRateLimitRemaining.set({ endpoint }, rateLimit.remaining);
+    twitterRateLimitReset.set({ endpoint }, rateLimit.reset);
+
+    if (this.recorder) {
+      this.recorder(endpoint, rateLimit.remaining, rateLimit.reset).catch(error => {
+        logger.warn('Failed to store Twitter rate limit', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          endpoint
+        });
+      });
+    }
+
+    this.release(state);
+  }
+
+  getQuotas(): EndpointQuota[] {
+    return [...this.endpoints.entries()]
+      .map(([endpoint, state]) => {
+        this.refresh(state);
+        const waiting = { HIGH: 0, NORMAL: 0, LOW: 0 };
+        for (const waiter of state.waiting) {
+          waiting[waiter.priority]++;
+        }
+        return {
+          endpoint,
+          limit: state.limit,
+          remaining: state.remaining,
+          reset: new Date(state.resetAt).toISOString(),
+          updatedAt: new Date(state.updatedAt).toISOString(),
+          waiting
+        };
+      })
+      .sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+  }
+
+  /**
+   * Whether taking one request still leaves the priority's reserve
+   */
+  private allows(state: EndpointState, priority: TwitterPriority): boolean {
+    return state.remaining - 1 >= Math.floor(state.limit * RESERVED_SHARE[priority]);
+  }
+
+  /**
+   * Start a new window once the reset time has passed. The real numbers
+   * arrive with the next response.
+   */
+  private refresh(state: EndpointState): void {
+    if (Date.now() >= state.resetAt) {
+      state.remaining = state.limit;
+      state.resetAt = Date.now() + DEFAULT_WINDOW_MS;
+    }
+  }
+
+  /**
+   * Let waiting requests go in priority order while quota allows
+   */
+  private release(state: EndpointState): void {
+    this.refresh(state);
+    state.waiting = state.waiting.filter(waiter => {
+      if (!this.allows(state, waiter.priority)) {
+        return true;
+      }
+      state.remaining--;
+      waiter.resolve();
+      return false;
+    });
+    this.updateWaitingGauge();
+    this.scheduleRelease(state);
+  }
+
+  private scheduleRelease(state: EndpointState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+    if (state.waiting.length === 0) {
+      return;
+    }
+    const delay = Math.max(state.resetAt - Date.now(), 0) + RESET_SLACK_MS;
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      this.release(state);
+    }, delay);
+  }
+
+  private updateWaitingGauge(): void {
+    for (const priority of PRIORITIES) {
+      let count = 0;
+      for (const state of this.endpoints.values()) {
+        count += state.waiting.filter(waiter => waiter.priority === priority).length;
+      }
+      twitterRequestsWaiting.set({ priority }, count);
+    }
+  }
+}
+
+// Export a singleton instance
+export const twitterScheduler = new TwitterScheduler();
@@ -8,6 +8,7 @@ const TWEET_CACHE_PREFIX = 'twitter:tweet:';
 const BID_TWEET_SET = 'twitter:bids';
 const RATE_LIMIT_PREFIX = 'twitter:ratelimit:';
 const ACTIVE_STREAM_KEY = 'twitter:stream:active';
+const SEARCH_CURSOR_KEY = 'twitter:search:since_id';
 
 // Define type for Tweet using Prisma namespace
 type Tweet = {
@@ -106,6 +107,33 @@ export class TwitterStorage {
     }
   }
   
+  /**
+   * Whether a tweet was stored within the last hour (used to skip duplicates
+   * when a stream reconnects or a poll overlaps the stream)
+   */
+  public async hasTweet(tweetId: string): Promise<boolean> {
+    try {
+      return (await this.redis.exists(`${TWEET_CACHE_PREFIX}${tweetId}`)) === 1;
+    } catch (error) {
+      logger.error('Failed to check for stored tweet', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tweetId
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Newest tweet ID seen by search polling, so the next poll only asks for newer ones
+   */
+  public async getSearchCursor(): Promise<string | null> {
+    return this.redis.get(SEARCH_CURSOR_KEY);
+  }
+
+  public async setSearchCursor(sinceId: string): Promise<void> {
+    await this.redis.set(SEARCH_CURSOR_KEY, sinceId);
+  }
+
   /**
    * Get recent bid tweets from Redis
    */
@@ -238,6 +266,38 @@ export class TwitterStorage {
     }
   }
   
+  /**
+   * Record a stream in PostgreSQL. Returns the record ID, or null if the
+   * database couldn't be reached (ingestion carries on regardless).
+   */
+  public async createStreamRecord(streamType: string, query: string): Promise<string | null> {
+    try {
+      const record = await this.prisma.twitterStream.create({
+        data: { streamType, query, isActive: true, lastActive: new Date() }
+      });
+      return record.id;
+    } catch (error) {
+      logger.error('Failed to record Twitter stream', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  public async updateStreamRecord(
+    id: string,
+    data: { isActive?: boolean; lastActive?: Date; metadata?: Record<string, unknown> }
+  ): Promise<void> {
+    try {
+      await this.prisma.twitterStream.update({ where: { id }, data });
+    } catch (error) {
+      logger.error('Failed to update Twitter stream record', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id
+      });
+    }
+  }
+
   /**
    * Check if Twitter stream is active
    */
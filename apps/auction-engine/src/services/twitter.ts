@@ -1,5 +1,36 @@
-import { TwitterApi } from 'twitter-api-v2';
+import type { TwitterApi } from 'twitter-api-v2';
 import { logger } from '../utils/logger.js';
+import { parseBidTweet } from './bid-parser.js';
+import { createTwitterClient } from './twitter-client.js';
+import { twitterScheduler } from './twitter-scheduler.js';
+import { bidNotifier } from './bid-notifications.js';
+import type { BidNotifier } from './bid-notifications.js';
+import { identityService } from './identity.js';
+import { bidModerator } from './bid-moderation.js';
+import type { BidModerator } from './bid-moderation.js';
+import type { IdentityService, LinkedIdentity } from './identity.js';
+import type { BidParseRejection } from './bid-parser.js';
+import type { AuctionManager } from './auction-manager.js';
+import type { BidRejectionReason } from '@sothebais/packages/types/auction';
+import type { ModerationReason, TwitterApiTweet, TwitterBid } from '@sothebais/packages/types/twitter';
+
+/**
+ * Outcome of running a tweet through bid processing
+ */
+export type BidTweetOutcome =
+  | { status: 'IGNORED'; reason: BidParseRejection | 'OWN_TWEET' | 'BEFORE_LOT_START' }
+  | { status: 'NO_AUCTION' }
+  | { status: 'COMMAND' }
+  | { status: 'BLOCKED'; reason: ModerationReason }
+  | { status: 'ACCEPTED'; bid: TwitterBid; currency: string; previousHighestBid?: TwitterBid }
+  | {
+      status: 'REJECTED';
+      bid: TwitterBid;
+      currency: string;
+      reason: BidRejectionReason;
+      message: string;
+      minimumAmount?: number;
+    };
 
 /**
  * Twitter Service
@@ -13,25 +44,33 @@ import { logger } from '../utils/logger.js';
 export class TwitterService {
   private client: TwitterApi | null = null;
   private isInitialized = false;
-  private tweetStream: any = null;
   private userId: string = '';
+  private auctionManager: AuctionManager | null = null;
+  private marathonId: string | null = null;
+
+  constructor(
+    private notifier: BidNotifier = bidNotifier,
+    private identity: IdentityService = identityService,
+    private moderator: Pick<BidModerator, 'review'> = bidModerator
+  ) {}
 
   /**
-   * Initialize the Twitter client with credentials
+   * Initialize the Twitter client with credentials. `baseUrl` points the
+   * client somewhere other than the real API (defaults to TWITTER_API_BASE_URL).
    */
   public async initialize(credentials: {
     appKey: string;
     appSecret: string;
     accessToken: string;
     accessSecret: string;
-  }): Promise<boolean> {
+  }, baseUrl?: string): Promise<boolean> {
     try {
-      this.client = new TwitterApi({
+      this.client = createTwitterClient({
         appKey: credentials.appKey,
         appSecret: credentials.appSecret,
         accessToken: credentials.accessToken,
         accessSecret: credentials.accessSecret,
-      });
+      }, baseUrl);
 
       // Test connection
       const user = await this.client.v2.me();
@@ -39,6 +78,7 @@ export class TwitterService {
       logger.info(`Twitter API connected for user: ${user.data.username} (ID: ${this.userId})`);
       
       this.isInitialized = true;
+      this.notifier.start(this.client);
       return true;
     } catch (error) {
       logger.error('Failed to initialize Twitter client', { 
@@ -49,6 +89,22 @@ export class TwitterService {
     }
   }
 
+  /**
+   * Route bids parsed from tweets to an auction marathon
+   */
+  public setActiveAuction(auctionManager: AuctionManager, marathonId: string): void {
+    this.auctionManager = auctionManager;
+    this.marathonId = marathonId;
+    logger.info('Twitter bids routed to marathon', { marathonId });
+  }
+
+  /**
+   * The user-context client, once initialized
+   */
+  public getClient(): TwitterApi | null {
+    return this.client;
+  }
+
   /**
    * Check if the Twitter client is initialized
    */
@@ -66,9 +122,9 @@ export class TwitterService {
 
     try {
       // Get recent tweets from the user timeline
-      const timeline = await this.client!.v2.userTimeline(this.userId, {
+      const timeline = await twitterScheduler.run('LOW', () => this.client!.v2.userTimeline(this.userId, {
         max_results: 10,
-      });
+      }));
       
       const tweets = timeline.data.data || [];
       logger.info(`Successfully fetched ${tweets.length} tweets`);
@@ -116,8 +172,29 @@ export class TwitterService {
   }
 
   /**
-   * Start monitoring tweets for a specific hashtag or search term
-   * Note: Twitter API v2 filtered stream requires Elevated access 
+   * Reply to a tweet, e.g. to confirm a bid
+   */
+  public async replyToTweet(tweetId: string, message: string): Promise<string | null> {
+    if (!this.isConnected()) {
+      throw new Error('Twitter client not initialized');
+    }
+
+    try {
+      const reply = await this.client!.v2.reply(message, tweetId);
+      logger.info(`Replied to tweet ${tweetId} with ID: ${reply.data.id}`);
+      return reply.data.id;
+    } catch (error) {
+      logger.error('Failed to reply to tweet', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tweetId
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Run a one-off search and process any bids found. Continuous ingestion
+   * lives in TweetIngester.
    */
   public async monitorTweets(searchQuery: string): Promise<void> {
     if (!this.isConnected()) {
@@ -127,14 +204,14 @@ export class TwitterService {
     try {
       // For testing purposes, we'll use search API instead of streams
       // Production would use filtered streams for real-time monitoring
-      const searchResults = await this.client!.v2.search(searchQuery);
+      const searchResults = await twitterScheduler.run('LOW', () => this.client!.v2.search(searchQuery));
       
       logger.info(`Found ${searchResults.data.meta.result_count} tweets matching "${searchQuery}"`);
       
       // Process each tweet (in production, this would be real-time)
-      searchResults.data.data?.forEach(tweet => {
-        this.processPotentialBidTweet(tweet);
-      });
+      for (const tweet of searchResults.data.data || []) {
+        await this.processPotentialBidTweet(tweet as TwitterApiTweet);
+      }
     } catch (error) {
       logger.error(`Failed to monitor tweets for "${searchQuery}"`, { 
         error: error instanceof Error ? error.message : 'Unknown error' 
@@ -143,39 +220,128 @@ export class TwitterService {
   }
 
   /**
-   * Process a tweet to check if it's a valid bid
-   * This is a placeholder for actual bid processing logic
+   * Process a tweet to check if it's a valid bid, and hand any bid it
+   * contains to the auction manager
    */
-  private processPotentialBidTweet(tweet: any): void {
+  public async processPotentialBidTweet(tweet: TwitterApiTweet): Promise<BidTweetOutcome> {
     logger.info(`Processing tweet: ${tweet.id}`);
-    
-    // Example logic - would be more complex in production
-    const tweetText = tweet.text.toLowerCase();
-    
-    // Check if tweet contains bid-related keywords
-    if (tweetText.includes('bid') || tweetText.includes('eth')) {
-      logger.info(`Potential bid detected in tweet: ${tweet.id}`);
-      
-      // TODO: Extract bid amount, validate, and process
-      // This would connect to auction engine logic
+
+    // Our own replies come back through the stream and may read like bids
+    if (this.userId && tweet.author_id === this.userId) {
+      return { status: 'IGNORED', reason: 'OWN_TWEET' };
+    }
+
+    const author = await this.resolveAuthor(tweet);
+
+    // Wallet commands work whether or not an auction is running
+    if (await this.handleWalletCommand(tweet)) {
+      return { status: 'COMMAND' };
     }
+
+    if (!this.auctionManager || !this.marathonId) {
+      logger.warn('No active auction to route tweet bids to', { tweetId: tweet.id });
+      return { status: 'NO_AUCTION' };
+    }
+
+    const config = await this.auctionManager.getAuctionConfig(this.marathonId);
+    const parsed = parseBidTweet(tweet, { defaultCurrency: config?.currency || 'ETH' });
+
+    if (!parsed.ok) {
+      logger.info(`Tweet ${tweet.id} is not a bid`, { reason: parsed.reason });
+      return { status: 'IGNORED', reason: parsed.reason };
+    }
+
+    // Mentions replayed from before the lot opened were meant for an earlier one
+    const lot = await this.auctionManager.getCurrentAuction(this.marathonId);
+    if (lot && parsed.bid.timestamp.getTime() < new Date(lot.startTime).getTime()) {
+      logger.info(`Tweet ${tweet.id} predates the current lot`, { createdAt: tweet.created_at, startTime: lot.startTime });
+      return { status: 'IGNORED', reason: 'BEFORE_LOT_START' };
+    }
+
+    // Flagged so settlement knows who still has to link a wallet
+    const bid: TwitterBid = author ? { ...parsed.bid, walletLinked: author.walletAddress !== null } : parsed.bid;
+    const currency = bid.currency || config?.currency || 'ETH';
+
+    // Spam, bots and duplicates are dropped without a reply
+    const decision = await this.moderator.review(tweet, bid, currency);
+    if (!decision.allowed) {
+      return { status: 'BLOCKED', reason: decision.reason };
+    }
+
+    logger.info(`Bid detected in tweet: ${tweet.id}`, {
+      userId: bid.userId,
+      amount: bid.amount,
+      currency: bid.currency,
+      walletLinked: bid.walletLinked
+    });
+
+    const result = await this.auctionManager.processBid(this.marathonId, bid);
+    const outcome: BidTweetOutcome = result.accepted
+      ? {
+          status: 'ACCEPTED',
+          bid,
+          currency,
+          ...(result.previousHighestBid ? { previousHighestBid: result.previousHighestBid } : {})
+        }
+      : {
+          status: 'REJECTED',
+          bid,
+          currency,
+          reason: result.reason,
+          message: result.message,
+          ...(result.minimumAmount !== undefined ? { minimumAmount: result.minimumAmount } : {})
+        };
+
+    // Acknowledge the bid, and tell whoever it outbid
+    await this.notifier.notify(outcome);
+    return outcome;
+  }
+
+  /**
+   * Create or update the author's user and link the tweet to it. Returns null
+   * if the database can't be reached, so bidding carries on without it.
+   */
+  private async resolveAuthor(tweet: TwitterApiTweet): Promise<LinkedIdentity | null> {
+    try {
+      const identity = await this.identity.syncAuthor(tweet.author_id, tweet.author);
+      await this.identity.linkTweet(tweet.id, identity.userId);
+      return identity;
+    } catch (error) {
+      logger.error('Failed to sync tweet author', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tweetId: tweet.id,
+        authorId: tweet.author_id
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Answer a "link wallet" or "verify" tweet. Returns whether the tweet was one.
+   */
+  private async handleWalletCommand(tweet: TwitterApiTweet): Promise<boolean> {
+    const reply = await this.identity.handleCommand(tweet.author_id, tweet.text).catch((error: unknown) => {
+      logger.error('Failed to handle wallet command', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tweetId: tweet.id
+      });
+      return null;
+    });
+
+    if (reply === null) {
+      return false;
+    }
+    if (this.isConnected()) {
+      await twitterScheduler.run('HIGH', () => this.replyToTweet(tweet.id, reply));
+    }
+    return true;
   }
 
   /**
    * Cleanup resources when shutting down
    */
   public async shutdown(): Promise<void> {
-    if (this.tweetStream) {
-      try {
-        await this.tweetStream.close();
-        logger.info('Twitter stream closed');
-      } catch (error) {
-        logger.error('Error closing Twitter stream', { 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
-      }
-    }
-    
+    this.notifier.stop();
     this.client = null;
     this.isInitialized = false;
     logger.info('Twitter service shutdown complete');
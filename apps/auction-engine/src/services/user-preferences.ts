@@ -0,0 +1,59 @@
+import { prisma } from './prisma.js';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Which bid notifications a Twitter user wants
+ */
+export interface NotificationPreferences {
+  bidConfirmations: boolean;
+  outbidAlerts: boolean;
+}
+
+// Matches the UserPreference column defaults, for bidders without an account
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  bidConfirmations: true,
+  outbidAlerts: true
+};
+
+/**
+ * Looks up notification preferences by Twitter user ID. Results are cached
+ * briefly since every bid asks for them.
+ */
+export class UserPreferences {
+  private cache = new Map<string, { preferences: NotificationPreferences; expiresAt: number }>();
+
+  async getForTwitterUser(twitterId: string): Promise<NotificationPreferences> {
+    const cached = this.cache.get(twitterId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.preferences;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { twitterId },
+      select: { preferences: true }
+    });
+
+    const stored = user?.preferences;
+    // notificationsEnabled switches everything off at once
+    const preferences = stored
+      ? {
+          bidConfirmations: stored.notificationsEnabled && stored.bidConfirmations,
+          outbidAlerts: stored.notificationsEnabled && stored.outbidAlerts
+        }
+      : DEFAULT_PREFERENCES;
+
+    this.cache.set(twitterId, { preferences, expiresAt: Date.now() + CACHE_TTL_MS });
+    return preferences;
+  }
+
+  /**
+   * Forget a cached lookup, e.g. after the user changed their settings
+   */
+  invalidate(twitterId: string): void {
+    this.cache.delete(twitterId);
+  }
+}
+
+// Export a singleton instance
+export const userPreferences = new UserPreferences();
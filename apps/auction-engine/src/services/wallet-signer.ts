@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Wallet Signature Verifier
+ *
+ * Checks that a message was signed by the key behind a wallet address, which
+ * is how a bidder proves a wallet is theirs before it's linked to their account.
+ */
+export interface WalletSignatureVerifier {
+  verify(address: string, message: string, signature: string): Promise<boolean>;
+}
+
+const DEFAULT_MOCK_SIGNER_SECRET = 'mock-signer';
+
+/**
+ * Refuse to run outside development (or tests) while MOCK_SIGNER_SECRET is
+ * unset or the well-known default, which would let anyone link any wallet
+ */
+export function assertMockSignerSecret(): void {
+  const environment = process.env['NODE_ENV'];
+  if (environment === 'development' || environment === 'test') {
+    return;
+  }
+  const secret = process.env['MOCK_SIGNER_SECRET'];
+  if (!secret || secret === DEFAULT_MOCK_SIGNER_SECRET) {
+    throw new Error('MOCK_SIGNER_SECRET must be set to a non-default value outside development');
+  }
+}
+
+/**
+ * Mock Signer
+ *
+ * Stands in for real wallets in local development and tests: a "signature"
+ * is an HMAC of the address and message under a shared secret
+ * (MOCK_SIGNER_SECRET), so anyone who can reach `sign` (see
+ * POST /api/twitter/identity/mock/sign) or knows the secret can sign for any
+ * address.
+ */
+export class MockSigner implements WalletSignatureVerifier {
+  constructor(private secret: string = DEFAULT_MOCK_SIGNER_SECRET) {}
+
+  sign(address: string, message: string): string {
+    const digest = createHmac('sha256', this.secret)
+      .update(`${address.toLowerCase()}:${message}`)
+      .digest('hex');
+    return `0x${digest}`;
+  }
+
+  async verify(address: string, message: string, signature: string): Promise<boolean> {
+    const expected = Buffer.from(this.sign(address, message));
+    const given = Buffer.from(signature.toLowerCase());
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+}
+
+// Export a singleton instance
+export const mockSigner = new MockSigner(process.env['MOCK_SIGNER_SECRET'] || undefined);
+export const walletSignatureVerifier: WalletSignatureVerifier = mockSigner;
@@ -0,0 +1,530 @@
+import express from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import { logger } from '../utils/logger.js';
+import { endpointKey } from '../services/twitter-scheduler.js';
+
+/**
+ * Twitter API Emulator
+ *
+ * A local stand-in for the parts of the Twitter v2 API the auction engine
+ * uses, so the mention → bid → reply flow can run without network access or
+ * real credentials:
+ * - GET  /2/users/me, GET /2/users/:id/tweets
+ * - POST /2/tweets (tweets and replies, optionally with media)
+ * - POST /2/media/upload (INIT, APPEND and FINALIZE of chunked uploads)
+ * - GET  /2/tweets/search/recent (with since_id, start_time/end_time and paging)
+ * - GET/POST /2/tweets/search/stream/rules
+ * - GET  /2/tweets/search/stream (newline-delimited JSON with keep-alives)
+ *
+ * Tweets from other users are scripted: pass a script to `start()`, call
+ * `mention()` from a test, or POST to `/emulator/mentions`. Every tweet, ours
+ * included, is pushed to open streams whose rules it matches. Rule and search
+ * queries support a subset of the real syntax: plain terms, `@mentions`,
+ * `from:`, `is:retweet`/`is:reply`, negation with `-` and `OR`.
+ *
+ * Tweets always come with their authors in `includes.users`, as if the
+ * `author_id` expansion had been requested.
+ *
+ * Responses carry x-rate-limit headers with per-endpoint windows (300
+ * requests per 15 minutes unless set in `rateLimits`) and turn into 429s once
+ * a window is used up.
+ *
+ * Point the engine at it with TWITTER_API_BASE_URL, e.g.
+ * `TWITTER_API_BASE_URL=http://localhost:4010/`, and start it standalone with
+ * `npm run twitter:emulator` (TWITTER_EMULATOR_PORT, and TWITTER_EMULATOR_SCRIPT
+ * for a JSON file of scripted tweets).
+ */
+
+export interface EmulatedUser {
+  id: string;
+  username: string;
+  name: string;
+  created_at: string;
+}
+
+export interface EmulatedTweet {
+  id: string;
+  text: string;
+  author_id: string;
+  created_at: string;
+  conversation_id: string;
+  in_reply_to_user_id?: string;
+  referenced_tweets?: Array<{ type: 'replied_to' | 'quoted' | 'retweeted'; id: string }>;
+  attachments?: { media_keys: string[] };
+}
+
+export interface EmulatedMedia {
+  id: string;
+  mediaType: string;
+  segments: number;
+  finalized: boolean;
+}
+
+export interface ScriptedTweet {
+  // Milliseconds after the script starts
+  delayMs?: number;
+  // Username of the author; unknown users are created on the fly
+  author: string;
+  text: string;
+  inReplyTo?: string;
+}
+
+export interface TwitterEmulatorOptions {
+  username?: string;
+  keepAliveMs?: number;
+  // Requests per 15 minute window by endpoint, e.g. `{ 'POST /2/tweets': 5 }`
+  rateLimits?: Record<string, number>;
+}
+
+interface StreamRule {
+  id: string;
+  value: string;
+  tag?: string;
+}
+
+const KEEP_ALIVE_MS = 20 * 1000;
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+const DEFAULT_RATE_LIMIT = 300;
+// Ids grow like snowflakes so since_id comparisons work
+const FIRST_ID = 1900000000000000000n;
+
+function compareIds(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+}
+
+export class TwitterEmulator {
+  readonly me: EmulatedUser;
+  private users = new Map<string, EmulatedUser>();
+  private tweets: EmulatedTweet[] = [];
+  private media = new Map<string, EmulatedMedia>();
+  private rules: StreamRule[] = [];
+  private streams = new Set<Response>();
+  private timers = new Set<NodeJS.Timeout>();
+  private server: Server | null = null;
+  private windows = new Map<string, { used: number; resetAt: number }>();
+  private nextId = FIRST_ID;
+
+  constructor(private options: TwitterEmulatorOptions = {}) {
+    this.me = this.createUser(options.username ?? 'SothebAIs');
+  }
+
+  /**
+   * Listen on `port` (0 picks a free one) and return the base URL to give
+   * the Twitter client
+   */
+  async start(port = 0, script: ScriptedTweet[] = []): Promise<string> {
+    const app = this.createApp();
+    this.server = await new Promise<Server>(resolve => {
+      const server = app.listen(port, () => resolve(server));
+    });
+
+    this.runScript(script);
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}/`;
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    for (const stream of this.streams) {
+      stream.end();
+    }
+    this.streams.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Post scripted tweets on their delays
+   */
+  runScript(script: ScriptedTweet[]): void {
+    for (const entry of script) {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.mention(entry.text, entry.author, entry.inReplyTo);
+      }, entry.delayMs ?? 0);
+      this.timers.add(timer);
+    }
+  }
+
+  /**
+   * Tweet as another user, as if mentioning the account
+   */
+  mention(text: string, author: string, inReplyTo?: string): EmulatedTweet {
+    const user = this.findUser(author) ?? this.createUser(author);
+    return this.addTweet(user, text, inReplyTo);
+  }
+
+  /**
+   * Tweets posted through the API by the emulated account
+   */
+  postedTweets(): EmulatedTweet[] {
+    return this.tweets.filter(tweet => tweet.author_id === this.me.id);
+  }
+
+  /**
+   * Our replies to a tweet
+   */
+  repliesTo(tweetId: string): EmulatedTweet[] {
+    return this.postedTweets().filter(tweet =>
+      tweet.referenced_tweets?.some(ref => ref.type === 'replied_to' && ref.id === tweetId)
+    );
+  }
+
+  openStreams(): number {
+    return this.streams.size;
+  }
+
+  private createApp(): express.Express {
+    const app = express();
+    app.use(express.json());
+    app.use('/2', (req, res, next) => this.rateLimit(req, res, next));
+
+    app.get('/2/users/me', (_req, res) => {
+      res.json({ data: this.me });
+    });
+
+    app.get('/2/users/:id/tweets', (req, res) => {
+      const tweets = this.newestFirst(this.tweets.filter(tweet => tweet.author_id === req.params['id']));
+      res.json(this.page(tweets, Number(req.query['max_results']) || 10));
+    });
+
+    app.post('/2/tweets', (req, res) => this.postTweet(req, res));
+
+    app.post('/2/media/upload', express.raw({ type: 'multipart/form-data', limit: '10mb' }), (req, res) =>
+      this.uploadMedia(req, res)
+    );
+
+    app.get('/2/tweets/search/recent', (req, res) => {
+      const query = String(req.query['query'] ?? '');
+      const sinceId = req.query['since_id'] ? String(req.query['since_id']) : null;
+      const startTime = req.query['start_time'] ? Date.parse(String(req.query['start_time'])) : null;
+      const endTime = req.query['end_time'] ? Date.parse(String(req.query['end_time'])) : null;
+      // Our next_token is the ID of the last tweet on the previous page
+      const nextToken = req.query['next_token'] ? String(req.query['next_token']) : null;
+      const tweets = this.newestFirst(this.tweets.filter(tweet =>
+        (!sinceId || compareIds(tweet.id, sinceId) > 0) &&
+        (!nextToken || compareIds(tweet.id, nextToken) < 0) &&
+        (startTime === null || Date.parse(tweet.created_at) >= startTime) &&
+        (endTime === null || Date.parse(tweet.created_at) <= endTime) &&
+        this.matches(query, tweet)
+      ));
+      res.json(this.page(tweets, Number(req.query['max_results']) || 10));
+    });
+
+    app.get('/2/tweets/search/stream/rules', (_req, res) => {
+      res.json({
+        ...(this.rules.length > 0 ? { data: this.rules } : {}),
+        meta: { sent: new Date().toISOString(), result_count: this.rules.length }
+      });
+    });
+
+    app.post('/2/tweets/search/stream/rules', (req, res) => this.updateRules(req, res));
+
+    app.get('/2/tweets/search/stream', (req, res) => this.openStream(req, res));
+
+    // Control endpoints for driving the emulator from outside the process
+    app.post('/emulator/mentions', (req, res) => {
+      const { text, author, inReplyTo } = req.body as Partial<ScriptedTweet>;
+      if (typeof text !== 'string' || typeof author !== 'string') {
+        res.status(400).json({ status: 'error', message: 'text and author are required' });
+        return;
+      }
+      res.status(201).json({ status: 'success', tweet: this.mention(text, author, inReplyTo) });
+    });
+
+    app.get('/emulator/tweets', (_req, res) => {
+      res.json({ status: 'success', tweets: this.tweets });
+    });
+
+    return app;
+  }
+
+  /**
+   * Count the request against its endpoint's window. The stream's single
+   * connection isn't counted.
+   */
+  private rateLimit(req: Request, res: Response, next: NextFunction): void {
+    if (req.path === '/tweets/search/stream') {
+      next();
+      return;
+    }
+
+    const endpoint = endpointKey(req.method, new URL(req.originalUrl, 'http://localhost'));
+    const limit = this.options.rateLimits?.[endpoint] ?? DEFAULT_RATE_LIMIT;
+    const now = Date.now();
+    let window = this.windows.get(endpoint);
+    if (!window || window.resetAt <= now) {
+      window = { used: 0, resetAt: now + RATE_LIMIT_WINDOW_MS };
+      this.windows.set(endpoint, window);
+    }
+
+    const allowed = window.used < limit;
+    if (allowed) {
+      window.used++;
+    }
+    res.setHeader('x-rate-limit-limit', String(limit));
+    res.setHeader('x-rate-limit-remaining', String(limit - window.used));
+    res.setHeader('x-rate-limit-reset', String(Math.ceil(window.resetAt / 1000)));
+
+    if (!allowed) {
+      res.status(429).json({ title: 'Too Many Requests', detail: 'Too Many Requests', status: 429 });
+      return;
+    }
+    next();
+  }
+
+  private postTweet(req: Request, res: Response): void {
+    const body = req.body as {
+      text?: string;
+      reply?: { in_reply_to_tweet_id?: string };
+      media?: { media_ids?: string[] };
+    };
+    if (typeof body.text !== 'string' || body.text.length === 0) {
+      res.status(400).json({ title: 'Invalid Request', detail: 'text is required', status: 400 });
+      return;
+    }
+
+    const inReplyTo = body.reply?.in_reply_to_tweet_id;
+    if (inReplyTo && !this.tweets.some(tweet => tweet.id === inReplyTo)) {
+      res.status(403).json({ title: 'Forbidden', detail: 'The tweet you are replying to does not exist', status: 403 });
+      return;
+    }
+
+    const mediaIds = body.media?.media_ids ?? [];
+    if (mediaIds.some(id => !this.media.get(id)?.finalized)) {
+      res.status(400).json({ title: 'Invalid Request', detail: 'Media must be uploaded before use', status: 400 });
+      return;
+    }
+
+    const tweet = this.addTweet(this.me, body.text, inReplyTo, mediaIds);
+    res.status(201).json({ data: { id: tweet.id, text: tweet.text } });
+  }
+
+  /**
+   * Chunked media upload. Only the form fields are read; the bytes themselves
+   * are dropped.
+   */
+  private uploadMedia(req: Request, res: Response): void {
+    const form = Buffer.isBuffer(req.body) ? req.body.toString('latin1') : '';
+    const field = (name: string): string | undefined =>
+      new RegExp(`name="${name}"\\r\\n\\r\\n([^\\r]*)`).exec(form)?.[1];
+
+    const command = field('command');
+    if (command === 'INIT') {
+      const id = this.generateId();
+      this.media.set(id, { id, mediaType: field('media_type') ?? 'application/octet-stream', segments: 0, finalized: false });
+      res.json({ data: { id, media_key: `3_${id}`, expires_after_secs: 86400 } });
+      return;
+    }
+
+    const upload = this.media.get(field('media_id') ?? '');
+    if (!upload || upload.finalized || (command !== 'APPEND' && command !== 'FINALIZE')) {
+      res.status(400).json({ title: 'Invalid Request', detail: 'Unknown upload or command', status: 400 });
+      return;
+    }
+
+    if (command === 'APPEND') {
+      upload.segments++;
+      res.status(204).end();
+      return;
+    }
+
+    upload.finalized = upload.segments > 0;
+    if (!upload.finalized) {
+      res.status(400).json({ title: 'Invalid Request', detail: 'No media was appended', status: 400 });
+      return;
+    }
+    res.json({ data: { id: upload.id, media_key: `3_${upload.id}` } });
+  }
+
+  private updateRules(req: Request, res: Response): void {
+    const body = req.body as { add?: Array<{ value: string; tag?: string }>; delete?: { ids?: string[] } };
+    const sent = new Date().toISOString();
+
+    if (body.delete?.ids) {
+      const ids = new Set(body.delete.ids);
+      const before = this.rules.length;
+      this.rules = this.rules.filter(rule => !ids.has(rule.id));
+      const deleted = before - this.rules.length;
+      res.json({ meta: { sent, summary: { deleted, not_deleted: ids.size - deleted } } });
+      return;
+    }
+
+    const added = (body.add ?? []).map(rule => ({
+      id: this.generateId(),
+      value: rule.value,
+      ...(rule.tag ? { tag: rule.tag } : {})
+    }));
+    this.rules.push(...added);
+    res.status(201).json({
+      data: added,
+      meta: { sent, summary: { created: added.length, not_created: 0, valid: added.length, invalid: 0 } }
+    });
+  }
+
+  private openStream(req: Request, res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'application/json');
+    res.flushHeaders();
+    this.streams.add(res);
+
+    // Twitter sends a blank line every 20 seconds to show the connection is alive
+    const keepAlive = setInterval(() => res.write('\r\n'), this.options.keepAliveMs ?? KEEP_ALIVE_MS);
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      this.streams.delete(res);
+    });
+    logger.info('Emulator stream connected', { streams: this.streams.size });
+  }
+
+  private addTweet(author: EmulatedUser, text: string, inReplyTo?: string, mediaIds: string[] = []): EmulatedTweet {
+    const id = this.generateId();
+    const parent = inReplyTo ? this.tweets.find(tweet => tweet.id === inReplyTo) : undefined;
+    const tweet: EmulatedTweet = {
+      id,
+      text,
+      author_id: author.id,
+      created_at: new Date().toISOString(),
+      conversation_id: parent?.conversation_id ?? id,
+      ...(parent
+        ? { in_reply_to_user_id: parent.author_id, referenced_tweets: [{ type: 'replied_to' as const, id: parent.id }] }
+        : {}),
+      ...(mediaIds.length > 0 ? { attachments: { media_keys: mediaIds.map(mediaId => `3_${mediaId}`) } } : {})
+    };
+    this.tweets.push(tweet);
+    this.deliver(tweet);
+    return tweet;
+  }
+
+  private deliver(tweet: EmulatedTweet): void {
+    const matchingRules = this.rules
+      .filter(rule => this.matches(rule.value, tweet))
+      .map(rule => ({ id: rule.id, tag: rule.tag ?? '' }));
+    if (matchingRules.length === 0) {
+      return;
+    }
+
+    const line = `${JSON.stringify({ data: tweet, includes: this.includes([tweet]), matching_rules: matchingRules })}\r\n`;
+    for (const stream of this.streams) {
+      stream.write(line);
+    }
+  }
+
+  /**
+   * Whether a tweet matches a rule or search query. Terms are ANDed, `OR`
+   * splits alternatives, parentheses are ignored.
+   */
+  private matches(query: string, tweet: EmulatedTweet): boolean {
+    const terms = query.replace(/[()]/g, ' ').split(/\s+/).filter(Boolean);
+    const alternatives: string[][] = [[]];
+    for (const term of terms) {
+      if (term === 'OR') {
+        alternatives.push([]);
+      } else {
+        alternatives[alternatives.length - 1]!.push(term);
+      }
+    }
+
+    return alternatives.some(group => group.length > 0 && group.every(term => this.matchesTerm(term, tweet)));
+  }
+
+  private matchesTerm(term: string, tweet: EmulatedTweet): boolean {
+    if (term.startsWith('-')) {
+      return !this.matchesTerm(term.slice(1), tweet);
+    }
+
+    const lowered = term.toLowerCase().replace(/^"|"$/g, '');
+    const referenced = tweet.referenced_tweets ?? [];
+    if (lowered === 'is:retweet') {
+      return referenced.some(ref => ref.type === 'retweeted');
+    }
+    if (lowered === 'is:reply') {
+      return referenced.some(ref => ref.type === 'replied_to');
+    }
+    if (lowered.startsWith('from:')) {
+      return this.users.get(tweet.author_id)?.username.toLowerCase() === lowered.slice('from:'.length);
+    }
+    return tweet.text.toLowerCase().includes(lowered);
+  }
+
+  private page(tweets: EmulatedTweet[], maxResults: number): Record<string, unknown> {
+    const data = tweets.slice(0, maxResults);
+    return {
+      ...(data.length > 0 ? { data, includes: this.includes(data) } : {}),
+      meta: {
+        result_count: data.length,
+        ...(data.length > 0 ? { newest_id: data[0]!.id, oldest_id: data[data.length - 1]!.id } : {}),
+        ...(tweets.length > data.length ? { next_token: data[data.length - 1]!.id } : {})
+      }
+    };
+  }
+
+  private includes(tweets: EmulatedTweet[]): { users: EmulatedUser[] } {
+    const authorIds = new Set(tweets.map(tweet => tweet.author_id));
+    return { users: [...authorIds].flatMap(id => this.users.get(id) ?? []) };
+  }
+
+  private newestFirst(tweets: EmulatedTweet[]): EmulatedTweet[] {
+    return [...tweets].sort((a, b) => compareIds(b.id, a.id));
+  }
+
+  private findUser(username: string): EmulatedUser | undefined {
+    const lowered = username.toLowerCase();
+    return [...this.users.values()].find(user => user.username.toLowerCase() === lowered);
+  }
+
+  private createUser(username: string): EmulatedUser {
+    const user = {
+      id: this.generateId(),
+      username,
+      name: username,
+      created_at: new Date().toISOString()
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  private generateId(): string {
+    this.nextId += 1n;
+    return this.nextId.toString();
+  }
+}
+
+async function runEmulator(): Promise<void> {
+  const port = Number(process.env['TWITTER_EMULATOR_PORT'] || 4010);
+  const scriptFile = process.env['TWITTER_EMULATOR_SCRIPT'];
+  const script = scriptFile ? (JSON.parse(readFileSync(scriptFile, 'utf8')) as ScriptedTweet[]) : [];
+
+  const emulator = new TwitterEmulator();
+  const baseUrl = await emulator.start(port, script);
+  logger.info(`Twitter emulator listening, set TWITTER_API_BASE_URL=${baseUrl}`, {
+    scriptedTweets: script.length
+  });
+
+  process.on('SIGINT', () => {
+    void emulator.stop().then(() => process.exit(0));
+  });
+}
+
+// Run standalone: `npm run twitter:emulator`
+const isMainModule = import.meta.url.endsWith(process.argv[1] || '');
+if (isMainModule) {
+  runEmulator().catch(error => {
+    logger.error('Twitter emulator failed', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    process.exit(1);
+  });
+}
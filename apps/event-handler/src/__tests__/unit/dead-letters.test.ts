@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type {
+  DeadLetterEntry,
+  DeadLetterFilter,
+  DeadLetterPage,
+  DeadLetterStats
+} from '@sothebais/packages/utils/dead-letter';
+import type { DeadLetterRetryResult } from '@sothebais/packages/utils/events';
+import { createDeadLetterRouter } from '../../events/dead-letters.js';
+
+const entry = (id: string, status: DeadLetterEntry['status']): DeadLetterEntry => ({
+  id,
+  subscription: 'lot:bid:accepted',
+  eventType: 'lot:bid:accepted',
+  payload: '{}',
+  status,
+  attempts: status === 'quarantined' ? 3 : 1,
+  firstFailedAt: 1,
+  lastFailedAt: 1,
+  lastError: 'stream-manager unavailable',
+  poison: false
+});
+
+describe('Dead letter routes', () => {
+  let server: Server;
+  let baseUrl: string;
+  let deadLetters: {
+    list: Mock<[DeadLetterFilter], Promise<DeadLetterPage>>;
+    get: Mock<[string], Promise<DeadLetterEntry | null>>;
+    stats: Mock<[], Promise<DeadLetterStats>>;
+    purge: Mock<[string[] | DeadLetterFilter], Promise<number>>;
+  };
+  let retryDeadLetter: Mock<[string], Promise<DeadLetterRetryResult>>;
+
+  beforeEach(async () => {
+    const entries = [entry('a', 'quarantined'), entry('b', 'retrying')];
+    deadLetters = {
+      list: vi.fn(async (filter: DeadLetterFilter) => {
+        const matching = entries.filter(item => !filter.status || item.status === filter.status);
+        return { total: matching.length, entries: matching };
+      }),
+      get: vi.fn(async (id: string) => entries.find(item => item.id === id) ?? null),
+      stats: vi.fn(async (): Promise<DeadLetterStats> => ({ depth: 2, retrying: 1, quarantined: 1, byType: { 'lot:bid:accepted': 2 } })),
+      purge: vi.fn(async (_target: string[] | DeadLetterFilter) => 1)
+    };
+    retryDeadLetter = vi.fn(async (id: string): Promise<DeadLetterRetryResult> =>
+      id === 'missing' ? { id, outcome: 'not_found' } : { id, outcome: 'succeeded' });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/dead-letters', createDeadLetterRouter(deadLetters as never, { retryDeadLetter } as never));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/dead-letters`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const call = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('lists, counts and inspects entries', async () => {
+    expect(await call('?status=quarantined')).toMatchObject({ status: 200, body: { total: 1, entries: [{ id: 'a' }] } });
+    expect(await call('?status=dead')).toEqual({ status: 400, body: { error: 'status must be retrying or quarantined' } });
+    expect(await call('/stats')).toMatchObject({ status: 200, body: { depth: 2, quarantined: 1 } });
+    expect(await call('/b')).toMatchObject({ status: 200, body: { id: 'b', status: 'retrying' } });
+    expect(await call('/missing')).toEqual({ status: 404, body: { error: 'Dead letter not found' } });
+  });
+
+  it('retries one entry, or every entry matching a filter', async () => {
+    expect(await call('/a/retry', { method: 'POST' })).toEqual({ status: 200, body: { id: 'a', outcome: 'succeeded' } });
+    expect(await call('/missing/retry', { method: 'POST' })).toMatchObject({ status: 404 });
+
+    const bulk = await call('/retry', { method: 'POST', body: JSON.stringify({ status: 'quarantined' }) });
+    expect(bulk).toMatchObject({ status: 200, body: { succeeded: 1, failed: 0, notFound: 0 } });
+    expect(retryDeadLetter).toHaveBeenLastCalledWith('a');
+
+    const byId = await call('/retry', { method: 'POST', body: JSON.stringify({ ids: ['b', 'missing'] }) });
+    expect(byId).toMatchObject({ status: 200, body: { succeeded: 1, notFound: 1 } });
+  });
+
+  it('only empties the whole queue when asked to', async () => {
+    expect(await call('', { method: 'DELETE' })).toMatchObject({ status: 400 });
+    expect(await call('?all=true', { method: 'DELETE' })).toEqual({ status: 200, body: { purged: 1 } });
+    expect(deadLetters.purge).toHaveBeenLastCalledWith({});
+    expect(await call('/a', { method: 'DELETE' })).toEqual({ status: 200, body: { purged: 1 } });
+    expect(deadLetters.purge).toHaveBeenLastCalledWith(['a']);
+  });
+});
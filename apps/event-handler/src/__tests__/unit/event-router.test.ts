@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import type { Event } from '@sothebais/packages/types/events';
+import EventRouter from '../../events/router.js';
+import { SseHub } from '../../events/sse.js';
+
+// Just enough of an SSE request/response pair to see what gets written
+function connect(hub: SseHub, query: Record<string, string | string[]> = {}) {
+  const req = Object.assign(new EventEmitter(), { query }) as unknown as Request;
+  const written: string[] = [];
+  const res = {
+    setHeader: vi.fn(),
+    write: (chunk: string) => written.push(chunk)
+  } as unknown as Response;
+  hub.addClient(req, res);
+  const events = () => written.filter(chunk => chunk.startsWith('id: ')).map(chunk => chunk.split('\n')[1]);
+  return { req, events };
+}
+
+const event = (type: string, source: string): Event => ({
+  id: `${type}-${source}`,
+  timestamp: Date.now(),
+  type,
+  source,
+  version: '1.0.0',
+  data: {}
+} as unknown as Event);
+
+describe('EventRouter', () => {
+  let hub: SseHub;
+  let router: EventRouter;
+
+  beforeEach(() => {
+    hub = new SseHub();
+    router = new EventRouter(hub);
+  });
+
+  it('pushes events to the SSE clients whose type and source filters match', async () => {
+    const all = connect(hub);
+    const bids = connect(hub, { type: 'lot:bid:placed,lot:bid:accepted' });
+    const stream = connect(hub, { source: ['STREAM_MANAGER'], type: 'stream:start' });
+
+    await router.broadcast(event('lot:bid:placed', 'AUCTION_ENGINE'));
+    await router.broadcast(event('stream:start', 'AUCTION_ENGINE'));
+    await router.broadcast(event('stream:start', 'STREAM_MANAGER'));
+
+    expect(all.events()).toEqual(['event: lot:bid:placed', 'event: stream:start', 'event: stream:start']);
+    expect(bids.events()).toEqual(['event: lot:bid:placed']);
+    expect(stream.events()).toEqual(['event: stream:start']);
+
+    stream.req.emit('close');
+    expect(hub.size).toBe(2);
+  });
+
+  it('runs the handlers and rethrows their errors without broadcasting', async () => {
+    const client = connect(hub);
+    const handled: string[] = [];
+    router.on('lot:start', async (incoming) => {
+      handled.push(incoming.id);
+    });
+    router.on('lot:end', async () => {
+      throw new Error('lot not found');
+    });
+
+    await router.processEvent(event('lot:start', 'AUCTION_ENGINE'));
+    await expect(router.processEvent(event('lot:end', 'AUCTION_ENGINE'))).rejects.toThrow('lot not found');
+
+    expect(handled).toEqual(['lot:start-AUCTION_ENGINE']);
+    // Broadcasting listens to the live events on its own, so a failed handler holds nothing back
+    expect(client.events()).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { resolve } from 'path';
+import type { Event } from '@sothebais/packages/types/events';
+import { ReactionEngine } from '../../reactions/engine.js';
+import { loadRuleSet, parseRuleSet, RuleSetError } from '../../reactions/rules.js';
+import type { RuleSet } from '../../reactions/rules.js';
+import type { SceneAssetChanges } from '../../reactions/stream-manager-client.js';
+
+const RULES_FILE = resolve(__dirname, '../../../config/reactions.json');
+
+const event = (type: string, data: Record<string, unknown>): Event => ({
+  id: `${type}-event`,
+  timestamp: Date.now(),
+  type,
+  source: 'AUCTION_ENGINE',
+  version: '1.0.0',
+  data
+} as unknown as Event);
+
+describe('ReactionEngine', () => {
+  let ruleSet: RuleSet;
+  let updateAsset: Mock<[string, SceneAssetChanges], Promise<void>>;
+
+  beforeEach(async () => {
+    ruleSet = await loadRuleSet(RULES_FILE);
+    updateAsset = vi.fn<[string, SceneAssetChanges], Promise<void>>().mockResolvedValue(undefined);
+  });
+
+  it('turns auction events into stream-manager calls with the shipped rules', async () => {
+    const engine = new ReactionEngine(ruleSet, { updateAsset }, false);
+
+    await engine.react(event('lot:start', { lotOrder: 2, artItem: { name: 'Piece', imageUrl: 'https://example.com/2.png' } }));
+    await engine.react(event('lot:bid:accepted', { amount: '1.5', currency: 'ETH', isHighestBid: true }));
+    await engine.react(event('lot:bid:accepted', { amount: '1.0', currency: 'ETH', isHighestBid: false }));
+    await engine.react(event('lot:winner', { amount: '1.5', currency: 'ETH' }));
+
+    expect(updateAsset.mock.calls).toEqual([
+      ['lot_artwork', { source: 'https://example.com/2.png', visible: true }],
+      ['winner_banner', { visible: false }],
+      ['bid_ticker', { source: 'Lot 2 is open for bids', visible: true }],
+      ['bid_ticker', { source: 'High bid: 1.5 ETH', visible: true }],
+      ['winner_banner', { source: 'Sold for 1.5 ETH!', visible: true, hideAfterMs: 15000 }],
+      ['bid_ticker', { visible: false }]
+    ]);
+  });
+
+  it('leaves an asset alone for an event older than its last update', async () => {
+    const engine = new ReactionEngine(ruleSet, { updateAsset }, false);
+    const highBid = (amount: string, timestamp: number): Event =>
+      ({ ...event('lot:bid:accepted', { amount, currency: 'ETH', isHighestBid: true }), timestamp } as Event);
+
+    await engine.react(highBid('2.0', 2000));
+    // Redelivered from the dead letter queue after a higher bid went up
+    const results = await engine.react(highBid('1.5', 1000));
+
+    expect(updateAsset.mock.calls).toEqual([['bid_ticker', { source: 'High bid: 2.0 ETH', visible: true }]]);
+    expect(results).toEqual([expect.objectContaining({ ruleId: 'bid-ticker', status: 'skipped' })]);
+  });
+
+  it('only logs the actions in dry-run mode and skips unfilled sources', async () => {
+    const engine = new ReactionEngine(ruleSet, { updateAsset }, true);
+
+    const results = await engine.react(event('lot:start', { lotOrder: 3 }));
+
+    expect(updateAsset).not.toHaveBeenCalled();
+    expect(results.map(result => [result.ruleId, result.action.asset, result.status])).toEqual([
+      ['lot-start-artwork', 'lot_artwork', 'skipped'],
+      ['lot-start-artwork', 'winner_banner', 'dry_run'],
+      ['lot-start-ticker', 'bid_ticker', 'dry_run']
+    ]);
+  });
+
+  it('registers one route per event type and fails the event when stream-manager does', async () => {
+    const routes = new Map<string, (event: Event) => Promise<void>>();
+    updateAsset.mockRejectedValue(new Error('stream-manager unavailable'));
+    const engine = new ReactionEngine(ruleSet, { updateAsset }, false);
+
+    engine.register({ on: (eventType, handler) => routes.set(eventType, handler) });
+    const extended = event('auction:extended', { extensionCount: 1, maxExtensions: 3 });
+
+    expect([...routes.keys()]).toEqual(['lot:start', 'lot:bid:accepted', 'auction:extended', 'lot:winner']);
+    expect(await engine.react(extended)).toEqual([expect.objectContaining({ status: 'failed', error: 'stream-manager unavailable' })]);
+    // Thrown so the dead letter queue retries the event
+    await expect(routes.get('auction:extended')!(extended)).rejects.toThrow('Reactions failed: extension-ticker (stream-manager unavailable)');
+  });
+
+  it('rejects rules files with unknown events, bad actions or duplicate ids', () => {
+    expect(() => parseRuleSet({
+      version: 2,
+      rules: [
+        { id: 'a', on: 'LOT_BEGIN', actions: [{ action: 'update_asset', asset: 'x' }] },
+        { id: 'a', on: 'LOT_START', actions: [{ action: 'play_sound', asset: 'x' }] }
+      ]
+    })).toThrow(RuleSetError);
+
+    const rule = { id: 'a', on: 'LOT_START', actions: [{ action: 'update_asset', asset: 'x', visible: true }] };
+    expect(() => parseRuleSet({ version: 2, rules: [rule, rule] })).toThrow('rules.1.id: duplicate rule id "a"');
+
+    let error: unknown;
+    try {
+      parseRuleSet({ rules: [] }, 'reactions.json');
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toMatchObject({ issues: ['version: Required'] });
+  });
+});
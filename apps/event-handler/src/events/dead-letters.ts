@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { DeadLetterFilter, DeadLetterQueue } from '@sothebais/packages/utils/dead-letter';
+import type { DeadLetterRetryResult, EventClient } from '@sothebais/packages/utils/events';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+type DeadLetters = Pick<DeadLetterQueue, 'list' | 'get' | 'stats' | 'purge'>;
+type Retrier = Pick<EventClient, 'retryDeadLetter'>;
+
+function parseFilter(source: Record<string, unknown>): DeadLetterFilter | string {
+  const { status, type } = source;
+  if (status !== undefined && status !== 'retrying' && status !== 'quarantined') {
+    return 'status must be retrying or quarantined';
+  }
+  if (type !== undefined && typeof type !== 'string') {
+    return 'type must be an event type';
+  }
+  return {
+    ...(status !== undefined && { status }),
+    ...(type !== undefined && { eventType: type })
+  };
+}
+
+function parseCount(value: unknown, fallback: number): number {
+  const count = Number(value ?? fallback);
+  return Number.isInteger(count) && count >= 0 ? count : fallback;
+}
+
+/**
+ * Routes to inspect and manage this service's dead letter queue:
+ *
+ * - GET    /               entries, filtered by ?status= and ?type=, paged by ?offset= and ?limit=
+ * - GET    /stats          depth, by status and by event type
+ * - GET    /:id            one entry
+ * - POST   /:id/retry      retry one entry now
+ * - POST   /retry          retry { ids } or every entry matching { status, type }
+ * - DELETE /:id            purge one entry
+ * - DELETE /               purge every entry matching ?status= and ?type=, or ?all=true
+ */
+export function createDeadLetterRouter(deadLetters: DeadLetters, retrier: Retrier): Router {
+  const router = Router();
+
+  const fail = (res: Response, action: string, error: unknown) => {
+    logger.error({ component: 'dead-letters', error: (error as Error).message }, `Failed to ${action}`);
+    res.status(500).json({ error: `Failed to ${action}` });
+  };
+
+  router.get('/', async (req: Request, res: Response) => {
+    const filter = parseFilter(req.query);
+    if (typeof filter === 'string') {
+      return res.status(400).json({ error: filter });
+    }
+    try {
+      const limit = Math.min(parseCount(req.query['limit'], DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+      res.json(await deadLetters.list(filter, parseCount(req.query['offset'], 0), limit));
+    } catch (error) {
+      fail(res, 'list dead letters', error);
+    }
+  });
+
+  router.get('/stats', async (_req: Request, res: Response) => {
+    try {
+      res.json(await deadLetters.stats());
+    } catch (error) {
+      fail(res, 'get dead letter stats', error);
+    }
+  });
+
+  router.post('/retry', async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const { ids } = body;
+    if (ids !== undefined && !(Array.isArray(ids) && ids.every(id => typeof id === 'string'))) {
+      return res.status(400).json({ error: 'ids must be a list of entry IDs' });
+    }
+    const filter = parseFilter(body);
+    if (typeof filter === 'string') {
+      return res.status(400).json({ error: filter });
+    }
+
+    try {
+      const targets = ids ?? (await deadLetters.list(filter, 0, MAX_PAGE_SIZE)).entries.map(entry => entry.id);
+      // One at a time, so a bulk retry doesn't flood whatever the handlers call
+      const results: DeadLetterRetryResult[] = [];
+      for (const id of targets as string[]) {
+        results.push(await retrier.retryDeadLetter(id));
+      }
+      const count = (outcome: DeadLetterRetryResult['outcome']) => results.filter(result => result.outcome === outcome).length;
+      logger.info({ component: 'dead-letters', retried: results.length }, 'Bulk retry of dead letters');
+      res.json({
+        succeeded: count('succeeded'),
+        failed: count('failed'),
+        notFound: count('not_found'),
+        results
+      });
+    } catch (error) {
+      fail(res, 'retry dead letters', error);
+    }
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const entry = await deadLetters.get(req.params['id']!);
+      if (!entry) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+      res.json(entry);
+    } catch (error) {
+      fail(res, 'get dead letter', error);
+    }
+  });
+
+  router.post('/:id/retry', async (req: Request, res: Response) => {
+    try {
+      const result = await retrier.retryDeadLetter(req.params['id']!);
+      if (result.outcome === 'not_found') {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+      res.json(result);
+    } catch (error) {
+      fail(res, 'retry dead letter', error);
+    }
+  });
+
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const purged = await deadLetters.purge([req.params['id']!]);
+      if (purged === 0) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+      res.json({ purged });
+    } catch (error) {
+      fail(res, 'purge dead letter', error);
+    }
+  });
+
+  router.delete('/', async (req: Request, res: Response) => {
+    const filter = parseFilter(req.query);
+    if (typeof filter === 'string') {
+      return res.status(400).json({ error: filter });
+    }
+    // Emptying the whole queue has to be asked for
+    if (Object.keys(filter).length === 0 && req.query['all'] !== 'true') {
+      return res.status(400).json({ error: 'Pass status, type or all=true' });
+    }
+    try {
+      res.json({ purged: await deadLetters.purge(filter) });
+    } catch (error) {
+      fail(res, 'purge dead letters', error);
+    }
+  });
+
+  return router;
+}
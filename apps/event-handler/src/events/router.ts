@@ -1,63 +1,53 @@
 import { logger } from '../utils/logger.js';
-import type { RedisClientType } from 'redis';
-
-// Define types
-interface Event {
-  id?: string;
-  type: string;
-  payload: any;
-  source?: string;
-}
-
-// Import metrics (these were missing in the original file)
-// Assuming they're defined in the metrics module
 import { metrics } from '../middleware/metrics.js';
+import type { Event } from '@sothebais/packages/types/events';
+import type { SseHub } from './sse.js';
+
+export type EventRouteHandler = (event: Event) => Promise<void>;
 
-// Need to add these metrics that were referenced but not defined
 const eventCounter = metrics.eventCounter;
-// Adding a dummy implementation since this wasn't defined before
-const eventProcessingDuration = {
-  observe: (labels: Record<string, string>, value: number) => {
-    console.log(`Event processing duration: ${value}s for type ${labels['type']}`);
-  }
-};
+const eventProcessingDuration = metrics.eventProcessingDuration;
 
 class EventRouter {
-  private redisClient: RedisClientType;
-  private handlers: Map<string, (payload: any) => Promise<void>>;
+  private hub: Pick<SseHub, 'broadcast'>;
+  private handlers: Map<string, Set<EventRouteHandler>>;
 
-  constructor(redisClient: RedisClientType) {
-    this.redisClient = redisClient;
+  constructor(hub: Pick<SseHub, 'broadcast'>) {
+    this.hub = hub;
     this.handlers = new Map();
   }
 
   // Register an event handler
-  on(eventType: string, handler: (payload: any) => Promise<void>): void {
-    this.handlers.set(eventType, handler);
+  on(eventType: string, handler: EventRouteHandler): void {
+    if (!this.handlers.has(eventType)) {
+      this.handlers.set(eventType, new Set());
+    }
+    this.handlers.get(eventType)?.add(handler);
     logger.info({ eventType }, 'Event handler registered');
   }
 
-  // Process an incoming event
+  // Run an incoming event's handlers. A handler error is rethrown so the event
+  // bus dead-letters the event for a retry. SSE clients get the event through
+  // broadcast, fed from the live pub/sub messages, so a failing handler can't hold it back.
   async processEvent(event: Event): Promise<void> {
-    const { type, payload, source } = event;
+    const { type, source } = event;
     const startTime = process.hrtime();
     const eventContext = {
-      eventId: event.id || Date.now().toString(),
+      eventId: event.id,
       eventType: type,
       source: source || 'unknown',
-      payloadSize: JSON.stringify(payload).length,
+      payloadSize: JSON.stringify(event.data ?? null).length,
     };
 
     try {
-      const handler = this.handlers.get(type);
-      if (!handler) {
-        logger.warn({ ...eventContext }, 'No handler registered for event type');
-        return;
+      const handlers = this.handlers.get(type);
+      if (handlers && handlers.size > 0) {
+        logger.info({ ...eventContext, state: 'processing' }, 'Processing event');
+        for (const handler of handlers) {
+          await handler(event);
+        }
       }
 
-      logger.info({ ...eventContext, state: 'processing' }, 'Processing event');
-      await handler(payload);
-      
       const [seconds, nanoseconds] = process.hrtime(startTime);
       const duration = seconds + nanoseconds / 1e9;
 
@@ -65,7 +55,7 @@ class EventRouter {
       eventCounter.inc({ type, status: 'success' });
       eventProcessingDuration.observe({ type }, duration);
 
-      logger.info({ 
+      logger.debug({
         ...eventContext,
         duration,
         success: true,
@@ -80,7 +70,7 @@ class EventRouter {
       eventCounter.inc({ type, status: 'error' });
       eventProcessingDuration.observe({ type }, duration);
 
-      logger.error({ 
+      logger.error({
         ...eventContext,
         error: (error as Error).message,
         stack: (error as Error).stack,
@@ -92,34 +82,17 @@ class EventRouter {
     }
   }
 
-  // Broadcast an event to all connected clients
+  // Broadcast an event to the connected clients that want it
   async broadcast(event: Event): Promise<void> {
-    const eventContext = {
-      eventId: event.id || Date.now().toString(),
+    const clients = this.hub.broadcast(event);
+    logger.debug({
+      eventId: event.id,
       eventType: event.type,
-      source: event.source || 'unknown'
-    };
-
-    try {
-      // Store event in Redis for persistence
-      await this.redisClient.lPush('events:history', JSON.stringify(event));
-      
-      // Broadcast to connected clients
-      // Implementation of broadcasting will depend on how we store connected clients
-      
-      logger.info({ 
-        ...eventContext,
-        state: 'broadcasted'
-      }, 'Event broadcasted successfully');
-    } catch (error) {
-      logger.error({ 
-        ...eventContext,
-        error: (error as Error).message,
-        state: 'broadcast_failed'
-      }, 'Error broadcasting event');
-      throw error;
-    }
+      source: event.source || 'unknown',
+      clients,
+      state: 'broadcasted'
+    }, 'Event broadcasted successfully');
   }
 }
 
-export default EventRouter; 
\ No newline at end of file
+export default EventRouter;
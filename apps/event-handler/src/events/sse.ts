@@ -0,0 +1,94 @@
+import type { Request, Response } from 'express';
+import type { Event } from '@sothebais/packages/types/events';
+import { logger } from '../utils/logger.js';
+import { metrics } from '../middleware/metrics.js';
+
+// What a client asked to receive; an empty list lets everything through
+export interface SseFilter {
+  types: string[];
+  sources: string[];
+}
+
+// Accepts both ?type=a,b and ?type=a&type=b
+function parseList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+export function parseSseFilter(query: Request['query']): SseFilter {
+  return {
+    types: parseList(query['type']),
+    sources: parseList(query['source'])
+  };
+}
+
+export function matchesFilter(event: Event, filter: SseFilter): boolean {
+  return (filter.types.length === 0 || filter.types.includes(event.type)) &&
+    (filter.sources.length === 0 || filter.sources.includes(event.source));
+}
+
+/**
+ * SSE Hub
+ *
+ * Keeps the connected /events clients and pushes each event to the ones
+ * whose filter it matches.
+ */
+export class SseHub {
+  private clients = new Map<Response, SseFilter>();
+
+  addClient(req: Request, res: Response): void {
+    const filter = parseSseFilter(req.query);
+
+    // Set headers for Server-Sent Events
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    // Send initial keep-alive comment
+    res.write(':keep-alive\n\n');
+
+    this.clients.set(res, filter);
+    metrics.activeClientsGauge.set(this.clients.size);
+    logger.info({
+      component: 'sse',
+      clientsCount: this.clients.size,
+      filter
+    }, 'Client connected to event stream');
+
+    // Handle client disconnect
+    req.on('close', () => {
+      this.clients.delete(res);
+      metrics.activeClientsGauge.set(this.clients.size);
+      logger.info({
+        component: 'sse',
+        clientsCount: this.clients.size
+      }, 'Client disconnected from event stream');
+    });
+  }
+
+  broadcast(event: Event): number {
+    const eventString = `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    let sent = 0;
+    this.clients.forEach((filter, client) => {
+      if (!matchesFilter(event, filter)) return;
+      try {
+        client.write(eventString);
+        sent++;
+      } catch (err) {
+        logger.error({
+          error: (err as Error).message,
+          component: 'sse'
+        }, 'Error sending event to client');
+      }
+    });
+    return sent;
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+}
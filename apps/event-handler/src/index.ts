@@ -5,6 +5,15 @@ import Docker from 'dockerode';
 import cors from 'cors';
 import { logger as appLogger } from './utils/logger.js';
 import { metricsMiddleware, metricsEndpoint, metrics } from './middleware/metrics.js';
+import { EventClient } from '@sothebais/packages/utils/events';
+import { CHANNELS, CHANNEL_EVENT_TYPES } from '@sothebais/packages/schema/redis/keys';
+import { EVENT_TYPES } from '@sothebais/packages/types/events';
+import EventRouter from './events/router.js';
+import { SseHub } from './events/sse.js';
+import { createDeadLetterRouter } from './events/dead-letters.js';
+import { ReactionEngine } from './reactions/engine.js';
+import { loadRuleSet } from './reactions/rules.js';
+import { StreamManagerClient } from './reactions/stream-manager-client.js';
 
 // Define types
 interface SystemLog {
@@ -78,9 +87,11 @@ let redisConnectionState: RedisConnectionState = {
 // Use the imported logger instead of creating a new one
 const logger = appLogger;
 
+const redisUrl = process.env['REDIS_URL'] || 'redis://redis:6379';
+
 // Initialize Redis client
 const redisClient = Redis.createClient({
-  url: process.env['REDIS_URL'] || 'redis://redis:6379',
+  url: redisUrl,
   socket: {
     reconnectStrategy: (retries: number) => {
       redisConnectionState.reconnectAttempts = retries;
@@ -90,6 +101,22 @@ const redisClient = Redis.createClient({
   }
 });
 
+// Events arrive through this service's consumer group, so the ones published
+// while it restarts are delivered once it is back. Events whose handlers fail
+// are retried from the dead letter queue; lot and bid reactions go stale
+// quickly, so they get fewer and shorter attempts.
+const eventClient = new EventClient({
+  redisUrl,
+  serviceName: 'EVENT_HANDLER',
+  mode: 'streams',
+  retryPolicies: {
+    LOT_START: { maxAttempts: 3, maxDelayMs: 10000 },
+    BID_ACCEPTED: { maxAttempts: 3, maxDelayMs: 10000 },
+    AUCTION_EXTENDED: { maxAttempts: 3, maxDelayMs: 10000 },
+    WINNER_DETERMINED: { maxAttempts: 3, maxDelayMs: 10000 }
+  }
+});
+
 // Initialize Docker client
 const docker = new Docker({ socketPath: '/var/run/docker.sock' });
 
@@ -101,7 +128,7 @@ app.use(cors({
   origin: process.env['NODE_ENV'] === 'development' 
     ? ['http://localhost:3000'] 
     : (process.env['FRONTEND_URL'] ? [process.env['FRONTEND_URL']] : '*'),
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Accept', 'If-Modified-Since'],
   credentials: true
 }));
@@ -164,8 +191,12 @@ app.get('/system-logs', (_req: Request, res: Response) => {
   }
 });
 
-// Store connected SSE clients
-const clients = new Set<Response>();
+// Connected SSE clients, and the router that feeds them
+const sseHub = new SseHub();
+const eventRouter = new EventRouter(sseHub);
+
+// Show reactions to auction events, from the rules file
+let reactionEngine: ReactionEngine | null = null;
 
 // Health check endpoint
 app.get('/health', (_req: Request, res: Response) => {
@@ -330,53 +361,56 @@ app.get('/logs', async (_req: Request, res: Response) => {
   }
 });
 
-function updateActiveClientsMetric() {
-  metrics.activeClientsGauge.set(clients.size);
-}
-
-// Event stream endpoint
+// Event stream endpoint. Narrow it down with ?type=lot:bid:placed,lot:start
+// and/or ?source=AUCTION_ENGINE
 app.get('/events', (req: Request, res: Response) => {
-  // Set headers for Server-Sent Events
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  
-  // Send initial keep-alive comment
-  res.write(':keep-alive\n\n');
-  
-  // Add client to the set
-  clients.add(res);
-  updateActiveClientsMetric();
-  
-  logger.info({
-    component: 'sse',
-    clientsCount: clients.size
-  }, 'Client connected to event stream');
-  
-  // Handle client disconnect
-  req.on('close', () => {
-    clients.delete(res);
-    updateActiveClientsMetric();
-    logger.info({
-      component: 'sse',
-      clientsCount: clients.size
-    }, 'Client disconnected from event stream');
-  });
+  sseHub.addClient(req, res);
 });
 
-// Function to broadcast events to all connected clients
-function broadcastEvent(event: string, data: any) {
-  const eventString = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-  clients.forEach(client => {
-    try {
-      client.write(eventString);
-    } catch (err) {
-      logger.error({
-        error: (err as Error).message,
-        component: 'sse'
-      }, 'Error sending event to client');
+// Loaded reaction rules, their version and whether they run dry
+app.get('/reactions', (_req: Request, res: Response) => {
+  if (!reactionEngine) {
+    return res.status(404).json({ error: 'No reaction rules loaded' });
+  }
+  res.json(reactionEngine.describe());
+});
+
+// Events whose handlers failed: list, inspect, retry and purge
+app.use('/dead-letters', createDeadLetterRouter(eventClient.getDeadLetterQueue(), eventClient));
+
+// Load the reaction rules and register them with the router. The service
+// runs without reactions if the file is missing or invalid.
+async function loadReactions() {
+  const file = process.env['REACTION_RULES_PATH'] || 'config/reactions.json';
+  try {
+    const ruleSet = await loadRuleSet(file);
+    const dryRun = process.env['REACTION_RULES_DRY_RUN'] === 'true' || ruleSet.dryRun;
+    reactionEngine = new ReactionEngine(ruleSet, new StreamManagerClient(), dryRun);
+    reactionEngine.register(eventRouter);
+  } catch (err) {
+    logger.error({
+      component: 'reactions',
+      file,
+      error: (err as Error).message
+    }, 'Failed to load reaction rules');
+  }
+}
+
+// Subscribe the router to every event type of every channel, and pass the live
+// pub/sub messages on to this instance's SSE clients. The consumer group shares
+// the events out between instances, while every instance has SSE clients of its own.
+async function subscribeToChannels() {
+  for (const [channel, eventTypes] of Object.entries(CHANNEL_EVENT_TYPES)) {
+    for (const eventType of eventTypes) {
+      await eventClient.listen(EVENT_TYPES[eventType], (event) => eventRouter.broadcast(event));
+      await eventClient.subscribe(EVENT_TYPES[eventType], (event) => eventRouter.processEvent(event), { name: 'router' });
     }
-  });
+    logger.info({
+      component: 'events',
+      channel: CHANNELS[channel as keyof typeof CHANNELS],
+      eventTypes: eventTypes.length
+    }, 'Subscribed to event channel');
+  }
 }
 
 // Connect to Redis and start servers
@@ -385,8 +419,11 @@ async function startApp() {
     // Connect to Redis
     await redisClient.connect();
     
-    // Subscribe to Redis channels
-    // ... subscribe to your Redis channels here ...
+    // Subscribe to the event channels
+    await loadReactions();
+    await eventClient.connect();
+    await subscribeToChannels();
+    eventClient.start();
     
     // Start metrics endpoint
     const metricsServer = app.listen(4390, () => {
@@ -424,7 +461,8 @@ async function startApp() {
     process.on('SIGTERM', async () => {
       logger.info({}, 'SIGTERM received, shutting down gracefully');
       try {
-        // Close Redis connection
+        // Close Redis connections
+        await eventClient.disconnect();
         await redisClient.quit();
         // Close servers
         healthServer.close();
@@ -24,6 +24,13 @@ const eventCounter = new promClient.Counter({
   labelNames: ['type', 'status']
 });
 
+const eventProcessingDuration = new promClient.Histogram({
+  name: 'event_processing_duration_seconds',
+  help: 'Duration of event handling in seconds',
+  labelNames: ['type'],
+  buckets: [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5]
+});
+
 const redisConnectionGauge = new promClient.Gauge({
   name: 'redis_connection_status',
   help: 'Redis connection status (1 for connected, 0 for disconnected)'
@@ -37,6 +44,7 @@ const activeClientsGauge = new promClient.Gauge({
 // Register custom metrics
 register.registerMetric(httpRequestDuration);
 register.registerMetric(eventCounter);
+register.registerMetric(eventProcessingDuration);
 register.registerMetric(redisConnectionGauge);
 register.registerMetric(activeClientsGauge);
 
@@ -68,6 +76,7 @@ export const metricsEndpoint = async (req: Request, res: Response) => {
 
 export const metrics = {
   eventCounter,
+  eventProcessingDuration,
   redisConnectionGauge,
   activeClientsGauge
 }; 
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { EVENT_TYPES } from '@sothebais/packages/types/events';
+import type { Event } from '@sothebais/packages/types/events';
+import { logger } from '../utils/logger.js';
+import type { EventRouteHandler } from '../events/router.js';
+import type { ReactionAction, ReactionRule, RuleSet } from './rules.js';
+import type { StreamManagerClient } from './stream-manager-client.js';
+
+export type ReactionStatus = 'applied' | 'dry_run' | 'skipped' | 'failed';
+
+export interface ReactionResult {
+  ruleId: string;
+  action: ReactionAction;
+  status: ReactionStatus;
+  error?: string;
+}
+
+// Look up a dotted path such as data.artItem.imageUrl
+function lookup(event: Event, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    event
+  );
+}
+
+// Fill {{path}} placeholders from the event; missing values become ''
+function render(template: string, event: Event): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+    const value = lookup(event, path);
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+function matches(rule: ReactionRule, event: Event): boolean {
+  return Object.entries(rule.when ?? {}).every(([path, expected]) => lookup(event, path) === expected);
+}
+
+/**
+ * Reaction Engine
+ *
+ * Runs the rules of a reaction rules file against events from the router and
+ * carries out their actions on stream-manager. A failed action is logged and
+ * the rest still run, then the event fails so the dead letter queue retries
+ * it under its retry policy. In dry-run mode the actions are only logged.
+ *
+ * An event older than the one behind an asset's last update, e.g. one
+ * redelivered from the dead letter queue, doesn't touch that asset again.
+ */
+export class ReactionEngine {
+  // When the event behind each asset's last update happened
+  private assetUpdatedAt = new Map<string, number>();
+
+  constructor(
+    private ruleSet: RuleSet,
+    private streamManager: Pick<StreamManagerClient, 'updateAsset'>,
+    private dryRun: boolean = ruleSet.dryRun
+  ) {}
+
+  /**
+   * Route the event types the rules listen for to this engine
+   */
+  register(router: { on(eventType: string, handler: EventRouteHandler): void }): void {
+    const eventTypes = new Set(this.ruleSet.rules.filter(rule => rule.enabled).map(rule => rule.on));
+    for (const eventType of eventTypes) {
+      router.on(EVENT_TYPES[eventType], async (event) => {
+        const failed = (await this.react(event)).filter(result => result.status === 'failed');
+        if (failed.length > 0) {
+          throw new Error(`Reactions failed: ${failed.map(result => `${result.ruleId} (${result.error})`).join(', ')}`);
+        }
+      });
+    }
+    logger.info({
+      component: 'reactions',
+      version: this.ruleSet.version,
+      rules: this.ruleSet.rules.length,
+      dryRun: this.dryRun
+    }, 'Reaction rules loaded');
+  }
+
+  /**
+   * Run every enabled rule that matches the event. Failed actions are in the
+   * results; the route registered for the event type turns them into an error.
+   */
+  async react(event: Event): Promise<ReactionResult[]> {
+    const results: ReactionResult[] = [];
+    const rules = this.ruleSet.rules.filter(rule =>
+      rule.enabled && EVENT_TYPES[rule.on] === event.type && matches(rule, event));
+
+    for (const rule of rules) {
+      for (const template of rule.actions) {
+        const action = this.renderAction(template, event);
+        results.push(await this.perform(rule, action, event));
+      }
+    }
+    return results;
+  }
+
+  describe(): RuleSet & { dryRun: boolean } {
+    return { ...this.ruleSet, dryRun: this.dryRun };
+  }
+
+  private renderAction(action: ReactionAction, event: Event): ReactionAction {
+    return {
+      ...action,
+      asset: render(action.asset, event),
+      ...(action.source !== undefined && { source: render(action.source, event) })
+    };
+  }
+
+  private async perform(rule: ReactionRule, action: ReactionAction, event: Event): Promise<ReactionResult> {
+    const context = {
+      component: 'reactions',
+      version: this.ruleSet.version,
+      ruleId: rule.id,
+      eventId: event.id,
+      eventType: event.type,
+      action
+    };
+
+    // A placeholder the event didn't fill, e.g. a lot without artwork
+    if (action.source !== undefined && action.source.trim() === '') {
+      logger.warn(context, 'Skipping reaction with an empty source');
+      return { ruleId: rule.id, action, status: 'skipped' };
+    }
+
+    const updatedAt = this.assetUpdatedAt.get(action.asset);
+    if (updatedAt !== undefined && event.timestamp < updatedAt) {
+      logger.info(context, 'Skipping reaction to an event older than the asset');
+      return { ruleId: rule.id, action, status: 'skipped' };
+    }
+
+    if (this.dryRun) {
+      this.assetUpdatedAt.set(action.asset, event.timestamp);
+      logger.info(context, 'Dry run: would update scene asset');
+      return { ruleId: rule.id, action, status: 'dry_run' };
+    }
+
+    try {
+      await this.streamManager.updateAsset(action.asset, {
+        ...(action.source !== undefined && { source: action.source }),
+        ...(action.visible !== undefined && { visible: action.visible }),
+        ...(action.hideAfterMs !== undefined && { hideAfterMs: action.hideAfterMs })
+      });
+      this.assetUpdatedAt.set(action.asset, event.timestamp);
+      logger.info(context, 'Scene asset updated');
+      return { ruleId: rule.id, action, status: 'applied' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ ...context, error: message }, 'Reaction failed');
+      return { ruleId: rule.id, action, status: 'failed', error: message };
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { EVENT_TYPES } from '@sothebais/packages/types/events';
+import type { EventTypeKey } from '@sothebais/packages/types/events';
+
+const eventTypeKeys = Object.keys(EVENT_TYPES) as [EventTypeKey, ...EventTypeKey[]];
+
+// Change an asset of the live scene through stream-manager's /show API.
+// String fields may hold {{path}} placeholders filled from the event.
+const updateAssetActionSchema = z.object({
+  action: z.literal('update_asset'),
+  asset: z.string().min(1),
+  source: z.string().optional(),
+  visible: z.boolean().optional(),
+  hideAfterMs: z.number().int().positive().optional()
+}).strict();
+
+const actionSchema = z.discriminatedUnion('action', [updateAssetActionSchema]);
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  on: z.enum(eventTypeKeys),
+  // Every path must equal its value for the rule to run, e.g. { "data.isHighestBid": true }
+  when: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  enabled: z.boolean().default(true),
+  actions: z.array(actionSchema).min(1)
+}).strict();
+
+const ruleSetSchema = z.object({
+  // Bumped with every change to the file, and logged when it loads
+  version: z.number().int().positive(),
+  dryRun: z.boolean().default(false),
+  rules: z.array(ruleSchema)
+}).strict().superRefine((ruleSet, ctx) => {
+  const seen = new Set<string>();
+  ruleSet.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `duplicate rule id "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export type ReactionAction = z.infer<typeof actionSchema>;
+export type ReactionRule = z.infer<typeof ruleSchema>;
+export type RuleSet = z.infer<typeof ruleSetSchema>;
+
+export class RuleSetError extends Error {
+  constructor(public file: string, public issues: string[]) {
+    super(`Invalid reaction rules in ${file}: ${issues.join('; ')}`);
+    this.name = 'RuleSetError';
+  }
+}
+
+export function parseRuleSet(input: unknown, file: string = 'rules'): RuleSet {
+  const result = ruleSetSchema.safeParse(input);
+  if (!result.success) {
+    throw new RuleSetError(file, result.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`));
+  }
+  return result.data;
+}
+
+/**
+ * Read and validate a reaction rules file
+ */
+export async function loadRuleSet(file: string): Promise<RuleSet> {
+  let input: unknown;
+  try {
+    input = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new RuleSetError(file, [error instanceof Error ? error.message : 'Unknown error']);
+  }
+  return parseRuleSet(input, file);
+}
@@ -0,0 +1,23 @@
+import { HttpClient } from '@sothebais/packages/utils/http-client';
+
+export interface SceneAssetChanges {
+  source?: string;
+  visible?: boolean;
+  hideAfterMs?: number;
+}
+
+/**
+ * The parts of the stream-manager API that reactions call
+ */
+export class StreamManagerClient {
+  private http: HttpClient;
+
+  constructor(baseUrl: string = process.env['STREAM_MANAGER_URL'] || 'http://stream-manager:4200') {
+    // A reaction that arrives late is worse than one that is missed, so keep retries short
+    this.http = new HttpClient(baseUrl, { timeout: 5000, retries: 1 });
+  }
+
+  async updateAsset(id: string, changes: SceneAssetChanges): Promise<void> {
+    await this.http.patch(`/show/assets/${encodeURIComponent(id)}`, changes);
+  }
+}
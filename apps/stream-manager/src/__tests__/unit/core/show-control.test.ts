@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { ShowControl, ShowControlError } from '../../../core/show-control';
+import type { Asset, Scene } from '@sothebais/packages/types/scene';
+
+function asset(id: string, type: Asset['type']): Asset {
+  return {
+    id,
+    type,
+    source: '',
+    position: { x: 0, y: 0 },
+    transform: { scale: 1, rotation: 0, opacity: 1, anchor: { x: 0.5, y: 0.5 } },
+    visible: false,
+    zIndex: 1
+  };
+}
+
+describe('ShowControl', () => {
+  let scene: Scene;
+  let fetchFn: ReturnType<typeof vi.fn>;
+  let showControl: ShowControl;
+
+  beforeEach(() => {
+    scene = {
+      id: 'scene',
+      name: 'Test Scene',
+      background: [],
+      quadrants: new Map([[1, { id: 1, name: 'Top Left', bounds: { left: 0, top: 0, right: 960, bottom: 540 }, padding: 20, assets: [asset('lot_artwork', 'image')] }]]),
+      overlay: [asset('bid_ticker', 'text'), asset('winner_banner', 'text')]
+    } as Scene;
+    fetchFn = vi.fn(async () => ({ ok: true, status: 200, arrayBuffer: async () => new TextEncoder().encode('png').buffer }));
+    showControl = new ShowControl(fetchFn);
+    showControl.attach(scene);
+  });
+
+  afterEach(() => {
+    showControl.cleanup();
+    vi.useRealTimers();
+  });
+
+  it('changes the assets of the attached scene in place', async () => {
+    expect(await showControl.updateAsset('bid_ticker', { source: 'High bid: 2 ETH', visible: true }))
+      .toEqual({ id: 'bid_ticker', type: 'text', layer: 'overlay', source: 'High bid: 2 ETH', visible: true });
+    expect(scene.overlay[0]).toMatchObject({ source: 'High bid: 2 ETH', visible: true });
+    expect(await showControl.updateAsset('missing', { visible: true })).toBeNull();
+  });
+
+  it('downloads remote images once and points the asset at the file', async () => {
+    const url = `https://example.com/art-${Date.now()}.png`;
+    const first = await showControl.updateAsset('lot_artwork', { source: url, visible: true });
+    await showControl.updateAsset('lot_artwork', { source: url });
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(first?.layer).toBe('quadrant');
+    expect(await fs.readFile(first!.source, 'utf8')).toBe('png');
+    await fs.rm(first!.source);
+  });
+
+  it('hides an asset again after hideAfterMs', async () => {
+    vi.useFakeTimers();
+    await showControl.updateAsset('winner_banner', { source: 'Sold!', visible: true, hideAfterMs: 15000 });
+
+    vi.advanceTimersByTime(14999);
+    expect(showControl.getAsset('winner_banner')?.visible).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(showControl.getAsset('winner_banner')?.visible).toBe(false);
+
+    await expect(showControl.updateAsset('winner_banner', { hideAfterMs: -1 })).rejects.toThrow(ShowControlError);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OutputManager, OutputConfigError } from '../../../streaming/output/output-manager';
+import type { OutputDestination } from '../../../streaming/output/output-manager';
+import type { RtmpRelay } from '../../../streaming/output/rtmp-relay';
+
+// Records what the manager does with each relay instead of running ffmpeg
+class FakeRelay {
+  running = false;
+  constructor(public output: string) {}
+
+  start(): void {
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+  }
+
+  getStatus() {
+    return { state: this.running ? 'LIVE' : 'STOPPED', output: this.output };
+  }
+}
+
+describe('OutputManager', () => {
+  let relays: FakeRelay[];
+  let saved: OutputDestination[];
+  let manager: OutputManager;
+
+  const running = (): string[] => relays.filter(relay => relay.running).map(relay => relay.output);
+
+  beforeEach(() => {
+    relays = [];
+    saved = [];
+    manager = new OutputManager(
+      {
+        isReady: () => true,
+        saveOutputDestinations: async (destinations: OutputDestination[]) => {
+          saved = destinations;
+        },
+        getOutputDestinations: async () => saved
+      },
+      destination => {
+        const relay = new FakeRelay(destination.url);
+        relays.push(relay);
+        return relay as unknown as RtmpRelay;
+      }
+    );
+  });
+
+  it('fans out to enabled destinations only once a stream is attached', async () => {
+    await manager.addOutput({ name: 'YouTube', url: 'rtmp://a.rtmp.youtube.com/live2/yt-key' });
+    await manager.addOutput({ name: 'Twitch', url: 'rtmps://live.twitch.tv/app/tw-key', enabled: false });
+    expect(relays).toHaveLength(0);
+
+    await manager.attach('rtmp://127.0.0.1:1935/live/local');
+    expect(running()).toEqual(['rtmp://a.rtmp.youtube.com/live2/yt-key']);
+    expect(manager.listOutputs()).toEqual([
+      { id: 'youtube', name: 'YouTube', url: 'rtmp://a.rtmp.youtube.com/live2/****', enabled: true, relay: expect.objectContaining({ state: 'LIVE' }) },
+      { id: 'twitch', name: 'Twitch', url: 'rtmps://live.twitch.tv/app/****', enabled: false, relay: null }
+    ]);
+
+    await manager.detach();
+    expect(running()).toEqual([]);
+  });
+
+  it('adds, toggles, repoints and removes destinations without touching the others', async () => {
+    await manager.addOutput({ name: 'YouTube', url: 'rtmp://a.rtmp.youtube.com/live2/yt-key' });
+    await manager.attach('rtmp://127.0.0.1:1935/live/local');
+    const [youtube] = relays;
+
+    await manager.addOutput({ name: 'Twitch', url: 'rtmps://live.twitch.tv/app/tw-key' });
+    await manager.updateOutput('twitch', { enabled: false });
+    await manager.updateOutput('twitch', { enabled: true, url: 'rtmps://live.twitch.tv/app/new-key' });
+    expect(running()).toEqual(['rtmp://a.rtmp.youtube.com/live2/yt-key', 'rtmps://live.twitch.tv/app/new-key']);
+
+    expect(await manager.removeOutput('twitch')).toBe(true);
+    expect(running()).toEqual(['rtmp://a.rtmp.youtube.com/live2/yt-key']);
+    expect(relays[0]).toBe(youtube);
+    expect(saved.map(destination => destination.id)).toEqual(['youtube']);
+  });
+
+  it('rejects bad URLs and duplicate ids', async () => {
+    await manager.addOutput({ name: 'YouTube', url: 'rtmp://a.rtmp.youtube.com/live2/yt-key' });
+
+    await expect(manager.addOutput({ name: 'YouTube', url: 'rtmp://b.rtmp.youtube.com/live2/other' }))
+      .rejects.toThrow(OutputConfigError);
+    await expect(manager.addOutput({ name: 'Web', url: 'https://example.com/live' }))
+      .rejects.toMatchObject({ issues: ['url must be an rtmp:// or rtmps:// URL with an app path and stream key'] });
+    expect(await manager.updateOutput('missing', { enabled: true })).toBeNull();
+  });
+
+  it('keeps the enabled flag of a destination registered from config', async () => {
+    saved = [{ id: 'twitter', name: 'Twitter', url: 'rtmp://old.twitter.com/app/old', enabled: false }];
+    await manager.load();
+
+    await manager.registerOutput({ id: 'twitter', name: 'Twitter', url: 'rtmp://live.twitter.com/app/key', enabled: true });
+    expect(manager.getOutput('twitter')).toMatchObject({ enabled: false, url: 'rtmp://live.twitter.com/app/****' });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import type { ChildProcess } from 'child_process';
+import { RtmpRelay, redactRtmpUrl } from '../../../streaming/output/rtmp-relay';
+import { metricsService } from '../../../monitoring/metrics';
+
+// Stands in for an ffmpeg process; exits when killed. Like a real child process
+// it emits 'close' after 'exit', and only 'error' and 'close' if it never started.
+class FakeFfmpeg extends EventEmitter {
+  stdout = new PassThrough();
+  stderr = new PassThrough();
+  signals: string[] = [];
+  started = true;
+
+  kill(signal: string): boolean {
+    this.signals.push(signal);
+    // A process that never started has nothing to signal
+    if (!this.started) return false;
+    this.exit(null, signal);
+    return true;
+  }
+
+  exit(code: number | null, signal: string | null = null): void {
+    this.emit('exit', code, signal);
+    this.emit('close', code, signal);
+  }
+
+  failToSpawn(message: string): void {
+    this.started = false;
+    this.emit('error', new Error(message));
+    this.emit('close', -2, null);
+  }
+
+  progress(bitrate: string, totalSize: number): void {
+    this.stdout.write(`bitrate=${bitrate}\ntotal_size=${totalSize}\nprogress=continue\n`);
+  }
+}
+
+async function flush(): Promise<void> {
+  await vi.advanceTimersByTimeAsync(0);
+}
+
+describe('RtmpRelay', () => {
+  let spawned: Array<{ child: FakeFfmpeg; args: string[] }>;
+  let relay: RtmpRelay;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    spawned = [];
+    relay = new RtmpRelay({
+      name: 'twitter',
+      input: 'rtmp://127.0.0.1:1935/live/local-key',
+      output: 'rtmp://sink.example/live/secret-key',
+      initialBackoffMs: 1000,
+      maxBackoffMs: 4000,
+      stallTimeoutMs: 5000,
+      spawn: (_command, args) => {
+        const child = new FakeFfmpeg();
+        spawned.push({ child, args });
+        return child as unknown as ChildProcess;
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+    vi.useRealTimers();
+  });
+
+  it('goes live on the first progress report and tracks bitrate', async () => {
+    const update = vi.spyOn(metricsService, 'updateRestream');
+    relay.start();
+    expect(relay.getStatus().state).toBe('CONNECTING');
+    expect(spawned[0]!.args).toEqual(expect.arrayContaining(['-c', 'copy', 'rtmp://sink.example/live/secret-key']));
+
+    spawned[0]!.child.progress('2500.1kbits/s', 123456);
+    await flush();
+
+    expect(relay.getStatus()).toMatchObject({
+      state: 'LIVE',
+      output: 'rtmp://sink.example/live/****',
+      bitrateKbps: 2500.1,
+      bytesSent: 123456,
+      lastError: null
+    });
+    expect(update).toHaveBeenCalledWith('twitter', true, 2500.1, 123456);
+  });
+
+  it('reconnects with growing backoff when the destination drops', async () => {
+    relay.start();
+    spawned[0]!.child.stderr.write('Connection refused\n');
+    await flush();
+    spawned[0]!.child.exit(1);
+
+    expect(relay.getStatus()).toMatchObject({ state: 'RECONNECTING', restarts: 1, lastError: 'Connection refused' });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(spawned).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(spawned).toHaveLength(2);
+
+    spawned[1]!.child.exit(1);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(spawned).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(spawned).toHaveLength(3);
+    expect(relay.getStatus().restarts).toBe(2);
+  });
+
+  it('restarts a relay that stops reporting progress', async () => {
+    relay.start();
+    spawned[0]!.child.progress('2500kbits/s', 1000);
+    await flush();
+
+    await vi.advanceTimersByTimeAsync(5500);
+    expect(spawned[0]!.child.signals).toEqual(['SIGKILL']);
+    expect(relay.getStatus()).toMatchObject({ state: 'RECONNECTING', lastError: 'No progress for 5s' });
+  });
+
+  it('retries when ffmpeg cannot be started at all', async () => {
+    relay.start();
+    spawned[0]!.child.failToSpawn('spawn ffmpeg ENOENT');
+
+    expect(relay.getStatus()).toMatchObject({ state: 'RECONNECTING', restarts: 1, lastError: 'spawn ffmpeg ENOENT' });
+    // Nothing left for the stall watchdog to kill
+    await vi.advanceTimersByTimeAsync(999);
+    expect(spawned[0]!.child.signals).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(spawned).toHaveLength(2);
+
+    // Stopping doesn't wait on an exit that will never come
+    spawned[1]!.child.started = false;
+    const stopped = relay.stop();
+    spawned[1]!.child.failToSpawn('spawn ffmpeg ENOENT');
+    await stopped;
+    expect(spawned[1]!.child.signals).toEqual(['SIGTERM']);
+    expect(relay.getStatus().state).toBe('STOPPED');
+  });
+
+  it('stays down once stopped', async () => {
+    relay.start();
+    await relay.stop();
+
+    expect(spawned[0]!.child.signals).toEqual(['SIGTERM']);
+    expect(relay.getStatus().state).toBe('STOPPED');
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(spawned).toHaveLength(1);
+  });
+
+  it('masks the stream key', () => {
+    expect(redactRtmpUrl('rtmp://live.twitter.com/app/abc123')).toBe('rtmp://live.twitter.com/app/****');
+  });
+});
@@ -197,8 +197,7 @@ export class CompositionEngine extends EventEmitter {
           break;
 
         case 'text':
-          // TODO: Implement text rendering
-          return null;
+          return await this.renderText(asset);
 
         case 'video':
           // TODO: Implement video frame extraction
@@ -242,6 +241,30 @@ export class CompositionEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Render a text asset as a single line of SVG text. metadata.fontSize and
+   * metadata.color style it; the image is cut to fit the canvas.
+   */
+  private async renderText(asset: Asset): Promise<Buffer | null> {
+    if (!asset.source) return null;
+
+    const fontSize = typeof asset.metadata?.['fontSize'] === 'number' ? asset.metadata['fontSize'] : 48;
+    const color = typeof asset.metadata?.['color'] === 'string' ? asset.metadata['color'] : 'white';
+    const width = this.canvas.width - Math.round(asset.position.x);
+    const height = Math.min(Math.round(fontSize * 1.5), this.canvas.height - Math.round(asset.position.y));
+    if (width <= 0 || height <= 0) return null;
+
+    const text = asset.source
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+      + `<text x="0" y="50%" font-family="Arial" font-size="${fontSize}" fill="${color}" dominant-baseline="middle">${text}</text>`
+      + '</svg>';
+
+    return sharp(Buffer.from(svg)).png().toBuffer();
+  }
+
   public updateDimensions(width: number, height: number): void {
     this.canvas = {
       width,
@@ -0,0 +1,184 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import type { Asset, Scene } from '@sothebais/packages/types/scene';
+
+// Where remote images are saved so the composition engine can read them from disk
+const REMOTE_ASSET_DIR = path.join(tmpdir(), 'sothebais-show-assets');
+const REMOTE_ASSET_TIMEOUT_MS = 10000;
+
+export type SceneLayer = 'background' | 'quadrant' | 'overlay';
+
+export interface SceneAssetStatus {
+  id: string;
+  type: Asset['type'];
+  layer: SceneLayer;
+  source: string;
+  visible: boolean;
+}
+
+export interface SceneAssetChanges {
+  // A file path or http(s) URL for images, the text itself for text assets
+  source?: string;
+  visible?: boolean;
+  // Hide the asset again after this long, e.g. for a winner banner
+  hideAfterMs?: number;
+}
+
+export class ShowControlError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid asset change: ${issues.join('; ')}`);
+    this.name = 'ShowControlError';
+  }
+}
+
+type Fetch = (url: string, init?: { signal?: AbortSignal }) => Promise<Pick<Response, 'ok' | 'status' | 'arrayBuffer'>>;
+
+/**
+ * Show Control
+ *
+ * Changes assets of the scene being rendered while the stream runs: swapping
+ * the lot artwork, rewriting the bid ticker, flashing a winner banner. The
+ * composition engine picks the change up on the next frame.
+ */
+export class ShowControl {
+  private static instance: ShowControl | null = null;
+  private scene: Scene | null = null;
+  private hideTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private fetchFn: Fetch = fetch) {}
+
+  public static getInstance(): ShowControl {
+    if (!ShowControl.instance) {
+      ShowControl.instance = new ShowControl();
+    }
+    return ShowControl.instance;
+  }
+
+  /**
+   * Point show control at the scene the stream renders
+   */
+  attach(scene: Scene): void {
+    this.scene = scene;
+  }
+
+  listAssets(): SceneAssetStatus[] {
+    return this.entries().map(([layer, asset]) => toStatus(layer, asset));
+  }
+
+  getAsset(id: string): SceneAssetStatus | null {
+    const entry = this.entries().find(([, asset]) => asset.id === id);
+    return entry ? toStatus(entry[0], entry[1]) : null;
+  }
+
+  /**
+   * Apply changes to an asset of the current scene. Returns null for an
+   * unknown asset.
+   */
+  async updateAsset(id: string, changes: SceneAssetChanges): Promise<SceneAssetStatus | null> {
+    const entry = this.entries().find(([, asset]) => asset.id === id);
+    if (!entry) {
+      return null;
+    }
+    const [layer, asset] = entry;
+
+    const issues: string[] = [];
+    if (changes.hideAfterMs !== undefined && (!Number.isInteger(changes.hideAfterMs) || changes.hideAfterMs <= 0)) {
+      issues.push('hideAfterMs must be a positive integer');
+    }
+    if (changes.source !== undefined && asset.type === 'image' && changes.source.trim() === '') {
+      issues.push('source must not be empty for an image');
+    }
+    if (issues.length > 0) {
+      throw new ShowControlError(issues);
+    }
+
+    if (changes.source !== undefined) {
+      asset.source = asset.type === 'image' && /^https?:\/\//.test(changes.source)
+        ? await this.download(changes.source)
+        : changes.source;
+    }
+    if (changes.visible !== undefined) {
+      asset.visible = changes.visible;
+    }
+
+    this.clearHideTimer(id);
+    if (changes.hideAfterMs !== undefined) {
+      this.hideTimers.set(id, setTimeout(() => {
+        asset.visible = false;
+        this.hideTimers.delete(id);
+      }, changes.hideAfterMs));
+    }
+
+    logger.info('Scene asset updated', {
+      assetId: id,
+      visible: asset.visible,
+      ...(changes.hideAfterMs !== undefined && { hideAfterMs: changes.hideAfterMs })
+    });
+    return toStatus(layer, asset);
+  }
+
+  cleanup(): void {
+    for (const id of [...this.hideTimers.keys()]) {
+      this.clearHideTimer(id);
+    }
+  }
+
+  private clearHideTimer(id: string): void {
+    const timer = this.hideTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.hideTimers.delete(id);
+    }
+  }
+
+  private entries(): Array<[SceneLayer, Asset]> {
+    if (!this.scene) {
+      return [];
+    }
+    return [
+      ...this.scene.background.map((asset): [SceneLayer, Asset] => ['background', asset]),
+      ...[...this.scene.quadrants.values()].flatMap(quadrant =>
+        quadrant.assets.map((asset): [SceneLayer, Asset] => ['quadrant', asset])),
+      ...this.scene.overlay.map((asset): [SceneLayer, Asset] => ['overlay', asset])
+    ];
+  }
+
+  /**
+   * Save a remote image to disk, once per URL
+   */
+  private async download(url: string): Promise<string> {
+    const file = path.join(REMOTE_ASSET_DIR, createHash('sha256').update(url).digest('hex'));
+    try {
+      await fs.access(file);
+      return file;
+    } catch {
+      // Not downloaded yet
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REMOTE_ASSET_TIMEOUT_MS);
+    try {
+      const response = await this.fetchFn(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new ShowControlError([`source could not be downloaded (HTTP ${response.status})`]);
+      }
+      await fs.mkdir(REMOTE_ASSET_DIR, { recursive: true });
+      await fs.writeFile(file, Buffer.from(await response.arrayBuffer()));
+      return file;
+    } catch (error) {
+      if (error instanceof ShowControlError) {
+        throw error;
+      }
+      throw new ShowControlError([`source could not be downloaded (${error instanceof Error ? error.message : 'Unknown error'})`]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+function toStatus(layer: SceneLayer, asset: Asset): SceneAssetStatus {
+  return { id: asset.id, type: asset.type, layer, source: asset.source, visible: asset.visible };
+}
@@ -4,6 +4,9 @@ import { logger } from './utils/logger.js';
 import { loadConfig } from './config/index.js';
 import { StreamManager } from './streaming/stream-manager.js';
 import { stateManager } from './state/state-manager.js';
+import { metricsService } from './monitoring/metrics.js';
+import { outputsRouter } from './server/api/outputs.js';
+import { showRouter } from './server/api/show.js';
 import { AssetManager } from './core/assets.js';
 import { CompositionEngine } from './core/composition.js';
 import { createDefaultScene } from './scenes/default-scene.js';
@@ -85,6 +88,39 @@ async function startServer() {
       });
     });
 
+    // Prometheus scrape endpoint
+    app.get('/metrics', async (_req: Request, res: Response) => {
+      res.set('Content-Type', metricsService.getRegistry().contentType);
+      res.send(await metricsService.getMetrics());
+    });
+
+    // Simulcast destinations
+    app.use('/outputs', outputsRouter);
+
+    // Live scene changes: lot artwork, bid ticker, winner banner
+    app.use('/show', showRouter);
+
+    // Twitter restream status and control
+    app.get('/broadcast/twitter', (_req: Request, res: Response) => {
+      res.json({ success: true, data: streamManager.getTwitterBroadcastStatus() });
+    });
+
+    app.post('/broadcast/twitter/start', async (_req: Request, res: Response) => {
+      if (!(await streamManager.startTwitterBroadcast())) {
+        res.status(409).json({ success: false, error: 'Twitter broadcast could not be started' });
+        return;
+      }
+      res.json({ success: true, data: streamManager.getTwitterBroadcastStatus() });
+    });
+
+    app.post('/broadcast/twitter/stop', async (_req: Request, res: Response) => {
+      if (!(await streamManager.stopTwitterBroadcast())) {
+        res.status(500).json({ success: false, error: 'Twitter broadcast could not be stopped' });
+        return;
+      }
+      res.json({ success: true, data: null });
+    });
+
     // Start HTTP server
     const port = loadedConfig.PORT || 4200;
     app.listen(port, '0.0.0.0', () => {
@@ -24,6 +24,12 @@ export class MetricsService {
   private streamRenderTime: Histogram;
   private streamActiveClients: Gauge;
 
+  // Restream metrics, per destination
+  private restreamUp: Gauge;
+  private restreamBitrate: Gauge;
+  private restreamBytesSent: Gauge;
+  private restreamRestartsTotal: Counter;
+
   private constructor() {
     this.registry = new Registry();
 
@@ -119,6 +125,35 @@ export class MetricsService {
       registers: [this.registry],
       labelNames: ['quality']
     });
+
+    // Restream metrics
+    this.restreamUp = new Gauge({
+      name: 'restream_up',
+      help: 'Whether the relay to a destination is delivering (1) or not (0)',
+      registers: [this.registry],
+      labelNames: ['destination']
+    });
+
+    this.restreamBitrate = new Gauge({
+      name: 'restream_bitrate_kbps',
+      help: 'Bitrate sent to a destination, as reported by the relay',
+      registers: [this.registry],
+      labelNames: ['destination']
+    });
+
+    this.restreamBytesSent = new Gauge({
+      name: 'restream_bytes_sent',
+      help: 'Bytes sent to a destination since the relay last connected',
+      registers: [this.registry],
+      labelNames: ['destination']
+    });
+
+    this.restreamRestartsTotal = new Counter({
+      name: 'restream_restarts_total',
+      help: 'Times the relay to a destination was restarted after failing',
+      registers: [this.registry],
+      labelNames: ['destination']
+    });
   }
 
   public static getInstance(): MetricsService {
@@ -184,6 +219,17 @@ export class MetricsService {
     this.streamActiveClients.set({ quality }, count);
   }
 
+  // Restream metrics methods
+  public updateRestream(destination: string, up: boolean, bitrateKbps: number, bytesSent: number): void {
+    this.restreamUp.set({ destination }, up ? 1 : 0);
+    this.restreamBitrate.set({ destination }, bitrateKbps);
+    this.restreamBytesSent.set({ destination }, bytesSent);
+  }
+
+  public recordRestreamRestart(destination: string): void {
+    this.restreamRestartsTotal.inc({ destination });
+  }
+
   // Registry access
   public getRegistry(): Registry {
     return this.registry;
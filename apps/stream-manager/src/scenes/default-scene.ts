@@ -39,13 +39,61 @@ export function createDefaultScene(config: Config): Scene {
     zIndex: 1
   };
 
+  // Placeholders that show control fills in during an auction
+  const lotArtworkAsset: Asset = {
+    id: 'lot_artwork',
+    type: 'image',
+    source: '',
+    position: { x: 50, y: 50 },  // Position in top left quadrant
+    transform: {
+      scale: 0.4,
+      rotation: 0,
+      opacity: 1,
+      anchor: { x: 0.5, y: 0.5 }
+    },
+    visible: false,
+    zIndex: 1
+  };
+
+  const bidTickerAsset: Asset = {
+    id: 'bid_ticker',
+    type: 'text',
+    source: '',
+    position: { x: 50, y: height - 120 },
+    transform: {
+      scale: 1,
+      rotation: 0,
+      opacity: 1,
+      anchor: { x: 0, y: 0.5 }
+    },
+    visible: false,
+    zIndex: 10,
+    metadata: { fontSize: 48, color: 'white' }
+  };
+
+  const winnerBannerAsset: Asset = {
+    id: 'winner_banner',
+    type: 'text',
+    source: '',
+    position: { x: 50, y: halfHeight - 60 },
+    transform: {
+      scale: 1,
+      rotation: 0,
+      opacity: 1,
+      anchor: { x: 0, y: 0.5 }
+    },
+    visible: false,
+    zIndex: 20,
+    metadata: { fontSize: 80, color: 'gold' }
+  };
+
   // Create a basic scene with 4 quadrants
   const scene: Scene = {
     id: `scene_${Date.now()}`,
     name: 'Default Scene',
     background: [backgroundAsset],  // Add background asset
     quadrants: new Map(),
-    overlay: [],     // Empty overlay initially
+    overlay: [bidTickerAsset, winnerBannerAsset],
     metadata: {
       template: 'default',
       version: '1.0'
@@ -59,7 +107,7 @@ export function createDefaultScene(config: Config): Scene {
       name: 'Top Left',
       bounds: { left: 0, top: 0, right: halfWidth, bottom: halfHeight },
       padding: 20,
-      assets: []
+      assets: [lotArtworkAsset]
     }],
     [2, {
       id: 2,
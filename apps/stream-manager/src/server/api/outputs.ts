@@ -0,0 +1,114 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import { logger } from '../../utils/logger.js';
+import { OutputManager, OutputConfigError } from '../../streaming/output/output-manager.js';
+import type { OutputChanges } from '../../streaming/output/output-manager.js';
+
+const outputManager = OutputManager.getInstance();
+
+// Router for restream destinations, mounted at /outputs
+const outputsRouter = express.Router();
+
+outputsRouter.use(express.json());
+
+function sendError(res: Response, error: unknown, message: string): void {
+  if (error instanceof OutputConfigError) {
+    res.status(400).json({ success: false, error: 'Invalid output', details: error.issues });
+    return;
+  }
+  logger.error(message, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+  res.status(500).json({
+    success: false,
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+// List outputs with live relay status
+outputsRouter.get('/', (_req: Request, res: Response) => {
+  res.json({ success: true, data: outputManager.listOutputs() });
+});
+
+outputsRouter.get('/:id', (req: Request<{ id: string }>, res: Response) => {
+  const output = outputManager.getOutput(req.params.id);
+  if (!output) {
+    res.status(404).json({ success: false, error: 'Output not found' });
+    return;
+  }
+  res.json({ success: true, data: output });
+});
+
+// Add a destination; it starts right away if enabled and the stream is live
+outputsRouter.post('/', async (req: Request, res: Response) => {
+  const { id, name, url, enabled } = req.body ?? {};
+  if (typeof name !== 'string' || typeof url !== 'string'
+    || (id !== undefined && typeof id !== 'string')
+    || (enabled !== undefined && typeof enabled !== 'boolean')) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid output',
+      details: ['name and url are required strings; id is a string and enabled a boolean if given']
+    });
+    return;
+  }
+
+  try {
+    const output = await outputManager.addOutput({
+      name,
+      url,
+      ...(id !== undefined && { id }),
+      ...(enabled !== undefined && { enabled })
+    });
+    res.status(201).json({ success: true, data: output });
+  } catch (error) {
+    sendError(res, error, 'Failed to add output');
+  }
+});
+
+// Enable, disable, rename or repoint a destination
+outputsRouter.patch('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  const { name, url, enabled } = req.body ?? {};
+  if ((name !== undefined && typeof name !== 'string')
+    || (url !== undefined && typeof url !== 'string')
+    || (enabled !== undefined && typeof enabled !== 'boolean')) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid output',
+      details: ['name and url must be strings and enabled a boolean']
+    });
+    return;
+  }
+
+  const changes: OutputChanges = {
+    ...(name !== undefined && { name }),
+    ...(url !== undefined && { url }),
+    ...(enabled !== undefined && { enabled })
+  };
+
+  try {
+    const output = await outputManager.updateOutput(req.params.id, changes);
+    if (!output) {
+      res.status(404).json({ success: false, error: 'Output not found' });
+      return;
+    }
+    res.json({ success: true, data: output });
+  } catch (error) {
+    sendError(res, error, 'Failed to update output');
+  }
+});
+
+outputsRouter.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    if (!(await outputManager.removeOutput(req.params.id))) {
+      res.status(404).json({ success: false, error: 'Output not found' });
+      return;
+    }
+    res.json({ success: true, data: null });
+  } catch (error) {
+    sendError(res, error, 'Failed to remove output');
+  }
+});
+
+export { outputsRouter };
@@ -0,0 +1,69 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import { logger } from '../../utils/logger.js';
+import { ShowControl, ShowControlError } from '../../core/show-control.js';
+
+const showControl = ShowControl.getInstance();
+
+// Router for changing the live scene, mounted at /show
+const showRouter = express.Router();
+
+showRouter.use(express.json());
+
+// List the assets of the scene being rendered
+showRouter.get('/assets', (_req: Request, res: Response) => {
+  res.json({ success: true, data: showControl.listAssets() });
+});
+
+showRouter.get('/assets/:id', (req: Request<{ id: string }>, res: Response) => {
+  const asset = showControl.getAsset(req.params.id);
+  if (!asset) {
+    res.status(404).json({ success: false, error: 'Asset not found' });
+    return;
+  }
+  res.json({ success: true, data: asset });
+});
+
+// Swap an asset's source, show or hide it
+showRouter.patch('/assets/:id', async (req: Request<{ id: string }>, res: Response) => {
+  const { source, visible, hideAfterMs } = req.body ?? {};
+  if ((source !== undefined && typeof source !== 'string')
+    || (visible !== undefined && typeof visible !== 'boolean')
+    || (hideAfterMs !== undefined && typeof hideAfterMs !== 'number')) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid asset change',
+      details: ['source must be a string, visible a boolean and hideAfterMs a number']
+    });
+    return;
+  }
+
+  try {
+    const asset = await showControl.updateAsset(req.params.id, {
+      ...(source !== undefined && { source }),
+      ...(visible !== undefined && { visible }),
+      ...(hideAfterMs !== undefined && { hideAfterMs })
+    });
+    if (!asset) {
+      res.status(404).json({ success: false, error: 'Asset not found' });
+      return;
+    }
+    res.json({ success: true, data: asset });
+  } catch (error) {
+    if (error instanceof ShowControlError) {
+      res.status(400).json({ success: false, error: 'Invalid asset change', details: error.issues });
+      return;
+    }
+    logger.error('Failed to update scene asset', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      assetId: req.params.id
+    });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update scene asset',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export { showRouter };
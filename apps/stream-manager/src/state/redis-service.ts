@@ -1,6 +1,7 @@
 import { createClient } from 'redis';
 import type { StreamState, SceneState } from '@sothebais/packages/types/stream';
 import type { Config } from '../types/index.js';
+import type { OutputDestination } from '../streaming/output/output-manager.js';
 import { logger } from '../utils/logger.js';
 import type { LogContext } from '../utils/logger.js';
 import type { RedisClientType, RedisClientOptions } from 'redis';
@@ -34,6 +35,20 @@ function isSceneState(obj: unknown): obj is SceneState {
   );
 }
 
+/**
+ * Type guard for OutputDestination
+ */
+function isOutputDestination(obj: unknown): obj is OutputDestination {
+  if (!obj || typeof obj !== 'object') return false;
+  const destination = obj as Partial<OutputDestination>;
+  return (
+    typeof destination.id === 'string' &&
+    typeof destination.name === 'string' &&
+    typeof destination.url === 'string' &&
+    typeof destination.enabled === 'boolean'
+  );
+}
+
 class RedisService {
   private client: RedisClientType | null = null;
   private isConnected = false;
@@ -171,6 +186,36 @@ class RedisService {
     }
   }
 
+  async saveOutputDestinations(destinations: OutputDestination[]): Promise<void> {
+    if (!this.isConnected || !this.client) {
+      throw new Error('Redis client not connected');
+    }
+    await this.client.set('outputDestinations', JSON.stringify(destinations));
+  }
+
+  async getOutputDestinations(): Promise<OutputDestination[]> {
+    if (!this.isConnected || !this.client) {
+      throw new Error('Redis client not connected');
+    }
+    const destinations = await this.client.get('outputDestinations');
+    if (!destinations) return [];
+
+    try {
+      const parsed: unknown = JSON.parse(destinations);
+      if (!Array.isArray(parsed)) {
+        logger.error('Invalid output destinations format in Redis', { destinations: parsed });
+        return [];
+      }
+      return parsed.filter(isOutputDestination);
+    } catch (error) {
+      logger.error('Failed to parse output destinations from Redis', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        raw: destinations
+      });
+      return [];
+    }
+  }
+
   isReady(): boolean {
     return this.isConnected && this.client !== null;
   }
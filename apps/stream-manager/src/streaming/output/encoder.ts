@@ -35,7 +35,7 @@ export interface StreamConfig {
   codec: 'h264' | 'h264rgb' | 'vp8' | 'vp9';
   preset: 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium';
   streamUrl?: string;
-  outputs: string[];
+  outputs: string[]; // The encoder publishes to outputs[0]; restreams are OutputManager destinations
   hwaccel?: {
     enabled: boolean;
     device?: 'nvidia' | 'qsv' | 'amf' | 'videotoolbox';
@@ -208,7 +208,14 @@ export class StreamEncoder extends EventEmitter {
       '-x264-params', 'nal-hrd=cbr:force-cfr=1'  // Basic CBR settings
     ];
 
-    // Output options - simplified
+    // Output options - simplified. Fanning out to more destinations is done by
+    // relays pulling from outputs[0], so they can come and go without
+    // restarting the encoder.
+    if (this.config.outputs.length > 1) {
+      logger.warn('Encoder publishes to the first output only; add the others as OutputManager destinations', {
+        ignored: this.config.outputs.length - 1
+      });
+    }
     const outputArgs: string[] = [
       '-f', 'flv',
       this.config.outputs[0] || ''  // Ensure a string value is always returned
@@ -0,0 +1,261 @@
+import { logger } from '../../utils/logger.js';
+import { RedisService } from '../../state/redis-service.js';
+import { RtmpRelay, redactRtmpUrl } from './rtmp-relay.js';
+import type { RelayStatus } from './rtmp-relay.js';
+
+export interface OutputDestination {
+  id: string; // Also the `destination` label on restream metrics
+  name: string;
+  url: string; // Full RTMP/RTMPS URL including the stream key
+  enabled: boolean;
+}
+
+export interface OutputStatus {
+  id: string;
+  name: string;
+  url: string; // Stream key masked
+  enabled: boolean;
+  relay: RelayStatus | null; // Null while disabled or while the stream is off
+}
+
+export type OutputChanges = Partial<Pick<OutputDestination, 'name' | 'url' | 'enabled'>>;
+
+/**
+ * Thrown when a destination is missing fields, has an unusable URL or clashes
+ * with an existing one
+ */
+export class OutputConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid output: ${issues.join('; ')}`);
+    this.name = 'OutputConfigError';
+  }
+}
+
+type CreateRelay = (destination: OutputDestination, input: string) => RtmpRelay;
+
+function slugify(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function validateDestination(destination: OutputDestination): void {
+  const issues: string[] = [];
+  if (!destination.id) {
+    issues.push('id must contain letters or digits');
+  }
+  if (!destination.name.trim()) {
+    issues.push('name is required');
+  }
+  if (!/^rtmps?:\/\/[^/\s]+\/\S+$/.test(destination.url)) {
+    issues.push('url must be an rtmp:// or rtmps:// URL with an app path and stream key');
+  }
+  if (issues.length > 0) {
+    throw new OutputConfigError(issues);
+  }
+}
+
+/**
+ * Output Manager
+ *
+ * Simulcasts the stream to any number of RTMP/RTMPS destinations. The
+ * encoder publishes once, to the internal RTMP server; each enabled
+ * destination gets its own RtmpRelay pulling from there. Destinations can be
+ * added, removed, enabled, disabled or repointed while live, and only that
+ * destination's relay is touched: the encoder and the other destinations keep
+ * running.
+ *
+ * The destination list is kept in Redis when it is connected, so outputs
+ * added at runtime survive a restart.
+ */
+export class OutputManager {
+  private static instance: OutputManager | null = null;
+  private destinations = new Map<string, OutputDestination>();
+  private relays = new Map<string, RtmpRelay>();
+  private input: string | null = null;
+
+  constructor(
+    private redis: Pick<RedisService, 'isReady' | 'saveOutputDestinations' | 'getOutputDestinations'> = RedisService.getInstance(),
+    private createRelay: CreateRelay = (destination, input) =>
+      new RtmpRelay({ name: destination.id, input, output: destination.url })
+  ) {}
+
+  public static getInstance(): OutputManager {
+    if (!OutputManager.instance) {
+      OutputManager.instance = new OutputManager();
+    }
+    return OutputManager.instance;
+  }
+
+  /**
+   * Restore destinations saved by a previous run
+   */
+  public async load(): Promise<void> {
+    if (!this.redis.isReady()) {
+      return;
+    }
+    try {
+      for (const destination of await this.redis.getOutputDestinations()) {
+        this.destinations.set(destination.id, destination);
+      }
+      logger.info('Output destinations loaded', { count: this.destinations.size });
+    } catch (error) {
+      logger.warn('Failed to load output destinations', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Start restreaming `input` to every enabled destination
+   */
+  public async attach(input: string): Promise<void> {
+    if (this.input === input) {
+      return;
+    }
+    await this.detach();
+    this.input = input;
+    for (const destination of this.destinations.values()) {
+      if (destination.enabled) {
+        this.startRelay(destination);
+      }
+    }
+  }
+
+  /**
+   * Stop every relay; destinations are kept for the next attach
+   */
+  public async detach(): Promise<void> {
+    this.input = null;
+    await Promise.all([...this.relays.keys()].map(id => this.stopRelay(id)));
+  }
+
+  public isAttached(): boolean {
+    return this.input !== null;
+  }
+
+  public listOutputs(): OutputStatus[] {
+    return [...this.destinations.values()].map(destination => this.toStatus(destination));
+  }
+
+  public getOutput(id: string): OutputStatus | null {
+    const destination = this.destinations.get(id);
+    return destination ? this.toStatus(destination) : null;
+  }
+
+  public async addOutput(input: { id?: string; name: string; url: string; enabled?: boolean }): Promise<OutputStatus> {
+    const destination: OutputDestination = {
+      id: slugify(input.id ?? input.name),
+      name: input.name.trim(),
+      url: input.url.trim(),
+      enabled: input.enabled ?? true
+    };
+    validateDestination(destination);
+    if (this.destinations.has(destination.id)) {
+      throw new OutputConfigError([`an output with id ${destination.id} already exists`]);
+    }
+
+    this.destinations.set(destination.id, destination);
+    await this.persist();
+    logger.info('Output added', { id: destination.id, url: redactRtmpUrl(destination.url) });
+
+    if (destination.enabled && this.input) {
+      this.startRelay(destination);
+    }
+    return this.toStatus(destination);
+  }
+
+  /**
+   * Add a destination managed from configuration, or repoint it if it exists.
+   * An existing destination keeps its enabled flag.
+   */
+  public async registerOutput(destination: OutputDestination): Promise<void> {
+    const existing = this.destinations.get(destination.id);
+    if (!existing) {
+      await this.addOutput(destination);
+      return;
+    }
+    await this.updateOutput(destination.id, { name: destination.name, url: destination.url });
+  }
+
+  public async updateOutput(id: string, changes: OutputChanges): Promise<OutputStatus | null> {
+    const current = this.destinations.get(id);
+    if (!current) {
+      return null;
+    }
+    const updated: OutputDestination = {
+      ...current,
+      ...(changes.name !== undefined && { name: changes.name.trim() }),
+      ...(changes.url !== undefined && { url: changes.url.trim() }),
+      ...(changes.enabled !== undefined && { enabled: changes.enabled })
+    };
+    validateDestination(updated);
+
+    this.destinations.set(id, updated);
+    await this.persist();
+
+    const repointed = updated.url !== current.url;
+    if (this.relays.has(id) && (!updated.enabled || repointed)) {
+      await this.stopRelay(id);
+    }
+    if (updated.enabled && this.input && !this.relays.has(id)) {
+      this.startRelay(updated);
+    }
+
+    logger.info('Output updated', { id, enabled: updated.enabled, repointed });
+    return this.toStatus(updated);
+  }
+
+  public async removeOutput(id: string): Promise<boolean> {
+    if (!this.destinations.has(id)) {
+      return false;
+    }
+    await this.stopRelay(id);
+    this.destinations.delete(id);
+    await this.persist();
+    logger.info('Output removed', { id });
+    return true;
+  }
+
+  private startRelay(destination: OutputDestination): void {
+    if (!this.input) {
+      return;
+    }
+    const relay = this.createRelay(destination, this.input);
+    this.relays.set(destination.id, relay);
+    relay.start();
+  }
+
+  private async stopRelay(id: string): Promise<void> {
+    const relay = this.relays.get(id);
+    if (!relay) {
+      return;
+    }
+    this.relays.delete(id);
+    await relay.stop();
+  }
+
+  private toStatus(destination: OutputDestination): OutputStatus {
+    return {
+      id: destination.id,
+      name: destination.name,
+      url: redactRtmpUrl(destination.url),
+      enabled: destination.enabled,
+      relay: this.relays.get(destination.id)?.getStatus() ?? null
+    };
+  }
+
+  /**
+   * Saving is best effort; the outputs in memory are what's streamed
+   */
+  private async persist(): Promise<void> {
+    if (!this.redis.isReady()) {
+      return;
+    }
+    try {
+      await this.redis.saveOutputDestinations([...this.destinations.values()]);
+    } catch (error) {
+      logger.warn('Failed to save output destinations', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
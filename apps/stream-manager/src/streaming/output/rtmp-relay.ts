@@ -0,0 +1,304 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { logger } from '../../utils/logger.js';
+import { metricsService } from '../../monitoring/metrics.js';
+
+export type RelayState = 'IDLE' | 'CONNECTING' | 'LIVE' | 'RECONNECTING' | 'STOPPED';
+
+export type SpawnRelay = (command: string, args: string[]) => ChildProcess;
+
+export interface RelayOptions {
+  name: string; // Destination label for logs and metrics, e.g. 'twitter'
+  input: string; // Where the encoded stream is pulled from
+  output: string; // Where it is pushed to
+  ffmpegPath?: string;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  stallTimeoutMs?: number; // Restart when no progress was reported for this long
+  spawn?: SpawnRelay;
+}
+
+export interface RelayStatus {
+  name: string;
+  state: RelayState;
+  output: string; // Stream key masked
+  bitrateKbps: number;
+  bytesSent: number;
+  connectedAt: number | null;
+  restarts: number;
+  lastError: string | null;
+  nextRetryAt: number | null;
+}
+
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 60000;
+const DEFAULT_STALL_TIMEOUT_MS = 15000;
+// A connection that lasts this long resets the backoff
+const STABLE_AFTER_MS = 30000;
+const KILL_TIMEOUT_MS = 5000;
+
+/**
+ * Mask the stream key, the last path segment of an RTMP URL, for logs and status
+ */
+export function redactRtmpUrl(url: string): string {
+  return url.replace(/\/[^/]+$/, '/****');
+}
+
+/**
+ * RTMP Relay
+ *
+ * Restreams the encoder's output to one destination through its own ffmpeg
+ * process (`-c copy`, so nothing is re-encoded). The relay is independent of
+ * the encoder: if the destination drops, stalls or refuses the connection,
+ * only the relay is restarted, with exponential backoff between attempts.
+ * Bitrate and bytes sent come from ffmpeg's `-progress` output and are
+ * exported per destination.
+ *
+ * Emits 'state' with the RelayStatus whenever the state changes.
+ */
+export class RtmpRelay extends EventEmitter {
+  private process: ChildProcess | null = null;
+  private state: RelayState = 'IDLE';
+  private bitrateKbps: number = 0;
+  private bytesSent: number = 0;
+  private connectedAt: number | null = null;
+  private lastProgressAt: number = 0;
+  private restarts: number = 0;
+  private attempts: number = 0;
+  private lastError: string | null = null;
+  private nextRetryAt: number | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private watchdog: NodeJS.Timeout | null = null;
+  private stopping: boolean = false;
+  private stallError: string | null = null;
+  private readonly spawnRelay: SpawnRelay;
+
+  constructor(private options: RelayOptions) {
+    super();
+    this.spawnRelay = options.spawn || ((command, args) => spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] }));
+  }
+
+  public start(): void {
+    if (this.process || this.retryTimer) {
+      return;
+    }
+    this.stopping = false;
+    this.attempts = 0;
+    this.launch();
+  }
+
+  /**
+   * Stop the relay and wait for ffmpeg to exit
+   */
+  public stop(): Promise<void> {
+    this.stopping = true;
+    this.clearTimers();
+
+    const child = this.process;
+    if (!child) {
+      this.setState('STOPPED');
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => {
+      const forceKill = setTimeout(() => child.kill('SIGKILL'), KILL_TIMEOUT_MS);
+      // 'close' also comes when the spawn itself failed, which never emits 'exit'
+      child.once('close', () => {
+        clearTimeout(forceKill);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    });
+  }
+
+  public isRunning(): boolean {
+    return this.state === 'CONNECTING' || this.state === 'LIVE' || this.state === 'RECONNECTING';
+  }
+
+  public getStatus(): RelayStatus {
+    return {
+      name: this.options.name,
+      state: this.state,
+      output: redactRtmpUrl(this.options.output),
+      bitrateKbps: this.bitrateKbps,
+      bytesSent: this.bytesSent,
+      connectedAt: this.connectedAt,
+      restarts: this.restarts,
+      lastError: this.lastError,
+      nextRetryAt: this.nextRetryAt
+    };
+  }
+
+  private buildArgs(): string[] {
+    return [
+      '-hide_banner',
+      '-loglevel', 'warning',
+      '-nostdin',
+      // Give up on a dead input instead of waiting forever
+      '-rw_timeout', '10000000',
+      '-i', this.options.input,
+      '-c', 'copy',
+      '-f', 'flv',
+      '-progress', 'pipe:1',
+      '-stats_period', '1',
+      this.options.output
+    ];
+  }
+
+  private launch(): void {
+    this.nextRetryAt = null;
+    this.stallError = null;
+    this.lastProgressAt = Date.now();
+    this.setState('CONNECTING');
+
+    logger.info('Starting restream relay', {
+      destination: this.options.name,
+      output: redactRtmpUrl(this.options.output),
+      attempt: this.attempts + 1
+    });
+
+    let child: ChildProcess;
+    try {
+      child = this.spawnRelay(this.options.ffmpegPath || 'ffmpeg', this.buildArgs());
+    } catch (error) {
+      this.handleExit(error instanceof Error ? error.message : 'Failed to spawn relay');
+      return;
+    }
+    this.process = child;
+
+    let progress = '';
+    let stderrTail: string | null = null;
+    child.stdout?.on('data', (data: Buffer) => {
+      progress += data.toString();
+      const lines = progress.split('\n');
+      progress = lines.pop() || '';
+      this.handleProgress(lines);
+    });
+
+    child.stderr?.on('data', (data: Buffer) => {
+      const output = data.toString().trim();
+      if (output) {
+        stderrTail = output.split('\n').pop() || output;
+      }
+    });
+
+    child.on('error', (error: Error) => {
+      stderrTail = error.message;
+    });
+
+    // Rather than 'exit', which a failed spawn (e.g. ffmpeg missing) never emits
+    child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      if (this.process !== child) {
+        return;
+      }
+      this.process = null;
+      this.handleExit(this.stallError || stderrTail || `Relay exited with ${signal || `code ${code}`}`);
+    });
+
+    this.watchdog = setInterval(() => this.checkStall(), Math.min(this.stallTimeoutMs(), 1000));
+  }
+
+  /**
+   * Take in a batch of `key=value` lines from ffmpeg's progress output
+   */
+  private handleProgress(lines: string[]): void {
+    for (const line of lines) {
+      const [key, value = ''] = line.trim().split('=');
+      if (key === 'bitrate') {
+        const kbps = parseFloat(value);
+        this.bitrateKbps = Number.isFinite(kbps) ? kbps : 0;
+      } else if (key === 'total_size') {
+        const bytes = parseInt(value, 10);
+        this.bytesSent = Number.isFinite(bytes) ? bytes : this.bytesSent;
+      } else if (key === 'progress') {
+        this.lastProgressAt = Date.now();
+        if (this.state !== 'LIVE') {
+          this.connectedAt = Date.now();
+          this.lastError = null;
+          this.setState('LIVE');
+          logger.info('Restream relay connected', { destination: this.options.name });
+        } else if (this.connectedAt && Date.now() - this.connectedAt >= STABLE_AFTER_MS) {
+          this.attempts = 0;
+        }
+        this.updateMetrics();
+      }
+    }
+  }
+
+  /**
+   * Restart a relay that stopped reporting progress, e.g. a destination that
+   * accepted the connection but stopped reading
+   */
+  private checkStall(): void {
+    if (!this.process || Date.now() - this.lastProgressAt < this.stallTimeoutMs()) {
+      return;
+    }
+    this.stallError = `No progress for ${Math.round(this.stallTimeoutMs() / 1000)}s`;
+    logger.warn('Restream relay stalled, restarting', { destination: this.options.name });
+    this.process.kill('SIGKILL');
+  }
+
+  private handleExit(error: string): void {
+    this.clearTimers();
+    this.connectedAt = null;
+    this.bitrateKbps = 0;
+
+    if (this.stopping) {
+      this.setState('STOPPED');
+      this.updateMetrics();
+      logger.info('Restream relay stopped', { destination: this.options.name });
+      return;
+    }
+
+    const delay = Math.min(
+      (this.options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS) * 2 ** this.attempts,
+      this.options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+    );
+    this.attempts++;
+    this.restarts++;
+    this.nextRetryAt = Date.now() + delay;
+    this.lastError = error;
+    metricsService.recordRestreamRestart(this.options.name);
+    this.setState('RECONNECTING');
+    this.updateMetrics();
+
+    logger.warn('Restream relay dropped, reconnecting', {
+      destination: this.options.name,
+      error: this.lastError,
+      retryInMs: delay
+    });
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.launch();
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+    this.nextRetryAt = null;
+  }
+
+  private stallTimeoutMs(): number {
+    return this.options.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS;
+  }
+
+  private updateMetrics(): void {
+    metricsService.updateRestream(this.options.name, this.state === 'LIVE', this.bitrateKbps, this.bytesSent);
+  }
+
+  private setState(state: RelayState): void {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this.emit('state', this.getStatus());
+  }
+}
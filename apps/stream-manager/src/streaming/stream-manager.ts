@@ -5,6 +5,9 @@ import { StreamEncoder } from './output/encoder.js';
 import { RTMPServer } from './rtmp/server.js';
 import { StreamKeyService } from './rtmp/stream-key.js';
 import { TwitterBroadcaster } from './output/twitter-broadcaster.js';
+import { OutputManager } from './output/output-manager.js';
+import { ShowControl } from '../core/show-control.js';
+import type { RelayStatus } from './output/rtmp-relay.js';
 import { stateManager } from '../state/state-manager.js';
 import { webSocketService } from '../server/websocket.js';
 import type { 
@@ -17,6 +20,9 @@ import type {
 } from '../types/index.js';
 import { EVENT_TYPES } from '../types/index.js';
 
+// Output ID of the Twitter restream
+const TWITTER_OUTPUT_ID = 'twitter';
+
 interface StreamManagerDependencies {
   assets: AssetManager;
   composition: CompositionEngine;
@@ -35,6 +41,9 @@ export class StreamManager extends EventEmitter {
   private frameCount: number = 0;
   private droppedFrames: number = 0;
   private config: Config | null = null;
+  private streamKey: string | null = null;
+  private outputManager: OutputManager;
+  private showControl: ShowControl;
 
   // Core components
   private assets: AssetManager | null = null;
@@ -44,6 +53,8 @@ export class StreamManager extends EventEmitter {
   private constructor() {
     super();
     this.stateManager = stateManager;
+    this.outputManager = OutputManager.getInstance();
+    this.showControl = ShowControl.getInstance();
   }
 
   public static getInstance(): StreamManager {
@@ -67,6 +78,9 @@ export class StreamManager extends EventEmitter {
       // Initialize state manager first
       await this.stateManager.initialize(config);
 
+      // Restore restream destinations added at runtime
+      await this.outputManager.load();
+
       // Initialize StreamKeyService with same Redis URL as state manager
       logger.info('Initializing stream key service...');
       const streamKeyService = StreamKeyService.initialize(config.REDIS_URL);
@@ -76,6 +90,7 @@ export class StreamManager extends EventEmitter {
       this.assets = dependencies.assets;
       this.composition = dependencies.composition;
       this.currentScene = dependencies.currentScene;
+      this.showControl.attach(dependencies.currentScene);
 
       // Initialize RTMP server
       this.rtmpServer = await RTMPServer.initialize({
@@ -106,6 +121,7 @@ export class StreamManager extends EventEmitter {
         throw new Error('Failed to generate valid stream key');
       }
 
+      this.streamKey = streamKey;
       logger.info('Generated test stream key for development', { 
         streamKey,
         userId: keyInfo.userId,
@@ -118,7 +134,7 @@ export class StreamManager extends EventEmitter {
       if (process.env['TWITTER_BROADCAST_ENABLED'] === 'true' && 
           process.env['TWITTER_RTMP_URL'] && 
           process.env['TWITTER_STREAM_KEY']) {
-        this.setupTwitterBroadcast();
+        await this.setupTwitterBroadcast();
       }
 
       // Log config values before encoder init
@@ -250,6 +266,11 @@ export class StreamManager extends EventEmitter {
       this.emit('started');
       logger.info('Stream started successfully');
 
+      // Restream to every enabled output, Twitter included
+      if (this.config && this.streamKey) {
+        await this.outputManager.attach(`rtmp://127.0.0.1:${this.config.RTMP_PORT}/live/${this.streamKey}`);
+      }
+
       // Start metrics collection
       this.startMetricsCollection();
 
@@ -353,6 +374,8 @@ export class StreamManager extends EventEmitter {
       }
 
       // Stop components in reverse order with proper cleanup
+      await this.outputManager.detach();
+
       logger.info('Stopping encoder...');
       await this.encoder?.stop();
       logger.info('Encoder stopped');
@@ -404,6 +427,7 @@ export class StreamManager extends EventEmitter {
     await this.stop();
     
     // Cleanup core components
+    this.showControl.cleanup();
     await this.composition?.cleanup();
     await this.assets?.cleanup();
 
@@ -413,9 +437,10 @@ export class StreamManager extends EventEmitter {
   }
 
   /**
-   * Setup Twitter broadcasting by configuring the RTMP endpoint
+   * Setup Twitter broadcasting by configuring the RTMP endpoint and
+   * registering it as an output
    */
-  private setupTwitterBroadcast(): void {
+  private async setupTwitterBroadcast(): Promise<void> {
     if (!process.env['TWITTER_RTMP_URL'] || !process.env['TWITTER_STREAM_KEY']) {
       logger.warn('Twitter broadcasting disabled - missing RTMP URL or stream key');
       return;
@@ -427,6 +452,16 @@ export class StreamManager extends EventEmitter {
         process.env['TWITTER_RTMP_URL'],
         process.env['TWITTER_STREAM_KEY']
       );
+
+      const twitterEndpoint = twitterBroadcaster.getTwitterEndpoint();
+      if (twitterEndpoint) {
+        await this.outputManager.registerOutput({
+          id: TWITTER_OUTPUT_ID,
+          name: 'Twitter',
+          url: twitterEndpoint,
+          enabled: true
+        });
+      }
       
       logger.info('Twitter broadcasting configured', {
         rtmpUrl: process.env['TWITTER_RTMP_URL'],
@@ -440,7 +475,7 @@ export class StreamManager extends EventEmitter {
   }
 
   /**
-   * Start Twitter broadcasting by configuring the RTMP server to forward streams
+   * Start Twitter broadcasting by enabling the Twitter output
    */
   public async startTwitterBroadcast(): Promise<boolean> {
     if (!this.isInitialized) {
@@ -462,12 +497,20 @@ export class StreamManager extends EventEmitter {
         return false;
       }
       
-      logger.info('Starting Twitter broadcast to', { endpoint: twitterEndpoint });
-      
-      // The actual RTMP forwarding is handled by the RTMP server
-      // Here we would typically inform the RTMP server to start forwarding
-      // to the Twitter endpoint if we had that functionality
-      
+      if (!this.outputManager.isAttached()) {
+        logger.error('Cannot start Twitter broadcast - no stream to relay');
+        return false;
+      }
+
+      await this.outputManager.registerOutput({
+        id: TWITTER_OUTPUT_ID,
+        name: 'Twitter',
+        url: twitterEndpoint,
+        enabled: true
+      });
+      await this.outputManager.updateOutput(TWITTER_OUTPUT_ID, { enabled: true });
+
+      logger.info('Twitter broadcast started', { destination: TWITTER_OUTPUT_ID });
       return true;
     } catch (error) {
       logger.error('Failed to start Twitter broadcast', {
@@ -478,7 +521,8 @@ export class StreamManager extends EventEmitter {
   }
 
   /**
-   * Stop Twitter broadcasting
+   * Stop Twitter broadcasting by disabling the Twitter output. It stays
+   * disabled until started again.
    */
   public async stopTwitterBroadcast(): Promise<boolean> {
     if (!this.isInitialized) {
@@ -486,10 +530,8 @@ export class StreamManager extends EventEmitter {
     }
     
     try {
-      // The actual RTMP forwarding stop would be handled by the RTMP server
-      // Here we would typically inform the RTMP server to stop forwarding
-      // to the Twitter endpoint if we had that functionality
-      
+      await this.outputManager.updateOutput(TWITTER_OUTPUT_ID, { enabled: false });
+
       logger.info('Twitter broadcast stopped');
       return true;
     } catch (error) {
@@ -499,4 +541,11 @@ export class StreamManager extends EventEmitter {
       return false;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * State, bitrate and errors of the Twitter relay, or null if it isn't running
+   */
+  public getTwitterBroadcastStatus(): RelayStatus | null {
+    return this.outputManager.getOutput(TWITTER_OUTPUT_ID)?.relay ?? null;
+  }
+}
@@ -0,0 +1,46 @@
+import NodeMediaServer from 'node-media-server';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Local RTMP sink for exercising the restream relay without a real
+ * destination. Accepts any publish on rtmp://localhost:<port>/<app>/<key>
+ * and logs when publishers come and go.
+ *
+ * Point the Twitter broadcast at it with
+ *   TWITTER_RTMP_URL=rtmp://localhost:1936/live TWITTER_STREAM_KEY=test
+ * and stop/start the sink to watch the relay reconnect.
+ */
+function startSink(port: number): NodeMediaServer {
+  const sink = new NodeMediaServer({
+    rtmp: {
+      port,
+      chunk_size: 60000,
+      gop_cache: false,
+      ping: 30,
+      ping_timeout: 60
+    },
+    logType: 1
+  });
+
+  sink.on('postPublish', (id, streamPath) => {
+    logger.info('Sink receiving stream', { component: 'rtmp-sink', id, streamPath });
+  });
+  sink.on('donePublish', (id, streamPath) => {
+    logger.info('Sink stream ended', { component: 'rtmp-sink', id, streamPath });
+  });
+
+  sink.run();
+  logger.info('RTMP sink listening', { component: 'rtmp-sink', url: `rtmp://localhost:${port}/live` });
+  return sink;
+}
+
+// Start the sink if run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const port = Number(process.argv[2]) || 1936;
+  const sink = startSink(port);
+
+  process.on('SIGINT', () => {
+    sink.stop();
+    process.exit(0);
+  });
+}
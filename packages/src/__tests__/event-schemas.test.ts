@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { EventSchemaRegistry, EventSchemaError, eventSchemas } from '../schema/events.js';
+import { validateEvent } from '../utils/validation.js';
+import { EVENT_TYPES } from '../types/events.js';
+
+const envelope = (type: string, version: string, data: Record<string, unknown>) => ({
+  id: 'event-1',
+  timestamp: Date.now(),
+  type,
+  source: 'AUCTION_ENGINE',
+  version,
+  data
+});
+
+const bidAccepted = {
+  bidId: 'bid1',
+  auctionId: 'lot1',
+  userId: 'user1',
+  amount: '1.5',
+  currency: 'ETH',
+  timestamp: new Date().toISOString(),
+  isHighestBid: true
+};
+
+describe('Event schemas', () => {
+  it('registers every event type at its current version', () => {
+    for (const type of Object.values(EVENT_TYPES)) {
+      expect(eventSchemas.currentVersion(type)).toBe('1.0.0');
+    }
+    expect(eventSchemas.checkPayload(EVENT_TYPES.BID_ACCEPTED, bidAccepted)).toEqual([]);
+  });
+
+  it('reports payload problems by field', () => {
+    const missing: Record<string, unknown> = { ...bidAccepted, amount: 15 };
+    delete missing['isHighestBid'];
+
+    expect(validateEvent(envelope(EVENT_TYPES.BID_ACCEPTED, '1.0.0', missing))).toEqual([
+      { field: 'data.amount', message: 'Expected string, received number' },
+      { field: 'data.isHighestBid', message: 'Required' }
+    ]);
+  });
+
+  it('upcasts older payloads and accepts newer ones that still match', () => {
+    // 2.0.0 splits amount into value and currency
+    const registry = new EventSchemaRegistry()
+      .register('BID_ACCEPTED', '1.0.0', z.object({ amount: z.string(), currency: z.string() }).passthrough())
+      .register('BID_ACCEPTED', '2.0.0', z.object({ price: z.object({ value: z.string(), currency: z.string() }) }).passthrough())
+      .registerUpcaster('BID_ACCEPTED', '1.0.0', '2.0.0', ({ amount, currency, ...rest }) => ({ ...rest, price: { value: amount, currency } }));
+
+    const old = registry.read(envelope(EVENT_TYPES.BID_ACCEPTED, '1.0.0', bidAccepted));
+    expect(old).toMatchObject({
+      success: true,
+      upcastFrom: '1.0.0',
+      event: { version: '2.0.0', data: { bidId: 'bid1', price: { value: '1.5', currency: 'ETH' } } }
+    });
+
+    // Published by a producer deployed before this consumer, with a field added in 2.1.0
+    const newer = registry.read(envelope(EVENT_TYPES.BID_ACCEPTED, '2.1.0', { price: { value: '2', currency: 'ETH' }, note: 'new' }));
+    expect(newer).toMatchObject({ success: true, event: { version: '2.1.0', data: { note: 'new' } } });
+
+    expect(() => registry.parse(envelope(EVENT_TYPES.BID_ACCEPTED, '3.0.0', { amount: '2' }))).toThrow(EventSchemaError);
+    expect(() => registry.registerUpcaster('BID_ACCEPTED', '2.0.0', '1.0.0', data => data)).toThrow('later version');
+  });
+});
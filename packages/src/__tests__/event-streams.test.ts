@@ -0,0 +1,469 @@
+/**
+ * EventClient streams mode tests
+ *
+ * Runs the client against an in-memory stand-in for the Redis Streams, hash,
+ * sorted set and pub/sub commands it uses, shared by every client like a real
+ * server would be.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createClient } from 'redis';
+import { EventClient, eventStreamKey } from '../utils/events.js';
+import { EventSchemaError } from '../schema/events.js';
+import { DEFAULT_RETRY_POLICY, retryDelay } from '../utils/dead-letter.js';
+import { EVENT_TYPES } from '../types/events.js';
+import type { Event } from '../types/events.js';
+
+interface FakeEntry {
+  id: string;
+  message: Record<string, string>;
+}
+
+interface FakeGroup {
+  lastId: number;
+  pending: Map<string, { consumer: string; deliveredAt: number; deliveries: number }>;
+}
+
+const server = vi.hoisted(() => ({
+  streams: new Map<string, { entries: FakeEntry[]; seq: number; groups: Map<string, FakeGroup> }>(),
+  strings: new Map<string, string>(),
+  hashes: new Map<string, Map<string, string>>(),
+  sortedSets: new Map<string, Map<string, number>>(),
+  channels: new Map<string, Set<(message: string) => void>>()
+}));
+
+vi.mock('redis', () => {
+  const seq = (id: string): number => Number(id.split('-')[0]);
+  const stream = (key: string) => {
+    if (!server.streams.has(key)) {
+      server.streams.set(key, { entries: [], seq: 0, groups: new Map() });
+    }
+    return server.streams.get(key)!;
+  };
+  const group = (key: string, name: string): FakeGroup => {
+    const found = server.streams.get(key)?.groups.get(name);
+    if (!found) throw new Error('NOGROUP No such key or consumer group');
+    return found;
+  };
+  const hash = (key: string) => {
+    if (!server.hashes.has(key)) server.hashes.set(key, new Map());
+    return server.hashes.get(key)!;
+  };
+  const sortedSet = (key: string) => {
+    if (!server.sortedSets.has(key)) server.sortedSets.set(key, new Map());
+    return server.sortedSets.get(key)!;
+  };
+  const byScore = (key: string) => [...sortedSet(key).entries()].sort((a, b) => a[1] - b[1]).map(([member]) => member);
+  const deliver = (target: FakeGroup, id: string, consumer: string) => {
+    const deliveries = (target.pending.get(id)?.deliveries ?? 0) + 1;
+    target.pending.set(id, { consumer, deliveredAt: Date.now(), deliveries });
+  };
+
+  const client = () => {
+    const commands = {
+      connect: async () => undefined,
+      disconnect: async () => undefined,
+      on: () => undefined,
+      duplicate: () => client(),
+      publish: async (channel: string, message: string) => {
+        const listeners = [...(server.channels.get(channel) ?? [])];
+        listeners.forEach(listener => listener(message));
+        return listeners.length;
+      },
+      subscribe: async (channel: string, listener: (message: string) => void) => {
+        if (!server.channels.has(channel)) server.channels.set(channel, new Set());
+        server.channels.get(channel)!.add(listener);
+      },
+      xAdd: async (key: string, _id: string, message: Record<string, string>) => {
+        const target = stream(key);
+        const id = `${++target.seq}-0`;
+        target.entries.push({ id, message });
+        return id;
+      },
+      multi: () => {
+        const queued: Array<() => Promise<unknown>> = [];
+        const chain: Record<string, unknown> = new Proxy({}, {
+          get: (_target, name: string) => name === 'exec'
+            ? async () => {
+              const replies = [];
+              for (const run of queued) replies.push(await run());
+              return replies;
+            }
+            : (...args: unknown[]) => {
+              queued.push(() => (commands as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[name]!(...args));
+              return chain;
+            }
+        });
+        return chain;
+      },
+      xGroupCreate: async (key: string, name: string, id: string) => {
+        const target = stream(key);
+        if (target.groups.has(name)) throw new Error('BUSYGROUP Consumer Group name already exists');
+        target.groups.set(name, { lastId: id === '$' ? target.seq : seq(id), pending: new Map() });
+        return 'OK';
+      },
+      xReadGroup: async (
+        name: string,
+        consumer: string,
+        streams: { key: string; id: string } | Array<{ key: string; id: string }>,
+        options: { COUNT: number; BLOCK?: number }
+      ) => {
+        const reply = [];
+        for (const { key, id } of Array.isArray(streams) ? streams : [streams]) {
+          const target = group(key, name);
+          const entries = stream(key).entries;
+          let messages: FakeEntry[];
+          if (id === '>') {
+            messages = entries.filter(entry => seq(entry.id) > target.lastId).slice(0, options.COUNT);
+            for (const entry of messages) {
+              target.lastId = seq(entry.id);
+              deliver(target, entry.id, consumer);
+            }
+          } else {
+            // Re-reading this consumer's own pending entries
+            messages = entries.filter(entry =>
+              seq(entry.id) > seq(id) && target.pending.get(entry.id)?.consumer === consumer
+            ).slice(0, options.COUNT);
+          }
+          if (messages.length > 0 || id !== '>') reply.push({ name: key, messages });
+        }
+        if (reply.length === 0 && options.BLOCK) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return null;
+        }
+        return reply;
+      },
+      xAck: async (key: string, name: string, id: string) => Number(group(key, name).pending.delete(id)),
+      xAutoClaim: async (key: string, name: string, consumer: string, minIdle: number) => {
+        const target = group(key, name);
+        const messages = stream(key).entries.filter(entry => {
+          const pending = target.pending.get(entry.id);
+          return pending !== undefined && Date.now() - pending.deliveredAt >= minIdle;
+        });
+        for (const entry of messages) {
+          deliver(target, entry.id, consumer);
+        }
+        return { nextId: '0-0', messages };
+      },
+      xPendingRange: async (key: string, name: string, _start: string, _end: string, count: number, options: { IDLE: number }) =>
+        [...group(key, name).pending.entries()]
+          .filter(([, pending]) => Date.now() - pending.deliveredAt >= options.IDLE)
+          .slice(0, count)
+          .map(([id, pending]) => ({ id, owner: pending.consumer, millisecondsSinceLastDelivery: 0, deliveriesCounter: pending.deliveries })),
+      xRange: async (key: string, start: string) => stream(key).entries.filter(entry => entry.id === start),
+      xRevRange: async (key: string) => [...stream(key).entries].reverse(),
+      set: async (key: string, value: string) => {
+        server.strings.set(key, value);
+        return 'OK';
+      },
+      get: async (key: string) => server.strings.get(key) ?? null,
+      hSet: async (key: string, field: string, value: string) => {
+        hash(key).set(field, value);
+        return 1;
+      },
+      hGet: async (key: string, field: string) => hash(key).get(field),
+      hmGet: async (key: string, fields: string[]) => fields.map(field => hash(key).get(field) ?? null),
+      hDel: async (key: string, field: string) => Number(hash(key).delete(field)),
+      zAdd: async (key: string, { score, value }: { score: number; value: string }) => {
+        sortedSet(key).set(value, score);
+        return 1;
+      },
+      zRem: async (key: string, member: string) => Number(sortedSet(key).delete(member)),
+      zCard: async (key: string) => sortedSet(key).size,
+      zRange: async (key: string) => byScore(key).reverse(),
+      zRangeByScore: async (key: string, min: number, max: number) =>
+        byScore(key).filter(member => sortedSet(key).get(member)! >= min && sortedSet(key).get(member)! <= max)
+    };
+    return commands;
+  };
+
+  return { createClient: () => client() };
+});
+
+const bid = (bidId: string) => ({
+  bidId,
+  lotId: 'lot456',
+  sessionId: 'session789',
+  userId: 'user123',
+  amount: '1000.00',
+  currency: 'USD',
+  timestamp: new Date().toISOString()
+});
+
+const lot = (lotId: string) => ({
+  lotId,
+  sessionId: 'session789',
+  artItemId: 'art1',
+  startTime: new Date().toISOString(),
+  endTime: new Date().toISOString(),
+  currency: 'ETH',
+  lotOrder: 1
+});
+
+const pendingCount = (type: string, groupName: string): number =>
+  server.streams.get(eventStreamKey(type as Event['type']))?.groups.get(groupName)?.pending.size ?? 0;
+
+describe('EventClient streams mode', () => {
+  const clients: EventClient[] = [];
+
+  const connectClient = async (options: Partial<ConstructorParameters<typeof EventClient>[0]> = {}) => {
+    const client = new EventClient({
+      redisUrl: 'redis://localhost:6379',
+      serviceName: 'EVENT_HANDLER',
+      mode: 'streams',
+      consumerName: 'event-handler-1',
+      pendingIdleMs: 50,
+      deadLetterPollMs: 20,
+      defaultRetryPolicy: { initialDelayMs: 20 },
+      ...options
+    });
+    await client.connect();
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    server.streams.clear();
+    server.strings.clear();
+    server.hashes.clear();
+    server.sortedSets.clear();
+    server.channels.clear();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.disconnect()));
+  });
+
+  it('appends published events to the type and all-events streams', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+
+    await publisher.publish('BID_PLACED', bid('bid1'));
+
+    expect(server.streams.get(eventStreamKey(EVENT_TYPES.BID_PLACED))?.entries).toHaveLength(1);
+    expect(server.streams.get(eventStreamKey('all'))?.entries).toHaveLength(1);
+    expect(await publisher.getEventHistory(EVENT_TYPES.BID_PLACED)).toEqual([
+      expect.objectContaining({ type: EVENT_TYPES.BID_PLACED, data: expect.objectContaining({ bidId: 'bid1' }) })
+    ]);
+  });
+
+  it('replays an event found through its stream entry', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    const consumer = await connectClient();
+    const received: string[] = [];
+    await consumer.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+      received.push((event.data as { bidId: string }).bidId);
+    });
+    consumer.start();
+
+    const eventId = await publisher.publish('BID_PLACED', bid('bid1'));
+    await publisher.publish('BID_PLACED', bid('bid2'));
+    await vi.waitFor(() => expect(received).toEqual(['bid1', 'bid2']), { timeout: 2000 });
+
+    expect(await publisher.replayEvent(eventId)).toBe(true);
+    expect(await publisher.replayEvent('unknown')).toBe(false);
+    await vi.waitFor(() => expect(received).toEqual(['bid1', 'bid2', 'bid1']), { timeout: 2000 });
+  });
+
+  it('acknowledges handled events and retries the ones whose handler failed', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    const consumer = await connectClient();
+    const received: string[] = [];
+    let failures = 1;
+    await consumer.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+      if (failures-- > 0) throw new Error('database unavailable');
+      received.push((event.data as { bidId: string }).bidId);
+    });
+    consumer.start();
+
+    await publisher.publish('BID_PLACED', bid('bid1'));
+
+    await vi.waitFor(async () => {
+      expect(received).toEqual(['bid1']);
+      expect(pendingCount(EVENT_TYPES.BID_PLACED, 'EVENT_HANDLER')).toBe(0);
+      expect(await consumer.getDeadLetterQueue().stats()).toMatchObject({ depth: 0 });
+    }, { timeout: 2000 });
+  });
+
+  it('retries only the handlers that failed', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    // Retried by hand below
+    const consumer = await connectClient({ defaultRetryPolicy: { initialDelayMs: 60000 } });
+    const broadcast: string[] = [];
+    const stored: string[] = [];
+    let failures = 1;
+    await consumer.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+      broadcast.push((event.data as { bidId: string }).bidId);
+    }, { name: 'sse' });
+    await consumer.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+      if (failures-- > 0) throw new Error('database unavailable');
+      stored.push((event.data as { bidId: string }).bidId);
+    }, { name: 'router' });
+    consumer.start();
+
+    const eventId = await publisher.publish('BID_PLACED', bid('bid1'));
+    await vi.waitFor(async () => {
+      expect(await consumer.getDeadLetterQueue().get(eventId)).toMatchObject({ failedHandlers: ['router'] });
+    }, { timeout: 2000 });
+
+    expect(broadcast).toEqual(['bid1']);
+
+    expect(await consumer.retryDeadLetter(eventId)).toEqual({ id: eventId, outcome: 'succeeded' });
+    expect(stored).toEqual(['bid1']);
+    expect(broadcast).toEqual(['bid1']);
+  });
+
+  it('resumes after a restart with the events published while it was down, for every handler', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    const key = eventStreamKey(EVENT_TYPES.LOT_START);
+    const crashed = createClient();
+    await crashed.xGroupCreate(key, 'EVENT_HANDLER', '$', { MKSTREAM: true });
+    await publisher.publish('LOT_START', lot('lot1'));
+    // Read, then the instance went down before acknowledging it
+    await crashed.xReadGroup('EVENT_HANDLER', 'event-handler-1', { key, id: '>' }, { COUNT: 1 });
+    expect(pendingCount(EVENT_TYPES.LOT_START, 'EVENT_HANDLER')).toBe(1);
+
+    // Published during the deploy
+    await publisher.publish('LOT_START', lot('lot2'));
+
+    const restarted = await connectClient({ pendingIdleMs: 60000 });
+    const broadcast: string[] = [];
+    const received: string[] = [];
+    await restarted.subscribe(EVENT_TYPES.LOT_START, async (event) => {
+      broadcast.push((event.data as { lotId: string }).lotId);
+    }, { name: 'sse' });
+    await restarted.subscribe(EVENT_TYPES.LOT_START, async (event) => {
+      received.push((event.data as { lotId: string }).lotId);
+    }, { name: 'router' });
+    // Nothing is read until every handler is there
+    expect(pendingCount(EVENT_TYPES.LOT_START, 'EVENT_HANDLER')).toBe(1);
+    restarted.start();
+
+    await vi.waitFor(() => {
+      expect(broadcast).toEqual(['lot1', 'lot2']);
+      expect(received).toEqual(['lot1', 'lot2']);
+      expect(pendingCount(EVENT_TYPES.LOT_START, 'EVENT_HANDLER')).toBe(0);
+    }, { timeout: 2000 });
+  });
+
+  it('hands live events to the listeners of every instance', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    const instances = [await connectClient(), await connectClient({ consumerName: 'event-handler-2' })];
+    const heard: string[][] = [[], []];
+    const handled: string[] = [];
+    for (const [index, instance] of instances.entries()) {
+      await instance.listen(EVENT_TYPES.BID_PLACED, async (event) => {
+        heard[index]!.push((event.data as { bidId: string }).bidId);
+      });
+      await instance.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+        handled.push((event.data as { bidId: string }).bidId);
+      });
+      instance.start();
+    }
+
+    await publisher.publish('BID_PLACED', bid('bid1'));
+
+    await vi.waitFor(() => expect(handled).toEqual(['bid1']), { timeout: 2000 });
+    // The consumer group hands the event to one instance; pub/sub reaches them all
+    expect(heard).toEqual([['bid1'], ['bid1']]);
+  });
+
+  it('refuses to publish payloads that do not match their schema and quarantines the ones that arrive anyway', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    const consumer = await connectClient();
+    const received: string[] = [];
+    await consumer.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+      received.push((event.data as { bidId: string }).bidId);
+    });
+    consumer.start();
+
+    await expect(publisher.publish('BID_PLACED', { ...bid('bid1'), amount: 1000 } as never)).rejects.toThrow(EventSchemaError);
+
+    // From a producer that doesn't validate
+    const key = eventStreamKey(EVENT_TYPES.BID_PLACED);
+    const target = server.streams.get(key)!;
+    const entryId = `${++target.seq}-0`;
+    target.entries.push({
+      id: entryId,
+      message: { event: JSON.stringify({ id: 'e1', timestamp: Date.now(), type: EVENT_TYPES.BID_PLACED, source: 'AUCTION_ENGINE', version: '1.0.0', data: { bidId: 'bid2' } }) }
+    });
+    await publisher.publish('BID_PLACED', bid('bid3'));
+
+    await vi.waitFor(async () => {
+      expect(received).toEqual(['bid3']);
+      expect(pendingCount(EVENT_TYPES.BID_PLACED, 'EVENT_HANDLER')).toBe(0);
+      expect(await consumer.getDeadLetterQueue().get(entryId)).toMatchObject({
+        status: 'quarantined',
+        poison: true,
+        attempts: 1,
+        lastError: expect.stringContaining('data.lotId: Required')
+      });
+    }, { timeout: 2000 });
+  });
+
+  it('quarantines events after the attempts of their retry policy, for a manual retry or purge', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    const consumer = await connectClient({ retryPolicies: { BID_PLACED: { maxAttempts: 3 } } });
+    let healthy = false;
+    const received: string[] = [];
+    await consumer.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+      if (!healthy) throw new Error('database unavailable');
+      received.push((event.data as { bidId: string }).bidId);
+    });
+    consumer.start();
+
+    const eventId = await publisher.publish('BID_PLACED', bid('bid1'));
+    const deadLetters = consumer.getDeadLetterQueue();
+    await vi.waitFor(async () => {
+      expect(await deadLetters.get(eventId)).toMatchObject({ status: 'quarantined', attempts: 3, lastError: 'database unavailable' });
+    }, { timeout: 2000 });
+    expect(await deadLetters.list({ status: 'quarantined' })).toMatchObject({ total: 1, entries: [{ id: eventId, eventType: EVENT_TYPES.BID_PLACED }] });
+
+    healthy = true;
+    expect(await consumer.retryDeadLetter(eventId)).toEqual({ id: eventId, outcome: 'succeeded' });
+    expect(received).toEqual(['bid1']);
+    expect(await consumer.retryDeadLetter(eventId)).toEqual({ id: eventId, outcome: 'not_found' });
+
+    healthy = false;
+    await publisher.publish('BID_PLACED', bid('bid2'));
+    await vi.waitFor(async () => expect(await deadLetters.stats()).toMatchObject({ depth: 1 }), { timeout: 2000 });
+    expect(await deadLetters.purge({ eventType: EVENT_TYPES.BID_PLACED })).toBe(1);
+    expect(await deadLetters.stats()).toEqual({ depth: 0, retrying: 0, quarantined: 0, byType: {} });
+  });
+
+  it('quarantines entries that keep taking their consumer down', async () => {
+    const publisher = await connectClient({ serviceName: 'AUCTION_ENGINE' });
+    const key = eventStreamKey(EVENT_TYPES.BID_PLACED);
+    const crashing = createClient();
+    await crashing.xGroupCreate(key, 'EVENT_HANDLER', '$', { MKSTREAM: true });
+    const eventId = await publisher.publish('BID_PLACED', bid('bid1'));
+    const reply = await crashing.xReadGroup('EVENT_HANDLER', 'event-handler-2', { key, id: '>' }, { COUNT: 1 });
+    const entry = reply?.[0]?.messages[0];
+    // Claimed and lost by two more instances
+    await crashing.xAutoClaim(key, 'EVENT_HANDLER', 'event-handler-3', 0, '0-0');
+    await crashing.xAutoClaim(key, 'EVENT_HANDLER', 'event-handler-4', 0, '0-0');
+
+    const consumer = await connectClient({ defaultRetryPolicy: { maxAttempts: 2 } });
+    const received: string[] = [];
+    await consumer.subscribe(EVENT_TYPES.BID_PLACED, async (event) => {
+      received.push(event.id);
+    });
+    consumer.start();
+
+    await vi.waitFor(async () => {
+      expect(await consumer.getDeadLetterQueue().get(entry!.id)).toMatchObject({
+        status: 'quarantined',
+        poison: true,
+        lastError: 'Delivered 3 times without being acknowledged'
+      });
+      expect(pendingCount(EVENT_TYPES.BID_PLACED, 'EVENT_HANDLER')).toBe(0);
+    }, { timeout: 2000 });
+    expect(received).not.toContain(eventId);
+  });
+});
+
+describe('retryDelay', () => {
+  it('backs off exponentially up to the maximum delay', () => {
+    expect([1, 2, 3, 4].map(attempts => retryDelay(DEFAULT_RETRY_POLICY, attempts))).toEqual([1000, 2000, 4000, 8000]);
+    expect(retryDelay(DEFAULT_RETRY_POLICY, 20)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+});
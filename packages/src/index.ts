@@ -11,6 +11,7 @@ export * from './types/index.js';
 export * from './utils/logger.js';
 export * from './utils/events.js';
 export * from './utils/validation.js';
+export * from './utils/dead-letter.js';
 export * from './utils/websocket-client.js';
 export * from './utils/http-client.js';
 
@@ -0,0 +1,522 @@
+/**
+ * Event Schemas
+ *
+ * Runtime schemas for the events defined in types/events.ts, one per event
+ * type and payload version. EventClient checks events against them when they
+ * are published and when they are received.
+ *
+ * Versioning:
+ * - every type starts at 1.0.0; `version` on an event is its payload version
+ * - adding an optional field is a minor bump and needs no upcaster, because
+ *   payload schemas let unknown fields through to older consumers
+ * - any other change registers the new schema under a new version together
+ *   with an upcaster from the previous version, and consumers are deployed
+ *   before the producers that start sending it
+ */
+
+import { z } from 'zod';
+import { EVENT_TYPES, EVENT_SOURCES } from '../types/events.js';
+import type { Event, EventType, EventTypeKey } from '../types/events.js';
+
+export const INITIAL_EVENT_VERSION = '1.0.0';
+
+const eventTypeValues = Object.values(EVENT_TYPES) as [EventType, ...EventType[]];
+const eventSourceValues = Object.values(EVENT_SOURCES) as [string, ...string[]];
+
+export const baseEventSchema = z.object({
+  id: z.string().min(1),
+  timestamp: z.number().int().nonnegative(),
+  type: z.enum(eventTypeValues),
+  source: z.enum(eventSourceValues),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Expected a version like 1.0.0'),
+  data: z.record(z.unknown())
+});
+
+// Fields a newer producer added pass through to consumers that don't know them yet
+const payload = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+const isoDate = z.string().min(1);
+const decimal = z.string().min(1);
+const severity = z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']);
+
+// Types that don't have a payload interface in types/events.ts yet
+const anyPayload = z.record(z.unknown());
+
+const sessionStageChange = payload({
+  sessionId: z.string(),
+  campaignId: z.string(),
+  stage: z.enum(['PRE_AUCTION', 'AUCTION', 'POST_AUCTION']),
+  startTime: isoDate,
+  endTime: isoDate
+});
+
+const EVENT_PAYLOAD_SCHEMAS: Partial<Record<EventTypeKey, z.ZodTypeAny>> = {
+  // Session Events
+  SESSION_START: payload({
+    sessionId: z.string(),
+    campaignId: z.string(),
+    sessionDate: isoDate,
+    preAuctionStartTime: isoDate,
+    preAuctionEndTime: isoDate,
+    auctionStartTime: isoDate,
+    auctionEndTime: isoDate,
+    postAuctionStartTime: isoDate,
+    postAuctionEndTime: isoDate,
+    streamKey: z.string().optional()
+  }),
+  SESSION_PRE_AUCTION: sessionStageChange,
+  SESSION_AUCTION: sessionStageChange,
+  SESSION_POST_AUCTION: sessionStageChange,
+  SESSION_END: payload({
+    sessionId: z.string(),
+    campaignId: z.string(),
+    totalLots: z.number(),
+    completedLots: z.number(),
+    totalBids: z.number(),
+    totalValue: decimal,
+    currency: z.string()
+  }),
+
+  // Lot Events
+  LOT_START: payload({
+    lotId: z.string(),
+    sessionId: z.string(),
+    artItemId: z.string(),
+    artItem: payload({
+      name: z.string(),
+      imageUrl: z.string(),
+      animationUrl: z.string().optional(),
+      description: z.string().optional()
+    }).optional(),
+    startTime: isoDate,
+    endTime: isoDate,
+    reservePrice: z.string().optional(),
+    currency: z.string(),
+    lotOrder: z.number().int()
+  }),
+  LOT_END: payload({
+    lotId: z.string(),
+    sessionId: z.string(),
+    artItemId: z.string(),
+    endTime: isoDate,
+    finalPrice: z.string().optional(),
+    currency: z.string(),
+    winnerId: z.string().optional(),
+    winningBidId: z.string().optional(),
+    lotOrder: z.number().int()
+  }),
+  WINNER_DETERMINED: payload({
+    auctionId: z.string(),
+    bidId: z.string(),
+    userId: z.string(),
+    amount: decimal,
+    currency: z.string(),
+    timestamp: isoDate
+  }),
+
+  // Bid Events
+  BID_PLACED: payload({
+    bidId: z.string().min(1),
+    lotId: z.string().min(1),
+    sessionId: z.string().min(1),
+    userId: z.string().min(1),
+    amount: decimal,
+    currency: z.string().min(1),
+    timestamp: isoDate
+  }),
+  BID_ACCEPTED: payload({
+    bidId: z.string(),
+    auctionId: z.string(),
+    userId: z.string(),
+    amount: decimal,
+    currency: z.string(),
+    timestamp: isoDate,
+    isHighestBid: z.boolean()
+  }),
+  BID_REJECTED: payload({
+    bidId: z.string(),
+    auctionId: z.string(),
+    userId: z.string(),
+    amount: decimal,
+    currency: z.string(),
+    timestamp: isoDate,
+    reason: z.string(),
+    reasonCode: z.enum([
+      'NO_ACTIVE_AUCTION',
+      'AUCTION_NOT_ACTIVE',
+      'AUCTION_CLOSED',
+      'CURRENCY_MISMATCH',
+      'BELOW_MIN_BID',
+      'BELOW_RESERVE',
+      'INCREMENT_TOO_SMALL',
+      'SELF_OUTBID'
+    ]).optional(),
+    minimumAmount: decimal.optional()
+  }),
+
+  // Auction Events
+  AUCTION_START: payload({
+    auctionId: z.string().min(1),
+    campaignId: z.string().optional(),
+    artItemId: z.string().min(1),
+    startTime: isoDate,
+    endTime: isoDate,
+    reservePrice: z.string().optional(),
+    currency: z.string().min(1)
+  }),
+  AUCTION_END: payload({
+    auctionId: z.string(),
+    campaignId: z.string().optional(),
+    artItemId: z.string(),
+    endTime: isoDate,
+    finalPrice: z.string().optional(),
+    currency: z.string(),
+    winnerId: z.string().optional()
+  }),
+  AUCTION_EXTENDED: payload({
+    auctionId: z.string(),
+    lotOrder: z.number().int(),
+    previousEndTime: isoDate,
+    newEndTime: isoDate,
+    extensionCount: z.number().int(),
+    maxExtensions: z.number().int(),
+    triggeringBidId: z.string(),
+    timestamp: isoDate
+  }),
+
+  // Settlement Events
+  PAYMENT_REQUESTED: payload({
+    auctionId: z.string(),
+    bidId: z.string(),
+    userId: z.string(),
+    amount: decimal,
+    currency: z.string(),
+    paymentId: z.string(),
+    expiresAt: isoDate,
+    offerNumber: z.number().int().positive(),
+    timestamp: isoDate
+  }),
+  PAYMENT_RECEIVED: payload({
+    auctionId: z.string(),
+    bidId: z.string(),
+    userId: z.string(),
+    amount: decimal,
+    currency: z.string(),
+    paymentId: z.string(),
+    transactionHash: z.string(),
+    timestamp: isoDate
+  }),
+  PAYMENT_EXPIRED: payload({
+    auctionId: z.string(),
+    bidId: z.string(),
+    userId: z.string(),
+    paymentId: z.string(),
+    nextBidId: z.string().optional(),
+    timestamp: isoDate
+  }),
+  LOT_SETTLED: payload({
+    auctionId: z.string(),
+    outcome: z.enum(['SOLD', 'UNSOLD']),
+    bidId: z.string().optional(),
+    userId: z.string().optional(),
+    amount: decimal.optional(),
+    currency: z.string(),
+    transactionHash: z.string().optional(),
+    timestamp: isoDate
+  }),
+
+  // Price Events
+  PRICE_UPDATED: payload({
+    auctionId: z.string(),
+    currentPrice: decimal,
+    previousPrice: decimal.optional(),
+    timestamp: isoDate
+  }),
+  TIMER_UPDATED: payload({
+    auctionId: z.string(),
+    timeRemaining: z.number(),
+    isExtended: z.boolean(),
+    extensionCount: z.number().int(),
+    timestamp: isoDate
+  }),
+
+  // Stream Events
+  STREAM_START: payload({
+    streamId: z.string().min(1),
+    auctionId: z.string().optional(),
+    startTime: isoDate,
+    platform: z.string().min(1),
+    url: z.string().optional()
+  }),
+  STREAM_END: payload({
+    streamId: z.string(),
+    endTime: isoDate,
+    duration: z.number(),
+    viewerCount: z.number().optional()
+  }),
+  STREAM_ERROR: payload({
+    streamId: z.string(),
+    errorCode: z.string(),
+    errorMessage: z.string(),
+    timestamp: isoDate,
+    severity
+  }),
+  STREAM_QUALITY: payload({
+    streamId: z.string(),
+    bitrate: z.number(),
+    fps: z.number(),
+    resolution: z.string(),
+    timestamp: isoDate
+  }),
+  SCENE_UPDATE: payload({
+    streamId: z.string(),
+    sceneId: z.string(),
+    elements: z.array(z.unknown()),
+    timestamp: isoDate
+  }),
+  ASSET_LOADED: payload({
+    assetId: z.string(),
+    assetType: z.string(),
+    assetUrl: z.string(),
+    timestamp: isoDate
+  }),
+
+  // Agent Events
+  AGENT_MESSAGE: payload({
+    agentId: z.string(),
+    messageId: z.string(),
+    content: z.string(),
+    timestamp: isoDate,
+    context: z.unknown().optional()
+  }),
+  AGENT_MOOD: payload({
+    agentId: z.string(),
+    mood: z.string(),
+    previousMood: z.string().optional(),
+    timestamp: isoDate,
+    trigger: z.string().optional()
+  }),
+  AGENT_INTERACTION: payload({
+    agentId: z.string(),
+    interactionId: z.string(),
+    userId: z.string().optional(),
+    twitterHandle: z.string().optional(),
+    content: z.string(),
+    timestamp: isoDate,
+    type: z.enum(['QUESTION', 'COMMENT', 'BID', 'OTHER'])
+  }),
+  AGENT_ASSET: payload({
+    agentId: z.string(),
+    assetId: z.string(),
+    assetType: z.string(),
+    mood: z.string().optional(),
+    timestamp: isoDate
+  }),
+  AGENT_MEMORY: payload({
+    agentId: z.string(),
+    memoryId: z.string(),
+    content: z.unknown(),
+    timestamp: isoDate,
+    type: z.enum(['SHORT_TERM', 'LONG_TERM'])
+  }),
+
+  // User Events
+  USER_CONNECT: payload({
+    userId: z.string(),
+    connectionId: z.string(),
+    platform: z.string(),
+    timestamp: isoDate,
+    deviceInfo: z.unknown().optional()
+  }),
+  USER_DISCONNECT: payload({
+    userId: z.string(),
+    connectionId: z.string(),
+    timestamp: isoDate,
+    reason: z.string().optional()
+  }),
+  USER_ACTION: payload({
+    userId: z.string(),
+    actionId: z.string(),
+    actionType: z.string(),
+    timestamp: isoDate,
+    details: z.unknown().optional()
+  }),
+  USER_PREFERENCE: payload({
+    userId: z.string(),
+    preferences: z.unknown(),
+    timestamp: isoDate
+  }),
+
+  // System Events
+  SYSTEM_HEALTH: payload({
+    serviceId: z.string(),
+    status: z.enum(['HEALTHY', 'DEGRADED', 'UNHEALTHY']),
+    timestamp: isoDate,
+    details: z.unknown().optional()
+  }),
+  SYSTEM_METRIC: payload({
+    serviceId: z.string(),
+    metricName: z.string(),
+    metricValue: z.number(),
+    timestamp: isoDate,
+    unit: z.string().optional()
+  }),
+  SYSTEM_ERROR: payload({
+    serviceId: z.string(),
+    errorCode: z.string(),
+    errorMessage: z.string(),
+    timestamp: isoDate,
+    stackTrace: z.string().optional(),
+    severity
+  }),
+  SYSTEM_CONFIG: payload({
+    serviceId: z.string(),
+    configKey: z.string(),
+    configValue: z.unknown(),
+    timestamp: isoDate
+  })
+};
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class EventSchemaError extends Error {
+  constructor(public eventType: string, public version: string, public issues: SchemaIssue[]) {
+    super(`Invalid ${eventType} event (version ${version}): ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+    this.name = 'EventSchemaError';
+  }
+}
+
+/**
+ * Turns the payload of one version into the shape of the next
+ */
+export type Upcaster = (data: Record<string, unknown>) => Record<string, unknown>;
+
+export type EventReadResult =
+  | { success: true; event: Event; upcastFrom?: string }
+  | { success: false; issues: SchemaIssue[] };
+
+const toIssues = (error: z.ZodError, prefix: string[] = []): SchemaIssue[] =>
+  error.issues.map(issue => ({ path: [...prefix, ...issue.path].join('.') || 'event', message: issue.message }));
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Payload schemas per event type and version, with the upcasters between them.
+ * The highest registered version of a type is its current version, which is
+ * what gets published and what subscribers receive.
+ */
+export class EventSchemaRegistry {
+  private schemas = new Map<EventType, Map<string, z.ZodTypeAny>>();
+  private upcasters = new Map<EventType, Map<string, { to: string; upcast: Upcaster }>>();
+
+  register(eventType: EventTypeKey, version: string, schema: z.ZodTypeAny): this {
+    const type = EVENT_TYPES[eventType];
+    if (!this.schemas.has(type)) {
+      this.schemas.set(type, new Map());
+    }
+    this.schemas.get(type)!.set(version, schema);
+    return this;
+  }
+
+  registerUpcaster(eventType: EventTypeKey, from: string, to: string, upcast: Upcaster): this {
+    const type = EVENT_TYPES[eventType];
+    if (compareVersions(to, from) <= 0) {
+      throw new Error(`Upcaster for ${type} must go to a later version than ${from}, got ${to}`);
+    }
+    if (!this.upcasters.has(type)) {
+      this.upcasters.set(type, new Map());
+    }
+    this.upcasters.get(type)!.set(from, { to, upcast });
+    return this;
+  }
+
+  currentVersion(type: EventType): string {
+    const versions = Array.from(this.schemas.get(type)?.keys() ?? []);
+    return versions.sort(compareVersions).pop() ?? INITIAL_EVENT_VERSION;
+  }
+
+  /**
+   * Check a payload against the current version of its type, as it's about to be published
+   */
+  checkPayload(type: EventType, data: unknown): SchemaIssue[] {
+    const schema = this.schemas.get(type)?.get(this.currentVersion(type));
+    if (!schema) {
+      return [{ path: 'type', message: `No schema registered for ${type}` }];
+    }
+    const result = schema.safeParse(data);
+    return result.success ? [] : toIssues(result.error, ['data']);
+  }
+
+  /**
+   * Check a received event and bring its payload up to the current version of its type.
+   *
+   * An older version goes through its upcasters. A version this registry
+   * doesn't know, e.g. from a producer that was deployed first, is accepted
+   * if it still matches the current schema.
+   */
+  read(input: unknown): EventReadResult {
+    const base = baseEventSchema.safeParse(input);
+    if (!base.success) {
+      return { success: false, issues: toIssues(base.error) };
+    }
+
+    const { type, version } = base.data;
+    const current = this.currentVersion(type);
+    let data: Record<string, unknown> = base.data.data;
+    let at = version;
+
+    // Only earlier versions can be upcast; this walks the chain as far as it goes
+    while (at !== current && this.upcasters.get(type)?.has(at)) {
+      const step = this.upcasters.get(type)!.get(at)!;
+      try {
+        data = step.upcast(data);
+      } catch (error) {
+        return {
+          success: false,
+          issues: [{ path: 'data', message: `Upcasting from ${at} failed: ${error instanceof Error ? error.message : 'Unknown error'}` }]
+        };
+      }
+      at = step.to;
+    }
+
+    const issues = this.checkPayload(type, data);
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+
+    const event = { ...(input as Record<string, unknown>), data, version: at } as unknown as Event;
+    return at === version ? { success: true, event } : { success: true, event, upcastFrom: version };
+  }
+
+  /**
+   * Like read, but throws an EventSchemaError for an invalid event
+   */
+  parse(input: unknown): Event {
+    const result = this.read(input);
+    if (!result.success) {
+      const event = (input ?? {}) as { type?: unknown; version?: unknown };
+      throw new EventSchemaError(String(event.type ?? 'unknown'), String(event.version ?? 'unknown'), result.issues);
+    }
+    return result.event;
+  }
+}
+
+/**
+ * The registry EventClient uses, with every event type at its current version
+ */
+export const eventSchemas = new EventSchemaRegistry();
+
+for (const eventType of Object.keys(EVENT_TYPES) as EventTypeKey[]) {
+  eventSchemas.register(eventType, INITIAL_EVENT_VERSION, EVENT_PAYLOAD_SCHEMAS[eventType] ?? anyPayload);
+}
@@ -5,6 +5,8 @@
  * and provides helper functions to generate and parse keys.
  */
 
+import type { EventTypeKey } from '../../types/events.js';
+
 // Key Prefixes
 export const KEY_PREFIX = {
   // Campaign related keys
@@ -111,6 +113,37 @@ export const CHANNELS = {
   SYSTEM_EVENTS: 'events:system',
 };
 
+// The event types that make up each channel. Every event type belongs to exactly one.
+export const CHANNEL_EVENT_TYPES: Record<keyof typeof CHANNELS, readonly EventTypeKey[]> = {
+  AUCTION_EVENTS: [
+    'AUCTION_START', 'AUCTION_END', 'AUCTION_STARTED', 'AUCTION_ENDED', 'AUCTION_CANCELLED', 'AUCTION_EXTENDED',
+    'BID_PLACED', 'BID_ACCEPTED', 'BID_REJECTED',
+    'SESSION_START', 'SESSION_PRE_AUCTION', 'SESSION_AUCTION', 'SESSION_POST_AUCTION', 'SESSION_END',
+    'LOT_START', 'LOT_END', 'WINNER_DETERMINED',
+    'PAYMENT_REQUESTED', 'PAYMENT_RECEIVED', 'PAYMENT_EXPIRED', 'LOT_SETTLED',
+    'PRICE_UPDATED', 'TIMER_UPDATED'
+  ],
+  STREAM_EVENTS: [
+    'STREAM_START', 'STREAM_END', 'STREAM_ERROR', 'STREAM_WARNING', 'STREAM_INFO',
+    'STREAM_QUALITY', 'STREAM_STATE_UPDATE', 'STREAM_METRICS_UPDATE',
+    'SCENE_UPDATE', 'SCENE_LOAD', 'SCENE_UNLOAD', 'SCENE_ASSET_ADD', 'SCENE_ASSET_REMOVE', 'SCENE_ASSET_UPDATE', 'ASSET_LOADED',
+    'STATE_STREAM_UPDATE', 'STATE_SCENE_UPDATE', 'STATE_PREVIEW_UPDATE',
+    'PREVIEW_CONNECT', 'PREVIEW_DISCONNECT', 'PREVIEW_QUALITY_CHANGE', 'PREVIEW_FRAME',
+    'RTMP_CONNECTION', 'RTMP_DISCONNECTION', 'RTMP_PUBLISH_START', 'RTMP_PUBLISH_STOP', 'RTMP_PLAY_START', 'RTMP_PLAY_STOP'
+  ],
+  AGENT_EVENTS: ['AGENT_MESSAGE', 'AGENT_MOOD', 'AGENT_INTERACTION', 'AGENT_ASSET', 'AGENT_MEMORY'],
+  USER_EVENTS: [
+    'USER_CONNECT', 'USER_DISCONNECT', 'USER_ACTION', 'USER_ERROR', 'USER_WARNING', 'USER_INFO', 'USER_PREFERENCE',
+    'TWEET_RECEIVED', 'TWEET_PROCESSED', 'TWEET_ERROR', 'TWEET_WARNING', 'TWEET_INFO'
+  ],
+  SYSTEM_EVENTS: [
+    'SYSTEM_STARTUP', 'SYSTEM_SHUTDOWN', 'SYSTEM_ERROR', 'SYSTEM_WARNING', 'SYSTEM_INFO',
+    'SYSTEM_HEALTH', 'SYSTEM_METRIC', 'SYSTEM_CONFIG',
+    'SERVICE_STARTED', 'SERVICE_STOPPED', 'SERVICE_ERROR', 'SERVICE_WARNING', 'SERVICE_INFO',
+    'METRICS_COLLECTED', 'METRICS_ERROR', 'METRICS_WARNING', 'METRICS_INFO'
+  ]
+};
+
 /**
  * Extract the last part of a Redis key
  * For example, "auction:123:bids" will return "bids"
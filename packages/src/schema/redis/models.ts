@@ -6,6 +6,8 @@
  * and stored in Redis.
  */
 
+import type { AnnouncementKind } from '../../types/twitter.js';
+
 // Campaign State Models
 export interface CampaignState {
   id: string;
@@ -80,6 +82,61 @@ export interface AuctionBid {
   transactionHash?: string;
 }
 
+// Settlement State Models
+export type SettlementStatus =
+  | 'WINNER_DETERMINED' // Offer made to a bidder, payment not yet requested
+  | 'PAYMENT_REQUESTED' // Waiting for the bidder to pay
+  | 'PAID' // Payment confirmed, item not yet transferred
+  | 'EXPIRED' // Bidder didn't pay in time; moves on to the next offer
+  | 'SETTLED' // Item transferred to the paying bidder
+  | 'UNSOLD'; // Nobody left to offer the lot to
+
+export interface SettlementCandidate {
+  bidId: string; // Tweet ID of the bid
+  userId: string;
+  amount: string; // Decimal string
+  walletLinked?: boolean; // False if the bid came from an account without a verified wallet
+}
+
+export interface SettlementState {
+  auctionId: string;
+  marathonId: string; // Marathon or session the lot belongs to
+  lotOrder: number;
+  artItemId: string;
+  currency: string;
+  status: SettlementStatus;
+  candidates: SettlementCandidate[]; // Highest bid per bidder, best first
+  offerIndex: number; // Candidate currently being offered the lot
+  maxOffers: number;
+  paymentWindowMinutes: number;
+  paymentId?: string;
+  paymentDeadline?: string; // ISO date string
+  transactionHash?: string; // Payment transaction
+  transferTransactionHash?: string;
+  persisted: boolean; // Whether the lot has a row in the database
+  updatedAt: string; // ISO date string
+}
+
+// Wallet Link Challenges
+export interface WalletChallenge {
+  twitterId: string;
+  address: string; // Wallet the user asked to link
+  message: string; // Text the wallet has to sign
+  expiresAt: string; // ISO date string
+}
+
+// Announcement Models
+export interface AnnouncementRecord {
+  kind: AnnouncementKind;
+  marathonId: string;
+  lotId: string;
+  lotOrder: number;
+  campaignId?: string;
+  tweetIds: string[]; // Thread order; the first is the announcement itself
+  conversationId: string; // Replies to the announcement carry this conversation ID
+  postedAt: string; // ISO date string
+}
+
 export interface AuctionTimer {
   auctionId: string;
   startTime: string; // ISO date string
@@ -26,9 +26,74 @@ export interface MarathonConfig {
   endDate: string;
   currency: string;
   minBid: number;
-  bidIncrement: number;
+  bidIncrement: number; // Fixed amount, or percent of the current bid for PERCENTAGE
+  bidIncrementType?: BidIncrementType; // Defaults to FIXED
+  bidIncrementTiers?: BidIncrementTier[]; // Overrides bidIncrement by price band
+  allowSelfOutbid?: boolean; // Let the current high bidder raise their own bid
   auctionDuration: number; // in hours
   breakDuration: number; // in hours
+  softClose?: SoftCloseConfig;
+  settlement?: SettlementConfig;
+}
+
+/**
+ * Winner settlement settings
+ */
+export interface SettlementConfig {
+  paymentWindowMinutes: number; // How long each bidder has to pay
+  maxOffers: number; // Winner plus runner-ups to offer the lot to before it goes unsold
+}
+
+export type BidIncrementType = 'FIXED' | 'PERCENTAGE';
+
+/**
+ * Increment applied once the current bid reaches `from`. The tier with the
+ * highest `from` at or below the current bid wins.
+ */
+export interface BidIncrementTier {
+  from: number;
+  increment: number;
+  type?: BidIncrementType; // Defaults to FIXED
+}
+
+/**
+ * Where a bid came from
+ */
+export type BidSource = 'TWITTER' | 'WEBSITE' | 'API';
+
+/**
+ * Why a bid was not accepted
+ */
+export type BidRejectionReason =
+  | 'NO_ACTIVE_AUCTION'
+  | 'AUCTION_NOT_ACTIVE'
+  | 'AUCTION_CLOSED'
+  | 'CURRENCY_MISMATCH'
+  | 'BELOW_MIN_BID'
+  | 'BELOW_RESERVE'
+  | 'INCREMENT_TOO_SMALL'
+  | 'SELF_OUTBID';
+
+/**
+ * Anti-sniping soft close settings
+ *
+ * A bid accepted within the final window pushes the lot end time out so
+ * other bidders get a chance to respond.
+ */
+export interface SoftCloseConfig {
+  windowSeconds: number; // Final window in which a bid triggers an extension
+  extensionSeconds: number; // New end time is this long after the triggering bid
+  maxExtensions: number; // Cap on extensions per lot (0 disables soft close)
+}
+
+/**
+ * Artwork shown while a lot is on the block
+ */
+export interface LotArtwork {
+  name: string;
+  imageUrl: string;
+  animationUrl?: string;
+  description?: string;
 }
 
 /**
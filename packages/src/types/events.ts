@@ -5,13 +5,15 @@
  * These events are used for communication between services.
  */
 
+import type { BidRejectionReason, LotArtwork } from './auction.js';
+
 // Define keys as string literal types
 export type EventTypeKey = 
   // System Events
   | 'SYSTEM_STARTUP' | 'SYSTEM_SHUTDOWN' | 'SYSTEM_ERROR' | 'SYSTEM_WARNING' | 'SYSTEM_INFO'
   | 'SYSTEM_HEALTH' | 'SYSTEM_METRIC' | 'SYSTEM_CONFIG'
   // Auction Events
-  | 'AUCTION_START' | 'AUCTION_END' | 'AUCTION_STARTED' | 'AUCTION_ENDED' | 'AUCTION_CANCELLED'
+  | 'AUCTION_START' | 'AUCTION_END' | 'AUCTION_STARTED' | 'AUCTION_ENDED' | 'AUCTION_CANCELLED' | 'AUCTION_EXTENDED'
   // Bid Events
   | 'BID_PLACED' | 'BID_ACCEPTED' | 'BID_REJECTED'
   // Stream Events
@@ -29,6 +31,8 @@ export type EventTypeKey =
   | 'SESSION_START' | 'SESSION_PRE_AUCTION' | 'SESSION_AUCTION' | 'SESSION_POST_AUCTION' | 'SESSION_END'
   // Lot Events
   | 'LOT_START' | 'LOT_END' | 'WINNER_DETERMINED'
+  // Settlement Events
+  | 'PAYMENT_REQUESTED' | 'PAYMENT_RECEIVED' | 'PAYMENT_EXPIRED' | 'LOT_SETTLED'
   // Price Events
   | 'PRICE_UPDATED' | 'TIMER_UPDATED'
   // Scene Events
@@ -60,6 +64,7 @@ export const EVENT_TYPES = {
   AUCTION_STARTED: 'AUCTION_STARTED',
   AUCTION_ENDED: 'AUCTION_ENDED',
   AUCTION_CANCELLED: 'AUCTION_CANCELLED',
+  AUCTION_EXTENDED: 'auction:extended',
 
   // Bid Events
   BID_PLACED: 'lot:bid:placed',
@@ -117,6 +122,12 @@ export const EVENT_TYPES = {
   LOT_END: 'lot:end',
   WINNER_DETERMINED: 'lot:winner',
 
+  // Settlement Events
+  PAYMENT_REQUESTED: 'lot:payment:requested',
+  PAYMENT_RECEIVED: 'lot:payment:received',
+  PAYMENT_EXPIRED: 'lot:payment:expired',
+  LOT_SETTLED: 'lot:settled',
+
   // Price Events
   PRICE_UPDATED: 'auction:price:updated',
   TIMER_UPDATED: 'auction:timer:updated',
@@ -284,6 +295,7 @@ export interface LotStartEvent extends BaseEvent {
     lotId: string;
     sessionId: string;
     artItemId: string;
+    artItem?: LotArtwork;
     startTime: string; // ISO date string
     endTime: string; // ISO date string
     reservePrice?: string;
@@ -370,6 +382,8 @@ export interface BidRejectedEvent extends BaseEvent {
     currency: string;
     timestamp: string; // ISO date string
     reason: string;
+    reasonCode?: BidRejectionReason;
+    minimumAmount?: string; // Lowest amount that would have been accepted
   };
 }
 
@@ -385,6 +399,76 @@ export interface WinnerDeterminedEvent extends BaseEvent {
   };
 }
 
+// Settlement Events
+export interface PaymentRequestedEvent extends BaseEvent {
+  type: typeof EVENT_TYPES.PAYMENT_REQUESTED;
+  data: {
+    auctionId: string;
+    bidId: string;
+    userId: string;
+    amount: string;
+    currency: string;
+    paymentId: string;
+    expiresAt: string; // ISO date string
+    offerNumber: number; // 1 for the winner, 2 for the runner-up, ...
+    timestamp: string; // ISO date string
+  };
+}
+
+export interface PaymentReceivedEvent extends BaseEvent {
+  type: typeof EVENT_TYPES.PAYMENT_RECEIVED;
+  data: {
+    auctionId: string;
+    bidId: string;
+    userId: string;
+    amount: string;
+    currency: string;
+    paymentId: string;
+    transactionHash: string;
+    timestamp: string; // ISO date string
+  };
+}
+
+export interface PaymentExpiredEvent extends BaseEvent {
+  type: typeof EVENT_TYPES.PAYMENT_EXPIRED;
+  data: {
+    auctionId: string;
+    bidId: string;
+    userId: string;
+    paymentId: string;
+    nextBidId?: string; // Runner-up bid being offered the lot next
+    timestamp: string; // ISO date string
+  };
+}
+
+export interface LotSettledEvent extends BaseEvent {
+  type: typeof EVENT_TYPES.LOT_SETTLED;
+  data: {
+    auctionId: string;
+    outcome: 'SOLD' | 'UNSOLD';
+    bidId?: string;
+    userId?: string;
+    amount?: string;
+    currency: string;
+    transactionHash?: string; // Item transfer transaction
+    timestamp: string; // ISO date string
+  };
+}
+
+export interface AuctionExtendedEvent extends BaseEvent {
+  type: typeof EVENT_TYPES.AUCTION_EXTENDED;
+  data: {
+    auctionId: string;
+    lotOrder: number;
+    previousEndTime: string; // ISO date string
+    newEndTime: string; // ISO date string
+    extensionCount: number;
+    maxExtensions: number;
+    triggeringBidId: string;
+    timestamp: string; // ISO date string
+  };
+}
+
 export interface PriceUpdatedEvent extends BaseEvent {
   type: typeof EVENT_TYPES.PRICE_UPDATED;
   data: {
@@ -636,6 +720,11 @@ export type Event =
   | BidAcceptedEvent
   | BidRejectedEvent
   | WinnerDeterminedEvent
+  | PaymentRequestedEvent
+  | PaymentReceivedEvent
+  | PaymentExpiredEvent
+  | LotSettledEvent
+  | AuctionExtendedEvent
   | PriceUpdatedEvent
   | TimerUpdatedEvent
   | StreamStartEvent
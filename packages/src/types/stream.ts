@@ -100,6 +100,26 @@ export interface StreamOutput {
   key?: string;
 }
 
+/**
+ * A simulcast destination and the state of its relay, as listed by the
+ * stream manager's /outputs API
+ */
+export interface StreamOutputStatus {
+  id: string;
+  name: string;
+  url: string; // Stream key masked
+  enabled: boolean;
+  relay: {
+    state: 'IDLE' | 'CONNECTING' | 'LIVE' | 'RECONNECTING' | 'STOPPED';
+    bitrateKbps: number;
+    bytesSent: number;
+    connectedAt: number | null;
+    restarts: number;
+    lastError: string | null;
+    nextRetryAt: number | null;
+  } | null; // Null while disabled or while the stream is off
+}
+
 /**
  * State Manager Interface
  */
@@ -12,6 +12,7 @@ export interface TwitterApiTweet {
   text: string;
   author_id: string;
   created_at: string;
+  author?: TwitterUserProfile; // From the author_id expansion, when requested
   [key: string]: any; // Additional fields from Twitter API
 }
 
@@ -23,8 +24,10 @@ export interface TwitterBid {
   userId: string;      // Twitter user ID
   tweetId: string;     // Twitter tweet ID
   amount: number;      // Bid amount
+  currency?: string;   // Bid currency (defaults to the marathon currency)
   timestamp: Date;     // When the bid was placed
   rawContent: string;  // Raw tweet content
+  walletLinked?: boolean; // Whether the bidder had a verified wallet; unset if unknown
 }
 
 /**
@@ -82,6 +85,23 @@ export interface TwitterBroadcastConfig {
   isEnabled: boolean;
 }
 
+/**
+ * Auction announcement tweets, posted as a lot goes through its lifecycle
+ */
+export type AnnouncementKind = 'TEASER' | 'BIDDING_OPEN' | 'LAST_CALL' | 'RESULTS';
+
+/**
+ * Texts of the announcement tweets. `{placeholders}` are filled in from the
+ * lot; results and unsold are posted as threads, one tweet per entry.
+ */
+export interface AnnouncementTemplates {
+  teaser: string;
+  biddingOpen: string;
+  lastCall: string;
+  results: string[];
+  unsold: string[];
+}
+
 /**
  * Bid structure for database
  */
@@ -93,4 +113,37 @@ export interface BidData {
   auctionId: string;
   userId: string;
   tweetId: string;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Moderation of bid tweets
+ */
+export type ModerationList = 'DENY' | 'ALLOW';
+
+export type ModerationReason =
+  | 'RETWEET'
+  | 'DUPLICATE_QUOTE'
+  | 'DENYLISTED'
+  | 'ACCOUNT_TOO_NEW'
+  | 'RATE_LIMITED';
+
+export type ModerationDecision =
+  | { allowed: true; allowlisted?: boolean }
+  | { allowed: false; reason: ModerationReason; detail: string };
+
+/**
+ * Twitter engagement totals over a campaign's time range, refreshed by the
+ * tweet archive job
+ */
+export interface CampaignEngagement {
+  campaignId: string;
+  windowStart: Date;
+  windowEnd: Date;
+  mentions: number;
+  uniqueAuthors: number;
+  bidTweets: number;
+  bidTweetRatio: number; // bidTweets / mentions, 0 without mentions
+  backfilled: number; // Tweets the last run found that ingestion had missed
+  reparsed: number; // Unprocessed rows the last run parsed
+  lastRunAt: Date;
+}
@@ -0,0 +1,284 @@
+import type { RedisClientType } from 'redis';
+import { createLogger } from './logger.js';
+import { EVENT_TYPES } from '../types/events.js';
+import type { Event, EventTypeKey } from '../types/events.js';
+
+const logger = createLogger('DeadLetterQueue');
+
+/**
+ * How often, and how far apart, a failed event is retried
+ */
+export interface RetryPolicy {
+  // Failed attempts, counting the first delivery, before the event is quarantined
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  multiplier: 2
+};
+
+export type RetryPolicies = Partial<Record<EventTypeKey, Partial<RetryPolicy>>>;
+
+/**
+ * Delay before the next attempt, after the given number of failed attempts
+ */
+export function retryDelay(policy: RetryPolicy, attempts: number): number {
+  return Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, Math.max(0, attempts - 1)));
+}
+
+/**
+ * - retrying: waiting for its next automatic attempt at nextAttemptAt
+ * - quarantined: out of attempts, or poison; only retried by hand
+ */
+export type DeadLetterStatus = 'retrying' | 'quarantined';
+
+export interface DeadLetterEntry {
+  id: string;
+  // The event type whose handlers failed, or 'all'
+  subscription: string;
+  eventType?: string;
+  // The event as it was received
+  payload: string;
+  status: DeadLetterStatus;
+  attempts: number;
+  firstFailedAt: number;
+  lastFailedAt: number;
+  nextAttemptAt?: number;
+  lastError: string;
+  // Names of the handlers that failed, the only ones a retry runs; all of them if unset
+  failedHandlers?: string[];
+  // Couldn't be read or validated, or kept taking its consumer down
+  poison: boolean;
+}
+
+export interface DeadLetterFailure {
+  id: string;
+  subscription: string;
+  payload: string;
+  eventType?: string;
+  error: unknown;
+  failedHandlers?: string[];
+  // Quarantine straight away; retrying won't help
+  poison?: boolean;
+}
+
+export interface DeadLetterFilter {
+  status?: DeadLetterStatus;
+  eventType?: string;
+}
+
+export interface DeadLetterPage {
+  total: number;
+  entries: DeadLetterEntry[];
+}
+
+export interface DeadLetterStats {
+  depth: number;
+  retrying: number;
+  quarantined: number;
+  byType: Record<string, number>;
+}
+
+interface DeadLetterQueueOptions {
+  // Keeps each service's failures apart, since only its own handlers can retry them
+  service?: string;
+  retryPolicies?: RetryPolicies;
+  defaultRetryPolicy?: Partial<RetryPolicy>;
+}
+
+// A claimed entry comes back after this long if its retry never finishes
+const RETRY_LEASE_MS = 60000;
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+
+/**
+ * Dead letter queue for events whose handlers failed.
+ *
+ * Entries live in a hash keyed by entry ID, indexed by first failure time.
+ * Retrying entries are also in a sorted set scored by their next attempt,
+ * and quarantined ones in a sorted set scored by when they were quarantined.
+ */
+export class DeadLetterQueue {
+  private redis: RedisClientType;
+  private keys: { entries: string; index: string; retry: string; quarantine: string };
+  private defaultPolicy: RetryPolicy;
+  private policies = new Map<string, RetryPolicy>();
+
+  constructor(redisClient: RedisClientType, options: DeadLetterQueueOptions = {}) {
+    this.redis = redisClient;
+    const prefix = options.service ? `events:deadletter:${options.service}` : 'events:deadletter';
+    this.keys = {
+      entries: `${prefix}:entries`,
+      index: `${prefix}:index`,
+      retry: `${prefix}:retry`,
+      quarantine: `${prefix}:quarantine`
+    };
+    this.defaultPolicy = { ...DEFAULT_RETRY_POLICY, ...options.defaultRetryPolicy };
+    for (const [eventType, policy] of Object.entries(options.retryPolicies ?? {})) {
+      this.policies.set(EVENT_TYPES[eventType as EventTypeKey], { ...this.defaultPolicy, ...policy });
+    }
+  }
+
+  /**
+   * The retry policy for an event type
+   */
+  public policyFor(eventType?: string): RetryPolicy {
+    return (eventType && this.policies.get(eventType)) || this.defaultPolicy;
+  }
+
+  /**
+   * Record a failed attempt. The entry is scheduled for another attempt with
+   * exponential backoff, or quarantined once it is out of attempts.
+   */
+  public async recordFailure(failure: DeadLetterFailure): Promise<DeadLetterEntry> {
+    const now = Date.now();
+    const previous = await this.get(failure.id);
+    const attempts = (previous?.attempts ?? 0) + 1;
+    const policy = this.policyFor(failure.eventType);
+    const poison = failure.poison === true;
+    const quarantined = poison || attempts >= policy.maxAttempts;
+
+    const entry: DeadLetterEntry = {
+      id: failure.id,
+      subscription: failure.subscription,
+      ...(failure.eventType !== undefined && { eventType: failure.eventType }),
+      payload: failure.payload,
+      status: quarantined ? 'quarantined' : 'retrying',
+      attempts,
+      firstFailedAt: previous?.firstFailedAt ?? now,
+      lastFailedAt: now,
+      ...(!quarantined && { nextAttemptAt: now + retryDelay(policy, attempts) }),
+      lastError: errorMessage(failure.error),
+      ...(failure.failedHandlers !== undefined && { failedHandlers: failure.failedHandlers }),
+      poison
+    };
+
+    const transaction = this.redis
+      .multi()
+      .hSet(this.keys.entries, entry.id, JSON.stringify(entry))
+      .zAdd(this.keys.index, { score: entry.firstFailedAt, value: entry.id });
+    if (quarantined) {
+      transaction.zRem(this.keys.retry, entry.id).zAdd(this.keys.quarantine, { score: now, value: entry.id });
+    } else {
+      transaction.zRem(this.keys.quarantine, entry.id).zAdd(this.keys.retry, { score: entry.nextAttemptAt!, value: entry.id });
+    }
+    await transaction.exec();
+
+    const context = { entryId: entry.id, type: entry.eventType, attempts, error: entry.lastError };
+    if (quarantined) {
+      logger.error(poison ? 'Poison event quarantined' : 'Event quarantined after its last attempt', context);
+    } else {
+      logger.warn('Event dead-lettered for retry', { ...context, nextAttemptAt: new Date(entry.nextAttemptAt!).toISOString() });
+    }
+    return entry;
+  }
+
+  /**
+   * Store a failed event for a later retry
+   */
+  public async storeFailedEvent(event: Event, error: Error): Promise<void> {
+    try {
+      await this.recordFailure({
+        id: event.id,
+        subscription: event.type,
+        eventType: event.type,
+        payload: JSON.stringify(event),
+        error
+      });
+    } catch (err) {
+      logger.error('Failed to store event in dead letter queue', { err, eventId: event.id });
+    }
+  }
+
+  /**
+   * Take the entries that are due for another attempt. Each is leased rather
+   * than removed, so it comes back if the process dies mid-retry, and only
+   * one caller gets it.
+   */
+  public async claimDue(now: number = Date.now(), limit: number = 50): Promise<DeadLetterEntry[]> {
+    const ids = await this.redis.zRangeByScore(this.keys.retry, 0, now, { LIMIT: { offset: 0, count: limit } });
+    const claimed: DeadLetterEntry[] = [];
+    for (const id of ids) {
+      if (await this.redis.zRem(this.keys.retry, id) === 0) continue;
+      await this.redis.zAdd(this.keys.retry, { score: now + RETRY_LEASE_MS, value: id });
+      const entry = await this.get(id);
+      if (entry) claimed.push(entry);
+    }
+    return claimed;
+  }
+
+  public async get(id: string): Promise<DeadLetterEntry | null> {
+    const stored = await this.redis.hGet(this.keys.entries, id);
+    return stored ? JSON.parse(stored) as DeadLetterEntry : null;
+  }
+
+  /**
+   * Entries matching the filter, most recent first failure first
+   */
+  public async list(filter: DeadLetterFilter = {}, offset: number = 0, limit: number = 50): Promise<DeadLetterPage> {
+    const entries = (await this.all()).filter(entry =>
+      (!filter.status || entry.status === filter.status) &&
+      (!filter.eventType || entry.eventType === filter.eventType));
+    return { total: entries.length, entries: entries.slice(offset, offset + limit) };
+  }
+
+  /**
+   * Remove an entry once its event has been handled
+   */
+  public async resolve(id: string): Promise<boolean> {
+    const [removed] = await this.redis
+      .multi()
+      .hDel(this.keys.entries, id)
+      .zRem(this.keys.index, id)
+      .zRem(this.keys.retry, id)
+      .zRem(this.keys.quarantine, id)
+      .exec();
+    return Number(removed) > 0;
+  }
+
+  /**
+   * Delete entries without retrying them, returning how many were removed
+   */
+  public async purge(target: string[] | DeadLetterFilter = {}): Promise<number> {
+    const ids = Array.isArray(target)
+      ? target
+      : (await this.list(target, 0, Number.MAX_SAFE_INTEGER)).entries.map(entry => entry.id);
+    let purged = 0;
+    for (const id of ids) {
+      if (await this.resolve(id)) purged++;
+    }
+    if (purged > 0) {
+      logger.warn('Purged dead letter entries', { purged });
+    }
+    return purged;
+  }
+
+  public async stats(): Promise<DeadLetterStats> {
+    const [depth, retrying, quarantined] = await Promise.all([
+      this.redis.zCard(this.keys.index),
+      this.redis.zCard(this.keys.retry),
+      this.redis.zCard(this.keys.quarantine)
+    ]);
+    const byType: Record<string, number> = {};
+    for (const entry of await this.all()) {
+      const type = entry.eventType ?? 'unknown';
+      byType[type] = (byType[type] ?? 0) + 1;
+    }
+    return { depth, retrying, quarantined, byType };
+  }
+
+  // A dead letter queue stays small enough to read whole; a large one is an incident
+  private async all(): Promise<DeadLetterEntry[]> {
+    const ids = await this.redis.zRange(this.keys.index, 0, -1, { REV: true });
+    if (ids.length === 0) return [];
+    const stored = await this.redis.hmGet(this.keys.entries, ids);
+    return stored.filter((value): value is string => typeof value === 'string').map(value => JSON.parse(value) as DeadLetterEntry);
+  }
+}
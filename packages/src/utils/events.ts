@@ -1,32 +1,120 @@
+import { hostname } from 'os';
 import { createClient, type RedisClientType } from 'redis';
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from './logger.js';
+import { eventSchemas, EventSchemaError } from '../schema/events.js';
+import { DeadLetterQueue } from './dead-letter.js';
+import type { DeadLetterEntry, RetryPolicies, RetryPolicy } from './dead-letter.js';
 import { EVENT_TYPES, EVENT_SOURCES } from '../types/events.js';
 import type { BaseEvent, Event, EventTypeKey, EventType, EventSource, EventSourceKey } from '../types/events.js';
 
 const logger = createLogger('EventClient');
 
+/**
+ * How events travel between services:
+ * - pubsub: fire-and-forget Redis pub/sub; a service that is down misses events
+ * - streams: each event type is appended to a Redis Stream and read through a
+ *   consumer group per service, so unacknowledged events are redelivered
+ */
+export type EventBusMode = 'pubsub' | 'streams';
+
+type EventHandler = (event: Event) => Promise<void>;
+
 interface EventClientOptions {
   redisUrl: string;
   serviceName: EventSourceKey;
   eventHistoryMaxItems?: number;
+  mode?: EventBusMode;
+  // Streams mode: identifies this instance within the service's consumer group
+  consumerName?: string;
+  // Streams mode: approximate number of entries kept per stream
+  streamMaxLength?: number;
+  // Streams mode: how long an entry stays unacknowledged before another consumer takes it over
+  pendingIdleMs?: number;
+  // Streams mode: retry policies for events whose handlers fail, per event type
+  retryPolicies?: RetryPolicies;
+  defaultRetryPolicy?: Partial<RetryPolicy>;
+  // Streams mode: how often the dead letter queue is checked for due retries
+  deadLetterPollMs?: number;
+}
+
+// Streams mode keys. Every event goes to its type's stream and to the all-events stream.
+const EVENT_STREAM_PREFIX = 'events:log';
+const ALL_EVENTS = 'all';
+const STREAM_READ_COUNT = 50;
+const STREAM_BLOCK_MS = 2000;
+const STREAM_ERROR_DELAY_MS = 1000;
+
+export const eventStreamKey = (eventType: EventType | typeof ALL_EVENTS): string => `${EVENT_STREAM_PREFIX}:${eventType}`;
+
+// Streams mode: each event's entry in the all-events stream, so replayEvent can
+// read it without scanning the stream. Kept for a week; by then the entry has
+// usually been trimmed.
+const eventEntryKey = (eventId: string): string => `${EVENT_STREAM_PREFIX}:entry:${eventId}`;
+const EVENT_ENTRY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface StreamEntry {
+  id: string;
+  message: Record<string, string>;
+}
+
+export interface SubscribeOptions {
+  // Streams mode: names the handler in dead letters, so a retry reruns only the
+  // handlers that failed. Defaults to its position among the subscription's handlers.
+  name?: string;
+}
+
+export interface DeadLetterRetryResult {
+  id: string;
+  outcome: 'succeeded' | 'failed' | 'not_found';
+  entry?: DeadLetterEntry;
 }
 
 export class EventClient {
   private redis: RedisClientType;
   private pubClient: RedisClientType;
   private subClient: RedisClientType;
+  private liveClient: RedisClientType;
+  private liveConnected = false;
   private serviceName: EventSource;
   private connected: boolean = false;
   private eventHistoryMaxItems: number;
-  private subscribers: Map<EventType, Set<(event: Event) => Promise<void>>> = new Map();
+  private subscribers: Map<EventType, Set<EventHandler>> = new Map();
+  private listeners: Map<EventType, Set<EventHandler>> = new Map();
+  private handlerNames = new WeakMap<EventHandler, string>();
+  private mode: EventBusMode;
+  private consumerName: string;
+  private streamMaxLength: number;
+  private pendingIdleMs: number;
+  private started = false;
+  private consuming: Promise<void> | null = null;
+  private unreplayed = new Set<EventType | typeof ALL_EVENTS>();
+  private claimTimer: NodeJS.Timeout | null = null;
+  private claiming = false;
+  private deadLetters: DeadLetterQueue;
+  private deadLetterPollMs: number;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private retrying = false;
 
   constructor(options: EventClientOptions) {
     this.redis = createClient({ url: options.redisUrl });
     this.pubClient = this.redis.duplicate();
     this.subClient = this.redis.duplicate();
+    // Connected on the first listen(); streams mode keeps subClient busy with blocking reads
+    this.liveClient = this.redis.duplicate();
     this.serviceName = EVENT_SOURCES[options.serviceName];
     this.eventHistoryMaxItems = options.eventHistoryMaxItems || 1000;
+    this.mode = options.mode || 'pubsub';
+    // A stable name lets a restarted instance pick up its own unacknowledged entries
+    this.consumerName = options.consumerName || hostname();
+    this.streamMaxLength = options.streamMaxLength || 100000;
+    this.pendingIdleMs = options.pendingIdleMs || 30000;
+    this.deadLetters = new DeadLetterQueue(this.redis, {
+      service: this.serviceName,
+      ...(options.retryPolicies !== undefined && { retryPolicies: options.retryPolicies }),
+      ...(options.defaultRetryPolicy !== undefined && { defaultRetryPolicy: options.defaultRetryPolicy })
+    });
+    this.deadLetterPollMs = options.deadLetterPollMs || 1000;
     
     // Setup connection event handlers
     this.setupConnectionHandlers();
@@ -46,6 +134,16 @@ export class EventClient {
     this.subClient.on('error', (err) => logger.error('Redis subscriber error', { err }));
     this.subClient.on('connect', () => logger.info('Redis subscriber connected'));
     this.subClient.on('message', this.handleMessage.bind(this));
+
+    // Setup handlers for live listener client
+    this.liveClient.on('error', (err) => logger.error('Redis live listener error', { err }));
+  }
+
+  /**
+   * The consumer group this service reads streams through
+   */
+  private get consumerGroup(): string {
+    return this.serviceName;
   }
 
   /**
@@ -74,6 +172,13 @@ export class EventClient {
     return this.redis;
   }
 
+  /**
+   * Get this service's dead letter queue (streams mode)
+   */
+  public getDeadLetterQueue(): DeadLetterQueue {
+    return this.deadLetters;
+  }
+
   /**
    * Disconnect the Redis clients
    */
@@ -81,10 +186,17 @@ export class EventClient {
     if (!this.connected) return;
     
     try {
+      this.stopConsuming();
       await this.pubClient.disconnect();
       await this.subClient.disconnect();
+      if (this.liveConnected) {
+        await this.liveClient.disconnect();
+        this.liveConnected = false;
+      }
       await this.redis.disconnect();
       this.connected = false;
+      this.started = false;
+      await this.consuming;
       logger.info('Event client disconnected from Redis');
     } catch (error) {
       logger.error('Error disconnecting from Redis', { error });
@@ -101,7 +213,7 @@ export class EventClient {
       timestamp: Date.now(),
       type,
       source: this.serviceName,
-      version: '1.0.0'
+      version: eventSchemas.currentVersion(type)
     };
   }
 
@@ -118,12 +230,26 @@ export class EventClient {
 
     const type = EVENT_TYPES[eventType];
     const baseEvent = this.createBaseEvent(type);
+
+    // Catch a malformed payload here rather than in every consumer
+    const issues = eventSchemas.checkPayload(type, data);
+    if (issues.length > 0) {
+      logger.error('Refusing to publish event that does not match its schema', { type, version: baseEvent.version, issues });
+      throw new EventSchemaError(type, baseEvent.version, issues);
+    }
+
     const event = { ...baseEvent, data } as T;
     const eventId = event.id;
     
     try {
       const eventString = JSON.stringify(event);
       const channel = `events:${type}`;
+
+      // In streams mode the stream is the record of the event; pub/sub still
+      // goes out afterwards for listeners that only want live events
+      if (this.mode === 'streams') {
+        await this.appendToStreams(event.type, eventId, eventString);
+      }
       
       // Publish to the event-specific channel
       await this.pubClient.publish(channel, eventString);
@@ -131,8 +257,10 @@ export class EventClient {
       // Publish to the all-events channel
       await this.pubClient.publish('events:all', eventString);
       
-      // Store in the event history
-      await this.storeEventHistory(event);
+      if (this.mode === 'pubsub') {
+        // Store in the event history
+        await this.storeEventHistory(event);
+      }
       
       logger.info('Event published successfully', { eventId, type });
       return eventId;
@@ -142,6 +270,36 @@ export class EventClient {
     }
   }
 
+  /**
+   * Append an event to its type's stream and the all-events stream, trimmed
+   * to roughly streamMaxLength entries each, and note its all-events entry ID
+   */
+  private async appendToStreams(type: EventType, eventId: string, eventString: string): Promise<void> {
+    const options = { TRIM: { strategy: 'MAXLEN' as const, strategyModifier: '~' as const, threshold: this.streamMaxLength } };
+    const [, entryId] = await this.pubClient
+      .multi()
+      .xAdd(eventStreamKey(type), '*', { event: eventString }, options)
+      .xAdd(eventStreamKey(ALL_EVENTS), '*', { event: eventString }, options)
+      .exec();
+    await this.pubClient.set(eventEntryKey(eventId), String(entryId), { EX: EVENT_ENTRY_TTL_SECONDS });
+  }
+
+  /**
+   * An event's payload, looked up through its all-events stream entry in
+   * streams mode or found in the history list in pub/sub mode
+   */
+  private async findEvent(eventId: string): Promise<string | undefined> {
+    if (this.mode === 'streams') {
+      const entryId = await this.redis.get(eventEntryKey(eventId));
+      if (!entryId) return undefined;
+      const [entry] = await this.redis.xRange(eventStreamKey(ALL_EVENTS), entryId, entryId);
+      return entry?.message['event'];
+    }
+
+    const history = await this.redis.lRange('events:history:all', 0, -1);
+    return history.find((eventString) => JSON.parse(eventString).id === eventId);
+  }
+
   /**
    * Store the event in the history list, with length limit
    */
@@ -167,21 +325,34 @@ export class EventClient {
    */
   public async subscribe(
     eventType: EventType,
-    handler: (event: Event) => Promise<void>
+    handler: (event: Event) => Promise<void>,
+    options: SubscribeOptions = {}
   ): Promise<void> {
     if (!this.connected) {
       throw new Error('Cannot subscribe: Redis client not connected');
     }
 
     try {
+      if (options.name !== undefined) this.handlerNames.set(handler, options.name);
       const channel = `events:${eventType}`;
       
       // Register the handler for this event type
       if (!this.subscribers.has(eventType)) {
-        this.subscribers.set(eventType, new Set());
-        // Subscribe to Redis channel if this is the first handler
-        await this.subClient.subscribe(channel, this.handleMessage.bind(this));
-        logger.info('Subscribed to event channel', { eventType, channel });
+        if (this.mode === 'streams') {
+          this.subscribers.set(eventType, new Set([handler]));
+          try {
+            await this.joinStream(eventType);
+          } catch (error) {
+            this.subscribers.delete(eventType);
+            throw error;
+          }
+          if (this.started) this.startConsuming();
+        } else {
+          this.subscribers.set(eventType, new Set());
+          // Subscribe to Redis channel if this is the first handler
+          await this.subClient.subscribe(channel, this.handleMessage.bind(this));
+          logger.info('Subscribed to event channel', { eventType, channel });
+        }
       }
       
       // Add this handler to the set of handlers for this event type
@@ -197,21 +368,34 @@ export class EventClient {
    * Subscribe to all events
    */
   public async subscribeAll(
-    handler: (event: Event) => Promise<void>
+    handler: (event: Event) => Promise<void>,
+    options: SubscribeOptions = {}
   ): Promise<void> {
     if (!this.connected) {
       throw new Error('Cannot subscribe: Redis client not connected');
     }
 
     try {
+      if (options.name !== undefined) this.handlerNames.set(handler, options.name);
       const channel = 'events:all';
       
       // Register handler for all events
       if (!this.subscribers.has('all' as EventType)) {
-        this.subscribers.set('all' as EventType, new Set());
-        // Subscribe to all events channel
-        await this.subClient.subscribe(channel, this.handleMessage.bind(this));
-        logger.info('Subscribed to all events channel', { channel });
+        if (this.mode === 'streams') {
+          this.subscribers.set('all' as EventType, new Set([handler]));
+          try {
+            await this.joinStream(ALL_EVENTS);
+          } catch (error) {
+            this.subscribers.delete('all' as EventType);
+            throw error;
+          }
+          if (this.started) this.startConsuming();
+        } else {
+          this.subscribers.set('all' as EventType, new Set());
+          // Subscribe to all events channel
+          await this.subClient.subscribe(channel, this.handleMessage.bind(this));
+          logger.info('Subscribed to all events channel', { channel });
+        }
       }
       
       // Add this handler to the set of handlers for all events
@@ -223,6 +407,40 @@ export class EventClient {
     }
   }
 
+  /**
+   * Listen to the live pub/sub messages of an event type, in either mode.
+   * Every instance of a service hears every event as it is published, but
+   * nothing is acknowledged, retried or caught up on after a restart: use it
+   * to pass events on to connected clients, and subscribe for work that has
+   * to happen.
+   */
+  public async listen(eventType: EventType, handler: EventHandler): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Cannot listen: Redis client not connected');
+    }
+
+    try {
+      if (!this.liveConnected) {
+        await this.liveClient.connect();
+        this.liveConnected = true;
+      }
+
+      const handlers = this.listeners.get(eventType);
+      if (handlers) {
+        handlers.add(handler);
+        return;
+      }
+
+      this.listeners.set(eventType, new Set([handler]));
+      const channel = `events:${eventType}`;
+      await this.liveClient.subscribe(channel, (message) => this.handleMessage(message, channel, this.listeners));
+      logger.info('Listening to live events', { eventType, channel });
+    } catch (error) {
+      logger.error('Failed to listen to live events', { error, eventType });
+      throw error;
+    }
+  }
+
   /**
    * Unsubscribe a handler from a specific event type
    */
@@ -244,7 +462,15 @@ export class EventClient {
     handlers.delete(handler);
     
     // If no more handlers for this event type, unsubscribe from Redis channel
-    if (handlers.size === 0) {
+    if (handlers.size === 0 && this.mode === 'streams') {
+      // The group keeps its position, so a later subscribe resumes from there
+      this.subscribers.delete(eventType);
+      this.unreplayed.delete(eventType);
+      if (this.subscribers.size === 0) {
+        this.stopConsuming();
+      }
+      logger.info('Stopped reading event stream', { eventType });
+    } else if (handlers.size === 0) {
       try {
         const channel = `events:${eventType}`;
         await this.subClient.unsubscribe(channel);
@@ -260,16 +486,25 @@ export class EventClient {
   /**
    * Handle incoming Redis messages
    */
-  private async handleMessage(message: string, channel: string): Promise<void> {
+  private async handleMessage(
+    message: string,
+    channel: string,
+    subscribers: Map<EventType, Set<EventHandler>> = this.subscribers
+  ): Promise<void> {
     try {
-      const event = JSON.parse(message) as Event;
+      const result = eventSchemas.read(JSON.parse(message));
+      if (!result.success) {
+        logger.error('Dropping event that does not match its schema', { channel, issues: result.issues });
+        return;
+      }
+      const event = result.event;
       const eventType = event.type;
       
       // Get handlers for this specific event type
-      const typeHandlers = this.subscribers.get(eventType);
+      const typeHandlers = subscribers.get(eventType);
       
       // Get handlers for all events
-      const allHandlers = this.subscribers.get('all' as EventType);
+      const allHandlers = subscribers.get('all' as EventType);
       
       // Call all handlers for this event type
       if (typeHandlers && typeHandlers.size > 0) {
@@ -297,6 +532,320 @@ export class EventClient {
     }
   }
 
+  /**
+   * Create this service's consumer group on a stream if it doesn't exist yet.
+   * A new group starts at the end of the stream; an existing one keeps the
+   * position of its last delivered entry, which is how consumers resume.
+   */
+  private async joinStream(eventType: EventType | typeof ALL_EVENTS): Promise<void> {
+    const key = eventStreamKey(eventType);
+    try {
+      await this.redis.xGroupCreate(key, this.consumerGroup, '$', { MKSTREAM: true });
+      logger.info('Created consumer group', { stream: key, group: this.consumerGroup });
+    } catch (error) {
+      if (!(error instanceof Error && error.message.startsWith('BUSYGROUP'))) {
+        throw error;
+      }
+    }
+    // Replayed by the read loop, once start() says every handler is registered
+    this.unreplayed.add(eventType);
+    logger.info('Joined event stream', { stream: key, group: this.consumerGroup, consumer: this.consumerName });
+  }
+
+  /**
+   * Handle the entries this consumer read but never acknowledged on a
+   * stream, e.g. before a restart
+   */
+  private async replayOwnPending(eventType: EventType | typeof ALL_EVENTS): Promise<void> {
+    const key = eventStreamKey(eventType);
+    let lastId = '0';
+    for (;;) {
+      const reply = await this.redis.xReadGroup(this.consumerGroup, this.consumerName, { key, id: lastId }, { COUNT: STREAM_READ_COUNT });
+      const entries = (reply?.[0]?.messages ?? []) as StreamEntry[];
+      if (entries.length === 0) break;
+      for (const entry of entries) {
+        await this.handleStreamEntry(key, entry);
+      }
+      lastId = entries[entries.length - 1]!.id;
+    }
+    this.unreplayed.delete(eventType);
+    logger.info('Reading event stream', { stream: key, group: this.consumerGroup, consumer: this.consumerName });
+  }
+
+  /**
+   * Start delivering stream entries to the subscribed handlers (streams mode).
+   * Call it once all the handlers are subscribed: an entry left pending from
+   * before a restart is acknowledged after one pass over the handlers that
+   * exist at that point. Later subscriptions are read as they are made.
+   * In pubsub mode handlers receive events as soon as they subscribe.
+   */
+  public start(): void {
+    if (!this.connected) {
+      throw new Error('Cannot start: Redis client not connected');
+    }
+    this.started = true;
+    if (this.mode === 'streams' && this.subscribers.size > 0) {
+      this.startConsuming();
+    }
+  }
+
+  /**
+   * Start the read loop and the pending-entry retries, if not already running
+   */
+  private startConsuming(): void {
+    if (this.consuming) return;
+
+    this.claimTimer = setInterval(() => {
+      void this.claimPending();
+    }, this.pendingIdleMs);
+    this.retryTimer = setInterval(() => {
+      void this.retryDueDeadLetters();
+    }, this.deadLetterPollMs);
+    this.consuming = this.consumeStreams().finally(() => {
+      this.consuming = null;
+    });
+  }
+
+  private stopConsuming(): void {
+    if (this.claimTimer) {
+      clearInterval(this.claimTimer);
+      this.claimTimer = null;
+    }
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Block on the subscribed streams for new entries until there is nothing
+   * left to read or the client disconnects
+   */
+  private async consumeStreams(): Promise<void> {
+    // stopConsuming clears the claim timer, which also ends this loop
+    while (this.connected && this.claimTimer && this.subscribers.size > 0) {
+      try {
+        for (const eventType of Array.from(this.unreplayed)) {
+          await this.replayOwnPending(eventType);
+        }
+      } catch (error) {
+        if (!this.connected || !this.claimTimer) break;
+        logger.error('Failed to replay pending events', { error });
+        await new Promise((resolve) => setTimeout(resolve, STREAM_ERROR_DELAY_MS));
+        continue;
+      }
+
+      const streams = Array.from(this.subscribers.keys()).map((eventType) => ({ key: eventStreamKey(eventType), id: '>' }));
+      try {
+        const reply = await this.subClient.xReadGroup(this.consumerGroup, this.consumerName, streams, {
+          COUNT: STREAM_READ_COUNT,
+          BLOCK: STREAM_BLOCK_MS
+        });
+        for (const stream of reply ?? []) {
+          for (const entry of stream.messages as StreamEntry[]) {
+            await this.handleStreamEntry(String(stream.name), entry);
+          }
+        }
+      } catch (error) {
+        if (!this.connected || !this.claimTimer) break;
+        logger.error('Failed to read event streams', { error });
+        await new Promise((resolve) => setTimeout(resolve, STREAM_ERROR_DELAY_MS));
+      }
+    }
+  }
+
+  /**
+   * Take over entries that have gone unacknowledged for pendingIdleMs because
+   * the consumer that read them went away. An entry that has been delivered
+   * more often than its retry policy allows keeps taking its consumer down,
+   * so it is quarantined instead.
+   */
+  private async claimPending(): Promise<void> {
+    if (this.claiming || !this.connected) return;
+    this.claiming = true;
+
+    try {
+      for (const eventType of Array.from(this.subscribers.keys())) {
+        const key = eventStreamKey(eventType);
+        await this.quarantineCrashLoops(key, eventType);
+        let start = '0-0';
+        do {
+          const { nextId, messages } = await this.redis.xAutoClaim(key, this.consumerGroup, this.consumerName, this.pendingIdleMs, start, {
+            COUNT: STREAM_READ_COUNT
+          });
+          for (const entry of messages) {
+            if (entry) {
+              logger.warn('Retrying pending event', { stream: key, entryId: entry.id });
+              await this.handleStreamEntry(key, entry as StreamEntry);
+            }
+          }
+          start = String(nextId);
+        } while (start !== '0-0');
+      }
+    } catch (error) {
+      logger.error('Failed to claim pending events', { error });
+    } finally {
+      this.claiming = false;
+    }
+  }
+
+  private async quarantineCrashLoops(key: string, subscription: EventType): Promise<void> {
+    const maxAttempts = this.deadLetters.policyFor(subscription).maxAttempts;
+    const pending = await this.redis.xPendingRange(key, this.consumerGroup, '-', '+', STREAM_READ_COUNT, { IDLE: this.pendingIdleMs });
+    for (const { id, deliveriesCounter } of pending) {
+      if (deliveriesCounter <= maxAttempts) continue;
+      const [entry] = await this.redis.xRange(key, String(id), String(id));
+      await this.deadLetters.recordFailure({
+        id: String(id),
+        subscription,
+        payload: entry?.message['event'] ?? '',
+        error: `Delivered ${deliveriesCounter} times without being acknowledged`,
+        poison: true
+      });
+      await this.redis.xAck(key, this.consumerGroup, String(id));
+    }
+  }
+
+  /**
+   * Run a stream entry's handlers and acknowledge it. An event whose handlers
+   * fail goes to the dead letter queue to be retried there; one that can't be
+   * read is quarantined. If the dead letter queue can't be written, the entry
+   * stays pending and is picked up again by claimPending.
+   */
+  private async handleStreamEntry(key: string, entry: StreamEntry): Promise<void> {
+    const subscription = key.slice(EVENT_STREAM_PREFIX.length + 1) as EventType;
+    const payload = entry.message['event'] ?? '';
+    try {
+      const { event, error: readError } = this.readEvent(payload);
+      if (!event) {
+        // Retrying won't make it parse or match its schema
+        logger.error('Quarantining unreadable stream entry', { error: readError, stream: key, entryId: entry.id });
+        await this.deadLetters.recordFailure({ id: entry.id, subscription, payload, error: readError, poison: true });
+      } else {
+        const { failedHandlers, error } = await this.runHandlers(this.namedHandlers(subscription), event);
+        if (failedHandlers.length > 0) {
+          logger.error('Error in event handler, dead-lettering event', { error, failedHandlers, eventId: event.id, type: event.type, entryId: entry.id });
+          await this.deadLetters.recordFailure({
+            id: this.deadLetterId(subscription, event),
+            subscription,
+            eventType: event.type,
+            payload,
+            error,
+            failedHandlers
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to dead-letter stream entry, leaving it pending', { error, stream: key, entryId: entry.id });
+      return;
+    }
+
+    await this.redis.xAck(key, this.consumerGroup, entry.id);
+  }
+
+  /**
+   * The event in a stream entry, upcast to its current version, or why it can't be read
+   */
+  private readEvent(payload: string): { event: Event; error?: undefined } | { event?: undefined; error: string } {
+    try {
+      return { event: eventSchemas.parse(JSON.parse(payload)) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Unreadable event' };
+    }
+  }
+
+  // One entry per event and subscription, so a later failure updates the same entry
+  private deadLetterId(subscription: string, event: Event): string {
+    return subscription === event.type ? event.id : `${event.id}:${subscription}`;
+  }
+
+  /**
+   * The handlers for a subscription by name, limited to the given names if any
+   */
+  private namedHandlers(subscription: EventType, only?: string[]): Array<[string, EventHandler]> {
+    const handlers = Array.from(this.subscribers.get(subscription) ?? []);
+    const named = handlers.map((handler, index): [string, EventHandler] => [this.handlerNames.get(handler) ?? `#${index + 1}`, handler]);
+    return only ? named.filter(([name]) => only.includes(name)) : named;
+  }
+
+  /**
+   * Run the handlers for a subscription, returning the names of the ones that
+   * failed and the first error
+   */
+  private async runHandlers(
+    handlers: Array<[string, EventHandler]>,
+    event: Event
+  ): Promise<{ failedHandlers: string[]; error?: unknown }> {
+    const results = await Promise.allSettled(handlers.map(([, handler]) => handler(event)));
+    const failedHandlers = handlers.filter((_, index) => results[index]?.status === 'rejected').map(([name]) => name);
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    return { failedHandlers, error: failed?.reason };
+  }
+
+  /**
+   * Retry the dead-lettered events that are due, with this instance's handlers
+   */
+  private async retryDueDeadLetters(): Promise<void> {
+    if (this.retrying || !this.connected) return;
+    this.retrying = true;
+
+    try {
+      const due = await this.deadLetters.claimDue(Date.now(), STREAM_READ_COUNT);
+      for (const entry of due) {
+        await this.redeliver(entry);
+      }
+    } catch (error) {
+      logger.error('Failed to retry dead-lettered events', { error });
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  /**
+   * Retry a dead-lettered event now, whatever its status
+   */
+  public async retryDeadLetter(id: string): Promise<DeadLetterRetryResult> {
+    const entry = await this.deadLetters.get(id);
+    if (!entry) {
+      return { id, outcome: 'not_found' };
+    }
+    return this.redeliver(entry);
+  }
+
+  private async redeliver(entry: DeadLetterEntry): Promise<DeadLetterRetryResult> {
+    const subscription = entry.subscription as EventType;
+    const { event, error: readError } = this.readEvent(entry.payload);
+    // An unreadable event may read now, e.g. once a schema for its version is deployed
+    let error: unknown = readError;
+    // Handlers that already succeeded for this event aren't run again
+    let failedHandlers = entry.failedHandlers;
+    const handlers = this.namedHandlers(subscription, entry.failedHandlers);
+    if (event && handlers.length === 0) {
+      error = `No handlers for ${subscription} in this consumer`;
+    } else if (event) {
+      const result = await this.runHandlers(handlers, event);
+      failedHandlers = result.failedHandlers;
+      error = result.failedHandlers.length > 0 ? result.error ?? 'Handler failed' : undefined;
+    }
+
+    if (error === undefined) {
+      await this.deadLetters.resolve(entry.id);
+      logger.info('Dead-lettered event handled', { entryId: entry.id, type: entry.eventType, attempts: entry.attempts + 1 });
+      return { id: entry.id, outcome: 'succeeded' };
+    }
+
+    const updated = await this.deadLetters.recordFailure({
+      id: entry.id,
+      subscription: entry.subscription,
+      ...(entry.eventType !== undefined && { eventType: entry.eventType }),
+      payload: entry.payload,
+      error,
+      ...(failedHandlers !== undefined && { failedHandlers }),
+      poison: !event
+    });
+    return { id: entry.id, outcome: 'failed', entry: updated };
+  }
+
   /**
    * Get events from history
    */
@@ -309,6 +858,11 @@ export class EventClient {
     }
 
     try {
+      if (this.mode === 'streams') {
+        const entries = await this.redis.xRevRange(eventStreamKey(eventType ?? ALL_EVENTS), '+', '-', { COUNT: limit });
+        return entries.map((entry) => JSON.parse(entry.message['event'] ?? '')) as Event[];
+      }
+
       const key = eventType ? `events:history:${eventType}` : 'events:history:all';
       const results = await this.redis.lRange(key, 0, limit - 1);
       
@@ -328,12 +882,7 @@ export class EventClient {
     }
 
     try {
-      // Find the event in the history
-      const allEvents = await this.redis.lRange('events:history:all', 0, -1);
-      const eventToReplay = allEvents.find((eventString) => {
-        const parsed = JSON.parse(eventString);
-        return parsed.id === eventId;
-      });
+      const eventToReplay = await this.findEvent(eventId);
       
       if (!eventToReplay) {
         logger.warn('Event not found for replay', { eventId });
@@ -342,6 +891,10 @@ export class EventClient {
       
       const event = JSON.parse(eventToReplay) as Event;
       const channel = `events:${event.type}`;
+
+      if (this.mode === 'streams') {
+        await this.appendToStreams(event.type, event.id, eventToReplay);
+      }
       
       // Publish the event again
       await this.pubClient.publish(channel, eventToReplay);